@@ -1,6 +1,7 @@
 import { Readability } from '@mozilla/readability';
 import { JSDOM } from 'jsdom';
 import TurndownService from 'turndown';
+import { detectSiteExtractor, findSiteExtractor } from './siteExtractors.js';
 
 const turndown = new TurndownService({
     headingStyle: 'atx',
@@ -36,6 +37,8 @@ export interface ExtractedArticle {
     contentMd: string;     // Markdown
     excerpt: string | null;
     siteName: string | null;
+    /** Set by site extractors for video pages, to hand the video to transcription. */
+    videoUrl?: string;
 }
 
 const UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
@@ -79,6 +82,9 @@ export function isLikelyArticle(url: string): boolean {
     const host = parsed.hostname.toLowerCase();
     const path = parsed.pathname.toLowerCase();
 
+    // Pages with a site-specific extractor (e.g. YouTube videos) are worth extracting even on skipped hosts
+    if (findSiteExtractor(url)) return true;
+
     // Skip shorteners and social media (t.co never redirects to final URL server-side, so skip to avoid wasted extraction)
     const skipHosts = [
         't.co', 'tw.co', 'x.com', 'twitter.com', 'pic.twitter.com',
@@ -97,10 +103,22 @@ export function isLikelyArticle(url: string): boolean {
 }
 
 /**
- * Fetch a URL and extract the article content using Readability.
+ * Fetch a URL and extract the article content, with the site's own extractor when one
+ * matches by URL or, once the page is fetched, by its content (see siteExtractors.ts), and
+ * Readability otherwise or when that finds nothing.
  * Retries up to EXTRACT_RETRIES times on fetch failure.
  */
 export async function extractArticle(url: string): Promise<ExtractedArticle | null> {
+    const site = findSiteExtractor(url);
+    if (site) {
+        try {
+            const article = await withRetry(() => site.extract(new URL(url)), EXTRACT_RETRIES);
+            if (article) return article;
+        } catch (error) {
+            console.error(`[ArticleExtractor] ${site.name} extractor failed for ${url}, falling back to Readability:`, error);
+        }
+    }
+
     const fetchAndParse = async (): Promise<ExtractedArticle | null> => {
         const response = await fetch(url, {
             headers: {
@@ -119,6 +137,18 @@ export async function extractArticle(url: string): Promise<ExtractedArticle | nu
 
         const html = await response.text();
         const dom = new JSDOM(html, { url });
+
+        // Substack and Medium publications on their own domains, recognised by the page
+        const detected = site ? null : detectSiteExtractor(url, dom.window.document);
+        if (detected) {
+            try {
+                const article = await detected.extract(new URL(url), html);
+                if (article) return article;
+            } catch (error) {
+                console.error(`[ArticleExtractor] ${detected.name} extractor failed for ${url}, falling back to Readability:`, error);
+            }
+        }
+
         const reader = new Readability(dom.window.document);
         const article = reader.parse();
 
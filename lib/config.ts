@@ -5,6 +5,7 @@
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
+import { parseUserscriptFeatures, type UserscriptFeatures } from './userscript.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -19,6 +20,13 @@ export interface Config {
   ytDlpPath: string | null;
   ffmpegPath: string | null;
   ffprobePath: string | null;
+  /** Days a bookmark stays in the trash before it is purged for good. */
+  trashRetentionDays: number;
+  /** Base URL the userscript should call; defaults to the host it was downloaded from. */
+  publicUrl: string | null;
+  /** When set, userscript uploads must send it as a Bearer token. Baked into the served userscript. */
+  apiToken: string | null;
+  userscriptFeatures: UserscriptFeatures;
 }
 
 function resolveOptionalPath(envValue: string | undefined, exeName: string): string | null {
@@ -39,6 +47,11 @@ export function loadConfig(): Config {
   const ytDlpPath = resolveOptionalPath(process.env.XMARKS_YT_DLP_PATH, 'yt-dlp.exe');
   const ffmpegPath = resolveOptionalPath(process.env.XMARKS_FFMPEG_PATH, 'ffmpeg.exe');
   const ffprobePath = resolveOptionalPath(process.env.XMARKS_FFPROBE_PATH, 'ffprobe.exe');
+  const retention = Number(process.env.XMARKS_TRASH_RETENTION_DAYS);
+  const trashRetentionDays = Number.isFinite(retention) && retention > 0 ? retention : 30;
+  const publicUrl = process.env.XMARKS_PUBLIC_URL?.trim() || null;
+  const apiToken = process.env.XMARKS_API_TOKEN?.trim() || null;
+  const userscriptFeatures = parseUserscriptFeatures(process.env.XMARKS_USERSCRIPT_FEATURES);
 
   return {
     dataDir,
@@ -46,6 +59,10 @@ export function loadConfig(): Config {
     ytDlpPath,
     ffmpegPath,
     ffprobePath,
+    trashRetentionDays,
+    publicUrl,
+    apiToken,
+    userscriptFeatures,
   };
 }
 
@@ -1,18 +1,61 @@
 import Database from 'better-sqlite3';
+import { parseSearchQuery, compileSearchQuery } from './searchQuery.js';
+import type { HasValue, SearchFilter } from './searchQuery.js';
+import { runMigrations, backupDatabase, SEARCH_INDEX_COLUMNS } from './migrations.js';
+import { createAnchor, resolveAnchor } from './highlights.js';
 
 export interface BookmarkRow {
   id: string;
   url: string;
   author: string;
   text: string;
-  tags: string | null;
+  /** Free-form Markdown notes. */
+  notes: string | null;
+  status: BookmarkStatus;
+  /** Fraction of the longest article read, 0..1. */
+  read_progress: number;
+  read_at: string | null;
+  /** Set while the bookmark is in the trash. */
+  deleted_at: string | null;
+  source: BookmarkSource;
   saved_at: string;
+  /** When the tweet was posted (SQLite datetime, UTC); saved_at is when it was scrolled past. */
+  posted_at: string | null;
+  reply_count: number | null;
+  retweet_count: number | null;
+  like_count: number | null;
+  /** Set for replies; the id is only known when the parent was on screen. */
+  in_reply_to_id: string | null;
+  in_reply_to_author: string | null;
+  quoted_id: string | null;
+  quoted_author: string | null;
+  quoted_text: string | null;
+  /** When a sync session last saw the tweet on the X bookmarks page (or an archive import listed it as a bookmark). */
+  last_seen_at: string | null;
+  /** Set when a complete sync session no longer found it there (un-bookmarked on X). */
+  removed_upstream_at: string | null;
+}
+
+export const BOOKMARK_STATUSES = ['inbox', 'reading', 'done', 'archived'] as const;
+export type BookmarkStatus = (typeof BOOKMARK_STATUSES)[number];
+
+export function isBookmarkStatus(value: unknown): value is BookmarkStatus {
+  return typeof value === 'string' && (BOOKMARK_STATUSES as readonly string[]).includes(value);
+}
+
+/** x: saved from X; web: a page saved by URL; import: from a bookmark or read-later export; manual: typed in. */
+export const BOOKMARK_SOURCES = ['x', 'web', 'import', 'manual'] as const;
+export type BookmarkSource = (typeof BOOKMARK_SOURCES)[number];
+
+export function isBookmarkSource(value: unknown): value is BookmarkSource {
+  return typeof value === 'string' && (BOOKMARK_SOURCES as readonly string[]).includes(value);
 }
 
 export interface MediaRow {
   id: number;
   bookmark_id: string;
   url: string;
+  alt_text: string | null;
 }
 
 export interface LinkRow {
@@ -45,86 +88,86 @@ export interface TranscriptRow {
   transcribed_at: string;
 }
 
-const SCHEMA = `
-  CREATE TABLE IF NOT EXISTS bookmarks (
-    id TEXT PRIMARY KEY,
-    url TEXT,
-    author TEXT,
-    text TEXT,
-    tags TEXT DEFAULT NULL,
-    saved_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-  CREATE TABLE IF NOT EXISTS media (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    bookmark_id TEXT,
-    url TEXT,
-    FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
-  );
-  CREATE TABLE IF NOT EXISTS links (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    bookmark_id TEXT,
-    original_url TEXT,
-    resolved_url TEXT,
-    is_article INTEGER DEFAULT 0,
-    FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
-  );
-  CREATE TABLE IF NOT EXISTS articles (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    bookmark_id TEXT,
-    url TEXT,
-    title TEXT,
-    author TEXT,
-    content TEXT,
-    content_md TEXT,
-    excerpt TEXT,
-    site_name TEXT,
-    extracted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    pdf_path TEXT,
-    FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
-  );
-  CREATE TABLE IF NOT EXISTS transcripts (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    bookmark_id TEXT,
-    video_url TEXT,
-    transcript TEXT,
-    transcribed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
-  );
-  CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_bookmark_video ON transcripts(bookmark_id, video_url);
-`;
+/** bm25 weight per search index column; columns not listed (long bodies) default to 1. */
+const FTS_WEIGHTS: Record<string, number> = {
+  text: 10,
+  author: 6,
+  tags: 6,
+  article_title: 8,
+  notes: 6,
+  highlights: 4,
+  thread: 4,
+};
 
-export function initDb(dbPath: string): Database.Database {
-  const db = new Database(dbPath);
-  db.pragma('journal_mode = WAL');
-  db.exec(SCHEMA);
-  // Migration: add pdf_path to articles if missing (existing DBs)
+/** bm25() arguments in index column order (bookmark_id is unindexed and weighted 0). */
+const FTS_WEIGHT_ARGS = [0, ...SEARCH_INDEX_COLUMNS.map((c) => FTS_WEIGHTS[c] ?? 1)].join(', ');
+
+/** Lowercased hostname without "www.", or null for unparseable URLs. Registered as url_host() in SQL. */
+export function urlHost(url: string | null): string | null {
+  if (!url) return null;
   try {
-    db.exec('ALTER TABLE articles ADD COLUMN pdf_path TEXT');
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
   } catch {
-    // Column already exists
+    return null;
   }
+}
+
+/**
+ * Open (or create) the database and bring its schema up to date.
+ * For an existing file with pending migrations, a backup copy is written next to it first.
+ */
+export function initDb(dbPath: string): Database.Database {
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.function('url_host', { deterministic: true }, (url: unknown) => urlHost(typeof url === 'string' ? url : null));
+  runMigrations(db, {
+    beforeMigrate: (fromVersion) => {
+      if (dbPath !== ':memory:') backupDatabase(db, dbPath, fromVersion);
+    },
+  });
+  // Enforced only after migrating, so a migration that rebuilds a table cannot cascade deletes
+  db.pragma('foreign_keys = ON');
   return db;
 }
 
+/** Apply pending migrations to an already-open database (no backup). */
 export function runSchema(db: Database.Database): void {
-  db.exec(SCHEMA);
+  runMigrations(db);
 }
 
+/**
+ * Insert or update a bookmark. Saving a bookmark that is in the trash restores it.
+ * `source` and `saved_at` (SQLite datetime, default now) only apply when the row is created.
+ */
 export function upsertBookmark(
   db: Database.Database,
-  row: { id: string; url: string; author: string; text: string }
+  row: { id: string; url: string; author: string; text: string; source?: BookmarkSource; saved_at?: string }
 ): void {
   const stmt = db.prepare(
-    `INSERT INTO bookmarks (id, url, author, text) VALUES (?, ?, ?, ?)
+    `INSERT INTO bookmarks (id, url, author, text, source, saved_at) VALUES (?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
      ON CONFLICT(id) DO UPDATE SET
+       deleted_at = NULL,
        text = CASE WHEN excluded.text != '' AND excluded.text IS NOT NULL THEN excluded.text ELSE bookmarks.text END,
        author = CASE WHEN excluded.author != '' AND excluded.author IS NOT NULL THEN excluded.author ELSE bookmarks.author END`
   );
-  stmt.run(row.id, row.url, row.author, row.text);
+  stmt.run(row.id, row.url, row.author, row.text, row.source ?? 'x', row.saved_at ?? null);
+}
+
+export function getBookmarks(db: Database.Database, options: { statuses?: BookmarkStatus[] } = {}): BookmarkRow[] {
+  if (options.statuses && options.statuses.length > 0) {
+    const placeholders = options.statuses.map(() => '?').join(', ');
+    return db
+      .prepare(
+        `SELECT * FROM bookmarks WHERE deleted_at IS NULL AND status IN (${placeholders}) ORDER BY saved_at DESC`
+      )
+      .all(...options.statuses) as BookmarkRow[];
+  }
+  return db.prepare('SELECT * FROM bookmarks WHERE deleted_at IS NULL ORDER BY saved_at DESC').all() as BookmarkRow[];
 }
 
-export function getBookmarks(db: Database.Database): BookmarkRow[] {
-  return db.prepare('SELECT * FROM bookmarks ORDER BY saved_at DESC').all() as BookmarkRow[];
+/** Look up one bookmark, including one that is in the trash. */
+export function getBookmark(db: Database.Database, id: string): BookmarkRow | undefined {
+  return db.prepare('SELECT * FROM bookmarks WHERE id = ?').get(id) as BookmarkRow | undefined;
 }
 
 export function getMediaCount(db: Database.Database, bookmarkId: string): number {
@@ -138,8 +181,8 @@ export function getMediaUrlsForBookmark(db: Database.Database, bookmarkId: strin
   return rows.map((r) => r.url);
 }
 
-export function insertMedia(db: Database.Database, bookmarkId: string, url: string): void {
-  db.prepare('INSERT INTO media (bookmark_id, url) VALUES (?, ?)').run(bookmarkId, url);
+export function insertMedia(db: Database.Database, bookmarkId: string, url: string, altText: string | null = null): void {
+  db.prepare('INSERT INTO media (bookmark_id, url, alt_text) VALUES (?, ?, ?)').run(bookmarkId, url, altText);
 }
 
 export function deleteMediaForBookmark(db: Database.Database, bookmarkId: string): void {
@@ -181,15 +224,27 @@ export interface ArticleInput {
   pdf_path?: string | null;
 }
 
+/** site_name of articles captured from X's long-form Articles (see xArticle.ts). */
+export const X_ARTICLE_SITE_NAME = 'X Article';
+
+/**
+ * Replace a bookmark's links and articles. With keepXArticles (link extraction), a captured
+ * X Article stays: extraction cannot fetch it again.
+ */
 export function replaceLinksAndArticles(
   db: Database.Database,
   bookmarkId: string,
   links: LinkInput[],
-  articles: ArticleInput[]
+  articles: ArticleInput[],
+  options: { keepXArticles?: boolean } = {}
 ): void {
   db.transaction(() => {
     db.prepare('DELETE FROM links WHERE bookmark_id = ?').run(bookmarkId);
-    db.prepare('DELETE FROM articles WHERE bookmark_id = ?').run(bookmarkId);
+    if (options.keepXArticles) {
+      db.prepare('DELETE FROM articles WHERE bookmark_id = ? AND site_name IS NOT ?').run(bookmarkId, X_ARTICLE_SITE_NAME);
+    } else {
+      db.prepare('DELETE FROM articles WHERE bookmark_id = ?').run(bookmarkId);
+    }
     const linkStmt = db.prepare(
       'INSERT INTO links (bookmark_id, original_url, resolved_url, is_article) VALUES (?, ?, ?, ?)'
     );
@@ -216,6 +271,45 @@ export function replaceLinksAndArticles(
   })();
 }
 
+/**
+ * Store an X Article captured by the userscript, replacing an earlier capture and the
+ * synthetic text article. Returns false when the same article was already stored.
+ */
+export function saveXArticle(db: Database.Database, bookmarkId: string, article: ArticleInput): boolean {
+  return db.transaction(() => {
+    const existing = db
+      .prepare('SELECT url, title, content_md FROM articles WHERE bookmark_id = ? AND site_name = ?')
+      .all(bookmarkId, X_ARTICLE_SITE_NAME) as Array<{ url: string; title: string; content_md: string | null }>;
+    if (
+      existing.length === 1 &&
+      existing[0].url === article.url &&
+      existing[0].title === article.title &&
+      existing[0].content_md === article.contentMd
+    ) {
+      return false;
+    }
+    db.prepare("DELETE FROM articles WHERE bookmark_id = ? AND site_name IN (?, 'X')").run(bookmarkId, X_ARTICLE_SITE_NAME);
+    db.prepare(
+      `INSERT INTO articles (bookmark_id, url, title, author, content, content_md, excerpt, site_name)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(bookmarkId, article.url, article.title, article.author, article.content, article.contentMd, article.excerpt, X_ARTICLE_SITE_NAME);
+    return true;
+  })();
+}
+
+/** Fill in the text of a PDF article once it has been extracted. Returns false if the article is gone. */
+export function updatePdfArticleText(
+  db: Database.Database,
+  bookmarkId: string,
+  pdfPath: string,
+  text: Pick<ArticleInput, 'content' | 'contentMd' | 'excerpt'>
+): boolean {
+  const result = db
+    .prepare('UPDATE articles SET content = ?, content_md = ?, excerpt = ? WHERE bookmark_id = ? AND pdf_path = ?')
+    .run(text.content, text.contentMd, text.excerpt, bookmarkId, pdfPath);
+  return result.changes > 0;
+}
+
 export function getTranscriptByBookmarkAndVideo(
   db: Database.Database,
   bookmarkId: string,
@@ -266,8 +360,979 @@ export function getAllTranscripts(db: Database.Database): TranscriptRow[] {
   }
 }
 
+// ─── Tweet metadata ──────────────────────────────────────────
+
+export interface PollOption {
+  label: string;
+  /** Share of the votes, once X shows results. */
+  percent: number | null;
+}
+
+/** Everything about a tweet besides its text and media; null (or empty) where it was not captured. */
+export interface TweetMetadata {
+  /** SQLite datetime, UTC. */
+  postedAt: string | null;
+  replyCount: number | null;
+  retweetCount: number | null;
+  likeCount: number | null;
+  inReplyToId: string | null;
+  inReplyToAuthor: string | null;
+  quoted: { id: string | null; author: string; text: string } | null;
+  poll: PollOption[];
+}
+
+export const EMPTY_TWEET_METADATA: TweetMetadata = {
+  postedAt: null,
+  replyCount: null,
+  retweetCount: null,
+  likeCount: null,
+  inReplyToId: null,
+  inReplyToAuthor: null,
+  quoted: null,
+  poll: [],
+};
+
+/**
+ * Store what was captured this time. Values that were not captured (null) keep what an
+ * earlier sync found; counts are overwritten since they only go stale. The poll is replaced
+ * when one was captured. Returns whether anything changed.
+ */
+export function updateTweetMetadata(db: Database.Database, bookmarkId: string, meta: TweetMetadata): boolean {
+  const columns = `posted_at, reply_count, retweet_count, like_count, in_reply_to_id, in_reply_to_author,
+    quoted_id, quoted_author, quoted_text`;
+  const before = db.prepare(`SELECT ${columns} FROM bookmarks WHERE id = ?`).get(bookmarkId);
+  db.prepare(
+    `UPDATE bookmarks SET
+       posted_at = COALESCE(?, posted_at),
+       reply_count = COALESCE(?, reply_count),
+       retweet_count = COALESCE(?, retweet_count),
+       like_count = COALESCE(?, like_count),
+       in_reply_to_id = COALESCE(?, in_reply_to_id),
+       in_reply_to_author = COALESCE(?, in_reply_to_author),
+       quoted_id = COALESCE(?, quoted_id),
+       quoted_author = COALESCE(?, quoted_author),
+       quoted_text = COALESCE(?, quoted_text)
+     WHERE id = ?`
+  ).run(
+    meta.postedAt,
+    meta.replyCount,
+    meta.retweetCount,
+    meta.likeCount,
+    meta.inReplyToId,
+    meta.inReplyToAuthor,
+    meta.quoted?.id ?? null,
+    meta.quoted?.author ?? null,
+    meta.quoted?.text ?? null,
+    bookmarkId
+  );
+  const after = db.prepare(`SELECT ${columns} FROM bookmarks WHERE id = ?`).get(bookmarkId);
+  let changed = JSON.stringify(before) !== JSON.stringify(after);
+
+  if (meta.poll.length > 0 && JSON.stringify(getPollOptions(db, bookmarkId)) !== JSON.stringify(meta.poll)) {
+    db.prepare('DELETE FROM poll_options WHERE bookmark_id = ?').run(bookmarkId);
+    const insert = db.prepare('INSERT INTO poll_options (bookmark_id, position, label, percent) VALUES (?, ?, ?, ?)');
+    meta.poll.forEach((option, position) => insert.run(bookmarkId, position, option.label, option.percent));
+    changed = true;
+  }
+  return changed;
+}
+
+export function getPollOptions(db: Database.Database, bookmarkId: string): PollOption[] {
+  return db
+    .prepare('SELECT label, percent FROM poll_options WHERE bookmark_id = ? ORDER BY position')
+    .all(bookmarkId) as PollOption[];
+}
+
+// ─── Threads ─────────────────────────────────────────────────
+
+/** One post of a same-author thread, in thread order. */
+export interface ThreadPost {
+  /** Null for parts saved before posts had ids. */
+  tweet_id: string | null;
+  text: string;
+  media: string[];
+  links: string[];
+}
+
+function parseUrlList(json: string): string[] {
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function toThreadPost(row: { tweet_id: string | null; text: string; media: string; links: string }): ThreadPost {
+  return { tweet_id: row.tweet_id, text: row.text, media: parseUrlList(row.media), links: parseUrlList(row.links) };
+}
+
+export function getThreadPosts(db: Database.Database, bookmarkId: string): ThreadPost[] {
+  const rows = db
+    .prepare('SELECT tweet_id, text, media, links FROM thread_posts WHERE bookmark_id = ? ORDER BY position')
+    .all(bookmarkId) as Array<{ tweet_id: string | null; text: string; media: string; links: string }>;
+  return rows.map(toThreadPost);
+}
+
+export function replaceThreadPosts(db: Database.Database, bookmarkId: string, posts: ThreadPost[]): void {
+  db.transaction(() => {
+    db.prepare('DELETE FROM thread_posts WHERE bookmark_id = ?').run(bookmarkId);
+    const stmt = db.prepare(
+      'INSERT INTO thread_posts (bookmark_id, position, tweet_id, text, media, links) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    posts.forEach((post, position) =>
+      stmt.run(bookmarkId, position, post.tweet_id, post.text, JSON.stringify(post.media), JSON.stringify(post.links))
+    );
+  })();
+}
+
+/**
+ * Remove the article made from a tweet's own text (site_name 'X') once the tweet has a thread,
+ * unless it has highlights. Returns whether one was removed.
+ */
+export function deleteSyntheticArticle(db: Database.Database, bookmarkId: string): boolean {
+  return (
+    db
+      .prepare(
+        `DELETE FROM articles
+         WHERE bookmark_id = ? AND site_name = 'X'
+           AND NOT EXISTS (SELECT 1 FROM highlights h
+                           WHERE h.bookmark_id = articles.bookmark_id AND h.target_type = 'article' AND h.target_key = articles.url)`
+      )
+      .run(bookmarkId).changes > 0
+  );
+}
+
+// ─── Tags ────────────────────────────────────────────────────
+
+export interface TagCount {
+  id: number;
+  name: string;
+  count: number;
+}
+
+/** Trim, drop leading '#' and double quotes, collapse inner whitespace. Returns '' for unusable names. */
+export function normalizeTagName(name: string): string {
+  return name.replace(/"/g, '').trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+}
+
+function getOrCreateTagId(db: Database.Database, name: string): number {
+  db.prepare('INSERT OR IGNORE INTO tags (name) VALUES (?)').run(name);
+  const row = db.prepare('SELECT id FROM tags WHERE name = ?').get(name) as { id: number };
+  return row.id;
+}
+
+export function getTagsForBookmark(db: Database.Database, bookmarkId: string): string[] {
+  const rows = db
+    .prepare(
+      `SELECT t.name FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id
+       WHERE bt.bookmark_id = ? ORDER BY t.name COLLATE NOCASE`
+    )
+    .all(bookmarkId) as { name: string }[];
+  return rows.map((r) => r.name);
+}
+
+/** Attach tags (created on first use, matched case-insensitively). Returns the bookmark's tags afterwards. */
+export function addTagsToBookmark(db: Database.Database, bookmarkId: string, names: string[]): string[] {
+  db.transaction(() => {
+    const link = db.prepare('INSERT OR IGNORE INTO bookmark_tags (bookmark_id, tag_id) VALUES (?, ?)');
+    for (const raw of names) {
+      const name = normalizeTagName(raw);
+      if (name) link.run(bookmarkId, getOrCreateTagId(db, name));
+    }
+  })();
+  return getTagsForBookmark(db, bookmarkId);
+}
+
+/** Detach tags from a bookmark; the tags themselves are kept. Returns the bookmark's tags afterwards. */
+export function removeTagsFromBookmark(db: Database.Database, bookmarkId: string, names: string[]): string[] {
+  const stmt = db.prepare(
+    'DELETE FROM bookmark_tags WHERE bookmark_id = ? AND tag_id = (SELECT id FROM tags WHERE name = ?)'
+  );
+  db.transaction(() => {
+    for (const raw of names) stmt.run(bookmarkId, normalizeTagName(raw));
+  })();
+  return getTagsForBookmark(db, bookmarkId);
+}
+
+/** All tags with the number of bookmarks carrying each, most used first. */
+export function getTags(db: Database.Database): TagCount[] {
+  return db
+    .prepare(
+      `SELECT t.id, t.name, COUNT(b.id) as count
+       FROM tags t
+       LEFT JOIN bookmark_tags bt ON bt.tag_id = t.id
+       LEFT JOIN bookmarks b ON b.id = bt.bookmark_id AND b.deleted_at IS NULL
+       GROUP BY t.id
+       ORDER BY count DESC, t.name COLLATE NOCASE`
+    )
+    .all() as TagCount[];
+}
+
+/**
+ * Rename a tag. A case-only change is allowed; renaming onto another existing tag
+ * is a 'conflict' (use mergeTags for that).
+ */
+export function renameTag(db: Database.Database, from: string, to: string): 'renamed' | 'not_found' | 'conflict' | 'invalid' {
+  const target = normalizeTagName(to);
+  if (!target) return 'invalid';
+  const source = db.prepare('SELECT id FROM tags WHERE name = ?').get(normalizeTagName(from)) as { id: number } | undefined;
+  if (!source) return 'not_found';
+  const existing = db.prepare('SELECT id FROM tags WHERE name = ?').get(target) as { id: number } | undefined;
+  if (existing && existing.id !== source.id) return 'conflict';
+  db.prepare('UPDATE tags SET name = ? WHERE id = ?').run(target, source.id);
+  return 'renamed';
+}
+
+/**
+ * Merge tags into `into` (created if missing): every bookmark tagged with a source
+ * tag gets the target tag, then the source tags are deleted. Returns the target's usage count.
+ */
+export function mergeTags(db: Database.Database, sources: string[], into: string): number | null {
+  const target = normalizeTagName(into);
+  if (!target) return null;
+  return db.transaction(() => {
+    const targetId = getOrCreateTagId(db, target);
+    for (const raw of sources) {
+      const source = db.prepare('SELECT id FROM tags WHERE name = ?').get(normalizeTagName(raw)) as { id: number } | undefined;
+      if (!source || source.id === targetId) continue;
+      db.prepare(
+        `INSERT OR IGNORE INTO bookmark_tags (bookmark_id, tag_id, added_at)
+         SELECT bookmark_id, ?, added_at FROM bookmark_tags WHERE tag_id = ?`
+      ).run(targetId, source.id);
+      db.prepare('DELETE FROM bookmark_tags WHERE tag_id = ?').run(source.id);
+      db.prepare('DELETE FROM tags WHERE id = ?').run(source.id);
+    }
+    // Counted like getTags: bookmarks in the trash are left out
+    const row = db
+      .prepare(
+        `SELECT COUNT(*) as count FROM bookmark_tags bt JOIN bookmarks b ON b.id = bt.bookmark_id
+         WHERE bt.tag_id = ? AND b.deleted_at IS NULL`
+      )
+      .get(targetId) as { count: number };
+    return row.count;
+  })();
+}
+
+// ─── Reading status ──────────────────────────────────────────
+
+/**
+ * Set the status of many bookmarks at once. Marking done stamps read_at (first time only)
+ * and fills progress; moving back to inbox resets both. Returns how many rows changed.
+ */
+export function setBookmarkStatus(db: Database.Database, ids: string[], status: BookmarkStatus): number {
+  const stmt = db.prepare(
+    `UPDATE bookmarks SET
+       status = ?,
+       read_at = CASE ? WHEN 'done' THEN COALESCE(read_at, CURRENT_TIMESTAMP) WHEN 'inbox' THEN NULL ELSE read_at END,
+       read_progress = CASE ? WHEN 'done' THEN 1 WHEN 'inbox' THEN 0 ELSE read_progress END
+     WHERE id = ?`
+  );
+  return db.transaction(() => {
+    let changed = 0;
+    for (const id of ids) changed += stmt.run(status, status, status, id).changes;
+    return changed;
+  })();
+}
+
+/**
+ * Record how far through a bookmark's article the reader is (clamped to 0..1).
+ * Starting an inbox item moves it to reading; reaching the end marks it done.
+ */
+export function setReadProgress(db: Database.Database, id: string, progress: number): BookmarkRow | undefined {
+  const value = Math.min(1, Math.max(0, progress));
+  db.prepare(
+    `UPDATE bookmarks SET
+       read_progress = ?,
+       status = CASE
+         WHEN ? >= 1 AND status IN ('inbox', 'reading') THEN 'done'
+         WHEN ? > 0 AND status = 'inbox' THEN 'reading'
+         ELSE status END,
+       read_at = CASE WHEN ? >= 1 THEN COALESCE(read_at, CURRENT_TIMESTAMP) ELSE read_at END
+     WHERE id = ?`
+  ).run(value, value, value, value, id);
+  return getBookmark(db, id);
+}
+
+export function getStatusCounts(db: Database.Database): Record<BookmarkStatus, number> {
+  const counts = Object.fromEntries(BOOKMARK_STATUSES.map((s) => [s, 0])) as Record<BookmarkStatus, number>;
+  const rows = db
+    .prepare('SELECT status, COUNT(*) as count FROM bookmarks WHERE deleted_at IS NULL GROUP BY status')
+    .all() as Array<{ status: BookmarkStatus; count: number }>;
+  for (const row of rows) counts[row.status] = row.count;
+  return counts;
+}
+
+// ─── Processing status ───────────────────────────────────────
+
+/** The background steps whose last outcome is recorded per bookmark. */
+export const PROCESSING_STEPS = ['extract', 'media', 'transcribe'] as const;
+export type ProcessingStep = (typeof PROCESSING_STEPS)[number];
+
+export function isProcessingStep(value: unknown): value is ProcessingStep {
+  return typeof value === 'string' && (PROCESSING_STEPS as readonly string[]).includes(value);
+}
+
+/** What each step was last run with. */
+export interface ProcessingInputs {
+  extract: { links: string[] };
+  /** alt: alt text by URL, for images that have one. */
+  media: { urls: string[]; alt?: Record<string, string> };
+  transcribe: { videoUrl: string };
+}
+
+export interface ProcessingState {
+  status: 'pending' | 'ok' | 'failed';
+  error: string | null;
+  updated_at: string;
+}
+
+export type ProcessingStatus = Partial<Record<ProcessingStep, ProcessingState>>;
+
+/** Mark a step as queued (clearing any previous error) and remember its input for retries. */
+export function startProcessingStep<S extends ProcessingStep>(
+  db: Database.Database,
+  bookmarkId: string,
+  step: S,
+  input: ProcessingInputs[S]
+): void {
+  db.prepare(
+    `INSERT INTO processing_status (bookmark_id, step, status, error, input, updated_at)
+     VALUES (?, ?, 'pending', NULL, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(bookmark_id, step) DO UPDATE SET
+       status = 'pending', error = NULL, input = excluded.input, updated_at = CURRENT_TIMESTAMP`
+  ).run(bookmarkId, step, JSON.stringify(input));
+}
+
+/**
+ * Record the outcome of (part of) a step. A failure always sticks; success only moves a
+ * pending step to ok, so one failed media download is not hidden by the next one succeeding.
+ */
+export function finishProcessingStep(
+  db: Database.Database,
+  bookmarkId: string,
+  step: ProcessingStep,
+  error: string | null = null
+): void {
+  if (error) {
+    db.prepare(
+      `UPDATE processing_status SET status = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE bookmark_id = ? AND step = ?`
+    ).run(error, bookmarkId, step);
+  } else {
+    db.prepare(
+      `UPDATE processing_status SET status = 'ok', updated_at = CURRENT_TIMESTAMP
+       WHERE bookmark_id = ? AND step = ? AND status = 'pending'`
+    ).run(bookmarkId, step);
+  }
+}
+
+export function getProcessingStatus(db: Database.Database, bookmarkId: string): ProcessingStatus {
+  return loadProcessingStatus(db, JSON.stringify([bookmarkId]))[bookmarkId] ?? {};
+}
+
+/** The recorded input of a step, or undefined if it never ran. */
+export function getProcessingInput<S extends ProcessingStep>(
+  db: Database.Database,
+  bookmarkId: string,
+  step: S
+): ProcessingInputs[S] | undefined {
+  const row = db
+    .prepare('SELECT input FROM processing_status WHERE bookmark_id = ? AND step = ?')
+    .get(bookmarkId, step) as { input: string } | undefined;
+  return row ? (JSON.parse(row.input) as ProcessingInputs[S]) : undefined;
+}
+
+function loadProcessingStatus(db: Database.Database, idsParam: string): Record<string, ProcessingStatus> {
+  const rows = db
+    .prepare(
+      `SELECT bookmark_id, step, status, error, updated_at FROM processing_status WHERE ${BOOKMARK_IDS_SQL}`
+    )
+    .all(idsParam) as Array<ProcessingState & { bookmark_id: string; step: ProcessingStep }>;
+  const map: Record<string, ProcessingStatus> = {};
+  for (const { bookmark_id, step, ...state } of rows) {
+    (map[bookmark_id] ??= {})[step] = state;
+  }
+  return map;
+}
+
+// ─── Collections ─────────────────────────────────────────────
+
+export interface CollectionRow {
+  id: number;
+  name: string;
+  description: string | null;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CollectionSummary extends CollectionRow {
+  count: number;
+}
+
+/** All collections in sidebar order, with member counts. */
+export function getCollections(db: Database.Database): CollectionSummary[] {
+  return db
+    .prepare(
+      `SELECT c.*, COUNT(b.id) as count
+       FROM collections c
+       LEFT JOIN collection_bookmarks cb ON cb.collection_id = c.id
+       LEFT JOIN bookmarks b ON b.id = cb.bookmark_id AND b.deleted_at IS NULL
+       GROUP BY c.id
+       ORDER BY c.position, c.id`
+    )
+    .all() as CollectionSummary[];
+}
+
+export function getCollection(db: Database.Database, id: number): CollectionRow | undefined {
+  return db.prepare('SELECT * FROM collections WHERE id = ?').get(id) as CollectionRow | undefined;
+}
+
+/** Create a collection at the end of the sidebar. Returns null if the name is already taken (case-insensitive). */
+export function createCollection(
+  db: Database.Database,
+  name: string,
+  description: string | null = null
+): CollectionRow | null {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO collections (name, description, position)
+       VALUES (?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM collections))`
+    )
+    .run(name.trim(), description);
+  if (result.changes === 0) return null;
+  return getCollection(db, Number(result.lastInsertRowid)) ?? null;
+}
+
+export function updateCollection(
+  db: Database.Database,
+  id: number,
+  changes: { name?: string; description?: string | null }
+): 'updated' | 'not_found' | 'conflict' {
+  const current = getCollection(db, id);
+  if (!current) return 'not_found';
+  const name = changes.name !== undefined ? changes.name.trim() : current.name;
+  const clash = db.prepare('SELECT id FROM collections WHERE name = ? AND id != ?').get(name, id);
+  if (clash) return 'conflict';
+  const description = changes.description !== undefined ? changes.description : current.description;
+  db.prepare(
+    'UPDATE collections SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+  ).run(name, description, id);
+  return 'updated';
+}
+
+/** Delete a collection; its bookmarks are untouched. Returns false if it did not exist. */
+export function deleteCollection(db: Database.Database, id: number): boolean {
+  return db.transaction(() => {
+    db.prepare('DELETE FROM collection_bookmarks WHERE collection_id = ?').run(id);
+    return db.prepare('DELETE FROM collections WHERE id = ?').run(id).changes > 0;
+  })();
+}
+
+/**
+ * Apply a manual order: listed ids take positions 0..n-1 in the given order, and
+ * anything not listed keeps its relative order after them.
+ */
+function applyOrder<T>(ids: T[], currentOrder: T[]): T[] {
+  const listed = ids.filter((id) => currentOrder.includes(id));
+  return [...new Set([...listed, ...currentOrder])];
+}
+
+export function reorderCollections(db: Database.Database, ids: number[]): void {
+  db.transaction(() => {
+    const current = (db.prepare('SELECT id FROM collections ORDER BY position, id').all() as { id: number }[]).map(
+      (r) => r.id
+    );
+    const stmt = db.prepare('UPDATE collections SET position = ? WHERE id = ?');
+    applyOrder(ids, current).forEach((id, position) => stmt.run(position, id));
+  })();
+}
+
+/** Bookmarks in a collection, in its manual order. */
+export function getCollectionBookmarks(db: Database.Database, collectionId: number): BookmarkRow[] {
+  return db
+    .prepare(
+      `SELECT b.* FROM collection_bookmarks cb JOIN bookmarks b ON b.id = cb.bookmark_id
+       WHERE cb.collection_id = ? AND b.deleted_at IS NULL
+       ORDER BY cb.position, cb.added_at`
+    )
+    .all(collectionId) as BookmarkRow[];
+}
+
+/** Append bookmarks to the end of a collection; unknown ids and existing members are skipped. Returns how many were added. */
+export function addBookmarksToCollection(db: Database.Database, collectionId: number, bookmarkIds: string[]): number {
+  return db.transaction(() => {
+    const stmt = db.prepare(
+      `INSERT OR IGNORE INTO collection_bookmarks (collection_id, bookmark_id, position)
+       SELECT ?, id, (SELECT COALESCE(MAX(position), -1) + 1 FROM collection_bookmarks WHERE collection_id = ?)
+       FROM bookmarks WHERE id = ?`
+    );
+    let added = 0;
+    for (const bookmarkId of bookmarkIds) {
+      added += stmt.run(collectionId, collectionId, bookmarkId).changes;
+    }
+    if (added > 0) {
+      db.prepare('UPDATE collections SET updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(collectionId);
+    }
+    return added;
+  })();
+}
+
+export function removeBookmarksFromCollection(db: Database.Database, collectionId: number, bookmarkIds: string[]): number {
+  return db.transaction(() => {
+    const stmt = db.prepare('DELETE FROM collection_bookmarks WHERE collection_id = ? AND bookmark_id = ?');
+    let removed = 0;
+    for (const bookmarkId of bookmarkIds) removed += stmt.run(collectionId, bookmarkId).changes;
+    return removed;
+  })();
+}
+
+export function reorderCollectionBookmarks(db: Database.Database, collectionId: number, bookmarkIds: string[]): void {
+  db.transaction(() => {
+    const current = getCollectionBookmarks(db, collectionId).map((b) => b.id);
+    const stmt = db.prepare('UPDATE collection_bookmarks SET position = ? WHERE collection_id = ? AND bookmark_id = ?');
+    applyOrder(bookmarkIds, current).forEach((id, position) => stmt.run(position, collectionId, id));
+  })();
+}
+
+// ─── Notes & highlights ──────────────────────────────────────
+
+export type HighlightTarget = 'article' | 'transcript';
+
+export interface HighlightRow {
+  id: number;
+  bookmark_id: string;
+  target_type: HighlightTarget;
+  /** articles.url or transcripts.video_url. */
+  target_key: string;
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start_offset: number;
+  end_offset: number;
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A highlight re-anchored against the current target text; start/end are null when orphaned. */
+export interface ResolvedHighlight {
+  id: number;
+  target_type: HighlightTarget;
+  target_key: string;
+  quote: string;
+  comment: string | null;
+  start: number | null;
+  end: number | null;
+  orphaned: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HighlightInput {
+  targetType: HighlightTarget;
+  targetKey: string;
+  start: number;
+  end: number;
+  comment?: string | null;
+}
+
+/** Set (or clear with null/blank) a bookmark's notes. Returns false if the bookmark does not exist. */
+export function setBookmarkNotes(db: Database.Database, id: string, notes: string | null): boolean {
+  const value = notes && notes.trim() ? notes : null;
+  return db.prepare('UPDATE bookmarks SET notes = ? WHERE id = ?').run(value, id).changes > 0;
+}
+
+/** Current text a highlight target points at (latest article for a URL, or the transcript for a video). */
+function getHighlightTargetText(
+  db: Database.Database,
+  bookmarkId: string,
+  targetType: HighlightTarget,
+  targetKey: string
+): string | undefined {
+  const row =
+    targetType === 'article'
+      ? (db
+          .prepare('SELECT content_md as text FROM articles WHERE bookmark_id = ? AND url = ? ORDER BY id DESC LIMIT 1')
+          .get(bookmarkId, targetKey) as { text: string | null } | undefined)
+      : (db
+          .prepare('SELECT transcript as text FROM transcripts WHERE bookmark_id = ? AND video_url = ?')
+          .get(bookmarkId, targetKey) as { text: string | null } | undefined);
+  return row ? row.text ?? '' : undefined;
+}
+
+function resolveHighlight(row: HighlightRow, text: string | undefined): ResolvedHighlight {
+  const position =
+    text === undefined
+      ? null
+      : resolveAnchor(text, {
+          quote: row.quote,
+          prefix: row.prefix,
+          suffix: row.suffix,
+          start: row.start_offset,
+          end: row.end_offset,
+        });
+  return {
+    id: row.id,
+    target_type: row.target_type,
+    target_key: row.target_key,
+    quote: row.quote,
+    comment: row.comment,
+    start: position?.start ?? null,
+    end: position?.end ?? null,
+    orphaned: !position,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export function getHighlight(db: Database.Database, id: number): HighlightRow | undefined {
+  return db.prepare('SELECT * FROM highlights WHERE id = ?').get(id) as HighlightRow | undefined;
+}
+
+/** Highlights for one bookmark, re-anchored against the current article/transcript text. */
+export function getHighlights(db: Database.Database, bookmarkId: string): ResolvedHighlight[] {
+  const rows = db
+    .prepare('SELECT * FROM highlights WHERE bookmark_id = ? ORDER BY target_type, target_key, start_offset')
+    .all(bookmarkId) as HighlightRow[];
+  return rows.map((row) => resolveHighlight(row, getHighlightTargetText(db, bookmarkId, row.target_type, row.target_key)));
+}
+
+/**
+ * Highlight text[start, end) of an article's content_md or a transcript.
+ * Returns 'target_not_found' if the bookmark has no such article/transcript, 'invalid_range' for a bad selection.
+ */
+export function createHighlight(
+  db: Database.Database,
+  bookmarkId: string,
+  input: HighlightInput
+): ResolvedHighlight | 'target_not_found' | 'invalid_range' {
+  const text = getHighlightTargetText(db, bookmarkId, input.targetType, input.targetKey);
+  if (text === undefined) return 'target_not_found';
+  const anchor = createAnchor(text, input.start, input.end);
+  if (!anchor) return 'invalid_range';
+  const result = db
+    .prepare(
+      `INSERT INTO highlights (bookmark_id, target_type, target_key, quote, prefix, suffix, start_offset, end_offset, comment)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      bookmarkId,
+      input.targetType,
+      input.targetKey,
+      anchor.quote,
+      anchor.prefix,
+      anchor.suffix,
+      anchor.start,
+      anchor.end,
+      input.comment?.trim() || null
+    );
+  return resolveHighlight(getHighlight(db, Number(result.lastInsertRowid))!, text);
+}
+
+export function updateHighlightComment(db: Database.Database, id: number, comment: string | null): boolean {
+  return (
+    db
+      .prepare('UPDATE highlights SET comment = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+      .run(comment?.trim() || null, id).changes > 0
+  );
+}
+
+export function deleteHighlight(db: Database.Database, id: number): boolean {
+  return db.prepare('DELETE FROM highlights WHERE id = ?').run(id).changes > 0;
+}
+
+// ─── Listing ─────────────────────────────────────────────────
+
+export const BOOKMARK_SORTS = ['saved_at', 'posted_at', 'author', 'articles', 'position'] as const;
+export type BookmarkSort = (typeof BOOKMARK_SORTS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+/** Sort key per BookmarkSort over bookmarks `b`. `position` needs the collection join `cb`. */
+const SORT_SQL: Record<BookmarkSort, string> = {
+  saved_at: 'b.saved_at',
+  // Bookmarks without a posted time (web pages, older tweets) fall back to when they were saved
+  posted_at: 'COALESCE(b.posted_at, b.saved_at)',
+  author: 'b.author COLLATE NOCASE',
+  articles: '(SELECT COUNT(*) FROM articles a WHERE a.bookmark_id = b.id)',
+  position: 'cb.position',
+};
+
+const DEFAULT_SORT_ORDER: Record<BookmarkSort, SortOrder> = {
+  saved_at: 'desc',
+  posted_at: 'desc',
+  author: 'asc',
+  articles: 'desc',
+  position: 'asc',
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export function isBookmarkSort(value: unknown): value is BookmarkSort {
+  return typeof value === 'string' && (BOOKMARK_SORTS as readonly string[]).includes(value);
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid page cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export interface BookmarkListOptions {
+  statuses?: BookmarkStatus[];
+  sources?: BookmarkSource[];
+  /** Only bookmarks in this collection (required for sort: 'position'). */
+  collectionId?: number;
+  /** Bookmarks must have all of these, with the same meaning as has: in search. */
+  has?: HasValue[];
+  /** Host of a link or article, as site: in search. */
+  site?: string;
+  /** Only bookmarks a complete sync session found removed on X. */
+  removedUpstream?: boolean;
+  sort?: BookmarkSort;
+  /** Defaults to newest / most articles first, A–Z for author, manual order for position. */
+  order?: SortOrder;
+  limit?: number;
+  /** nextCursor from the previous page. Throws InvalidCursorError if it does not fit this sort. */
+  cursor?: string;
+}
+
+export interface BookmarkPage<T> {
+  items: T[];
+  /** Pass as `cursor` to get the next page; null on the last page. */
+  nextCursor: string | null;
+  /** Matching bookmarks across all pages. */
+  total: number;
+}
+
+type CursorValue = string | number | null;
+
+function encodeCursor(sort: BookmarkSort, order: SortOrder, value: CursorValue, id: string): string {
+  return Buffer.from(JSON.stringify([sort, order, value, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: BookmarkSort, order: SortOrder): { value: CursorValue; id: string } {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 4 || typeof decoded[3] !== 'string') {
+    throw new InvalidCursorError();
+  }
+  if (decoded[0] !== sort || decoded[1] !== order) {
+    throw new InvalidCursorError('Page cursor belongs to a different sort order');
+  }
+  return { value: decoded[2] as CursorValue, id: decoded[3] };
+}
+
+/**
+ * One page of non-deleted bookmarks, filtered and sorted. Pagination is keyset-based
+ * (sort key + id), so pages stay stable while new bookmarks arrive.
+ */
+export function listBookmarks(db: Database.Database, options: BookmarkListOptions = {}): BookmarkPage<BookmarkRow> {
+  const sort = options.sort ?? (options.collectionId !== undefined ? 'position' : 'saved_at');
+  const order = options.order ?? DEFAULT_SORT_ORDER[sort];
+  if (sort === 'position' && options.collectionId === undefined) {
+    throw new Error('Sorting by position requires a collection');
+  }
+  const limit = Math.min(Math.max(Math.trunc(options.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+  const filters: SearchFilter[] = [
+    ...(options.has ?? []).map((value) => ({ field: 'has' as const, value, negated: false })),
+    ...(options.site ? [{ field: 'site' as const, value: options.site, negated: false }] : []),
+  ];
+  const { where, params } = compileSearchQuery({ terms: [], filters });
+  where.unshift('b.deleted_at IS NULL');
+  if (options.statuses && options.statuses.length > 0) {
+    where.push(`b.status IN (${options.statuses.map(() => '?').join(', ')})`);
+    params.push(...options.statuses);
+  }
+  if (options.sources && options.sources.length > 0) {
+    where.push(`b.source IN (${options.sources.map(() => '?').join(', ')})`);
+    params.push(...options.sources);
+  }
+  if (options.removedUpstream) where.push('b.removed_upstream_at IS NOT NULL');
+  let from = 'bookmarks b';
+  if (options.collectionId !== undefined) {
+    from = 'bookmarks b JOIN collection_bookmarks cb ON cb.bookmark_id = b.id AND cb.collection_id = ?';
+    params.unshift(options.collectionId);
+  }
+
+  const total = (
+    db.prepare(`SELECT COUNT(*) AS count FROM ${from} WHERE ${where.join(' AND ')}`).get(...params) as { count: number }
+  ).count;
+
+  const key = SORT_SQL[sort];
+  const cmp = order === 'asc' ? '>' : '<';
+  const pageWhere = [...where];
+  const pageParams = [...params];
+  if (options.cursor) {
+    const after = decodeCursor(options.cursor, sort, order);
+    pageWhere.push(`(${key} ${cmp} ? OR (${key} = ? AND b.id ${cmp} ?))`);
+    pageParams.push(after.value, after.value, after.id);
+  }
+  const rows = db
+    .prepare(
+      `SELECT b.*, ${key} AS sort_key FROM ${from}
+       WHERE ${pageWhere.join(' AND ')}
+       ORDER BY ${key} ${order.toUpperCase()}, b.id ${order.toUpperCase()}
+       LIMIT ?`
+    )
+    .all(...pageParams, limit + 1) as Array<BookmarkRow & { sort_key: CursorValue }>;
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map(({ sort_key: _sortKey, ...row }) => row),
+    nextCursor: rows.length > limit && last ? encodeCursor(sort, order, last.sort_key, last.id) : null,
+    total,
+  };
+}
+
+/** `bookmark_id IN (...)` over a JSON array parameter, so one statement serves any number of ids. */
+const BOOKMARK_IDS_SQL = 'bookmark_id IN (SELECT value FROM json_each(?))';
+
+function groupByBookmark<T extends { bookmark_id: string }>(rows: T[]): Record<string, T[]> {
+  const map: Record<string, T[]> = {};
+  for (const row of rows) {
+    if (!map[row.bookmark_id]) map[row.bookmark_id] = [];
+    map[row.bookmark_id].push(row);
+  }
+  return map;
+}
+
+/** Tags, collections, media, polls, threads and processing status for the given bookmarks: the parts shared by list and detail payloads. */
+function loadBookmarkRelations(db: Database.Database, idsParam: string) {
+  const tags = groupByBookmark(
+    db
+      .prepare(
+        `SELECT bt.bookmark_id, t.name FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id
+         WHERE bt.${BOOKMARK_IDS_SQL}
+         ORDER BY t.name COLLATE NOCASE`
+      )
+      .all(idsParam) as Array<{ bookmark_id: string; name: string }>
+  );
+  const collections = groupByBookmark(
+    db
+      .prepare(`SELECT bookmark_id, collection_id FROM collection_bookmarks WHERE ${BOOKMARK_IDS_SQL}`)
+      .all(idsParam) as Array<{ bookmark_id: string; collection_id: number }>
+  );
+  const media = groupByBookmark(
+    db.prepare(`SELECT * FROM media WHERE ${BOOKMARK_IDS_SQL} ORDER BY id`).all(idsParam) as MediaRow[]
+  );
+  const polls = groupByBookmark(
+    db
+      .prepare(`SELECT bookmark_id, label, percent FROM poll_options WHERE ${BOOKMARK_IDS_SQL} ORDER BY position`)
+      .all(idsParam) as Array<PollOption & { bookmark_id: string }>
+  );
+  const threads = groupByBookmark(
+    db
+      .prepare(`SELECT bookmark_id, tweet_id, text, media, links FROM thread_posts WHERE ${BOOKMARK_IDS_SQL} ORDER BY position`)
+      .all(idsParam) as Array<{ bookmark_id: string; tweet_id: string | null; text: string; media: string; links: string }>
+  );
+  const processing = loadProcessingStatus(db, idsParam);
+  return {
+    tagsFor: (id: string) => (tags[id] || []).map((t) => t.name),
+    collectionsFor: (id: string) => (collections[id] || []).map((c) => c.collection_id),
+    mediaFor: (id: string) => (media[id] || []).map((m) => m.url),
+    mediaAltFor: (id: string) =>
+      Object.fromEntries((media[id] || []).filter((m) => m.alt_text).map((m) => [m.url, m.alt_text!])),
+    pollFor: (id: string) => (polls[id] || []).map(({ label, percent }) => ({ label, percent })),
+    threadFor: (id: string) => (threads[id] || []).map(toThreadPost),
+    processingFor: (id: string) => processing[id] ?? {},
+  };
+}
+
+/** List payload: article and transcript metadata without their bodies. */
+export interface BookmarkSummary extends BookmarkRow {
+  tags: string[];
+  /** Ids of the collections this bookmark belongs to. */
+  collections: number[];
+  media: string[];
+  /** Alt text by media URL, for the media that has some. */
+  media_alt: Record<string, string>;
+  poll: PollOption[];
+  /** Same-author thread the tweet belongs to, when one was captured; otherwise empty. */
+  thread: ThreadPost[];
+  /** Last outcome of each background step that has run for this bookmark. */
+  processing: ProcessingStatus;
+  articles: Array<{
+    id: number;
+    url: string;
+    title: string;
+    author: string | null;
+    excerpt: string | null;
+    site_name: string | null;
+    extracted_at: string;
+    pdf_path: string | null;
+    /** Length of content_md, so the UI can size a reader without loading it. */
+    content_length: number;
+  }>;
+  transcripts: Array<{ id: number; video_url: string; transcribed_at: string }>;
+  highlight_count: number;
+}
+
+export function summarizeBookmarks<T extends BookmarkRow>(db: Database.Database, bookmarks: T[]): Array<T & BookmarkSummary> {
+  if (bookmarks.length === 0) return [];
+  const idsParam = JSON.stringify(bookmarks.map((b) => b.id));
+  const relations = loadBookmarkRelations(db, idsParam);
+  const articles = groupByBookmark(
+    db
+      .prepare(
+        `SELECT id, bookmark_id, url, title, author, excerpt, site_name, extracted_at, pdf_path,
+           length(content_md) AS content_length
+         FROM articles WHERE ${BOOKMARK_IDS_SQL} ORDER BY id`
+      )
+      .all(idsParam) as Array<BookmarkSummary['articles'][number] & { bookmark_id: string }>
+  );
+  const transcripts = groupByBookmark(
+    db
+      .prepare(`SELECT id, bookmark_id, video_url, transcribed_at FROM transcripts WHERE ${BOOKMARK_IDS_SQL} ORDER BY id`)
+      .all(idsParam) as Array<BookmarkSummary['transcripts'][number] & { bookmark_id: string }>
+  );
+  const highlightCounts = groupByBookmark(
+    db
+      .prepare(`SELECT bookmark_id, COUNT(*) AS count FROM highlights WHERE ${BOOKMARK_IDS_SQL} GROUP BY bookmark_id`)
+      .all(idsParam) as Array<{ bookmark_id: string; count: number }>
+  );
+
+  return bookmarks.map((b) => ({
+    ...b,
+    tags: relations.tagsFor(b.id),
+    collections: relations.collectionsFor(b.id),
+    media: relations.mediaFor(b.id),
+    media_alt: relations.mediaAltFor(b.id),
+    poll: relations.pollFor(b.id),
+    thread: relations.threadFor(b.id),
+    processing: relations.processingFor(b.id),
+    articles: (articles[b.id] || []).map(({ bookmark_id: _bookmarkId, ...a }) => ({
+      ...a,
+      pdf_path: a.pdf_path ?? null,
+      content_length: a.content_length ?? 0,
+    })),
+    transcripts: (transcripts[b.id] || []).map(({ bookmark_id: _bookmarkId, ...t }) => t),
+    highlight_count: highlightCounts[b.id]?.[0].count ?? 0,
+  }));
+}
+
+/** Detail payload: full article Markdown, transcripts and resolved highlights. */
 export interface EnrichedBookmark extends BookmarkRow {
+  tags: string[];
+  /** Ids of the collections this bookmark belongs to. */
+  collections: number[];
   media: string[];
+  /** Alt text by media URL, for the media that has some. */
+  media_alt: Record<string, string>;
+  poll: PollOption[];
+  /** Same-author thread the tweet belongs to, when one was captured; otherwise empty. */
+  thread: ThreadPost[];
+  /** Last outcome of each background step that has run for this bookmark. */
+  processing: ProcessingStatus;
   articles: Array<{
     id: number;
     url: string;
@@ -280,34 +1345,43 @@ export interface EnrichedBookmark extends BookmarkRow {
     pdf_path: string | null;
   }>;
   transcripts: TranscriptRow[];
+  highlights: ResolvedHighlight[];
 }
 
-export function enrichBookmarks(db: Database.Database, bookmarks: BookmarkRow[]): EnrichedBookmark[] {
-  const allMedia = getAllMedia(db);
-  const allArticles = getAllArticles(db);
-  const allTranscripts = getAllTranscripts(db);
-
-  const mediaMap: Record<string, string[]> = {};
-  for (const m of allMedia) {
-    if (!mediaMap[m.bookmark_id]) mediaMap[m.bookmark_id] = [];
-    mediaMap[m.bookmark_id].push(m.url);
-  }
-
-  const articleMap: Record<string, ArticleRow[]> = {};
-  for (const a of allArticles) {
-    if (!articleMap[a.bookmark_id]) articleMap[a.bookmark_id] = [];
-    articleMap[a.bookmark_id].push(a);
-  }
+export function enrichBookmarks<T extends BookmarkRow>(db: Database.Database, bookmarks: T[]): Array<T & EnrichedBookmark> {
+  if (bookmarks.length === 0) return [];
+  const idsParam = JSON.stringify(bookmarks.map((b) => b.id));
+  const relations = loadBookmarkRelations(db, idsParam);
+  const articleMap = groupByBookmark(
+    db.prepare(`SELECT * FROM articles WHERE ${BOOKMARK_IDS_SQL} ORDER BY id`).all(idsParam) as ArticleRow[]
+  );
+  const transcriptMap = groupByBookmark(
+    db.prepare(`SELECT * FROM transcripts WHERE ${BOOKMARK_IDS_SQL} ORDER BY id`).all(idsParam) as TranscriptRow[]
+  );
+  const highlightMap = groupByBookmark(
+    db
+      .prepare(`SELECT * FROM highlights WHERE ${BOOKMARK_IDS_SQL} ORDER BY target_type, target_key, start_offset`)
+      .all(idsParam) as HighlightRow[]
+  );
 
-  const transcriptMap: Record<string, TranscriptRow[]> = {};
-  for (const t of allTranscripts) {
-    if (!transcriptMap[t.bookmark_id]) transcriptMap[t.bookmark_id] = [];
-    transcriptMap[t.bookmark_id].push(t);
-  }
+  /** Text a highlight points at, from the rows already loaded above. */
+  const targetText = (h: HighlightRow): string | undefined => {
+    if (h.target_type === 'article') {
+      const matches = (articleMap[h.bookmark_id] || []).filter((a) => a.url === h.target_key);
+      return matches.length > 0 ? matches[matches.length - 1].content_md ?? '' : undefined;
+    }
+    return (transcriptMap[h.bookmark_id] || []).find((t) => t.video_url === h.target_key)?.transcript;
+  };
 
   return bookmarks.map((b) => ({
     ...b,
-    media: mediaMap[b.id] || [],
+    tags: relations.tagsFor(b.id),
+    collections: relations.collectionsFor(b.id),
+    media: relations.mediaFor(b.id),
+    media_alt: relations.mediaAltFor(b.id),
+    poll: relations.pollFor(b.id),
+    thread: relations.threadFor(b.id),
+    processing: relations.processingFor(b.id),
     articles: (articleMap[b.id] || []).map((a) => ({
       id: a.id,
       url: a.url,
@@ -320,55 +1394,311 @@ export function enrichBookmarks(db: Database.Database, bookmarks: BookmarkRow[])
       pdf_path: a.pdf_path ?? null,
     })),
     transcripts: transcriptMap[b.id] || [],
+    highlights: (highlightMap[b.id] || []).map((h) => resolveHighlight(h, targetText(h))),
   }));
 }
 
-export function searchBookmarks(db: Database.Database, pattern: string): BookmarkRow[] {
-  const p = `%${pattern}%`;
-  return db
+export type SnippetField = 'text' | 'article_title' | 'article_content' | 'transcript' | 'notes' | 'highlights' | 'thread';
+
+export interface SearchSnippet {
+  field: SnippetField;
+  /** Match context, with '…' where the field was cut. */
+  text: string;
+  /** Character ranges of matched terms within `text`. */
+  matches: Array<{ start: number; end: number }>;
+}
+
+export interface SearchResult extends BookmarkRow {
+  snippets: SearchSnippet[];
+}
+
+const SNIPPET_FIELDS: SnippetField[] = ['text', 'thread', 'article_title', 'article_content', 'transcript', 'notes', 'highlights'];
+
+const SNIPPET_TOKENS = 16;
+const MATCH_OPEN = '\u0002';
+const MATCH_CLOSE = '\u0003';
+
+/** Strip snippet() markers, recording where each marked match lands in the plain text. */
+export function parseSnippet(field: SnippetField, marked: string): SearchSnippet {
+  const matches: Array<{ start: number; end: number }> = [];
+  let text = '';
+  let start = -1;
+  for (const ch of marked) {
+    if (ch === MATCH_OPEN) {
+      start = text.length;
+    } else if (ch === MATCH_CLOSE) {
+      if (start >= 0) matches.push({ start, end: text.length });
+      start = -1;
+    } else {
+      text += ch;
+    }
+  }
+  return { field, text, matches };
+}
+
+export interface SearchOptions {
+  /** Only return bookmarks in this collection. */
+  collectionId?: number;
+}
+
+/**
+ * Search with the query language from searchQuery.ts: text terms are matched against
+ * the FTS index (best bm25 first, with snippets); filter-only queries list newest first.
+ * Throws SearchQuerySyntaxError for malformed queries.
+ */
+export function searchBookmarks(db: Database.Database, query: string, options: SearchOptions = {}): SearchResult[] {
+  const { match, where, params } = compileSearchQuery(parseSearchQuery(query));
+  if (!match && where.length === 0) return [];
+  where.unshift('b.deleted_at IS NULL');
+  if (options.collectionId !== undefined) {
+    where.push('b.id IN (SELECT bookmark_id FROM collection_bookmarks WHERE collection_id = ?)');
+    params.push(options.collectionId);
+  }
+  const conditions = where.map((w) => `AND ${w}`).join('\n         ');
+
+  if (!match) {
+    const rows = db
+      .prepare(
+        `SELECT b.* FROM bookmarks b
+         WHERE 1 = 1
+         ${conditions}
+         ORDER BY b.saved_at DESC`
+      )
+      .all(...params) as BookmarkRow[];
+    return rows.map((row) => ({ ...row, snippets: [] }));
+  }
+
+  // snippet() column indexes are offset by one for the unindexed bookmark_id column
+  const snippetCols = SNIPPET_FIELDS.map(
+    (field) =>
+      `snippet(bookmarks_fts, ${SEARCH_INDEX_COLUMNS.indexOf(field) + 1}, char(2), char(3), '…', ${SNIPPET_TOKENS}) AS snippet_${field}`
+  ).join(',\n         ');
+  const rows = db
     .prepare(
-      `SELECT DISTINCT b.* FROM bookmarks b
-       LEFT JOIN articles a ON a.bookmark_id = b.id
-       WHERE b.text LIKE ? OR b.author LIKE ? OR b.tags LIKE ?
-         OR a.title LIKE ? OR a.content_md LIKE ?
-       ORDER BY b.saved_at DESC`
+      `SELECT b.*,
+         ${snippetCols}
+       FROM bookmarks_fts f
+       JOIN bookmarks b ON b.id = f.bookmark_id
+       WHERE bookmarks_fts MATCH ?
+         ${conditions}
+       ORDER BY bm25(bookmarks_fts, ${FTS_WEIGHT_ARGS}), b.saved_at DESC`
     )
-    .all(p, p, p, p, p) as BookmarkRow[];
+    .all(match, ...params) as Array<BookmarkRow & Record<string, unknown>>;
+
+  return rows.map((row) => {
+    const bookmark = { ...row };
+    const snippets: SearchSnippet[] = [];
+    for (const field of SNIPPET_FIELDS) {
+      const marked = row[`snippet_${field}`];
+      delete bookmark[`snippet_${field}`];
+      // snippet() returns leading text even for columns without a hit; keep only real matches
+      if (typeof marked === 'string' && marked.includes(MATCH_OPEN)) {
+        snippets.push(parseSnippet(field, marked));
+      }
+    }
+    return { ...(bookmark as BookmarkRow), snippets };
+  });
 }
 
 export function getStats(db: Database.Database): {
   totalBookmarks: number;
   totalArticles: number;
   lastSynced: string | null;
+  trashCount: number;
+  tags: Array<{ name: string; count: number }>;
+  statusCounts: Record<BookmarkStatus, number>;
+  /** Removed on X and not yet archived or trashed here. */
+  removedUpstreamCount: number;
+  lastSyncSession: SyncSessionRow | null;
 } {
-  const countRow = db.prepare('SELECT COUNT(*) as count FROM bookmarks').get() as { count: number };
-  const articleCount = db.prepare('SELECT COUNT(*) as count FROM articles').get() as { count: number };
+  const countRow = db.prepare('SELECT COUNT(*) as count FROM bookmarks WHERE deleted_at IS NULL').get() as { count: number };
+  const articleCount = db
+    .prepare(
+      'SELECT COUNT(*) as count FROM articles a JOIN bookmarks b ON b.id = a.bookmark_id WHERE b.deleted_at IS NULL'
+    )
+    .get() as { count: number };
+  const trashRow = db.prepare('SELECT COUNT(*) as count FROM bookmarks WHERE deleted_at IS NOT NULL').get() as {
+    count: number;
+  };
   const latestRow = db
     .prepare('SELECT saved_at FROM bookmarks ORDER BY saved_at DESC LIMIT 1')
     .get() as { saved_at: string } | undefined;
   return {
     totalBookmarks: countRow.count,
     totalArticles: articleCount.count,
+    trashCount: trashRow.count,
     lastSynced: latestRow?.saved_at ?? null,
+    tags: getTags(db)
+      .filter((t) => t.count > 0)
+      .map(({ name, count }) => ({ name, count })),
+    statusCounts: getStatusCounts(db),
+    removedUpstreamCount: getRemovedUpstreamIds(db).length,
+    lastSyncSession: getLastSyncSession(db),
   };
 }
 
-export function deleteAllBookmarks(db: Database.Database): void {
-  db.transaction(() => {
-    db.prepare('DELETE FROM transcripts').run();
-    db.prepare('DELETE FROM articles').run();
-    db.prepare('DELETE FROM links').run();
-    db.prepare('DELETE FROM media').run();
-    db.prepare('DELETE FROM bookmarks').run();
+// ─── Sync sessions ───────────────────────────────────────────
+
+export interface SyncSessionRow {
+  id: number;
+  started_at: string;
+  finished_at: string;
+  /** 1 when the userscript scrolled the whole bookmarks page from the top to the end. */
+  complete: number;
+  /** Distinct tweet ids the userscript reported. */
+  seen_count: number;
+  removed_count: number;
+  restored_count: number;
+}
+
+export interface SyncSessionInput {
+  /** SQLite datetimes (UTC). */
+  startedAt: string;
+  finishedAt: string;
+  complete: boolean;
+  /** Every tweet id the session saw on the bookmarks page. */
+  ids: string[];
+}
+
+/** Note that tweets were bookmarked on X at `at` (default now), which opts them into removal checks. */
+export function markSeenUpstream(db: Database.Database, ids: string[], at?: string): void {
+  db.prepare(
+    `UPDATE bookmarks SET last_seen_at = COALESCE(?, CURRENT_TIMESTAMP) WHERE source = 'x' AND id IN (SELECT value FROM json_each(?))`
+  ).run(at ?? null, JSON.stringify(ids));
+}
+
+/**
+ * Record a pass of the userscript over the X bookmarks page. Every tweet it saw gets
+ * last_seen_at, and one flagged as removed earlier is cleared (bookmarked again). After a
+ * complete pass, tweets saved before it started that it did not see are flagged as removed
+ * upstream, but only those known to have been bookmarked on X (seen by an earlier session
+ * or imported from an archive's bookmarks): a tweet saved from the timeline was never on
+ * that page. Nothing is deleted. Returns the session and the ids flagged and cleared.
+ */
+export function recordSyncSession(
+  db: Database.Database,
+  input: SyncSessionInput
+): { session: SyncSessionRow; removed: string[]; restored: string[] } {
+  return db.transaction(() => {
+    const unique = [...new Set(input.ids)];
+    const ids = JSON.stringify(unique);
+    markSeenUpstream(db, unique, input.finishedAt);
+    const restored = (
+      db
+        .prepare(
+          `UPDATE bookmarks SET removed_upstream_at = NULL
+           WHERE removed_upstream_at IS NOT NULL AND id IN (SELECT value FROM json_each(?))
+           RETURNING id`
+        )
+        .all(ids) as { id: string }[]
+    ).map((r) => r.id);
+    const removed = input.complete
+      ? (
+          db
+            .prepare(
+              `UPDATE bookmarks SET removed_upstream_at = ?
+               WHERE source = 'x' AND deleted_at IS NULL AND removed_upstream_at IS NULL AND last_seen_at IS NOT NULL
+                 AND saved_at < ? AND id NOT IN (SELECT value FROM json_each(?))
+               RETURNING id`
+            )
+            .all(input.finishedAt, input.startedAt, ids) as { id: string }[]
+        ).map((r) => r.id)
+      : [];
+    const { lastInsertRowid } = db
+      .prepare(
+        `INSERT INTO sync_sessions (started_at, finished_at, complete, seen_count, removed_count, restored_count)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(input.startedAt, input.finishedAt, input.complete ? 1 : 0, unique.length, removed.length, restored.length);
+    const session = db.prepare('SELECT * FROM sync_sessions WHERE id = ?').get(lastInsertRowid) as SyncSessionRow;
+    return { session, removed, restored };
   })();
 }
 
-export function deleteBookmark(db: Database.Database, id: string): void {
-  db.transaction(() => {
-    db.prepare('DELETE FROM transcripts WHERE bookmark_id = ?').run(id);
-    db.prepare('DELETE FROM articles WHERE bookmark_id = ?').run(id);
-    db.prepare('DELETE FROM links WHERE bookmark_id = ?').run(id);
-    db.prepare('DELETE FROM media WHERE bookmark_id = ?').run(id);
-    db.prepare('DELETE FROM bookmarks WHERE id = ?').run(id);
+export function getLastSyncSession(db: Database.Database): SyncSessionRow | null {
+  return (db.prepare('SELECT * FROM sync_sessions ORDER BY id DESC LIMIT 1').get() as SyncSessionRow | undefined) ?? null;
+}
+
+/** Bookmarks removed on X that still need a decision: not archived and not in the trash. */
+export function getRemovedUpstreamIds(db: Database.Database): string[] {
+  const rows = db
+    .prepare(
+      `SELECT id FROM bookmarks
+       WHERE removed_upstream_at IS NOT NULL AND deleted_at IS NULL AND status != 'archived'
+       ORDER BY removed_upstream_at DESC, id`
+    )
+    .all() as { id: string }[];
+  return rows.map((r) => r.id);
+}
+
+// ─── Trash ───────────────────────────────────────────────────
+
+/** Move a bookmark to the trash. Returns false if it does not exist or is already trashed. */
+export function deleteBookmark(db: Database.Database, id: string): boolean {
+  return (
+    db.prepare('UPDATE bookmarks SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL').run(id)
+      .changes > 0
+  );
+}
+
+/** Move every bookmark to the trash. Returns the ids trashed, so the caller can offer undo. */
+export function deleteAllBookmarks(db: Database.Database): string[] {
+  return db.transaction(() => {
+    const ids = (db.prepare('SELECT id FROM bookmarks WHERE deleted_at IS NULL').all() as { id: string }[]).map(
+      (r) => r.id
+    );
+    db.prepare('UPDATE bookmarks SET deleted_at = CURRENT_TIMESTAMP WHERE deleted_at IS NULL').run();
+    return ids;
+  })();
+}
+
+export function restoreBookmarks(db: Database.Database, ids: string[]): number {
+  const stmt = db.prepare('UPDATE bookmarks SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL');
+  return db.transaction(() => {
+    let restored = 0;
+    for (const id of ids) restored += stmt.run(id).changes;
+    return restored;
+  })();
+}
+
+/** Trashed bookmarks, most recently deleted first. */
+export function getTrash(db: Database.Database): BookmarkRow[] {
+  return db
+    .prepare('SELECT * FROM bookmarks WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC, saved_at DESC')
+    .all() as BookmarkRow[];
+}
+
+/** Ids of trashed bookmarks deleted more than `retentionDays` days ago. */
+export function getExpiredTrashIds(db: Database.Database, retentionDays: number): string[] {
+  const rows = db
+    .prepare(`SELECT id FROM bookmarks WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?)`)
+    .all(`-${retentionDays} days`) as { id: string }[];
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Permanently delete trashed bookmarks and all their rows. Ids not in the trash are skipped.
+ * Returns the ids actually purged (files on disk are the caller's job, see lib/trash.ts).
+ */
+export function purgeBookmarks(db: Database.Database, ids: string[]): string[] {
+  return db.transaction(() => {
+    const purged: string[] = [];
+    for (const id of ids) {
+      const row = db.prepare('SELECT deleted_at FROM bookmarks WHERE id = ?').get(id) as
+        | { deleted_at: string | null }
+        | undefined;
+      if (!row?.deleted_at) continue;
+      db.prepare('DELETE FROM transcripts WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM articles WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM links WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM media WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM bookmark_tags WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM collection_bookmarks WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM highlights WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM jobs WHERE bookmark_id = ?').run(id);
+      db.prepare('DELETE FROM bookmarks WHERE id = ?').run(id);
+      purged.push(id);
+    }
+    return purged;
   })();
 }
@@ -0,0 +1,87 @@
+/**
+ * Server-Sent Events fan-out for the dashboard (GET /api/events).
+ * Each published event is written to every connected client as `event:` + JSON `data:`.
+ */
+import type { JobStatus, JobType } from './jobQueue.js';
+import type { ArchiveImportProgress, ArchiveImportReport } from './xArchive.js';
+
+export interface JobEvent {
+  id: number;
+  type: JobType;
+  bookmarkId: string | null;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  error?: string;
+}
+
+/** End of an x_archive job; queuedJobs counts the link extractions it queued. */
+export interface ArchiveImportFinished {
+  jobId: number;
+  report: ArchiveImportReport & { queuedJobs: number };
+}
+
+/** Event name → payload, as sent on the wire. */
+export interface ServerEvents {
+  'bookmark-created': { id: string };
+  'bookmark-updated': { id: string };
+  'job-progress': JobEvent;
+  'job-failed': JobEvent & { error: string };
+  'import-progress': ArchiveImportProgress & { jobId: number };
+  'import-finished': ArchiveImportFinished;
+}
+
+export type ServerEventName = keyof ServerEvents;
+
+/** The part of a response stream we write to (an Express Response in the server). */
+export interface SseClient {
+  write(chunk: string): boolean;
+}
+
+export function formatSseEvent(event: string, data: unknown, id?: number): string {
+  const lines = [`event: ${event}`];
+  if (id !== undefined) lines.push(`id: ${id}`);
+  // JSON.stringify never emits raw newlines, so the payload is always one data: line
+  lines.push(`data: ${JSON.stringify(data)}`);
+  return `${lines.join('\n')}\n\n`;
+}
+
+export class EventStream {
+  private clients = new Set<SseClient>();
+  private nextId = 1;
+
+  /** Register a client; returns a function that removes it. */
+  add(client: SseClient): () => void {
+    this.clients.add(client);
+    return () => {
+      this.clients.delete(client);
+    };
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  publish<E extends ServerEventName>(event: E, data: ServerEvents[E]): void {
+    if (this.clients.size === 0) return;
+    const chunk = formatSseEvent(event, data, this.nextId++);
+    for (const client of this.clients) {
+      try {
+        client.write(chunk);
+      } catch {
+        // A client that went away mid-write is removed by its close handler
+      }
+    }
+  }
+
+  /** SSE comment line; keeps idle connections from being closed by proxies. */
+  heartbeat(): void {
+    for (const client of this.clients) {
+      try {
+        client.write(': ping\n\n');
+      } catch {
+        // See publish()
+      }
+    }
+  }
+}
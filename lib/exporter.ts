@@ -2,14 +2,29 @@ import fs from 'fs';
 import path from 'path';
 import archiver from 'archiver';
 import Database from 'better-sqlite3';
+import type { BookmarkSource, PollOption, ThreadPost } from './db.js';
 
 interface BookmarkExport {
     id: string;
     url: string;
     author: string;
     text: string;
+    source: BookmarkSource;
     saved_at: string;
-    media: string[];
+    posted_at: string | null;
+    reply_count: number | null;
+    retweet_count: number | null;
+    like_count: number | null;
+    in_reply_to_id: string | null;
+    in_reply_to_author: string | null;
+    quoted_id: string | null;
+    quoted_author: string | null;
+    quoted_text: string | null;
+    notes: string | null;
+    tags: string[];
+    media: Array<{ url: string; alt_text: string | null }>;
+    poll: PollOption[];
+    thread: ThreadPost[];
     articles: Array<{
         title: string;
         author: string | null;
@@ -22,6 +37,12 @@ interface BookmarkExport {
         video_url: string;
         transcript: string;
     }>;
+    highlights: Array<{
+        target_type: 'article' | 'transcript';
+        target_key: string;
+        quote: string;
+        comment: string | null;
+    }>;
 }
 
 /**
@@ -35,34 +56,134 @@ function slugify(text: string, maxLen = 50): string {
         .slice(0, maxLen);
 }
 
+/**
+ * Render the highlights on one article or transcript as blockquotes with their comments.
+ */
+function highlightsToMarkdown(highlights: BookmarkExport['highlights']): string[] {
+    if (highlights.length === 0) return [];
+    const lines = ['### Highlights', ''];
+    for (const h of highlights) {
+        lines.push(...h.quote.trim().split('\n').map((line) => `> ${line}`));
+        if (h.comment) {
+            lines.push('');
+            lines.push(h.comment);
+        }
+        lines.push('');
+    }
+    return lines;
+}
+
+/**
+ * Heading for a bookmark: the author for tweets, the page title for everything else.
+ */
+function bookmarkTitle(bookmark: BookmarkExport): string {
+    if (bookmark.source === 'x') return bookmark.author.split('\n')[0].trim();
+    return bookmark.articles[0]?.title || bookmark.text.split('\n')[0].trim() || bookmark.url;
+}
+
+/**
+ * "12 replies · 3 reposts · 40 likes", leaving out counts that were not captured.
+ */
+function engagementLine(bookmark: BookmarkExport): string | null {
+    const parts = [
+        [bookmark.reply_count, 'replies'],
+        [bookmark.retweet_count, 'reposts'],
+        [bookmark.like_count, 'likes'],
+    ]
+        .filter(([count]) => count !== null)
+        .map(([count, label]) => `${count} ${label}`);
+    return parts.length > 0 ? parts.join(' · ') : null;
+}
+
 /**
  * Generate a Markdown file for a single bookmark.
  */
 function bookmarkToMarkdown(bookmark: BookmarkExport, index: number): string {
     const lines: string[] = [];
+    const isTweet = bookmark.source === 'x';
 
     // Header
-    const authorClean = bookmark.author.split('\n')[0].trim();
-    lines.push(`# ${authorClean}`);
+    lines.push(`# ${bookmarkTitle(bookmark)}`);
     lines.push('');
+    if (bookmark.posted_at) lines.push(`> Posted: ${new Date(`${bookmark.posted_at}Z`).toLocaleString()}`);
     lines.push(`> Saved: ${new Date(bookmark.saved_at).toLocaleString()}`);
-    lines.push(`> Tweet: [${bookmark.url}](${bookmark.url})`);
+    lines.push(`> ${isTweet ? 'Tweet' : 'URL'}: [${bookmark.url}](${bookmark.url})`);
+    if (!isTweet && bookmark.author) lines.push(`> Site: ${bookmark.author}`);
+    if (bookmark.in_reply_to_id || bookmark.in_reply_to_author) {
+        const target = bookmark.in_reply_to_id
+            ? `[${bookmark.in_reply_to_author ?? 'this post'}](https://x.com/i/web/status/${bookmark.in_reply_to_id})`
+            : bookmark.in_reply_to_author;
+        lines.push(`> In reply to: ${target}`);
+    }
+    const engagement = engagementLine(bookmark);
+    if (engagement) lines.push(`> ${engagement}`);
+    if (bookmark.tags.length > 0) {
+        lines.push(`> Tags: ${bookmark.tags.map((t) => `#${t.replace(/\s+/g, '-')}`).join(' ')}`);
+    }
     lines.push('');
 
-    // Tweet text
+    // Tweet text, or the title and note saved with a web page
     if (bookmark.text) {
-        lines.push('## Tweet');
+        lines.push(isTweet ? '## Tweet' : '## Description');
         lines.push('');
         lines.push(bookmark.text);
         lines.push('');
     }
 
+    // Thread, one numbered post after another
+    if (bookmark.thread.length > 0) {
+        lines.push('## Thread');
+        lines.push('');
+        bookmark.thread.forEach((post, i) => {
+            const number = `${i + 1}/${bookmark.thread.length}`;
+            lines.push(post.tweet_id ? `**[${number}](https://x.com/i/web/status/${post.tweet_id})**` : `**${number}**`);
+            lines.push('');
+            if (post.text) {
+                lines.push(post.text);
+                lines.push('');
+            }
+            for (const url of post.media) lines.push(`![media](${url})`);
+            for (const url of post.links) lines.push(`- <${url}>`);
+            if (post.media.length > 0 || post.links.length > 0) lines.push('');
+        });
+    }
+
+    // Poll
+    if (bookmark.poll.length > 0) {
+        lines.push('## Poll');
+        lines.push('');
+        for (const option of bookmark.poll) {
+            lines.push(`- ${option.label}${option.percent !== null ? ` — ${option.percent}%` : ''}`);
+        }
+        lines.push('');
+    }
+
+    // Quoted tweet
+    if (bookmark.quoted_text || bookmark.quoted_author) {
+        lines.push('## Quoted tweet');
+        lines.push('');
+        const source = bookmark.quoted_id
+            ? `[${bookmark.quoted_author || 'Quoted tweet'}](https://x.com/i/web/status/${bookmark.quoted_id})`
+            : bookmark.quoted_author;
+        if (source) lines.push(`> ${source}`, '>');
+        lines.push(...(bookmark.quoted_text ?? '').split('\n').map((line) => `> ${line}`));
+        lines.push('');
+    }
+
+    // Notes
+    if (bookmark.notes) {
+        lines.push('## Notes');
+        lines.push('');
+        lines.push(bookmark.notes);
+        lines.push('');
+    }
+
     // Media
     if (bookmark.media.length > 0) {
         lines.push('## Media');
         lines.push('');
-        for (const url of bookmark.media) {
-            lines.push(`![media](${url})`);
+        for (const m of bookmark.media) {
+            lines.push(`![${(m.alt_text ?? 'media').replace(/[[\]\s]+/g, ' ').trim()}](${m.url})`);
         }
         lines.push('');
     }
@@ -83,6 +204,9 @@ function bookmarkToMarkdown(bookmark: BookmarkExport, index: number): string {
         }
         lines.push(article.content_md);
         lines.push('');
+        lines.push(...highlightsToMarkdown(
+            bookmark.highlights.filter((h) => h.target_type === 'article' && h.target_key === article.url)
+        ));
     }
 
     // Transcripts
@@ -94,20 +218,51 @@ function bookmarkToMarkdown(bookmark: BookmarkExport, index: number): string {
         lines.push('');
         lines.push(t.transcript);
         lines.push('');
+        lines.push(...highlightsToMarkdown(
+            bookmark.highlights.filter((h) => h.target_type === 'transcript' && h.target_key === t.video_url)
+        ));
     }
 
     return lines.join('\n');
 }
 
+export interface ExportOptions {
+    /** Export only this collection, in its manual order. */
+    collectionId?: number;
+}
+
 /**
- * Export all bookmarks as a zip of Markdown files.
+ * Export all bookmarks (or one collection) as a zip of Markdown files.
  * Returns the path to the generated zip file.
  */
-export async function exportBookmarks(db: Database.Database, dataDir: string): Promise<string> {
+export async function exportBookmarks(
+    db: Database.Database,
+    dataDir: string,
+    options: ExportOptions = {}
+): Promise<string> {
     // Fetch all data
-    const bookmarks = db.prepare('SELECT * FROM bookmarks ORDER BY saved_at DESC').all() as any[];
-    const media = db.prepare('SELECT * FROM media').all() as any[];
+    const collection = options.collectionId !== undefined
+        ? db.prepare('SELECT * FROM collections WHERE id = ?').get(options.collectionId) as any
+        : undefined;
+    if (options.collectionId !== undefined && !collection) {
+        throw new Error(`Collection ${options.collectionId} not found`);
+    }
+    const bookmarks = collection
+        ? db.prepare(
+            `SELECT b.* FROM collection_bookmarks cb JOIN bookmarks b ON b.id = cb.bookmark_id
+             WHERE cb.collection_id = ? AND b.deleted_at IS NULL ORDER BY cb.position, cb.added_at`
+        ).all(collection.id) as any[]
+        : db.prepare('SELECT * FROM bookmarks WHERE deleted_at IS NULL ORDER BY saved_at DESC').all() as any[];
+    const media = db.prepare('SELECT * FROM media ORDER BY id').all() as any[];
+    const pollOptions = db.prepare('SELECT * FROM poll_options ORDER BY bookmark_id, position').all() as any[];
     const articles = db.prepare('SELECT * FROM articles').all() as any[];
+    const threadPosts = db.prepare('SELECT * FROM thread_posts ORDER BY bookmark_id, position').all() as any[];
+    const tags = db
+        .prepare('SELECT bt.bookmark_id, t.name FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id ORDER BY t.name COLLATE NOCASE')
+        .all() as any[];
+    const highlights = db
+        .prepare('SELECT * FROM highlights ORDER BY target_type, target_key, start_offset')
+        .all() as any[];
 
     let transcripts: any[] = [];
     try {
@@ -115,10 +270,22 @@ export async function exportBookmarks(db: Database.Database, dataDir: string): P
     } catch { /* table may not exist yet */ }
 
     // Group by bookmark
-    const mediaMap: Record<string, string[]> = {};
+    const mediaMap: Record<string, BookmarkExport['media']> = {};
     for (const m of media) {
         if (!mediaMap[m.bookmark_id]) mediaMap[m.bookmark_id] = [];
-        mediaMap[m.bookmark_id].push(m.url);
+        mediaMap[m.bookmark_id].push({ url: m.url, alt_text: m.alt_text });
+    }
+
+    const pollMap: Record<string, PollOption[]> = {};
+    for (const o of pollOptions) {
+        if (!pollMap[o.bookmark_id]) pollMap[o.bookmark_id] = [];
+        pollMap[o.bookmark_id].push({ label: o.label, percent: o.percent });
+    }
+
+    const threadMap: Record<string, ThreadPost[]> = {};
+    for (const p of threadPosts) {
+        if (!threadMap[p.bookmark_id]) threadMap[p.bookmark_id] = [];
+        threadMap[p.bookmark_id].push({ tweet_id: p.tweet_id, text: p.text, media: JSON.parse(p.media), links: JSON.parse(p.links) });
     }
 
     const articleMap: Record<string, any[]> = {};
@@ -127,6 +294,18 @@ export async function exportBookmarks(db: Database.Database, dataDir: string): P
         articleMap[a.bookmark_id].push(a);
     }
 
+    const tagMap: Record<string, string[]> = {};
+    for (const t of tags) {
+        if (!tagMap[t.bookmark_id]) tagMap[t.bookmark_id] = [];
+        tagMap[t.bookmark_id].push(t.name);
+    }
+
+    const highlightMap: Record<string, any[]> = {};
+    for (const h of highlights) {
+        if (!highlightMap[h.bookmark_id]) highlightMap[h.bookmark_id] = [];
+        highlightMap[h.bookmark_id].push(h);
+    }
+
     const transcriptMap: Record<string, any[]> = {};
     for (const t of transcripts) {
         if (!transcriptMap[t.bookmark_id]) transcriptMap[t.bookmark_id] = [];
@@ -135,15 +314,19 @@ export async function exportBookmarks(db: Database.Database, dataDir: string): P
 
     const enriched: BookmarkExport[] = bookmarks.map(b => ({
         ...b,
+        tags: tagMap[b.id] || [],
         media: mediaMap[b.id] || [],
+        poll: pollMap[b.id] || [],
+        thread: threadMap[b.id] || [],
         articles: articleMap[b.id] || [],
         transcripts: transcriptMap[b.id] || [],
+        highlights: highlightMap[b.id] || [],
     }));
 
     // Generate markdown files
     const exportDir = path.join(dataDir, 'exports');
     const timestamp = new Date().toISOString().slice(0, 10);
-    const exportName = `xmarks_${timestamp}`;
+    const exportName = collection ? `xmarks_${slugify(collection.name) || collection.id}_${timestamp}` : `xmarks_${timestamp}`;
     const exportPath = path.join(exportDir, exportName);
 
     if (fs.existsSync(exportPath)) {
@@ -152,16 +335,21 @@ export async function exportBookmarks(db: Database.Database, dataDir: string): P
     fs.mkdirSync(path.join(exportPath, 'bookmarks'), { recursive: true });
 
     // Index file
-    const indexLines = [`# XMarks Export — ${timestamp}`, '', `**${enriched.length} bookmarks**`, '', '## Contents', ''];
+    const indexLines = [
+        collection ? `# XMarks Export — ${collection.name} — ${timestamp}` : `# XMarks Export — ${timestamp}`,
+        '',
+    ];
+    if (collection?.description) indexLines.push(collection.description, '');
+    indexLines.push(`**${enriched.length} bookmarks**`, '', '## Contents', '');
 
     for (let i = 0; i < enriched.length; i++) {
         const b = enriched[i];
-        const authorSlug = slugify(b.author.split('\n')[0]);
-        const filename = `${String(i + 1).padStart(3, '0')}_${authorSlug}_${b.id}.md`;
+        const title = bookmarkTitle(b);
+        const filename = `${String(i + 1).padStart(3, '0')}_${slugify(title)}_${b.id}.md`;
         const markdown = bookmarkToMarkdown(b, i);
 
         fs.writeFileSync(path.join(exportPath, 'bookmarks', filename), markdown, 'utf-8');
-        indexLines.push(`${i + 1}. [${b.author.split('\n')[0]}](bookmarks/${filename}) — ${b.articles.length} article(s)`);
+        indexLines.push(`${i + 1}. [${title}](bookmarks/${filename}) — ${b.articles.length} article(s)`);
     }
 
     fs.writeFileSync(path.join(exportPath, 'index.md'), indexLines.join('\n'), 'utf-8');
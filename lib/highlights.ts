@@ -0,0 +1,79 @@
+/**
+ * Text-range anchors for highlights on article content_md and transcripts.
+ *
+ * A highlight stores the quoted text, a little context on each side and the original
+ * offsets. Offsets alone break as soon as an article is re-extracted, so on read the
+ * anchor is re-located: exact offsets first, then the occurrence of the quote whose
+ * surrounding context matches best, then a whitespace/case-insensitive search.
+ */
+
+export const ANCHOR_CONTEXT_CHARS = 32;
+
+export interface TextAnchor {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+  end: number;
+}
+
+/** Build an anchor for text[start, end). Returns null for empty or out-of-range selections. */
+export function createAnchor(text: string, start: number, end: number): TextAnchor | null {
+  if (!Number.isInteger(start) || !Number.isInteger(end)) return null;
+  if (start < 0 || end > text.length || start >= end) return null;
+  const quote = text.slice(start, end);
+  if (!quote.trim()) return null;
+  return {
+    quote,
+    prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_CHARS), start),
+    suffix: text.slice(end, end + ANCHOR_CONTEXT_CHARS),
+    start,
+    end,
+  };
+}
+
+/** Length of the common run at the end of a and b (prefix) or start (suffix). */
+function commonEnd(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+function commonStart(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find where an anchor now sits in `text`. Returns null when the quote no longer
+ * appears (the highlight is then shown as orphaned rather than dropped).
+ */
+export function resolveAnchor(text: string, anchor: TextAnchor): { start: number; end: number } | null {
+  const { quote } = anchor;
+  if (!quote) return null;
+  if (text.slice(anchor.start, anchor.end) === quote) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let i = text.indexOf(quote); i !== -1; i = text.indexOf(quote, i + 1)) {
+    const score =
+      commonEnd(text.slice(Math.max(0, i - anchor.prefix.length), i), anchor.prefix) +
+      commonStart(text.slice(i + quote.length, i + quote.length + anchor.suffix.length), anchor.suffix);
+    const distance = Math.abs(i - anchor.start);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: i, score, distance };
+    }
+  }
+  if (best) return { start: best.start, end: best.start + quote.length };
+
+  // Re-extraction often only reflows whitespace or changes case
+  const words = quote.trim().split(/\s+/).map(escapeRegExp);
+  const loose = new RegExp(words.join('\\s+'), 'i').exec(text);
+  return loose ? { start: loose.index, end: loose.index + loose[0].length } : null;
+}
@@ -0,0 +1,13 @@
+/**
+ * HTML helpers shared by the modules that build article content.
+ */
+
+/** Escape text for use in HTML content or a quoted attribute value. */
+export function escapeHtml(input: string): string {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,414 @@
+/**
+ * Imports from other bookmark tools: browser bookmark files (Netscape HTML), Pocket,
+ * Raindrop.io and Instapaper exports. Each format is an Importer in the registry below;
+ * adding one means writing detect() and parse() and calling registerImporter().
+ *
+ * Imported links become bookmarks with source 'import', keyed by urlBookmarkId() so a link
+ * saved twice (or already imported) is not duplicated, and their pages are queued for
+ * article extraction like any other link.
+ */
+import Database from 'better-sqlite3';
+import { JSDOM } from 'jsdom';
+import {
+  addTagsToBookmark,
+  getBookmark,
+  setBookmarkNotes,
+  setBookmarkStatus,
+  startProcessingStep,
+  upsertBookmark,
+  urlHost,
+} from './db.js';
+import { normalizePageUrl, urlBookmarkId, type PlannedJob } from './ingest.js';
+import { sqliteDate } from './parse.js';
+
+/** One link read from an export file. */
+export interface ImportedItem {
+  url: string;
+  title: string;
+  /** Note, excerpt or highlighted selection saved with the link. */
+  note: string;
+  tags: string[];
+  /** When it was saved in the other tool, as an SQLite datetime (UTC). */
+  addedAt: string | null;
+  /** Already read or archived there. */
+  archived: boolean;
+}
+
+export interface Importer {
+  id: string;
+  label: string;
+  description: string;
+  /** File extensions to offer in the upload dialog. */
+  extensions: string[];
+  /** Whether the file content looks like this format. */
+  detect(content: string): boolean;
+  parse(content: string): ImportedItem[];
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+/** Unix seconds as written by browsers and Pocket. */
+function fromUnixSeconds(value: string | null | undefined): string | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  return sqliteDate(new Date(Number(value) * 1000));
+}
+
+/** Comma-separated tag list. */
+function splitTags(value: string | null | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+// ─── HTML formats ────────────────────────────────────────────
+
+/** Browser root folders that say nothing about the link. */
+const BROWSER_ROOT_FOLDERS = new Set([
+  'bookmarks bar',
+  'bookmarks toolbar',
+  'bookmarks menu',
+  'favorites bar',
+  'other bookmarks',
+  'mobile bookmarks',
+  'unsorted bookmarks',
+  'imported',
+]);
+
+/** The <H3> heading of the folder an anchor sits in, if any. */
+function folderOf(anchor: Element): string | null {
+  const list = anchor.closest('dl');
+  if (!list) return null;
+  const heading =
+    list.previousElementSibling?.tagName === 'H3'
+      ? list.previousElementSibling
+      : list.parentElement?.querySelector(':scope > h3');
+  return heading?.textContent?.trim() || null;
+}
+
+const netscapeImporter: Importer = {
+  id: 'netscape',
+  label: 'Browser bookmarks',
+  description: 'Bookmarks HTML exported from Chrome, Firefox, Safari or Edge. Folders become tags.',
+  extensions: ['.html', '.htm'],
+  detect: (content) => /<!DOCTYPE\s+NETSCAPE-Bookmark-file-1>/i.test(content.slice(0, 1000)),
+  parse(content) {
+    const { document } = new JSDOM(content).window;
+    return [...document.querySelectorAll('a[href]')].map((a) => {
+      const folder = folderOf(a);
+      const tags = splitTags(a.getAttribute('tags'));
+      if (folder && !BROWSER_ROOT_FOLDERS.has(folder.toLowerCase())) tags.push(folder);
+      return {
+        url: a.getAttribute('href')!,
+        title: a.textContent?.trim() ?? '',
+        note: '',
+        tags,
+        addedAt: fromUnixSeconds(a.getAttribute('add_date')),
+        archived: false,
+      };
+    });
+  },
+};
+
+const pocketImporter: Importer = {
+  id: 'pocket',
+  label: 'Pocket',
+  description: 'ril_export.html from Pocket. Tags are kept and the read archive is marked archived.',
+  extensions: ['.html', '.htm'],
+  detect: (content) => /<title>\s*Pocket Export\s*<\/title>/i.test(content.slice(0, 1000)),
+  parse(content) {
+    const { document } = new JSDOM(content).window;
+    const items: ImportedItem[] = [];
+    // <h1>Unread</h1><ul>…</ul><h1>Read Archive</h1><ul>…</ul>
+    for (const list of document.querySelectorAll('ul')) {
+      const heading = list.previousElementSibling?.tagName === 'H1' ? list.previousElementSibling.textContent : '';
+      const archived = /archive/i.test(heading ?? '');
+      for (const a of list.querySelectorAll('a[href]')) {
+        items.push({
+          url: a.getAttribute('href')!,
+          title: a.textContent?.trim() ?? '',
+          note: '',
+          tags: splitTags(a.getAttribute('tags')),
+          addedAt: fromUnixSeconds(a.getAttribute('time_added')),
+          archived,
+        });
+      }
+    }
+    return items;
+  },
+};
+
+// ─── CSV formats ─────────────────────────────────────────────
+
+/** RFC 4180 CSV: quoted fields may contain commas, doubled quotes and newlines. */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/** CSV rows as objects keyed by lowercased header names. */
+function csvRecords(content: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return rows.map((row) => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ''])));
+}
+
+function csvHeader(content: string): string[] {
+  const firstLine = content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.split(',').map((h) => h.replace(/"/g, '').trim().toLowerCase());
+}
+
+const raindropImporter: Importer = {
+  id: 'raindrop',
+  label: 'Raindrop.io',
+  description: 'CSV export from Raindrop.io. Collections and tags become tags; notes and excerpts are kept.',
+  extensions: ['.csv'],
+  detect: (content) => {
+    const header = csvHeader(content);
+    return ['url', 'title', 'excerpt', 'folder', 'tags'].every((h) => header.includes(h));
+  },
+  parse(content) {
+    return csvRecords(content).map((r) => {
+      const tags = splitTags(r.tags);
+      const folder = r.folder?.trim();
+      if (folder && folder.toLowerCase() !== 'unsorted') tags.push(folder);
+      return {
+        url: r.url,
+        title: r.title?.trim() ?? '',
+        note: [r.note, r.excerpt].map((s) => s?.trim()).filter(Boolean).join('\n\n'),
+        tags,
+        addedAt: r.created ? sqliteDate(new Date(r.created)) : null,
+        archived: false,
+      };
+    });
+  },
+};
+
+/** Instapaper's built-in folders; any other folder name becomes a tag. */
+const INSTAPAPER_FOLDERS = new Set(['unread', 'archive', 'starred']);
+
+const instapaperImporter: Importer = {
+  id: 'instapaper',
+  label: 'Instapaper',
+  description: 'CSV export from Instapaper. Custom folders become tags and archived articles are marked archived.',
+  extensions: ['.csv'],
+  detect: (content) => {
+    const header = csvHeader(content);
+    return ['url', 'title', 'selection', 'folder'].every((h) => header.includes(h));
+  },
+  parse(content) {
+    return csvRecords(content).map((r) => {
+      const folder = r.folder?.trim() ?? '';
+      // Newer exports add a Tags column holding a JSON array
+      let tags: string[] = [];
+      try {
+        const parsed = r.tags ? JSON.parse(r.tags) : [];
+        if (Array.isArray(parsed)) tags = parsed.filter((t): t is string => typeof t === 'string');
+      } catch {
+        tags = splitTags(r.tags);
+      }
+      if (folder && !INSTAPAPER_FOLDERS.has(folder.toLowerCase())) tags.push(folder);
+      if (folder.toLowerCase() === 'starred') tags.push('starred');
+      return {
+        url: r.url,
+        title: r.title?.trim() ?? '',
+        note: r.selection?.trim() ?? '',
+        tags,
+        addedAt: fromUnixSeconds(r.timestamp),
+        archived: folder.toLowerCase() === 'archive',
+      };
+    });
+  },
+};
+
+// ─── Registry ────────────────────────────────────────────────
+
+/** Checked in order by detectImporter(); more specific formats first. */
+const importers: Importer[] = [pocketImporter, netscapeImporter, raindropImporter, instapaperImporter];
+
+export function registerImporter(importer: Importer): void {
+  if (importers.some((i) => i.id === importer.id)) {
+    throw new Error(`Importer "${importer.id}" is already registered`);
+  }
+  importers.push(importer);
+}
+
+export function getImporters(): readonly Importer[] {
+  return importers;
+}
+
+export function getImporter(id: string): Importer | undefined {
+  return importers.find((i) => i.id === id);
+}
+
+export function detectImporter(content: string): Importer | undefined {
+  return importers.find((i) => i.detect(content));
+}
+
+/**
+ * Parse a file with the named importer, or the first one that recognises it.
+ * Throws ImportFormatError when no importer applies or the file has no links.
+ */
+export function parseImportFile(content: string, importerId?: string): { importer: Importer; items: ImportedItem[] } {
+  const importer = importerId ? getImporter(importerId) : detectImporter(content);
+  if (!importer) {
+    throw new ImportFormatError(
+      importerId ? `Unknown importer "${importerId}"` : 'Unrecognised file — choose the format it was exported from'
+    );
+  }
+  const items = importer.parse(content);
+  if (items.length === 0) throw new ImportFormatError(`No links found in this ${importer.label} file`);
+  return { importer, items };
+}
+
+// ─── Saving ──────────────────────────────────────────────────
+
+export interface LinkImportReport {
+  /** Distinct links in the file (after URL normalisation). */
+  found: number;
+  imported: number;
+  /** Links already saved (including in the trash); left untouched. */
+  skippedExisting: number;
+  errors: Array<{ url: string; error: string }>;
+}
+
+export interface LinkImportResult {
+  report: LinkImportReport;
+  /** Ids of the bookmarks that were created. */
+  importedIds: string[];
+  /** Article extraction for the caller to queue. */
+  jobs: Array<{ bookmarkId: string; job: PlannedJob }>;
+}
+
+export interface LinkImportPreview {
+  found: number;
+  new: number;
+  existing: number;
+  errors: LinkImportReport['errors'];
+  /** The first few new links, for the wizard to show before importing. */
+  sample: Array<Pick<ImportedItem, 'url' | 'title' | 'tags' | 'addedAt' | 'archived'>>;
+}
+
+const PREVIEW_SAMPLE_SIZE = 10;
+
+/** Drop invalid URLs and duplicates within the file, keyed by bookmark id. */
+function planImport(items: ImportedItem[]): { byId: Map<string, ImportedItem>; errors: LinkImportReport['errors'] } {
+  const byId = new Map<string, ImportedItem>();
+  const errors: LinkImportReport['errors'] = [];
+  for (const item of items) {
+    try {
+      const url = normalizePageUrl(item.url);
+      const id = urlBookmarkId(url);
+      if (!byId.has(id)) byId.set(id, { ...item, url });
+    } catch (err) {
+      errors.push({ url: item.url, error: (err as Error).message });
+    }
+  }
+  return { byId, errors };
+}
+
+/** What importing would do, without writing anything. */
+export function previewImport(db: Database.Database, items: ImportedItem[]): LinkImportPreview {
+  const { byId, errors } = planImport(items);
+  const fresh = [...byId].filter(([id]) => !getBookmark(db, id)).map(([, item]) => item);
+  return {
+    found: byId.size,
+    new: fresh.length,
+    existing: byId.size - fresh.length,
+    errors,
+    sample: fresh.slice(0, PREVIEW_SAMPLE_SIZE).map(({ url, title, tags, addedAt, archived }) => ({
+      url,
+      title,
+      tags,
+      addedAt,
+      archived,
+    })),
+  };
+}
+
+/**
+ * Save imported links as bookmarks. The page title becomes the text and the host the author;
+ * notes (Raindrop notes and excerpts, Instapaper selections), tags and archived state carry
+ * over. Everything runs in one transaction, with a savepoint per link so one bad row does not
+ * undo the rest.
+ */
+export function importLinks(db: Database.Database, items: ImportedItem[]): LinkImportResult {
+  const { byId, errors } = planImport(items);
+  const report: LinkImportReport = { found: byId.size, imported: 0, skippedExisting: 0, errors };
+  const importedIds: string[] = [];
+  const jobs: LinkImportResult['jobs'] = [];
+
+  const saveOne = db.transaction((id: string, item: ImportedItem): PlannedJob => {
+    upsertBookmark(db, {
+      id,
+      url: item.url,
+      author: urlHost(item.url) ?? '',
+      text: item.title || item.url,
+      source: 'import',
+      saved_at: item.addedAt ?? undefined,
+    });
+    if (item.tags.length > 0) addTagsToBookmark(db, id, item.tags);
+    if (item.note) setBookmarkNotes(db, id, item.note);
+    if (item.archived) setBookmarkStatus(db, [id], 'archived');
+    startProcessingStep(db, id, 'extract', { links: [item.url] });
+    return { type: 'extract', payload: { links: [item.url] } };
+  });
+
+  db.transaction(() => {
+    for (const [id, item] of byId) {
+      if (getBookmark(db, id)) {
+        report.skippedExisting++;
+        continue;
+      }
+      try {
+        jobs.push({ bookmarkId: id, job: saveOne(id, item) });
+        importedIds.push(id);
+        report.imported++;
+      } catch (err) {
+        report.errors.push({ url: item.url, error: (err as Error).message });
+      }
+    }
+  })();
+
+  return { report, importedIds, jobs };
+}
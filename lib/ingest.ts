@@ -0,0 +1,513 @@
+/**
+ * Saving bookmarks sent by the userscript (POST /api/bookmarks and POST /api/bookmarks/batch):
+ * payload validation, the upsert, the thread posts, and the follow-up jobs to queue.
+ * Web pages saved by URL (POST /api/bookmarks/url) go through ingestUrl instead, and the
+ * userscript's sync session reports (POST /api/sync-sessions) are checked here too.
+ *
+ * Everything here is synchronous database work so a batch can run in one transaction;
+ * the caller queues the returned jobs once it has committed.
+ */
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import {
+  getBookmark,
+  upsertBookmark,
+  getArticlesCount,
+  getMediaUrlsForBookmark,
+  deleteMediaForBookmark,
+  getSyntheticArticleMdLength,
+  replaceLinksAndArticles,
+  getThreadPosts,
+  replaceThreadPosts,
+  deleteSyntheticArticle,
+  saveXArticle,
+  startProcessingStep,
+  addTagsToBookmark,
+  setBookmarkNotes,
+  updateTweetMetadata,
+  urlHost,
+} from './db.js';
+import type { ArticleInput, PollOption, SyncSessionInput, ThreadPost, TweetMetadata } from './db.js';
+import type { JobPayloads, JobType } from './jobQueue.js';
+import { escapeHtml } from './html.js';
+import { parseGraphqlTweet } from './xGraphql.js';
+import { xArticleFromHtml } from './xArticle.js';
+
+export interface BookmarkPayload {
+  id: string;
+  url: string;
+  author: string;
+  text: string;
+  /** Same-author thread gathered on a status page, in order and including the tweet itself; empty if none. */
+  thread: ThreadPost[];
+  media: string[];
+  /** Alt text by media URL. */
+  mediaAlt: Record<string, string>;
+  links: string[];
+  metadata: TweetMetadata;
+  /** The X Article (long-form post) the tweet publishes, when it was captured from its page. */
+  article: ArticleInput | null;
+  /** Re-extract articles even if the bookmark already has some. */
+  forceExtract: boolean;
+  /** Drop stored media and download every URL again. */
+  forceMedia: boolean;
+}
+
+export class BookmarkPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BookmarkPayloadError';
+  }
+}
+
+const MAX_ID_LENGTH = 100;
+
+function optionalString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') throw new BookmarkPayloadError(`${field} must be a string`);
+  return value;
+}
+
+function optionalStringList(body: Record<string, unknown>, field: string): string[] {
+  const value = body[field];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+    throw new BookmarkPayloadError(`${field} must be an array of strings`);
+  }
+  return value;
+}
+
+function optionalCount(body: Record<string, unknown>, field: string): number | null {
+  const value = body[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new BookmarkPayloadError(`${field} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function optionalObject(body: Record<string, unknown>, field: string): Record<string, unknown> | null {
+  const value = body[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) throw new BookmarkPayloadError(`${field} must be an object`);
+  return value as Record<string, unknown>;
+}
+
+/** An ISO timestamp (e.g. a tweet's <time datetime>) as a SQLite datetime in UTC. */
+function optionalDatetime(body: Record<string, unknown>, field: string): string | null {
+  const value = optionalString(body, field);
+  if (!value) return null;
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) throw new BookmarkPayloadError(`${field} must be a date`);
+  return time.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function optionalPoll(body: Record<string, unknown>): PollOption[] {
+  const value = body.poll;
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new BookmarkPayloadError('poll must be an array');
+  return value.map((option) => {
+    if (!option || typeof option !== 'object' || typeof option.label !== 'string') {
+      throw new BookmarkPayloadError('poll options must have a label');
+    }
+    const percent = option.percent ?? null;
+    if (percent !== null && (typeof percent !== 'number' || percent < 0 || percent > 100)) {
+      throw new BookmarkPayloadError('poll percent must be a number from 0 to 100');
+    }
+    return { label: option.label, percent };
+  });
+}
+
+/** The optional tweet metadata fields of a userscript payload. */
+function validateTweetMetadata(body: Record<string, unknown>): TweetMetadata {
+  const inReplyTo = optionalObject(body, 'inReplyTo');
+  const quoted = optionalObject(body, 'quoted');
+  return {
+    postedAt: optionalDatetime(body, 'postedAt'),
+    replyCount: optionalCount(body, 'replyCount'),
+    retweetCount: optionalCount(body, 'retweetCount'),
+    likeCount: optionalCount(body, 'likeCount'),
+    inReplyToId: inReplyTo ? optionalString(inReplyTo, 'id') || null : null,
+    inReplyToAuthor: inReplyTo ? optionalString(inReplyTo, 'author') || null : null,
+    quoted: quoted
+      ? { id: optionalString(quoted, 'id') || null, author: optionalString(quoted, 'author'), text: optionalString(quoted, 'text') }
+      : null,
+    poll: optionalPoll(body),
+  };
+}
+
+function optionalAltTexts(body: Record<string, unknown>): Record<string, string> {
+  const value = optionalObject(body, 'mediaAlt') ?? {};
+  if (!Object.values(value).every((v) => typeof v === 'string')) {
+    throw new BookmarkPayloadError('mediaAlt must map media URLs to strings');
+  }
+  return value as Record<string, string>;
+}
+
+/** How userscripts before 3.8 joined thread parts into threadText. */
+const LEGACY_THREAD_SEPARATOR = '\n\n---\n\n';
+const MAX_THREAD_POSTS = 200;
+
+/** Drop repeated posts (by tweet id, or by text for posts without one) and empty ones. */
+function dedupeThread(posts: ThreadPost[]): ThreadPost[] {
+  const seen = new Set<string>();
+  return posts.filter((post) => {
+    const key = post.tweet_id ? `id:${post.tweet_id}` : `text:${post.text}`;
+    if (!post.text && post.media.length === 0) return false;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * `thread: [{ id?, text, media?, links? }, ...]`, or the threadText string older
+ * userscripts send (parts joined with LEGACY_THREAD_SEPARATOR, without ids).
+ */
+function optionalThread(body: Record<string, unknown>): ThreadPost[] {
+  const value = body.thread;
+  if (value === undefined || value === null) {
+    return dedupeThread(
+      optionalString(body, 'threadText')
+        .split(LEGACY_THREAD_SEPARATOR)
+        .map((text) => ({ tweet_id: null, text: text.trim(), media: [], links: [] }))
+    );
+  }
+  if (!Array.isArray(value)) throw new BookmarkPayloadError('thread must be an array');
+  if (value.length > MAX_THREAD_POSTS) {
+    throw new BookmarkPayloadError(`thread must have at most ${MAX_THREAD_POSTS} posts`);
+  }
+  return dedupeThread(
+    value.map((post) => {
+      if (!post || typeof post !== 'object' || Array.isArray(post)) {
+        throw new BookmarkPayloadError('thread posts must be objects');
+      }
+      const tweetId = typeof post.id === 'number' ? String(post.id) : optionalString(post, 'id');
+      return {
+        tweet_id: tweetId || null,
+        text: optionalString(post, 'text').trim(),
+        media: optionalStringList(post, 'media'),
+        links: optionalStringList(post, 'links'),
+      };
+    })
+  );
+}
+
+/** Rendered article pages are larger than tweets, but still bounded. */
+const MAX_ARTICLE_HTML_LENGTH = 2_000_000;
+
+/** `article: { html, title?, url? }`: the body of an X Article as rendered on its page. */
+function optionalArticle(body: Record<string, unknown>, tweetUrl: string, author: string): ArticleInput | null {
+  const value = optionalObject(body, 'article');
+  if (!value) return null;
+  const html = optionalString(value, 'html');
+  if (html.length > MAX_ARTICLE_HTML_LENGTH) {
+    throw new BookmarkPayloadError(`article html must be at most ${MAX_ARTICLE_HTML_LENGTH} characters`);
+  }
+  return xArticleFromHtml(html, optionalString(value, 'title'), { url: optionalString(value, 'url') || tweetUrl, author });
+}
+
+/**
+ * The payload shape sent when the userscript caught the tweet in X's own GraphQL responses:
+ * `{ graphql: <tweet_results.result>, thread?: [<result>, ...], videoCapture?: boolean }`.
+ * thread is the same-author tweets of a thread on a status page, the tweet itself included.
+ */
+function validateGraphqlPayload(body: Record<string, unknown>): BookmarkPayload {
+  const videoCapture = body.videoCapture !== false;
+  const tweet = parseGraphqlTweet(body.graphql, { videoCapture });
+  if (!tweet) throw new BookmarkPayloadError('graphql is not a readable tweet');
+  if (body.thread !== undefined && body.thread !== null && !Array.isArray(body.thread)) {
+    throw new BookmarkPayloadError('thread must be an array');
+  }
+  const thread: ThreadPost[] = [];
+  for (const result of ((body.thread as unknown[] | undefined) ?? []).slice(0, MAX_THREAD_POSTS)) {
+    const post = parseGraphqlTweet(result, { videoCapture: false });
+    if (post) thread.push({ tweet_id: post.id, text: post.text, media: post.media, links: post.links });
+  }
+  return {
+    ...tweet,
+    article: tweet.article ?? optionalArticle(body, tweet.url, tweet.author),
+    thread: dedupeThread(thread),
+    forceExtract: body.forceExtract === true,
+    forceMedia: body.forceMedia === true,
+  };
+}
+
+/**
+ * Check one userscript payload and fill in defaults. Throws BookmarkPayloadError.
+ * Accepts the fields scraped from the page, or the tweet from X's GraphQL API (see above).
+ */
+export function validateBookmarkPayload(input: unknown): BookmarkPayload {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new BookmarkPayloadError('Bookmark must be an object');
+  }
+  const body = input as Record<string, unknown>;
+  if (body.graphql !== undefined) return validateGraphqlPayload(body);
+  const id = typeof body.id === 'number' ? String(body.id) : body.id;
+  if (typeof id !== 'string' || !id.trim()) {
+    throw new BookmarkPayloadError('Missing id');
+  }
+  if (id.length > MAX_ID_LENGTH) {
+    throw new BookmarkPayloadError(`id must be at most ${MAX_ID_LENGTH} characters`);
+  }
+  const url = optionalString(body, 'url');
+  const author = optionalString(body, 'author');
+  return {
+    id,
+    url,
+    author,
+    text: optionalString(body, 'text'),
+    thread: optionalThread(body),
+    media: optionalStringList(body, 'media'),
+    mediaAlt: optionalAltTexts(body),
+    links: optionalStringList(body, 'links'),
+    metadata: validateTweetMetadata(body),
+    article: optionalArticle(body, url, author),
+    forceExtract: body.forceExtract === true,
+    forceMedia: body.forceMedia === true,
+  };
+}
+
+/**
+ * Canonical form of a saved page's URL: lowercase host, no fragment, no utm_* tracking
+ * parameters and no trailing slash. Throws BookmarkPayloadError for anything but http(s).
+ */
+export function normalizePageUrl(input: string): string {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new BookmarkPayloadError(`Not a valid URL: ${input}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BookmarkPayloadError(`Only http(s) URLs can be saved: ${input}`);
+  }
+  url.hash = '';
+  for (const key of [...url.searchParams.keys()]) {
+    if (/^utm_/i.test(key)) url.searchParams.delete(key);
+  }
+  if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, '');
+  return url.toString();
+}
+
+/** Stable bookmark id for a page that is not a tweet, so saving the same URL twice updates one row. */
+export function urlBookmarkId(url: string): string {
+  return `url-${crypto.createHash('sha256').update(normalizePageUrl(url)).digest('hex').slice(0, 24)}`;
+}
+
+export type IngestOutcome = 'created' | 'updated' | 'unchanged';
+
+export type PlannedJob = { [T in JobType]: { type: T; payload: JobPayloads[T] } }[JobType];
+
+export interface IngestResult {
+  outcome: IngestOutcome;
+  /** Follow-up work to queue (with bookmarkId = payload id) after the write has committed. */
+  jobs: PlannedJob[];
+}
+
+function sameThread(a: ThreadPost[], b: ThreadPost[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Save one bookmark. New media URLs are downloaded, and links (the tweet's and its thread's)
+ * are extracted the first time, when the thread brings new ones, or with forceExtract.
+ * A thread replaces the stored one unless it is a shorter capture; a tweet that is neither
+ * a thread nor has links gets its text as an article. A bookmark coming back from the trash
+ * counts as created.
+ */
+export function ingestBookmark(db: Database.Database, payload: BookmarkPayload): IngestResult {
+  const { id, url, author, text, thread, media, mediaAlt, links, metadata, article, forceExtract, forceMedia } = payload;
+  const previous = getBookmark(db, id);
+  upsertBookmark(db, { id, url, author, text });
+  const saved = getBookmark(db, id)!;
+  const jobs: PlannedJob[] = [];
+  let contentChanged = updateTweetMetadata(db, id, metadata);
+
+  const existingMediaUrls = getMediaUrlsForBookmark(db, id);
+
+  if (media.length > 0) {
+    if (forceMedia && existingMediaUrls.length > 0) {
+      deleteMediaForBookmark(db, id);
+      contentChanged = true;
+    }
+    const toProcess = forceMedia ? media : media.filter((u) => !existingMediaUrls.includes(u));
+    const alt = Object.keys(mediaAlt).length > 0 ? { alt: mediaAlt } : {};
+    if (toProcess.length > 0) startProcessingStep(db, id, 'media', { urls: media, ...alt });
+    for (const mediaUrl of toProcess) {
+      jobs.push({ type: 'media', payload: mediaAlt[mediaUrl] ? { url: mediaUrl, alt: mediaAlt[mediaUrl] } : { url: mediaUrl } });
+    }
+  }
+
+  if (article && saveXArticle(db, id, article)) contentChanged = true;
+
+  // A single post is just the tweet; only two or more make a thread
+  const storedThread = getThreadPosts(db, id);
+  const previousThreadLinks = new Set(storedThread.flatMap((post) => post.links));
+  let currentThread = storedThread;
+  if (
+    thread.length > 1 &&
+    (forceExtract || thread.length >= storedThread.length) &&
+    !sameThread(thread, storedThread)
+  ) {
+    replaceThreadPosts(db, id, thread);
+    currentThread = thread;
+    deleteSyntheticArticle(db, id);
+    contentChanged = true;
+  }
+  const threadLinks = currentThread.flatMap((post) => post.links);
+  const newThreadLinks = threadLinks.some((link) => !previousThreadLinks.has(link));
+  const allLinks = [...new Set([...links, ...threadLinks])];
+  const articlesCount = getArticlesCount(db, id);
+
+  if (allLinks.length > 0 && (articlesCount === 0 || forceExtract || newThreadLinks)) {
+    startProcessingStep(db, id, 'extract', { links: allLinks });
+    jobs.push({ type: 'extract', payload: { links: allLinks } });
+  } else if (articlesCount === 0 && currentThread.length === 0) {
+    const md = text.trim();
+    if (md) {
+      const existingSyntheticLen = getSyntheticArticleMdLength(db, id);
+      if (forceExtract || existingSyntheticLen === null || md.length > existingSyntheticLen) {
+        const html = `<p>${escapeHtml(md).replace(/\n/g, '<br/>')}</p>`;
+        replaceLinksAndArticles(db, id, [], [
+          {
+            url,
+            title: `X post by ${author || 'Unknown'}`,
+            author: author || null,
+            content: html,
+            contentMd: md,
+            excerpt: md.slice(0, 300),
+            siteName: 'X',
+          },
+        ]);
+        contentChanged = true;
+      }
+    }
+  }
+
+  let outcome: IngestOutcome;
+  if (!previous || previous.deleted_at) {
+    outcome = 'created';
+  } else if (
+    contentChanged ||
+    jobs.length > 0 ||
+    saved.text !== previous.text ||
+    saved.author !== previous.author ||
+    saved.url !== previous.url
+  ) {
+    outcome = 'updated';
+  } else {
+    outcome = 'unchanged';
+  }
+  return { outcome, jobs };
+}
+
+export type BatchItemResult =
+  | { index: number; id: string; result: IngestOutcome; jobs: PlannedJob[] }
+  | { index: number; id: string | null; result: 'rejected'; error: string };
+
+/**
+ * Validate and save many payloads in one transaction. Each item runs in its own savepoint,
+ * so a bad item is rejected without undoing the others.
+ */
+export function ingestBatch(db: Database.Database, items: unknown[]): BatchItemResult[] {
+  const saveOne = db.transaction((payload: BookmarkPayload) => ingestBookmark(db, payload));
+  return db.transaction(() =>
+    items.map((item, index): BatchItemResult => {
+      const rawId = (item as { id?: unknown } | null)?.id;
+      try {
+        const payload = validateBookmarkPayload(item);
+        const { outcome, jobs } = saveOne(payload);
+        return { index, id: payload.id, result: outcome, jobs };
+      } catch (err) {
+        if (!(err instanceof BookmarkPayloadError)) {
+          console.error(`[Ingest] Failed to save batch item ${index}:`, err);
+        }
+        return {
+          index,
+          id: typeof rawId === 'string' || typeof rawId === 'number' ? String(rawId) : null,
+          result: 'rejected',
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+    })
+  )();
+}
+
+export interface UrlBookmarkPayload {
+  /** Normalised with normalizePageUrl. */
+  url: string;
+  /** Optional; the extracted article's title is used when empty. */
+  title: string;
+  note: string;
+  tags: string[];
+}
+
+/** Check a POST /api/bookmarks/url body. Throws BookmarkPayloadError. */
+export function validateUrlBookmarkPayload(input: unknown): UrlBookmarkPayload {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new BookmarkPayloadError('Body must be an object');
+  }
+  const body = input as Record<string, unknown>;
+  if (typeof body.url !== 'string' || !body.url.trim()) {
+    throw new BookmarkPayloadError('Missing url');
+  }
+  return {
+    url: normalizePageUrl(body.url),
+    title: optionalString(body, 'title').trim(),
+    note: optionalString(body, 'note').trim(),
+    tags: optionalStringList(body, 'tags'),
+  };
+}
+
+/**
+ * Save a web page under its stable URL id with source 'web': the title is the text and the
+ * host the author, the note goes to the bookmark's notes. Until a title is known the URL
+ * stands in for it. Returns whether the page still needs its article extracted; that step is
+ * marked pending for the caller to run.
+ */
+export function ingestUrl(
+  db: Database.Database,
+  payload: UrlBookmarkPayload
+): { id: string; outcome: Exclude<IngestOutcome, 'unchanged'>; needsExtraction: boolean } {
+  const id = urlBookmarkId(payload.url);
+  const previous = getBookmark(db, id);
+  upsertBookmark(db, {
+    id,
+    url: payload.url,
+    author: urlHost(payload.url) ?? '',
+    text: payload.title || (previous ? '' : payload.url),
+    source: 'web',
+  });
+  if (payload.tags.length > 0) addTagsToBookmark(db, id, payload.tags);
+  if (payload.note) setBookmarkNotes(db, id, payload.note);
+  const needsExtraction = getArticlesCount(db, id) === 0;
+  if (needsExtraction) startProcessingStep(db, id, 'extract', { links: [payload.url] });
+  return { id, outcome: !previous || previous.deleted_at ? 'created' : 'updated', needsExtraction };
+}
+
+/** Most tweet ids one sync session may report. */
+const MAX_SYNC_SESSION_IDS = 100_000;
+
+/**
+ * Check a POST /api/sync-sessions body:
+ * `{ startedAt, finishedAt?, complete: boolean, ids: [...] }`, times as ISO strings.
+ * A complete session with no ids is refused, since it would flag every bookmark as removed.
+ * Throws BookmarkPayloadError.
+ */
+export function validateSyncSessionPayload(input: unknown): SyncSessionInput {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new BookmarkPayloadError('Body must be an object');
+  }
+  const body = input as Record<string, unknown>;
+  const startedAt = optionalDatetime(body, 'startedAt');
+  if (!startedAt) throw new BookmarkPayloadError('Missing startedAt');
+  const finishedAt = optionalDatetime(body, 'finishedAt') ?? new Date().toISOString().replace('T', ' ').slice(0, 19);
+  if (finishedAt < startedAt) throw new BookmarkPayloadError('finishedAt is before startedAt');
+  if (typeof body.complete !== 'boolean') throw new BookmarkPayloadError('complete must be a boolean');
+  const ids = optionalStringList(body, 'ids');
+  if (ids.length > MAX_SYNC_SESSION_IDS) throw new BookmarkPayloadError(`At most ${MAX_SYNC_SESSION_IDS} ids per session`);
+  if (body.complete && ids.length === 0) throw new BookmarkPayloadError('A complete session must report the ids it saw');
+  return { startedAt, finishedAt, complete: body.complete, ids };
+}
@@ -0,0 +1,342 @@
+/**
+ * SQLite-backed background job queue for the slow parts of saving a bookmark:
+ * media downloads, link extraction, PDF text extraction and transcription, plus X archive imports.
+ *
+ * Jobs survive restarts (anything left `running` is picked up again on start),
+ * run with bounded concurrency, retry with exponential backoff, and end up `dead`
+ * with their last error once they run out of attempts.
+ */
+import { EventEmitter } from 'events';
+import Database from 'better-sqlite3';
+import type { ArchiveDataset } from './xArchive.js';
+
+export const JOB_TYPES = ['media', 'extract', 'pdf_text', 'transcribe', 'x_archive'] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ['pending', 'running', 'done', 'dead'] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface JobRow {
+  id: number;
+  type: JobType;
+  bookmark_id: string | null;
+  /** JSON-encoded handler input. */
+  payload: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  /** Earliest time (ms since epoch) the job may run; pushed back after each failure. */
+  run_at: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+/** Handler input per job type. */
+export interface JobPayloads {
+  /** alt is the image's alt text, stored with the media row. */
+  media: { url: string; alt?: string };
+  extract: { links: string[] };
+  /** pdfPath is on disk; urlPath identifies the article row (articles.pdf_path). */
+  pdf_text: { pdfPath: string; urlPath: string; cleanWithOpenAI: boolean };
+  transcribe: { videoUrl: string };
+  /** removeWhenDone: archivePath is an upload in the temp directory. */
+  x_archive: { archivePath: string; datasets: ArchiveDataset[]; removeWhenDone: boolean };
+}
+
+export interface Job<P = unknown> extends Omit<JobRow, 'payload'> {
+  payload: P;
+}
+
+/** Runs one job. Throwing schedules a retry (or dead-letters the job on its last attempt). */
+export type JobHandler<P = unknown> = (job: Job<P>) => Promise<void>;
+
+export type JobHandlers = { [T in JobType]?: JobHandler<JobPayloads[T]> };
+
+export interface EnqueueOptions {
+  bookmarkId?: string | null;
+  maxAttempts?: number;
+  /** Delay before the first attempt. */
+  delayMs?: number;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+function parseJob(row: JobRow): Job {
+  let payload: unknown = {};
+  try {
+    payload = JSON.parse(row.payload);
+  } catch {
+    // Leave an empty payload; the handler will fail and the job dead-letters normally
+  }
+  return { ...row, payload };
+}
+
+export function enqueueJob<T extends JobType>(
+  db: Database.Database,
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): number {
+  const result = db
+    .prepare('INSERT INTO jobs (type, bookmark_id, payload, max_attempts, run_at) VALUES (?, ?, ?, ?, ?)')
+    .run(
+      type,
+      options.bookmarkId ?? null,
+      JSON.stringify(payload),
+      options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      Date.now() + (options.delayMs ?? 0)
+    );
+  return Number(result.lastInsertRowid);
+}
+
+export function getJob(db: Database.Database, id: number): JobRow | undefined {
+  return db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+}
+
+/**
+ * Atomically mark the next due pending job as running and count the attempt.
+ * Returns undefined when nothing is due.
+ */
+export function claimNextJob(db: Database.Database, now = Date.now()): JobRow | undefined {
+  return db
+    .prepare(
+      `UPDATE jobs SET status = 'running', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = (SELECT id FROM jobs WHERE status = 'pending' AND run_at <= ? ORDER BY run_at, id LIMIT 1)
+       RETURNING *`
+    )
+    .get(now) as JobRow | undefined;
+}
+
+export function completeJob(db: Database.Database, id: number): void {
+  db.prepare(
+    `UPDATE jobs SET status = 'done', last_error = NULL, updated_at = CURRENT_TIMESTAMP, finished_at = CURRENT_TIMESTAMP
+     WHERE id = ?`
+  ).run(id);
+}
+
+/** Delay before retry number `attempt` (1-based): base, 2×base, 4×base, … capped at max. */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+}
+
+/**
+ * Record a failed attempt: reschedule with backoff, or dead-letter the job when it
+ * has used all its attempts. Returns the job's new status.
+ */
+export function failJob(
+  db: Database.Database,
+  job: Pick<JobRow, 'id' | 'attempts' | 'max_attempts'>,
+  error: string,
+  retryDelayMs: number,
+  now = Date.now()
+): JobStatus {
+  if (job.attempts >= job.max_attempts) {
+    db.prepare(
+      `UPDATE jobs SET status = 'dead', last_error = ?, updated_at = CURRENT_TIMESTAMP, finished_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).run(error, job.id);
+    return 'dead';
+  }
+  db.prepare(
+    `UPDATE jobs SET status = 'pending', last_error = ?, run_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+  ).run(error, now + retryDelayMs, job.id);
+  return 'pending';
+}
+
+export interface JobListOptions {
+  statuses?: JobStatus[];
+  bookmarkId?: string;
+  limit?: number;
+}
+
+/** Jobs, newest first, with their payloads decoded. */
+export function listJobs(db: Database.Database, options: JobListOptions = {}): Job[] {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (options.statuses && options.statuses.length > 0) {
+    where.push(`status IN (${options.statuses.map(() => '?').join(', ')})`);
+    params.push(...options.statuses);
+  }
+  if (options.bookmarkId !== undefined) {
+    where.push('bookmark_id = ?');
+    params.push(options.bookmarkId);
+  }
+  const rows = db
+    .prepare(
+      `SELECT * FROM jobs ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY id DESC LIMIT ?`
+    )
+    .all(...params, options.limit ?? 100) as JobRow[];
+  return rows.map(parseJob);
+}
+
+export function getJobCounts(db: Database.Database, bookmarkId?: string): Record<JobStatus, number> {
+  const counts = Object.fromEntries(JOB_STATUSES.map((s) => [s, 0])) as Record<JobStatus, number>;
+  const rows = (
+    bookmarkId === undefined
+      ? db.prepare('SELECT status, COUNT(*) AS count FROM jobs GROUP BY status').all()
+      : db.prepare('SELECT status, COUNT(*) AS count FROM jobs WHERE bookmark_id = ? GROUP BY status').all(bookmarkId)
+  ) as Array<{ status: JobStatus; count: number }>;
+  for (const row of rows) counts[row.status] = row.count;
+  return counts;
+}
+
+/** Whether a bookmark still has `type` jobs waiting or running, other than `exceptId`. */
+export function hasActiveJobs(db: Database.Database, bookmarkId: string, type: JobType, exceptId?: number): boolean {
+  return !!db
+    .prepare(
+      `SELECT 1 FROM jobs
+       WHERE bookmark_id = ? AND type = ? AND status IN ('pending', 'running') AND id != ?
+       LIMIT 1`
+    )
+    .get(bookmarkId, type, exceptId ?? -1);
+}
+
+/** Put jobs interrupted by a shutdown back in the queue. The interrupted attempt still counts. */
+export function recoverRunningJobs(db: Database.Database): number {
+  return db
+    .prepare(`UPDATE jobs SET status = 'pending', updated_at = CURRENT_TIMESTAMP WHERE status = 'running'`)
+    .run().changes;
+}
+
+/** Delete finished (done) jobs older than `days`. Dead jobs are kept for inspection. */
+export function pruneFinishedJobs(db: Database.Database, days: number): number {
+  return db
+    .prepare(`DELETE FROM jobs WHERE status = 'done' AND finished_at < datetime('now', ?)`)
+    .run(`-${days} days`).changes;
+}
+
+export interface JobQueueOptions {
+  /** Jobs run at the same time. */
+  concurrency?: number;
+  /** How often to look for due jobs (retries become due without anything being enqueued). */
+  pollIntervalMs?: number;
+  backoffBaseMs?: number;
+  backoffMaxMs?: number;
+}
+
+/**
+ * Runs queued jobs with the handler registered for their type.
+ * Emits 'job:start' (job), 'job:done' (job), 'job:retry' (job, error) and 'job:dead' (job, error).
+ */
+export class JobQueue extends EventEmitter {
+  private db: Database.Database;
+  private handlers: JobHandlers;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private backoffBaseMs: number;
+  private backoffMaxMs: number;
+  private running = new Map<number, Promise<void>>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private stopped = true;
+
+  constructor(db: Database.Database, handlers: JobHandlers, options: JobQueueOptions = {}) {
+    super();
+    this.db = db;
+    this.handlers = handlers;
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.backoffBaseMs = options.backoffBaseMs ?? 5000;
+    this.backoffMaxMs = options.backoffMaxMs ?? 30 * 60 * 1000;
+  }
+
+  /** Resume interrupted jobs and start working through the queue. */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    const recovered = recoverRunningJobs(this.db);
+    if (recovered > 0) console.log(`[Jobs] Resuming ${recovered} interrupted job(s)`);
+    this.timer = setInterval(() => this.fill(), this.pollIntervalMs);
+    this.timer.unref();
+    this.fill();
+  }
+
+  /** Stop claiming new jobs and wait for the ones in flight. */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await Promise.all(this.running.values());
+  }
+
+  enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): number {
+    const id = enqueueJob(this.db, type, payload, options);
+    this.fill();
+    return id;
+  }
+
+  /** Number of jobs currently executing. */
+  get activeCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Resolve with the job once it is done or dead, or undefined after `timeoutMs`
+   * (the job keeps going in the background).
+   */
+  waitFor(id: number, timeoutMs: number): Promise<JobRow | undefined> {
+    const current = getJob(this.db, id);
+    if (!current || current.status === 'done' || current.status === 'dead') return Promise.resolve(current);
+    return new Promise((resolve) => {
+      const onFinish = (job: Job) => {
+        if (job.id !== id) return;
+        cleanup();
+        resolve(getJob(this.db, id));
+      };
+      const timeout = setTimeout(() => {
+        cleanup();
+        resolve(undefined);
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timeout);
+        this.off('job:done', onFinish);
+        this.off('job:dead', onFinish);
+      };
+      this.on('job:done', onFinish);
+      this.on('job:dead', onFinish);
+    });
+  }
+
+  /** Claim due jobs until the concurrency limit is reached. */
+  private fill(): void {
+    while (!this.stopped && this.running.size < this.concurrency) {
+      let row: JobRow | undefined;
+      try {
+        row = claimNextJob(this.db);
+      } catch (err) {
+        console.error('[Jobs] Failed to claim a job:', err);
+        return;
+      }
+      if (!row) return;
+      const id = row.id;
+      const run = this.run(parseJob(row)).finally(() => {
+        this.running.delete(id);
+        this.fill();
+      });
+      this.running.set(id, run);
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers[job.type] as JobHandler | undefined;
+    this.emit('job:start', job);
+    try {
+      if (!handler) throw new Error(`No handler for job type "${job.type}"`);
+      await handler(job);
+      completeJob(this.db, job.id);
+      this.emit('job:done', job);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const status = failJob(this.db, job, message, backoffDelay(job.attempts, this.backoffBaseMs, this.backoffMaxMs));
+      if (status === 'dead') {
+        console.error(`[Jobs] ${job.type} job ${job.id} failed permanently after ${job.attempts} attempt(s): ${message}`);
+        this.emit('job:dead', job, message);
+      } else {
+        console.warn(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}): ${message}`);
+        this.emit('job:retry', job, message);
+      }
+    }
+  }
+}
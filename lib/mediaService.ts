@@ -18,12 +18,14 @@ const RETRY_DELAY_MS = 1000;
 export interface DownloadMediaOptions {
   timeoutMs?: number;
   retries?: number;
+  /** Throw the last error instead of returning null when every attempt fails (a 403 still returns null). */
+  throwOnFailure?: boolean;
 }
 
 /**
  * Download a media file from URL to mediaDir/bookmarkId/filename.
  * On 403 (e.g. Twitter CDN without cookies), returns null so caller can store original URL.
- * Retries up to retries times with delay on failure.
+ * Retries up to retries times with delay on failure, then returns null (or throws with throwOnFailure).
  */
 export async function downloadMediaFile(
   mediaDir: string,
@@ -94,6 +96,9 @@ export async function downloadMediaFile(
       }
     }
   }
+  if (options.throwOnFailure) {
+    throw lastError instanceof Error ? lastError : new Error(`Failed to download ${url}`);
+  }
   return null;
 }
 
@@ -0,0 +1,584 @@
+/**
+ * Versioned schema migrations, tracked with PRAGMA user_version.
+ *
+ * Each migration runs once, in order, inside its own transaction; user_version is
+ * bumped in the same transaction so a failed migration leaves the DB untouched.
+ * Never edit a migration that has shipped — add a new one instead.
+ */
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return cols.some((c) => c.name === column);
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, type: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+// ─── Search index helpers ────────────────────────────────────
+
+/**
+ * Layout of the bookmarks_fts full-text index: one row per bookmark, kept in sync by
+ * triggers on bookmarks and on every child table that contributes text.
+ */
+export interface SearchIndexSpec {
+  /** Indexed columns in order; each expr is SQL over the bookmark row aliased `b`. */
+  columns: Array<{ name: string; expr: string }>;
+  /** bookmarks columns whose update should refresh the row. */
+  bookmarkColumns: string[];
+  /** Child tables; ids() gives the affected bookmark ids for the NEW/OLD row, as the body of an IN (...) list. */
+  sources: Array<{ table: string; ids: (row: 'NEW' | 'OLD') => string }>;
+}
+
+function searchIndexInsertSql(spec: SearchIndexSpec, where: string): string {
+  return `INSERT INTO bookmarks_fts (bookmark_id, ${spec.columns.map((c) => c.name).join(', ')})
+      SELECT b.id, ${spec.columns.map((c) => c.expr).join(',\n        ')}
+      FROM bookmarks b ${where}`;
+}
+
+function searchIndexRefreshSql(spec: SearchIndexSpec, ids: string): string {
+  return `DELETE FROM bookmarks_fts WHERE bookmark_id IN (${ids});
+    ${searchIndexInsertSql(spec, `WHERE b.id IN (${ids})`)};`;
+}
+
+/** Drop bookmarks_fts and its triggers (needed before altering columns the triggers reference). */
+function dropSearchIndex(db: Database.Database): void {
+  const triggers = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'trigger' AND name LIKE 'bookmarks_fts_%'")
+    .all() as Array<{ name: string }>;
+  for (const t of triggers) db.exec(`DROP TRIGGER ${t.name}`);
+  db.exec('DROP TABLE IF EXISTS bookmarks_fts');
+}
+
+/** Drop and recreate bookmarks_fts and its triggers for `spec`, then fill it from the source tables. */
+function installSearchIndex(db: Database.Database, spec: SearchIndexSpec): void {
+  dropSearchIndex(db);
+
+  db.exec(`
+    CREATE VIRTUAL TABLE bookmarks_fts USING fts5(
+      bookmark_id UNINDEXED,
+      ${spec.columns.map((c) => c.name).join(',\n      ')},
+      tokenize = 'porter unicode61'
+    );
+    CREATE TRIGGER bookmarks_fts_bookmarks_insert AFTER INSERT ON bookmarks BEGIN
+      ${searchIndexRefreshSql(spec, 'NEW.id')}
+    END;
+    CREATE TRIGGER bookmarks_fts_bookmarks_update AFTER UPDATE OF ${spec.bookmarkColumns.join(', ')} ON bookmarks BEGIN
+      ${searchIndexRefreshSql(spec, 'NEW.id')}
+    END;
+    CREATE TRIGGER bookmarks_fts_bookmarks_delete AFTER DELETE ON bookmarks BEGIN
+      DELETE FROM bookmarks_fts WHERE bookmark_id = OLD.id;
+    END;
+  `);
+  for (const source of spec.sources) {
+    db.exec(`
+      CREATE TRIGGER bookmarks_fts_${source.table}_insert AFTER INSERT ON ${source.table} BEGIN
+        ${searchIndexRefreshSql(spec, source.ids('NEW'))}
+      END;
+      CREATE TRIGGER bookmarks_fts_${source.table}_update AFTER UPDATE ON ${source.table} BEGIN
+        ${searchIndexRefreshSql(spec, source.ids('OLD'))}
+        ${searchIndexRefreshSql(spec, source.ids('NEW'))}
+      END;
+      CREATE TRIGGER bookmarks_fts_${source.table}_delete AFTER DELETE ON ${source.table} BEGIN
+        ${searchIndexRefreshSql(spec, source.ids('OLD'))}
+      END;
+    `);
+  }
+  db.exec(searchIndexInsertSql(spec, ''));
+}
+
+const SEARCH_INDEX_V2: SearchIndexSpec = {
+  columns: [
+    { name: 'text', expr: 'b.text' },
+    { name: 'author', expr: 'b.author' },
+    { name: 'tags', expr: 'b.tags' },
+    { name: 'article_title', expr: '(SELECT group_concat(title, char(10)) FROM articles WHERE bookmark_id = b.id)' },
+    { name: 'article_content', expr: '(SELECT group_concat(content_md, char(10)) FROM articles WHERE bookmark_id = b.id)' },
+    { name: 'transcript', expr: '(SELECT group_concat(transcript, char(10)) FROM transcripts WHERE bookmark_id = b.id)' },
+  ],
+  bookmarkColumns: ['text', 'author', 'tags'],
+  sources: [
+    { table: 'articles', ids: (row) => `${row}.bookmark_id` },
+    { table: 'transcripts', ids: (row) => `${row}.bookmark_id` },
+  ],
+};
+
+const SEARCH_INDEX_V3: SearchIndexSpec = {
+  columns: [
+    { name: 'text', expr: 'b.text' },
+    { name: 'author', expr: 'b.author' },
+    {
+      name: 'tags',
+      expr: `(SELECT group_concat(t.name, ' ') FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id WHERE bt.bookmark_id = b.id)`,
+    },
+    { name: 'article_title', expr: '(SELECT group_concat(title, char(10)) FROM articles WHERE bookmark_id = b.id)' },
+    { name: 'article_content', expr: '(SELECT group_concat(content_md, char(10)) FROM articles WHERE bookmark_id = b.id)' },
+    { name: 'transcript', expr: '(SELECT group_concat(transcript, char(10)) FROM transcripts WHERE bookmark_id = b.id)' },
+  ],
+  bookmarkColumns: ['text', 'author'],
+  sources: [
+    { table: 'articles', ids: (row) => `${row}.bookmark_id` },
+    { table: 'transcripts', ids: (row) => `${row}.bookmark_id` },
+    { table: 'bookmark_tags', ids: (row) => `${row}.bookmark_id` },
+    { table: 'tags', ids: (row) => `SELECT bookmark_id FROM bookmark_tags WHERE tag_id = ${row}.id` },
+  ],
+};
+
+const SEARCH_INDEX_V5: SearchIndexSpec = {
+  columns: [
+    ...SEARCH_INDEX_V3.columns,
+    { name: 'notes', expr: 'b.notes' },
+    {
+      name: 'highlights',
+      expr: `(SELECT group_concat(quote || COALESCE(char(10) || comment, ''), char(10)) FROM highlights WHERE bookmark_id = b.id)`,
+    },
+  ],
+  bookmarkColumns: ['text', 'author', 'notes'],
+  sources: [...SEARCH_INDEX_V3.sources, { table: 'highlights', ids: (row) => `${row}.bookmark_id` }],
+};
+
+const SEARCH_INDEX_V13: SearchIndexSpec = {
+  columns: [
+    ...SEARCH_INDEX_V5.columns,
+    { name: 'thread', expr: '(SELECT group_concat(text, char(10)) FROM thread_posts WHERE bookmark_id = b.id)' },
+  ],
+  bookmarkColumns: SEARCH_INDEX_V5.bookmarkColumns,
+  sources: [...SEARCH_INDEX_V5.sources, { table: 'thread_posts', ids: (row) => `${row}.bookmark_id` }],
+};
+
+/** Column names of the current bookmarks_fts layout (for bm25 weights and snippet() indexes). */
+export const SEARCH_INDEX_COLUMNS: string[] = SEARCH_INDEX_V13.columns.map((c) => c.name);
+
+/** How the userscript joined thread parts into one string before threads were stored as posts. */
+const LEGACY_THREAD_SEPARATOR = '\n\n---\n\n';
+
+/** Same rules as normalizeTagName in db.ts, frozen here for the tags migration. */
+function splitLegacyTags(value: string): string[] {
+  return value
+    .split(',')
+    .map((t) => t.replace(/"/g, '').trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+// ─── Migrations ──────────────────────────────────────────────
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS bookmarks (
+          id TEXT PRIMARY KEY,
+          url TEXT,
+          author TEXT,
+          text TEXT,
+          tags TEXT DEFAULT NULL,
+          saved_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE IF NOT EXISTS media (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          bookmark_id TEXT,
+          url TEXT,
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS links (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          bookmark_id TEXT,
+          original_url TEXT,
+          resolved_url TEXT,
+          is_article INTEGER DEFAULT 0,
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS articles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          bookmark_id TEXT,
+          url TEXT,
+          title TEXT,
+          author TEXT,
+          content TEXT,
+          content_md TEXT,
+          excerpt TEXT,
+          site_name TEXT,
+          extracted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          pdf_path TEXT,
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS transcripts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          bookmark_id TEXT,
+          video_url TEXT,
+          transcript TEXT,
+          transcribed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_bookmark_video ON transcripts(bookmark_id, video_url);
+      `);
+      // Databases created before PDF support lack this column
+      addColumnIfMissing(db, 'articles', 'pdf_path', 'TEXT');
+    },
+  },
+  {
+    version: 2,
+    name: 'full-text search index',
+    up: (db) => installSearchIndex(db, SEARCH_INDEX_V2),
+  },
+  {
+    version: 3,
+    name: 'tags and bookmark_tags',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE bookmark_tags (
+          bookmark_id TEXT NOT NULL,
+          tag_id INTEGER NOT NULL,
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (bookmark_id, tag_id),
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE,
+          FOREIGN KEY(tag_id) REFERENCES tags(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_bookmark_tags_tag ON bookmark_tags(tag_id);
+      `);
+
+      // Move the old comma-separated bookmarks.tags values into the new tables
+      const legacy = db
+        .prepare("SELECT id, tags FROM bookmarks WHERE tags IS NOT NULL AND tags != ''")
+        .all() as Array<{ id: string; tags: string }>;
+      const insertTag = db.prepare('INSERT OR IGNORE INTO tags (name) VALUES (?)');
+      const link = db.prepare(
+        'INSERT OR IGNORE INTO bookmark_tags (bookmark_id, tag_id) SELECT ?, id FROM tags WHERE name = ?'
+      );
+      for (const row of legacy) {
+        for (const name of splitLegacyTags(row.tags)) {
+          insertTag.run(name);
+          link.run(row.id, name);
+        }
+      }
+
+      // The index triggers reference bookmarks.tags, so they go before the column does
+      dropSearchIndex(db);
+      db.exec('ALTER TABLE bookmarks DROP COLUMN tags');
+      installSearchIndex(db, SEARCH_INDEX_V3);
+    },
+  },
+  {
+    version: 4,
+    name: 'collections',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE collections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          description TEXT DEFAULT NULL,
+          position INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE TABLE collection_bookmarks (
+          collection_id INTEGER NOT NULL,
+          bookmark_id TEXT NOT NULL,
+          position INTEGER NOT NULL DEFAULT 0,
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (collection_id, bookmark_id),
+          FOREIGN KEY(collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_collection_bookmarks_bookmark ON collection_bookmarks(bookmark_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'notes and highlights',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE bookmarks ADD COLUMN notes TEXT DEFAULT NULL;
+        -- target_key is articles.url or transcripts.video_url: row ids change on re-extraction, those do not
+        CREATE TABLE highlights (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          bookmark_id TEXT NOT NULL,
+          target_type TEXT NOT NULL CHECK (target_type IN ('article', 'transcript')),
+          target_key TEXT NOT NULL,
+          quote TEXT NOT NULL,
+          prefix TEXT NOT NULL DEFAULT '',
+          suffix TEXT NOT NULL DEFAULT '',
+          start_offset INTEGER NOT NULL,
+          end_offset INTEGER NOT NULL,
+          comment TEXT DEFAULT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_highlights_bookmark ON highlights(bookmark_id);
+      `);
+      installSearchIndex(db, SEARCH_INDEX_V5);
+    },
+  },
+  {
+    version: 6,
+    name: 'reading status',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE bookmarks ADD COLUMN status TEXT NOT NULL DEFAULT 'inbox'
+          CHECK (status IN ('inbox', 'reading', 'done', 'archived'));
+        ALTER TABLE bookmarks ADD COLUMN read_progress REAL NOT NULL DEFAULT 0;
+        ALTER TABLE bookmarks ADD COLUMN read_at DATETIME DEFAULT NULL;
+        CREATE INDEX idx_bookmarks_status ON bookmarks(status);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'trash',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE bookmarks ADD COLUMN deleted_at DATETIME DEFAULT NULL;
+        CREATE INDEX idx_bookmarks_deleted_at ON bookmarks(deleted_at);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'job queue',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL CHECK (type IN ('media', 'extract', 'pdf_text', 'transcribe')),
+          bookmark_id TEXT,
+          payload TEXT NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'done', 'dead')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 5,
+          run_at INTEGER NOT NULL,
+          last_error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finished_at DATETIME
+        );
+        CREATE INDEX idx_jobs_status_run_at ON jobs(status, run_at);
+        CREATE INDEX idx_jobs_bookmark ON jobs(bookmark_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'processing status',
+    up: (db) => {
+      // input keeps what the step was run with, so it can be retried without a re-sync
+      db.exec(`
+        CREATE TABLE processing_status (
+          bookmark_id TEXT NOT NULL,
+          step TEXT NOT NULL CHECK (step IN ('extract', 'media', 'transcribe')),
+          status TEXT NOT NULL CHECK (status IN ('pending', 'ok', 'failed')),
+          error TEXT,
+          input TEXT NOT NULL DEFAULT '{}',
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (bookmark_id, step),
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'bookmark source',
+    up: (db) => {
+      // Where a bookmark came from: tweets, except links brought in by the importers (url-<hash> ids)
+      db.exec(`
+        ALTER TABLE bookmarks ADD COLUMN source TEXT NOT NULL DEFAULT 'x'
+          CHECK (source IN ('x', 'web', 'import', 'manual'));
+        UPDATE bookmarks SET source = 'import' WHERE id LIKE 'url-%';
+        CREATE INDEX idx_bookmarks_source ON bookmarks(source);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'tweet metadata',
+    up: (db) => {
+      // What the userscript reads off a tweet besides its text; NULL where it was not captured
+      db.exec(`
+        ALTER TABLE bookmarks ADD COLUMN posted_at DATETIME DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN reply_count INTEGER DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN retweet_count INTEGER DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN like_count INTEGER DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN in_reply_to_id TEXT DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN in_reply_to_author TEXT DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN quoted_id TEXT DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN quoted_author TEXT DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN quoted_text TEXT DEFAULT NULL;
+        ALTER TABLE media ADD COLUMN alt_text TEXT DEFAULT NULL;
+        CREATE TABLE poll_options (
+          bookmark_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          label TEXT NOT NULL,
+          percent REAL DEFAULT NULL,
+          PRIMARY KEY (bookmark_id, position),
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_bookmarks_posted_at ON bookmarks(posted_at);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'sync sessions',
+    up: (db) => {
+      // Userscript passes over the X bookmarks page; a complete one tells which bookmarks are gone
+      db.exec(`
+        ALTER TABLE bookmarks ADD COLUMN last_seen_at DATETIME DEFAULT NULL;
+        ALTER TABLE bookmarks ADD COLUMN removed_upstream_at DATETIME DEFAULT NULL;
+        CREATE TABLE sync_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at DATETIME NOT NULL,
+          finished_at DATETIME NOT NULL,
+          complete INTEGER NOT NULL DEFAULT 0,
+          seen_count INTEGER NOT NULL DEFAULT 0,
+          removed_count INTEGER NOT NULL DEFAULT 0,
+          restored_count INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX idx_bookmarks_removed_upstream ON bookmarks(removed_upstream_at);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'thread posts',
+    up: (db) => {
+      // media and links are JSON arrays of URLs
+      db.exec(`
+        CREATE TABLE thread_posts (
+          bookmark_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          tweet_id TEXT DEFAULT NULL,
+          text TEXT NOT NULL DEFAULT '',
+          media TEXT NOT NULL DEFAULT '[]',
+          links TEXT NOT NULL DEFAULT '[]',
+          PRIMARY KEY (bookmark_id, position),
+          FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+        );
+      `);
+
+      // Threads used to be saved as one synthetic article; split those back into posts.
+      // Articles someone highlighted are kept so the highlights stay anchored.
+      const threads = db
+        .prepare(
+          `SELECT a.id, a.bookmark_id, a.content_md,
+             EXISTS (SELECT 1 FROM highlights h
+                     WHERE h.bookmark_id = a.bookmark_id AND h.target_type = 'article' AND h.target_key = a.url) AS highlighted
+           FROM articles a
+           WHERE a.site_name = 'X' AND instr(a.content_md, ?) > 0`
+        )
+        .all(LEGACY_THREAD_SEPARATOR) as Array<{ id: number; bookmark_id: string; content_md: string; highlighted: number }>;
+      const insertPost = db.prepare('INSERT OR IGNORE INTO thread_posts (bookmark_id, position, text) VALUES (?, ?, ?)');
+      const deleteArticle = db.prepare('DELETE FROM articles WHERE id = ?');
+      for (const thread of threads) {
+        const parts = thread.content_md.split(LEGACY_THREAD_SEPARATOR).map((p) => p.trim()).filter(Boolean);
+        parts.forEach((text, position) => insertPost.run(thread.bookmark_id, position, text));
+        if (!thread.highlighted) deleteArticle.run(thread.id);
+      }
+
+      installSearchIndex(db, SEARCH_INDEX_V13);
+    },
+  },
+  {
+    version: 14,
+    name: 'archive import jobs',
+    up: (db) => {
+      // SQLite cannot alter a CHECK constraint: rebuild jobs to allow the x_archive type
+      db.exec(`
+        CREATE TABLE jobs_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL CHECK (type IN ('media', 'extract', 'pdf_text', 'transcribe', 'x_archive')),
+          bookmark_id TEXT,
+          payload TEXT NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'done', 'dead')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 5,
+          run_at INTEGER NOT NULL,
+          last_error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finished_at DATETIME
+        );
+        INSERT INTO jobs_new SELECT * FROM jobs;
+        DROP TABLE jobs;
+        ALTER TABLE jobs_new RENAME TO jobs;
+        CREATE INDEX idx_jobs_status_run_at ON jobs(status, run_at);
+        CREATE INDEX idx_jobs_bookmark ON jobs(bookmark_id);
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+export interface RunMigrationsOptions {
+  /**
+   * Called once before the first pending migration, only if the database already has
+   * tables (nothing to back up on a fresh file). Receives the version being upgraded from.
+   */
+  beforeMigrate?: (fromVersion: number) => void;
+  migrations?: Migration[];
+}
+
+/**
+ * Apply all pending migrations in order. Returns the versions before and after.
+ * Throws if the database is newer than this build knows about.
+ */
+export function runMigrations(
+  db: Database.Database,
+  options: RunMigrationsOptions = {}
+): { from: number; to: number } {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  const from = getSchemaVersion(db);
+  if (from > latest) {
+    throw new Error(`Database schema v${from} is newer than this build supports (v${latest})`);
+  }
+
+  const pending = migrations.filter((m) => m.version > from);
+  if (pending.length === 0) return { from, to: from };
+
+  const hasTables = !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' LIMIT 1").get();
+  if (hasTables) options.beforeMigrate?.(from);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    if (hasTables) console.log(`[DB] Applied migration ${migration.version}: ${migration.name}`);
+  }
+  return { from, to: getSchemaVersion(db) };
+}
+
+/**
+ * Consistent snapshot of the database next to it, e.g. bookmarks.db.v1-2025-01-31T12-00-00.bak.
+ * Uses VACUUM INTO so WAL contents are included. Returns the backup path.
+ */
+export function backupDatabase(db: Database.Database, dbPath: string, fromVersion: number): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const backupPath = `${dbPath}.v${fromVersion}-${stamp}.bak`;
+  db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+  console.log(`[DB] Backed up ${dbPath} to ${backupPath} before migrating`);
+  return backupPath;
+}
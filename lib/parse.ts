@@ -0,0 +1,16 @@
+/**
+ * Reading loosely shaped outside data: X's GraphQL responses and archive records, and
+ * other tools' exports.
+ */
+
+/** An object from outside JSON; fields are checked where they are used. */
+export type Json = Record<string, any>;
+
+/**
+ * A date as a SQLite datetime (UTC), or null when it is not a valid date. Takes a Date or
+ * anything Date can parse, e.g. X's "Wed Oct 10 20:19:24 +0000 2018" or ISO strings.
+ */
+export function sqliteDate(value: unknown): string | null {
+  const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString().replace('T', ' ').slice(0, 19) : null;
+}
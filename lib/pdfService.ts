@@ -1,6 +1,11 @@
 import fs from 'fs';
 import path from 'path';
 
+/** Directory name under data/articles for a bookmark's PDFs. */
+export function articleDirName(bookmarkId: string): string {
+  return bookmarkId.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 200) || 'unknown';
+}
+
 /**
  * Save a PDF buffer to data/articles/<bookmarkId>/<safeFilename>.pdf.
  * Creates the directory if needed. Returns relative path (from dataDir) and full path.
@@ -10,7 +15,7 @@ export async function savePdfForBookmark(
   bookmarkId: string,
   buffer: Buffer
 ): Promise<{ relativePath: string; fullPath: string; urlPath: string }> {
-  const safeId = bookmarkId.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 200) || 'unknown';
+  const safeId = articleDirName(bookmarkId);
   const dir = path.join(dataDir, 'articles', safeId);
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
@@ -30,7 +35,13 @@ export async function extractTextFromPdf(pdfPath: string): Promise<string> {
   if (!fs.existsSync(pdfPath)) {
     throw new Error(`PDF not found: ${pdfPath}`);
   }
-  const buffer = fs.readFileSync(pdfPath);
+  return extractTextFromPdfBuffer(fs.readFileSync(pdfPath));
+}
+
+/**
+ * Extract text from PDF bytes (e.g. a paper downloaded by an extractor) without saving them.
+ */
+export async function extractTextFromPdfBuffer(buffer: Uint8Array): Promise<string> {
   const { PDFParse } = await import('pdf-parse');
   const parser = new PDFParse({ data: new Uint8Array(buffer) });
   try {
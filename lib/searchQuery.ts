@@ -0,0 +1,246 @@
+/**
+ * Search query language for the dashboard search box.
+ *
+ * Free words and "quoted phrases" go to the FTS5 index; field filters narrow by
+ * structured data. Any term or filter can be negated with a leading "-".
+ *
+ *   author:@karpathy site:arxiv.org has:video has:pdf -tag:read after:2025-01-01 "scaling laws"
+ *
+ * Fields: author, site, has (video|image|media|pdf|article|transcript|link), tag,
+ * before / after (YYYY-MM-DD, on saved date; after: is inclusive).
+ * A word with an unknown "prefix:" (e.g. a pasted URL) is treated as plain text.
+ */
+
+export class SearchQuerySyntaxError extends Error {
+  /** Character offset in the query where the problem was found. */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'SearchQuerySyntaxError';
+    this.position = position;
+  }
+}
+
+export const SEARCH_FIELDS = ['author', 'site', 'has', 'tag', 'before', 'after'] as const;
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export const HAS_VALUES = ['video', 'image', 'media', 'pdf', 'article', 'transcript', 'link', 'thread'] as const;
+export type HasValue = (typeof HAS_VALUES)[number];
+
+export interface SearchTerm {
+  text: string;
+  phrase: boolean;
+  negated: boolean;
+}
+
+export interface SearchFilter {
+  field: SearchField;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  filters: SearchFilter[];
+}
+
+export interface CompiledSearchQuery {
+  /** FTS5 MATCH expression for positive terms, or null when there are none. */
+  match: string | null;
+  /** SQL conditions over the bookmarks table aliased as `b`, to be ANDed. */
+  where: string[];
+  params: unknown[];
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isSearchField(name: string): name is SearchField {
+  return (SEARCH_FIELDS as readonly string[]).includes(name);
+}
+
+/** Read a "quoted" run starting at input[start] === '"'. Returns the inner text and the index after the closing quote. */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new SearchQuerySyntaxError('Unterminated quote', start);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function readWord(input: string, start: number): { value: string; end: number } {
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { value: input.slice(start, end), end };
+}
+
+function validateFilter(filter: SearchFilter, position: number): void {
+  const { field, value } = filter;
+  if (!value.trim()) {
+    throw new SearchQuerySyntaxError(`Missing value for ${field}:`, position);
+  }
+  if (field === 'has' && !(HAS_VALUES as readonly string[]).includes(value.toLowerCase())) {
+    throw new SearchQuerySyntaxError(
+      `Unknown has: value "${value}" (expected one of ${HAS_VALUES.join(', ')})`,
+      position
+    );
+  }
+  if ((field === 'before' || field === 'after') && (!DATE_RE.test(value) || isNaN(Date.parse(value)))) {
+    throw new SearchQuerySyntaxError(`Invalid date for ${field}: "${value}" (expected YYYY-MM-DD)`, position);
+  }
+}
+
+/**
+ * Parse a search box query into terms and filters.
+ * Throws SearchQuerySyntaxError on unterminated quotes, empty or invalid filter values.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  const filters: SearchFilter[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const tokenStart = i;
+    let negated = false;
+    if (input[i] === '-') {
+      negated = true;
+      i++;
+      if (i >= input.length || /\s/.test(input[i])) {
+        throw new SearchQuerySyntaxError('Dangling "-" (negate a word, "phrase" or field:value)', tokenStart);
+      }
+    }
+
+    if (input[i] === '"') {
+      const { value, end } = readQuoted(input, i);
+      terms.push({ text: value, phrase: true, negated });
+      i = end;
+      continue;
+    }
+
+    const fieldMatch = /^([a-z]+):/i.exec(input.slice(i));
+    if (fieldMatch && isSearchField(fieldMatch[1].toLowerCase())) {
+      const field = fieldMatch[1].toLowerCase() as SearchField;
+      const valueStart = i + fieldMatch[0].length;
+      const { value, end } =
+        input[valueStart] === '"' ? readQuoted(input, valueStart) : readWord(input, valueStart);
+      const filter = { field, value: value.trim(), negated };
+      validateFilter(filter, tokenStart);
+      filters.push(filter);
+      i = end;
+      continue;
+    }
+
+    const { value, end } = readWord(input, i);
+    if (value.includes('"')) {
+      throw new SearchQuerySyntaxError('Unexpected quote inside a word', i + value.indexOf('"'));
+    }
+    terms.push({ text: value, phrase: false, negated });
+    i = end;
+  }
+
+  return { terms, filters };
+}
+
+/** FTS5 string for one term, or null if it has nothing indexable (pure punctuation). */
+function ftsTerm(term: SearchTerm): string | null {
+  const text = term.text.replace(/"/g, '').trim();
+  if (!/[\p{L}\p{N}]/u.test(text)) return null;
+  // Bare words prefix-match so results update while typing; phrases match exactly
+  return term.phrase ? `"${text}"` : `"${text}"*`;
+}
+
+const VIDEO_MEDIA = `(m.url = b.url OR m.url LIKE '%video%' OR m.url LIKE '%.mp4%')`;
+
+const HAS_SQL: Record<HasValue, string> = {
+  video: `(EXISTS (SELECT 1 FROM media m WHERE m.bookmark_id = b.id AND ${VIDEO_MEDIA})
+    OR EXISTS (SELECT 1 FROM transcripts t WHERE t.bookmark_id = b.id))`,
+  image: `EXISTS (SELECT 1 FROM media m WHERE m.bookmark_id = b.id AND NOT ${VIDEO_MEDIA})`,
+  media: `EXISTS (SELECT 1 FROM media m WHERE m.bookmark_id = b.id)`,
+  pdf: `(EXISTS (SELECT 1 FROM articles a WHERE a.bookmark_id = b.id AND a.pdf_path IS NOT NULL)
+    OR EXISTS (SELECT 1 FROM links l WHERE l.bookmark_id = b.id AND lower(l.resolved_url) LIKE '%.pdf'))`,
+  article: `EXISTS (SELECT 1 FROM articles a WHERE a.bookmark_id = b.id)`,
+  transcript: `EXISTS (SELECT 1 FROM transcripts t WHERE t.bookmark_id = b.id)`,
+  link: `EXISTS (SELECT 1 FROM links l WHERE l.bookmark_id = b.id)`,
+  thread: `EXISTS (SELECT 1 FROM thread_posts tp WHERE tp.bookmark_id = b.id)`,
+};
+
+/** Escape LIKE wildcards so user input matches literally (with `ESCAPE '\'`). */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Host match for site: — exact host or any subdomain. The second parameter is the host passed
+ * through escapeLike(). Relies on the url_host() SQL function from initDb.
+ */
+function siteCondition(column: string): string {
+  return `(url_host(${column}) = ? OR url_host(${column}) LIKE '%.' || ? ESCAPE '\\')`;
+}
+
+function filterSql(filter: SearchFilter): { sql: string; params: unknown[] } {
+  switch (filter.field) {
+    case 'author': {
+      const name = filter.value.replace(/^@/, '');
+      return { sql: `b.author LIKE ? ESCAPE '\\'`, params: [`%${escapeLike(name)}%`] };
+    }
+    case 'site': {
+      const host = filter.value
+        .toLowerCase()
+        .replace(/^https?:\/\//, '')
+        .replace(/\/.*$/, '')
+        .replace(/^www\./, '');
+      return {
+        sql: `(EXISTS (SELECT 1 FROM links l WHERE l.bookmark_id = b.id AND ${siteCondition('l.resolved_url')})
+          OR EXISTS (SELECT 1 FROM articles a WHERE a.bookmark_id = b.id AND ${siteCondition('a.url')}))`,
+        params: [host, escapeLike(host), host, escapeLike(host)],
+      };
+    }
+    case 'has':
+      return { sql: HAS_SQL[filter.value.toLowerCase() as HasValue], params: [] };
+    case 'tag': {
+      // tags.name is COLLATE NOCASE, so this is a case-insensitive exact match
+      const tag = filter.value.replace(/^#+/, '').replace(/\s+/g, ' ');
+      return {
+        sql: `EXISTS (SELECT 1 FROM bookmark_tags bt JOIN tags t ON t.id = bt.tag_id
+          WHERE bt.bookmark_id = b.id AND t.name = ?)`,
+        params: [tag],
+      };
+    }
+    case 'before':
+      return { sql: `b.saved_at < ?`, params: [filter.value] };
+    case 'after':
+      return { sql: `b.saved_at >= ?`, params: [filter.value] };
+  }
+}
+
+/** Compile a parsed query into an FTS5 MATCH string plus SQL conditions on bookmarks `b`. */
+export function compileSearchQuery(query: ParsedSearchQuery): CompiledSearchQuery {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  const positive: string[] = [];
+  for (const term of query.terms) {
+    const fts = ftsTerm(term);
+    if (!fts) continue;
+    if (term.negated) {
+      // FTS5 NOT is binary, so exclusions are applied as a subquery instead
+      where.push(`b.id NOT IN (SELECT bookmark_id FROM bookmarks_fts WHERE bookmarks_fts MATCH ?)`);
+      params.push(fts);
+    } else {
+      positive.push(fts);
+    }
+  }
+
+  for (const filter of query.filters) {
+    const { sql, params: filterParams } = filterSql(filter);
+    where.push(filter.negated ? `NOT (${sql})` : sql);
+    params.push(...filterParams);
+  }
+
+  return { match: positive.length > 0 ? positive.join(' ') : null, where, params };
+}
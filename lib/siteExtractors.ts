@@ -0,0 +1,471 @@
+/**
+ * Site-specific extractors, tried by extractArticle before generic Readability. Each one
+ * claims URLs by hostname (subdomains included) and an optional path pattern, and reads the
+ * site's API or page structure for a better article than Readability gets: a repo's README,
+ * a paper's abstract and full text, a video's description, a discussion's comments.
+ * Platforms that also serve custom domains (Substack, Medium) can claim a page by its
+ * content once the fallback has fetched it. Returning null (or throwing) falls back to Readability.
+ */
+import { Readability } from '@mozilla/readability';
+import { JSDOM } from 'jsdom';
+import TurndownService from 'turndown';
+import type { ExtractedArticle } from './articleExtractor.js';
+import { escapeHtml } from './html.js';
+import { extractTextFromPdfBuffer } from './pdfService.js';
+
+export interface SiteExtractor {
+    name: string;
+    /** Hostnames handled, e.g. 'github.com'; subdomains match too. */
+    hosts: string[];
+    /** Checked against the path and query when set. */
+    pattern?: RegExp;
+    /** Claims a page on any other host by its markup, e.g. a publication on its own domain. */
+    detect?(doc: Document): boolean;
+    /** html is the page when it has already been fetched (after detect()). */
+    extract(url: URL, html?: string): Promise<ExtractedArticle | null>;
+}
+
+const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+});
+
+const FETCH_TIMEOUT_MS = 15000;
+/** Papers are bigger than pages. */
+const PDF_TIMEOUT_MS = 60000;
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+const HN_TOP_COMMENTS = 10;
+
+const UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+async function fetchOk(url: string, headers: Record<string, string> = {}, timeoutMs = FETCH_TIMEOUT_MS): Promise<Response | null> {
+    const response = await fetch(url, {
+        headers: { 'User-Agent': UA, ...headers },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(timeoutMs),
+    });
+    return response.ok ? response : null;
+}
+
+/** The body, or null once it runs past maxBytes; counted while reading, as content-length may be missing. */
+async function readBodyLimited(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+    if (Number(response.headers.get('content-length')) > maxBytes || !response.body) return null;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    const body = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return body;
+}
+
+/** Plain text as paragraphs of HTML. */
+function textToHtml(text: string): string {
+    return text
+        .split(/\n{2,}/)
+        .filter((p) => p.trim())
+        .map((p) => `<p>${escapeHtml(p.trim()).replace(/\n/g, '<br/>')}</p>`)
+        .join('\n');
+}
+
+function excerptOf(text: string): string | null {
+    const plain = text.replace(/\s+/g, ' ').trim();
+    return plain ? plain.slice(0, 300) : null;
+}
+
+// ─── GitHub ─────────────────────────────────────────────────────
+
+/** Languages by file extension, for fencing source files. */
+const CODE_LANGUAGES: Record<string, string> = {
+    ts: 'ts', tsx: 'tsx', js: 'js', jsx: 'jsx', py: 'python', rs: 'rust', go: 'go', rb: 'ruby',
+    java: 'java', kt: 'kotlin', c: 'c', h: 'c', cpp: 'cpp', cs: 'csharp', swift: 'swift',
+    sh: 'sh', json: 'json', yml: 'yaml', yaml: 'yaml', toml: 'toml', sql: 'sql', html: 'html', css: 'css',
+};
+
+async function extractGithubRepo(owner: string, repo: string, url: URL): Promise<ExtractedArticle | null> {
+    const api = `https://api.github.com/repos/${owner}/${repo}`;
+    const metaResponse = await fetchOk(api, { Accept: 'application/vnd.github+json' });
+    if (!metaResponse) return null;
+    const meta = await metaResponse.json() as Record<string, any>;
+    const readmeResponse = await fetchOk(`${api}/readme`, { Accept: 'application/vnd.github.html' });
+    const readmeHtml = readmeResponse ? await readmeResponse.text() : '';
+
+    const facts = [
+        typeof meta.stargazers_count === 'number' ? `★ ${meta.stargazers_count.toLocaleString('en-US')}` : null,
+        typeof meta.language === 'string' ? meta.language : null,
+        typeof meta.license?.spdx_id === 'string' && meta.license.spdx_id !== 'NOASSERTION' ? meta.license.spdx_id : null,
+        typeof meta.pushed_at === 'string' ? `updated ${meta.pushed_at.slice(0, 10)}` : null,
+        meta.archived ? 'archived' : null,
+    ].filter(Boolean);
+    const topics = Array.isArray(meta.topics) && meta.topics.length > 0 ? `Topics: ${meta.topics.join(', ')}` : null;
+    const description = typeof meta.description === 'string' ? meta.description : '';
+    const header = [
+        description && `> ${description}`,
+        facts.length > 0 && `> ${facts.join(' · ')}`,
+        topics && `> ${topics}`,
+        typeof meta.homepage === 'string' && meta.homepage && `> ${meta.homepage}`,
+    ].filter(Boolean).join('\n>\n');
+    const readmeMd = readmeHtml ? turndown.turndown(readmeHtml) : '';
+
+    return {
+        url: url.toString(),
+        title: typeof meta.full_name === 'string' ? meta.full_name : `${owner}/${repo}`,
+        author: typeof meta.owner?.login === 'string' ? meta.owner.login : owner,
+        content: [
+            description && `<p>${escapeHtml(description)}</p>`,
+            facts.length > 0 && `<p>${escapeHtml(facts.join(' · '))}</p>`,
+            readmeHtml,
+        ].filter(Boolean).join('\n'),
+        contentMd: [header, readmeMd].filter(Boolean).join('\n\n'),
+        excerpt: description || excerptOf(readmeMd),
+        siteName: 'GitHub',
+    };
+}
+
+async function extractGithubBlob(owner: string, repo: string, ref: string, filePath: string, url: URL): Promise<ExtractedArticle | null> {
+    const response = await fetchOk(`https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${filePath}`);
+    if (!response) return null;
+    const text = await response.text();
+    const ext = filePath.split('.').pop()!.toLowerCase();
+    const isMarkdown = ext === 'md' || ext === 'markdown';
+    const contentMd = isMarkdown ? text : `\`\`\`${CODE_LANGUAGES[ext] ?? ''}\n${text.replace(/\n$/, '')}\n\`\`\``;
+    return {
+        url: url.toString(),
+        title: `${filePath.split('/').pop()} · ${owner}/${repo}`,
+        author: owner,
+        content: isMarkdown ? textToHtml(text) : `<pre><code>${escapeHtml(text)}</code></pre>`,
+        contentMd,
+        excerpt: excerptOf(text),
+        siteName: 'GitHub',
+    };
+}
+
+export const githubExtractor: SiteExtractor = {
+    name: 'GitHub',
+    hosts: ['github.com'],
+    pattern: /^\/[^/]+\/[^/]+(\/?$|\/(tree|blob)\/)/,
+    async extract(url) {
+        if (url.hostname !== 'github.com' && url.hostname !== 'www.github.com') return null;
+        const [owner, rawRepo, kind, ref, ...rest] = url.pathname.split('/').filter(Boolean);
+        const repo = rawRepo.replace(/\.git$/, '');
+        if (kind === 'blob' && ref && rest.length > 0) return extractGithubBlob(owner, repo, ref, rest.join('/'), url);
+        return extractGithubRepo(owner, repo, url);
+    },
+};
+
+// ─── arXiv ──────────────────────────────────────────────────────
+
+/** "2401.01234v2" or an old-style "hep-th/9901001" from /abs/, /pdf/ or /html/ URLs. */
+function arxivId(url: URL): string | null {
+    const match = url.pathname.match(/^\/(?:abs|pdf|html)\/(.+?)(?:\.pdf)?\/?$/);
+    return match ? match[1] : null;
+}
+
+export const arxivExtractor: SiteExtractor = {
+    name: 'arXiv',
+    hosts: ['arxiv.org'],
+    pattern: /^\/(abs|pdf|html)\//,
+    async extract(url) {
+        const id = arxivId(url);
+        if (!id) return null;
+        const feed = await fetchOk(`https://export.arxiv.org/api/query?id_list=${encodeURIComponent(id)}`);
+        if (!feed) return null;
+        const doc = new JSDOM(await feed.text(), { contentType: 'text/xml' }).window.document;
+        const entry = doc.querySelector('entry');
+        const title = entry?.querySelector('title')?.textContent?.replace(/\s+/g, ' ').trim();
+        if (!entry || !title) return null;
+        const abstract = entry.querySelector('summary')?.textContent?.trim() ?? '';
+        const authors = Array.from(entry.querySelectorAll('author > name')).map((n) => n.textContent?.trim() ?? '').filter(Boolean);
+        const published = entry.querySelector('published')?.textContent?.slice(0, 10) ?? null;
+
+        // The full text is a bonus; the abstract page is still worth saving without it
+        let fullText = '';
+        try {
+            const pdf = await fetchOk(`https://arxiv.org/pdf/${id}`, {}, PDF_TIMEOUT_MS);
+            const bytes = pdf && await readBodyLimited(pdf, MAX_PDF_BYTES);
+            if (bytes) {
+                fullText = (await extractTextFromPdfBuffer(bytes)).trim();
+            } else if (pdf) {
+                console.warn(`[ArticleExtractor] The arXiv PDF for ${id} is over ${MAX_PDF_BYTES / 1024 / 1024} MB; saving the abstract only`);
+            }
+        } catch (err) {
+            console.error(`[ArticleExtractor] Could not read the arXiv PDF for ${id}:`, err);
+        }
+
+        const byline = [authors.join(', '), published].filter(Boolean).join(' · ');
+        const contentMd = [
+            byline && `**${byline}**`,
+            '## Abstract',
+            abstract,
+            fullText && '## Full text',
+            fullText,
+        ].filter(Boolean).join('\n\n');
+        return {
+            url: `https://arxiv.org/abs/${id}`,
+            title,
+            author: authors.length > 0 ? authors.join(', ') : null,
+            content: [
+                byline && `<p><strong>${escapeHtml(byline)}</strong></p>`,
+                '<h2>Abstract</h2>',
+                textToHtml(abstract),
+                fullText && '<h2>Full text</h2>',
+                fullText && textToHtml(fullText),
+            ].filter(Boolean).join('\n'),
+            contentMd,
+            excerpt: excerptOf(abstract),
+            siteName: 'arXiv',
+        };
+    },
+};
+
+// ─── YouTube ────────────────────────────────────────────────────
+
+function youtubeVideoId(url: URL): string | null {
+    if (url.hostname.endsWith('youtu.be')) return url.pathname.slice(1).split('/')[0] || null;
+    if (url.pathname === '/watch') return url.searchParams.get('v');
+    const match = url.pathname.match(/^\/(?:shorts|live|embed)\/([^/?]+)/);
+    return match ? match[1] : null;
+}
+
+/** A JSON string value from the player response embedded in the watch page. */
+function embeddedString(html: string, key: string): string | null {
+    const match = html.match(new RegExp(`"${key}":"((?:[^"\\\\]|\\\\.)*)"`));
+    if (!match) return null;
+    try {
+        return JSON.parse(`"${match[1]}"`);
+    } catch {
+        return null;
+    }
+}
+
+export const youtubeExtractor: SiteExtractor = {
+    name: 'YouTube',
+    hosts: ['youtube.com', 'youtu.be'],
+    // Video pages only; youtu.be paths are the 11-character video id
+    pattern: /^\/(watch\?|shorts\/|live\/|embed\/)|^\/[A-Za-z0-9_-]{11}(\?|$)/,
+    async extract(url) {
+        const id = youtubeVideoId(url);
+        if (!id) return null;
+        const videoUrl = `https://www.youtube.com/watch?v=${id}`;
+        const oembed = await fetchOk(`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(videoUrl)}`);
+        if (!oembed) return null;
+        const info = await oembed.json() as { title?: string; author_name?: string };
+        const page = await fetchOk(videoUrl, { 'Accept-Language': 'en-US,en;q=0.9' });
+        const html = page ? await page.text() : '';
+        const description =
+            embeddedString(html, 'shortDescription') ??
+            (html ? new JSDOM(html).window.document.querySelector('meta[property="og:description"]')?.getAttribute('content') : null) ??
+            '';
+
+        return {
+            url: videoUrl,
+            title: info.title || 'YouTube video',
+            author: info.author_name || null,
+            content: textToHtml(description),
+            contentMd: description,
+            excerpt: excerptOf(description),
+            siteName: 'YouTube',
+            videoUrl,
+        };
+    },
+};
+
+// ─── Hacker News ────────────────────────────────────────────────
+
+interface HnItem {
+    id: number;
+    type?: string;
+    by?: string;
+    title?: string;
+    url?: string;
+    text?: string;
+    score?: number;
+    descendants?: number;
+    kids?: number[];
+    deleted?: boolean;
+    dead?: boolean;
+}
+
+async function hnItem(id: number | string): Promise<HnItem | null> {
+    const response = await fetchOk(`https://hacker-news.firebaseio.com/v0/item/${id}.json`);
+    return response ? (await response.json() as HnItem | null) : null;
+}
+
+export const hackerNewsExtractor: SiteExtractor = {
+    name: 'Hacker News',
+    hosts: ['news.ycombinator.com'],
+    pattern: /^\/item\?(.*&)?id=\d+/,
+    async extract(url) {
+        const story = await hnItem(url.searchParams.get('id')!);
+        if (!story || story.deleted) return null;
+        // Top comments in the order HN ranks them
+        const comments = (await Promise.all((story.kids ?? []).slice(0, HN_TOP_COMMENTS).map(hnItem)))
+            .filter((c): c is HnItem => !!c && !c.deleted && !c.dead && !!c.text);
+
+        const facts = [
+            typeof story.score === 'number' ? `${story.score} points` : null,
+            story.by ? `by ${story.by}` : null,
+            typeof story.descendants === 'number' ? `${story.descendants} comments` : null,
+        ].filter(Boolean).join(' · ');
+        const md = [
+            facts && `**${facts}**`,
+            story.url && `Link: <${story.url}>`,
+            story.text && turndown.turndown(story.text),
+            comments.length > 0 && '## Top comments',
+            ...comments.map((c) => `**${c.by ?? 'anonymous'}**\n\n${turndown.turndown(c.text!)}`),
+        ].filter(Boolean).join('\n\n');
+        const html = [
+            facts && `<p><strong>${escapeHtml(facts)}</strong></p>`,
+            story.url && `<p><a href="${escapeHtml(story.url)}">${escapeHtml(story.url)}</a></p>`,
+            story.text && `<div>${story.text}</div>`,
+            comments.length > 0 && '<h2>Top comments</h2>',
+            ...comments.map((c) => `<p><strong>${escapeHtml(c.by ?? 'anonymous')}</strong></p><div>${c.text}</div>`),
+        ].filter(Boolean).join('\n');
+
+        return {
+            url: `https://news.ycombinator.com/item?id=${story.id}`,
+            title: story.title || 'Hacker News discussion',
+            author: story.by ?? null,
+            content: html,
+            contentMd: md,
+            excerpt: excerptOf(story.text ? turndown.turndown(story.text) : comments[0] ? turndown.turndown(comments[0].text!) : ''),
+            siteName: 'Hacker News',
+        };
+    },
+};
+
+// ─── Substack and Medium ────────────────────────────────────────
+
+/** Added above the text of posts whose full version is for paying subscribers. */
+const PAYWALL_NOTE = '> Paywalled: only the free preview of this post could be saved.';
+
+/** Publications on their own domain still load Substack's assets and serve its API. */
+export const substackExtractor: SiteExtractor = {
+    name: 'Substack',
+    hosts: ['substack.com'],
+    pattern: /^\/p\/[^/]+/,
+    detect: (doc) =>
+        /substack/i.test(doc.querySelector('meta[name="generator"]')?.getAttribute('content') ?? '') ||
+        !!doc.querySelector('link[href*="substackcdn.com"], script[src*="substackcdn.com"]'),
+    async extract(url) {
+        const slug = url.pathname.split('/')[2];
+        const response = await fetchOk(`${url.origin}/api/v1/posts/${encodeURIComponent(slug)}`, { Accept: 'application/json' });
+        if (!response) return null;
+        const post = await response.json() as Record<string, any>;
+        const bodyHtml = typeof post.body_html === 'string' ? post.body_html : '';
+        const paywalled = post.audience === 'only_paid' || post.audience === 'founding';
+        const preview = typeof post.truncated_body_text === 'string' ? post.truncated_body_text : '';
+        if (!bodyHtml && !preview) return null;
+
+        const bodyMd = bodyHtml ? turndown.turndown(bodyHtml) : preview;
+        const subtitle = typeof post.subtitle === 'string' && post.subtitle ? `_${post.subtitle}_` : null;
+        const bylines = Array.isArray(post.publishedBylines)
+            ? (post.publishedBylines as Array<{ name?: unknown } | null>)
+                .map((b) => b?.name)
+                .filter((name): name is string => typeof name === 'string' && name !== '')
+            : [];
+        return {
+            url: typeof post.canonical_url === 'string' ? post.canonical_url : url.toString(),
+            title: typeof post.title === 'string' ? post.title : 'Untitled',
+            author: bylines.length > 0 ? bylines.join(', ') : null,
+            content: (paywalled ? `<blockquote>${escapeHtml(PAYWALL_NOTE.slice(2))}</blockquote>\n` : '') + (bodyHtml || textToHtml(preview)),
+            contentMd: [paywalled && PAYWALL_NOTE, subtitle, bodyMd].filter(Boolean).join('\n\n'),
+            excerpt: typeof post.description === 'string' && post.description ? post.description : excerptOf(bodyMd),
+            siteName: 'Substack',
+        };
+    },
+};
+
+/** Custom-domain publications are told apart by the app links Medium puts on every post. */
+export const mediumExtractor: SiteExtractor = {
+    name: 'Medium',
+    hosts: ['medium.com'],
+    detect: (doc) =>
+        doc.querySelector('meta[property="al:android:app_name"], meta[property="al:ios:app_name"]')?.getAttribute('content') === 'Medium',
+    async extract(url, html) {
+        if (html === undefined) {
+            const response = await fetchOk(url.toString(), { Accept: 'text/html' });
+            if (!response) return null;
+            html = await response.text();
+        }
+        const dom = new JSDOM(html, { url: url.toString() });
+        const doc = dom.window.document;
+        // Member-only stories are marked "locked"; the page then holds only the opening paragraphs
+        const tier = doc.querySelector('meta[property="article:content_tier"]')?.getAttribute('content');
+        const paywalled = tier === 'locked' || tier === 'metered';
+        const article = new Readability(doc).parse();
+        if (!article?.content) return null;
+        const md = turndown.turndown(article.content);
+        return {
+            url: url.toString(),
+            title: article.title || 'Untitled',
+            author: article.byline || null,
+            content: (paywalled ? `<blockquote>${escapeHtml(PAYWALL_NOTE.slice(2))}</blockquote>\n` : '') + article.content,
+            contentMd: [paywalled && PAYWALL_NOTE, md].filter(Boolean).join('\n\n'),
+            excerpt: article.excerpt || excerptOf(md),
+            siteName: 'Medium',
+        };
+    },
+};
+
+// ─── Registry ───────────────────────────────────────────────────
+
+const registry: SiteExtractor[] = [
+    githubExtractor,
+    arxivExtractor,
+    youtubeExtractor,
+    hackerNewsExtractor,
+    substackExtractor,
+    mediumExtractor,
+];
+
+/** Add an extractor; it is tried before the built-in ones. */
+export function registerSiteExtractor(extractor: SiteExtractor): void {
+    registry.unshift(extractor);
+}
+
+/**
+ * The extractor that claims an already fetched page by its content (see detect), for URLs
+ * no extractor claimed by host. Path patterns still apply.
+ */
+export function detectSiteExtractor(url: string, doc: Document): SiteExtractor | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+    const target = parsed.pathname + parsed.search;
+    return registry.find((e) => e.detect && (!e.pattern || e.pattern.test(target)) && e.detect(doc)) ?? null;
+}
+
+/** The extractor that claims a URL, or null for Readability. */
+export function findSiteExtractor(url: string): SiteExtractor | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+    const host = parsed.hostname.toLowerCase();
+    const target = parsed.pathname + parsed.search;
+    return (
+        registry.find(
+            (e) => e.hosts.some((h) => host === h || host.endsWith(`.${h}`)) && (!e.pattern || e.pattern.test(target))
+        ) ?? null
+    );
+}
@@ -4,6 +4,7 @@ import path from 'path';
 import ytDlp, { create as createYtDlp } from 'yt-dlp-exec';
 import ffmpeg from 'fluent-ffmpeg';
 import type { Config } from './config.js';
+import { parseUserscriptFeatures } from './userscript.js';
 
 /** Whisper API limit (25 MB). We use 24 MB to stay under. */
 const WHISPER_MAX_BYTES = 24 * 1024 * 1024;
@@ -70,6 +71,10 @@ export class TranscriptionService {
             ytDlpPath: null,
             ffmpegPath: null,
             ffprobePath: null,
+            trashRetentionDays: 30,
+            publicUrl: null,
+            apiToken: null,
+            userscriptFeatures: parseUserscriptFeatures(undefined),
           }
         : { ...options, dataDir: options.dataDir };
     this.config = cfg;
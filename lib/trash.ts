@@ -0,0 +1,45 @@
+/**
+ * Purging trashed bookmarks: database rows plus the files saved for them on disk
+ * (data/media/<id> from mediaService, data/articles/<safeId> from pdfService).
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { purgeBookmarks, getExpiredTrashIds } from './db.js';
+import { articleDirName } from './pdfService.js';
+
+/** Remove `child` under `parent`, refusing anything that resolves outside it. */
+function removeDirInside(parent: string, child: string): void {
+  const root = path.resolve(parent);
+  const target = path.resolve(root, child);
+  if (target === root || !target.startsWith(root + path.sep)) return;
+  fs.rmSync(target, { recursive: true, force: true });
+}
+
+/** Delete the media and PDF directories saved for a bookmark. Missing directories are fine. */
+export function removeBookmarkFiles(dataDir: string, bookmarkId: string): void {
+  removeDirInside(path.join(dataDir, 'media'), bookmarkId);
+  removeDirInside(path.join(dataDir, 'articles'), articleDirName(bookmarkId));
+}
+
+/** Permanently delete trashed bookmarks and their files. Returns the ids purged. */
+export function purgeTrash(db: Database.Database, dataDir: string, ids: string[]): string[] {
+  const purged = purgeBookmarks(db, ids);
+  for (const id of purged) {
+    try {
+      removeBookmarkFiles(dataDir, id);
+    } catch (err) {
+      console.error(`[Trash] Failed to remove files for ${id}:`, err);
+    }
+  }
+  return purged;
+}
+
+/** Purge everything that has been in the trash longer than `retentionDays`. */
+export function purgeExpiredTrash(db: Database.Database, dataDir: string, retentionDays: number): string[] {
+  const purged = purgeTrash(db, dataDir, getExpiredTrashIds(db, retentionDays));
+  if (purged.length > 0) {
+    console.log(`[Trash] Purged ${purged.length} bookmark(s) older than ${retentionDays} days`);
+  }
+  return purged;
+}
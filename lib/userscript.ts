@@ -0,0 +1,153 @@
+/**
+ * The Tampermonkey userscript, served at /userscript/xmarks.user.js from its source in
+ * userscript/xmarks.user.js. At serve time the header gains @connect, @updateURL and
+ * @downloadURL for this server and the XMARKS_CONFIG line is replaced with the server URL,
+ * API token and feature flags, so an installed script never needs editing and updates itself.
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const USERSCRIPT_SOURCE_PATH = path.join(__dirname, '..', 'userscript', 'xmarks.user.js');
+export const USERSCRIPT_PATH = '/userscript/xmarks.user.js';
+/** Header only; what Tampermonkey polls to see whether there is an update. */
+export const USERSCRIPT_META_PATH = '/userscript/xmarks.meta.js';
+
+/**
+ * batchUpload: send tweets 25 at a time to /api/bookmarks/batch (otherwise one request each);
+ * threadCapture: on a status page, gather the author's thread as ordered posts;
+ * videoCapture: mark video tweets so they can be transcribed;
+ * graphqlCapture: send tweets as X's GraphQL API returned them instead of scraping the page;
+ * articleCapture: on an X Article's page, send the article body with the tweet.
+ */
+export const USERSCRIPT_FEATURES = ['batchUpload', 'threadCapture', 'videoCapture', 'graphqlCapture', 'articleCapture'] as const;
+export type UserscriptFeature = (typeof USERSCRIPT_FEATURES)[number];
+export type UserscriptFeatures = Record<UserscriptFeature, boolean>;
+
+export class UserscriptSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserscriptSourceError';
+  }
+}
+
+/** Comma-separated feature names; every feature is on unless listed with a leading "-". */
+export function parseUserscriptFeatures(value: string | undefined): UserscriptFeatures {
+  const features = Object.fromEntries(USERSCRIPT_FEATURES.map((f) => [f, true])) as UserscriptFeatures;
+  for (const entry of (value ?? '').split(',').map((v) => v.trim()).filter(Boolean)) {
+    const name = entry.replace(/^[-+]/, '');
+    if (!(USERSCRIPT_FEATURES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown userscript feature "${name}" (expected ${USERSCRIPT_FEATURES.join(', ')})`);
+    }
+    features[name as UserscriptFeature] = !entry.startsWith('-');
+  }
+  return features;
+}
+
+export interface UserscriptOptions {
+  /** Origin the script talks to, e.g. http://localhost:3001. */
+  serverUrl: string;
+  apiToken: string | null;
+  features: UserscriptFeatures;
+}
+
+const HEADER_END = '// ==/UserScript==';
+const HEADER_RE = /^\/\/ ==UserScript==\r?\n[\s\S]*?\/\/ ==\/UserScript==/;
+const CONFIG_LINE_RE = /^var XMARKS_CONFIG = .*;$/m;
+
+export function readUserscriptSource(): string {
+  return fs.readFileSync(USERSCRIPT_SOURCE_PATH, 'utf8');
+}
+
+/** The @version from a userscript header. */
+export function userscriptVersion(source: string): string {
+  const version = source.match(HEADER_RE)?.[0].match(/^\/\/ @version\s+(\S+)/m)?.[1];
+  if (!version) throw new UserscriptSourceError('Userscript header has no @version');
+  return version;
+}
+
+function metadataLine(key: string, value: string): string {
+  return `// ${`@${key}`.padEnd(14)}${value}`;
+}
+
+/** The script and its header-only .meta.js, configured for one server. */
+export function renderUserscript(source: string, options: UserscriptOptions): { version: string; script: string; meta: string } {
+  const header = source.match(HEADER_RE)?.[0];
+  if (!header) throw new UserscriptSourceError('Userscript source has no ==UserScript== header');
+  if (!CONFIG_LINE_RE.test(source)) throw new UserscriptSourceError('Userscript source has no XMARKS_CONFIG line');
+
+  const serverUrl = options.serverUrl.replace(/\/+$/, '');
+  const meta = header.replace(
+    HEADER_END,
+    [
+      metadataLine('connect', new URL(serverUrl).hostname),
+      metadataLine('updateURL', serverUrl + USERSCRIPT_META_PATH),
+      metadataLine('downloadURL', serverUrl + USERSCRIPT_PATH),
+      HEADER_END,
+    ].join('\n')
+  );
+  const config = { serverUrl, apiToken: options.apiToken, features: options.features };
+  const script = source
+    .replace(header, meta)
+    .replace(CONFIG_LINE_RE, () => `var XMARKS_CONFIG = ${JSON.stringify(config)};`);
+  return { version: userscriptVersion(source), script, meta: `${meta}\n` };
+}
+
+/** Compare dotted numeric versions: negative when a is older than b. */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((n) => parseInt(n, 10) || 0);
+  const pb = b.split('.').map((n) => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export interface InstalledUserscript {
+  version: string;
+  /** ISO time of the last request that carried this version. */
+  seenAt: string;
+}
+
+/** Rewrite the file at most this often while the version stays the same. */
+const SEEN_WRITE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Remembers which userscript version last talked to the server (it sends X-XMarks-Userscript),
+ * kept in a small JSON file so the Setup tab can show it after a restart.
+ */
+export class UserscriptTracker {
+  private file: string;
+  private seen: InstalledUserscript | null = null;
+  private lastWrite = 0;
+
+  constructor(file: string) {
+    this.file = file;
+    try {
+      const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (typeof stored?.version === 'string' && typeof stored?.seenAt === 'string') this.seen = stored;
+    } catch {
+      // Not seen yet
+    }
+  }
+
+  record(version: string, now = Date.now()): void {
+    const changed = this.seen?.version !== version;
+    this.seen = { version, seenAt: new Date(now).toISOString() };
+    if (changed || now - this.lastWrite >= SEEN_WRITE_INTERVAL_MS) {
+      this.lastWrite = now;
+      try {
+        fs.writeFileSync(this.file, JSON.stringify(this.seen));
+      } catch (err) {
+        console.error('[Userscript] Could not save the installed version:', err);
+      }
+    }
+  }
+
+  get installed(): InstalledUserscript | null {
+    return this.seen;
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Backfill from X's downloadable data archive — the zip from "Download an archive of your data",
+ * or that zip unpacked. Data lives in data/*.js files of the form
+ * `window.YTD.<dataset>.part0 = [ ... ]`; media posted with tweets is bundled as
+ * data/tweets_media/<tweetId>-<file>.
+ *
+ * Each entry is saved like a userscript payload (see ingest.ts); ids that are already in the
+ * database are skipped, and bundled media is copied into data/media/<id>/. Only bookmarks are
+ * imported unless asked; own tweets and likes that are not also bookmarks are tagged (see
+ * ARCHIVE_DATASET_TAGS) so they can be told apart from them.
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { addTagsToBookmark, getBookmark, insertMedia, markSeenUpstream, replaceLinksAndArticles, EMPTY_TWEET_METADATA } from './db.js';
+import type { LinkInput, TweetMetadata } from './db.js';
+import { ingestBookmark, type PlannedJob } from './ingest.js';
+import { sqliteDate, type Json } from './parse.js';
+import { ZipReader } from './zipReader.js';
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+/** Read access to the files of an archive, by path relative to its root ('/' separated). */
+export interface ArchiveSource {
+  files: string[];
+  readAsync(name: string): Promise<Buffer>;
+  close(): void;
+}
+
+function listDirectory(root: string, dir = ''): string[] {
+  const files: string[] = [];
+  for (const dirent of fs.readdirSync(path.join(root, dir), { withFileTypes: true })) {
+    const relative = dir ? `${dir}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) files.push(...listDirectory(root, relative));
+    else if (dirent.isFile()) files.push(relative);
+  }
+  return files;
+}
+
+/** Open a zip file or an unpacked archive directory. */
+export function openArchive(archivePath: string): ArchiveSource {
+  if (fs.statSync(archivePath).isDirectory()) {
+    return {
+      files: listDirectory(archivePath),
+      readAsync: (name) => fs.promises.readFile(path.join(archivePath, ...name.split('/'))),
+      close: () => {},
+    };
+  }
+  const zip = ZipReader.open(archivePath);
+  const byName = new Map(zip.entries.filter((e) => !e.name.endsWith('/')).map((e) => [e.name, e]));
+  const entryFor = (name: string) => {
+    const entry = byName.get(name);
+    if (!entry) throw new ArchiveFormatError(`${name} is not in the archive`);
+    return entry;
+  };
+  return {
+    files: [...byName.keys()],
+    readAsync: async (name) => zip.readAsync(entryFor(name)),
+    close: () => zip.close(),
+  };
+}
+
+const YTD_PREFIX = /^\s*window\.YTD\.([A-Za-z0-9_]+)\.part\d+\s*=\s*/;
+
+/** Parse one `window.YTD.<dataset>.partN = [...]` file. */
+export function parseYtdFile(source: string): { dataset: string; records: unknown[] } {
+  const match = source.match(YTD_PREFIX);
+  if (!match) throw new ArchiveFormatError('Not a window.YTD data file');
+  const records = JSON.parse(source.slice(match[0].length).trim().replace(/;$/, ''));
+  if (!Array.isArray(records)) throw new ArchiveFormatError(`window.YTD.${match[1]} is not an array`);
+  return { dataset: match[1], records };
+}
+
+export const ARCHIVE_DATASETS = ['tweets', 'bookmarks', 'likes'] as const;
+export type ArchiveDataset = (typeof ARCHIVE_DATASETS)[number];
+
+/** YTD dataset names per kind (the names have changed between archive versions). */
+const YTD_DATASETS: Record<ArchiveDataset, string[]> = {
+  tweets: ['tweet', 'tweets'],
+  bookmarks: ['bookmark', 'bookmarks'],
+  likes: ['like'],
+};
+
+/** Tags for entries that came from a dataset other than bookmarks, and are not bookmarks too. */
+export const ARCHIVE_DATASET_TAGS: Record<Exclude<ArchiveDataset, 'bookmarks'>, string> = {
+  tweets: 'x-my-tweets',
+  likes: 'x-likes',
+};
+
+export function isArchiveDataset(value: unknown): value is ArchiveDataset {
+  return typeof value === 'string' && (ARCHIVE_DATASETS as readonly string[]).includes(value);
+}
+
+interface ArchiveEntry {
+  id: string;
+  url: string;
+  author: string;
+  text: string;
+  links: LinkInput[];
+  /** Remote URL plus the names the file would have in the archive's media folders. */
+  media: Array<{ url: string; bundledNames: string[]; alt: string | null }>;
+  metadata: TweetMetadata;
+  /** Every selected dataset the id appears in. */
+  datasets: Set<ArchiveDataset>;
+}
+
+interface Account {
+  username: string;
+  displayName: string;
+}
+
+function fileName(url: string): string {
+  try {
+    return path.posix.basename(new URL(url).pathname);
+  } catch {
+    return '';
+  }
+}
+
+/** Counts are strings in the archive. */
+function count(value: unknown): number | null {
+  const n = typeof value === 'string' || typeof value === 'number' ? Number(value) : NaN;
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+function fromTweet(record: Json, account: Account | null): Omit<ArchiveEntry, 'datasets'> | null {
+  const tweet: Json = record.tweet ?? record;
+  const id = String(tweet.id_str ?? tweet.id ?? '');
+  if (!/^\d+$/.test(id)) return null;
+  const links: LinkInput[] = (tweet.entities?.urls ?? [])
+    .filter((u: Json) => typeof u.url === 'string')
+    .map((u: Json) => ({ originalUrl: u.url, resolvedUrl: u.expanded_url || u.url, isArticle: false }));
+  const media = ((tweet.extended_entities ?? tweet.entities)?.media ?? [])
+    .map((m: Json) => {
+      const url: string = m.media_url_https || m.media_url || '';
+      const variants: string[] = (m.video_info?.variants ?? []).map((v: Json) => v.url).filter(Boolean);
+      const names = [url, ...variants].map(fileName).filter(Boolean).map((name) => `${id}-${name}`);
+      return { url, bundledNames: names, alt: typeof m.ext_alt_text === 'string' && m.ext_alt_text ? m.ext_alt_text : null };
+    })
+    .filter((m: { url: string }) => m.url);
+  return {
+    id,
+    url: account ? `https://x.com/${account.username}/status/${id}` : `https://x.com/i/web/status/${id}`,
+    author: account ? `${account.displayName} · @${account.username}` : '',
+    text: tweet.full_text ?? tweet.text ?? '',
+    links,
+    media,
+    metadata: {
+      ...EMPTY_TWEET_METADATA,
+      postedAt: sqliteDate(tweet.created_at),
+      // The archive has no reply count
+      retweetCount: count(tweet.retweet_count),
+      likeCount: count(tweet.favorite_count),
+      inReplyToId: tweet.in_reply_to_status_id_str || null,
+      inReplyToAuthor: tweet.in_reply_to_screen_name ? `@${tweet.in_reply_to_screen_name}` : null,
+    },
+  };
+}
+
+/** like.js / bookmark.js entries only carry the tweet id, its text and a link. */
+function fromSavedTweet(record: Json): Omit<ArchiveEntry, 'datasets'> | null {
+  const saved: Json = record.like ?? record.bookmark ?? record;
+  const id = String(saved.tweetId ?? saved.tweet_id ?? '');
+  if (!/^\d+$/.test(id)) return null;
+  return {
+    id,
+    url: saved.expandedUrl || `https://x.com/i/web/status/${id}`,
+    author: '',
+    text: saved.fullText ?? '',
+    links: [],
+    media: [],
+    metadata: EMPTY_TWEET_METADATA,
+  };
+}
+
+async function readAccount(source: ArchiveSource, dataFiles: Map<string, string>): Promise<Account | null> {
+  const file = dataFiles.get('account.js');
+  if (!file) return null;
+  try {
+    const { records } = parseYtdFile((await source.readAsync(file)).toString('utf8'));
+    const account = (records[0] as Json | undefined)?.account;
+    return account?.username ? { username: account.username, displayName: account.accountDisplayName || account.username } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Entries saved per transaction; the import yields to the event loop between chunks. */
+const IMPORT_CHUNK_SIZE = 100;
+
+export interface ArchiveImportProgress {
+  found: number;
+  /** Entries looked at so far (imported, skipped or failed). */
+  processed: number;
+  imported: number;
+  skippedExisting: number;
+}
+
+export interface ArchiveImportOptions {
+  /** Which kinds of entries to import (default: bookmarks only). */
+  datasets?: ArchiveDataset[];
+  /** Called after each chunk of entries is saved. */
+  onProgress?: (progress: ArchiveImportProgress) => void;
+}
+
+export interface ArchiveImportReport {
+  /** Data files that were read. */
+  files: string[];
+  /** Distinct tweet ids found in the selected datasets. */
+  found: number;
+  imported: number;
+  /** Ids already in the database (including the trash); left untouched. */
+  skippedExisting: number;
+  /** Media files copied out of the archive. */
+  mediaCopied: number;
+  /** Media not bundled in the archive, stored as its remote URL. */
+  mediaLinked: number;
+  errors: Array<{ file?: string; id?: string; error: string }>;
+}
+
+export interface ArchiveImportResult {
+  report: ArchiveImportReport;
+  /** Ids of the bookmarks that were created. */
+  importedIds: string[];
+  /** Follow-up work (link extraction) for the caller to queue. */
+  jobs: Array<{ bookmarkId: string; job: PlannedJob }>;
+}
+
+/** Data files by name (e.g. "tweets.js") and bundled media by file name. The zip may wrap everything in a top-level folder. */
+function indexArchive(source: ArchiveSource): { dataFiles: Map<string, string>; bundledMedia: Map<string, string> } {
+  const dataFiles = new Map<string, string>();
+  const bundledMedia = new Map<string, string>();
+  for (const file of source.files) {
+    const data = file.match(/(?:^|\/)data\/([^/]+\.js)$/);
+    if (data) dataFiles.set(data[1], file);
+    const media = file.match(/(?:^|\/)data\/[a-z_]+_media\/([^/]+)$/);
+    if (media) bundledMedia.set(media[1], file);
+  }
+  if (dataFiles.size === 0) {
+    throw new ArchiveFormatError('No data/*.js files found — is this an X archive?');
+  }
+  return { dataFiles, bundledMedia };
+}
+
+/** Throw ArchiveFormatError (or ZipFormatError) unless the path is an X archive. Only reads the zip's directory. */
+export function checkArchive(archivePath: string): void {
+  const source = openArchive(archivePath);
+  try {
+    indexArchive(source);
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * Import an archive. Entries are saved a chunk at a time and bundled media is read and
+ * written asynchronously, so a multi-gigabyte archive does not hold up the server.
+ */
+export async function importXArchive(
+  db: Database.Database,
+  archivePath: string,
+  mediaDir: string,
+  options: ArchiveImportOptions = {}
+): Promise<ArchiveImportResult> {
+  const datasets = options.datasets ?? ['bookmarks'];
+  const report: ArchiveImportReport = {
+    files: [],
+    found: 0,
+    imported: 0,
+    skippedExisting: 0,
+    mediaCopied: 0,
+    mediaLinked: 0,
+    errors: [],
+  };
+  const importedIds: string[] = [];
+  const jobs: ArchiveImportResult['jobs'] = [];
+
+  const source = openArchive(archivePath);
+  try {
+    const { dataFiles, bundledMedia } = indexArchive(source);
+    const account = await readAccount(source, dataFiles);
+
+    // Tweets first: their records are the richest when an id shows up in several datasets
+    const entries = new Map<string, ArchiveEntry>();
+    for (const dataset of ARCHIVE_DATASETS.filter((d) => datasets.includes(d))) {
+      for (const [name, file] of [...dataFiles].sort(([a], [b]) => a.localeCompare(b))) {
+        const ytdName = name.replace(/(-part\d+)?\.js$/, '');
+        if (!YTD_DATASETS[dataset].includes(ytdName)) continue;
+        try {
+          const { records } = parseYtdFile((await source.readAsync(file)).toString('utf8'));
+          report.files.push(file);
+          for (const record of records as Json[]) {
+            const entry = dataset === 'tweets' ? fromTweet(record, account) : fromSavedTweet(record);
+            if (!entry) continue;
+            const existing = entries.get(entry.id);
+            if (existing) existing.datasets.add(dataset);
+            else entries.set(entry.id, { ...entry, datasets: new Set([dataset]) });
+          }
+        } catch (err) {
+          report.errors.push({ file, error: (err as Error).message });
+        }
+      }
+    }
+    report.found = entries.size;
+
+    /** Copy an entry's bundled media into mediaDir; returns the local URL per remote URL. */
+    const copyMedia = async (entry: ArchiveEntry): Promise<Map<string, string>> => {
+      const copied = new Map<string, string>();
+      for (const media of entry.media) {
+        const bundled = media.bundledNames.find((name) => bundledMedia.has(name));
+        if (!bundled) continue;
+        const target = bundled.slice(entry.id.length + 1);
+        try {
+          await fs.promises.mkdir(path.join(mediaDir, entry.id), { recursive: true });
+          await fs.promises.writeFile(path.join(mediaDir, entry.id, target), await source.readAsync(bundledMedia.get(bundled)!));
+          copied.set(media.url, `/media/${entry.id}/${target}`);
+        } catch (err) {
+          // Fall back to the remote URL
+          report.errors.push({ id: entry.id, error: `Could not copy ${bundled}: ${(err as Error).message}` });
+        }
+      }
+      return copied;
+    };
+
+    const saveOne = db.transaction((entry: ArchiveEntry, copied: Map<string, string>) => {
+      const { jobs: planned } = ingestBookmark(db, {
+        id: entry.id,
+        url: entry.url,
+        author: entry.author,
+        text: entry.text,
+        thread: [],
+        article: null,
+        media: [],
+        mediaAlt: {},
+        links: entry.links.map((l) => l.resolvedUrl),
+        metadata: entry.metadata,
+        forceExtract: false,
+        forceMedia: false,
+      });
+      if (entry.links.length > 0) replaceLinksAndArticles(db, entry.id, entry.links, []);
+      // Bookmarks are checked for removal on X by later sync sessions; the rest never were bookmarks there
+      if (entry.datasets.has('bookmarks')) {
+        markSeenUpstream(db, [entry.id]);
+      } else {
+        addTagsToBookmark(db, entry.id, [...entry.datasets].map((d) => ARCHIVE_DATASET_TAGS[d as keyof typeof ARCHIVE_DATASET_TAGS]));
+      }
+      for (const media of entry.media) {
+        const local = copied.get(media.url);
+        insertMedia(db, entry.id, local ?? media.url, media.alt);
+        if (local) report.mediaCopied++;
+        else report.mediaLinked++;
+      }
+      return planned;
+    });
+
+    const all = [...entries.values()];
+    for (let start = 0; start < all.length; start += IMPORT_CHUNK_SIZE) {
+      const chunk = all.slice(start, start + IMPORT_CHUNK_SIZE).filter((entry) => {
+        if (!getBookmark(db, entry.id)) return true;
+        report.skippedExisting++;
+        return false;
+      });
+      const copied = new Map<string, Map<string, string>>();
+      for (const entry of chunk) copied.set(entry.id, await copyMedia(entry));
+
+      db.transaction(() => {
+        for (const entry of chunk) {
+          // Saved by a sync while the media was being copied
+          if (getBookmark(db, entry.id)) {
+            report.skippedExisting++;
+            continue;
+          }
+          try {
+            for (const job of saveOne(entry, copied.get(entry.id)!)) jobs.push({ bookmarkId: entry.id, job });
+            importedIds.push(entry.id);
+            report.imported++;
+          } catch (err) {
+            report.errors.push({ id: entry.id, error: (err as Error).message });
+          }
+        }
+      })();
+      options.onProgress?.({
+        found: report.found,
+        processed: Math.min(start + IMPORT_CHUNK_SIZE, all.length),
+        imported: report.imported,
+        skippedExisting: report.skippedExisting,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  } finally {
+    source.close();
+  }
+
+  return { report, importedIds, jobs };
+}
@@ -0,0 +1,260 @@
+/**
+ * X's long-form Articles. The link extractor cannot read them (x.com pages need a logged-in
+ * browser), so the userscript captures them where it can: from X's GraphQL responses, whose
+ * `article_results.result` carries the body as Draft.js content state, or failing that the
+ * rendered article HTML on its page. Either becomes a regular article with headings, lists,
+ * quotes, code blocks and inline images kept as Markdown.
+ */
+import TurndownService from 'turndown';
+import { X_ARTICLE_SITE_NAME } from './db.js';
+import type { ArticleInput } from './db.js';
+import { escapeHtml } from './html.js';
+import type { Json } from './parse.js';
+
+interface ArticleContext {
+  /** The article's own URL, used as the article's key for highlights. */
+  url: string;
+  author: string;
+}
+
+const INLINE_MARKERS: Record<string, { md: string; tag: string }> = {
+  BOLD: { md: '**', tag: 'strong' },
+  ITALIC: { md: '_', tag: 'em' },
+  STRIKETHROUGH: { md: '~~', tag: 's' },
+  CODE: { md: '`', tag: 'code' },
+};
+
+const HEADINGS: Record<string, number> = {
+  'header-one': 1,
+  'header-two': 2,
+  'header-three': 3,
+  'header-four': 4,
+  'header-five': 5,
+  'header-six': 6,
+};
+
+/** Draft.js raw state stores entityMap as an object; X sends it as an array of { key, value }. */
+function entityMapOf(state: Json): Map<string, Json> {
+  const map = new Map<string, Json>();
+  const raw = state.entityMap;
+  if (Array.isArray(raw)) {
+    for (const entry of raw) if (entry && entry.value) map.set(String(entry.key), entry.value);
+  } else if (raw && typeof raw === 'object') {
+    for (const [key, value] of Object.entries(raw)) map.set(key, value as Json);
+  }
+  return map;
+}
+
+/** Original-size image URL by media id, from the article's media_entities. */
+function imagesOf(article: Json): Map<string, string> {
+  const images = new Map<string, string>();
+  for (const m of Array.isArray(article.media_entities) ? article.media_entities : []) {
+    const url = m?.media_info?.original_img_url;
+    if (typeof url === 'string' && m.media_id !== undefined) images.set(String(m.media_id), url);
+  }
+  return images;
+}
+
+/**
+ * One block's text with inline styles and links, as Markdown and as HTML. Offsets count
+ * code points, as in Draft.js raw state.
+ */
+function renderInline(block: Json, entities: Map<string, Json>): { md: string; html: string } {
+  const chars = Array.from(typeof block.text === 'string' ? block.text : '');
+  const styles: Array<Set<string>> = chars.map(() => new Set());
+  const links: Array<string | null> = chars.map(() => null);
+  for (const range of Array.isArray(block.inlineStyleRanges) ? block.inlineStyleRanges : []) {
+    const style = String(range?.style ?? '').toUpperCase();
+    if (!INLINE_MARKERS[style]) continue;
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) styles[i]?.add(style);
+  }
+  for (const range of Array.isArray(block.entityRanges) ? block.entityRanges : []) {
+    const entity = entities.get(String(range?.key));
+    const url = entity?.type === 'LINK' ? entity.data?.url : null;
+    if (typeof url !== 'string') continue;
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) links[i] = url;
+  }
+
+  let md = '';
+  let html = '';
+  let i = 0;
+  while (i < chars.length) {
+    // A run of characters sharing the same styles and link
+    const key = `${[...styles[i]].sort().join()}|${links[i] ?? ''}`;
+    let j = i + 1;
+    while (j < chars.length && `${[...styles[j]].sort().join()}|${links[j] ?? ''}` === key) j++;
+    const text = chars.slice(i, j).join('');
+    const markers = Object.keys(INLINE_MARKERS).filter((s) => styles[i].has(s));
+    // Markdown emphasis cannot start or end on whitespace, so styling wraps the trimmed run
+    const [, lead, core, trail] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    let runMd = core;
+    let runHtml = escapeHtml(core);
+    for (const s of markers) {
+      if (!core) break;
+      runMd = `${INLINE_MARKERS[s].md}${runMd}${INLINE_MARKERS[s].md}`;
+      runHtml = `<${INLINE_MARKERS[s].tag}>${runHtml}</${INLINE_MARKERS[s].tag}>`;
+    }
+    if (links[i] && core) {
+      runMd = `[${runMd}](${links[i]})`;
+      runHtml = `<a href="${escapeHtml(links[i]!)}">${runHtml}</a>`;
+    }
+    md += lead + runMd + trail;
+    html += escapeHtml(lead) + runHtml + escapeHtml(trail);
+    i = j;
+  }
+  return { md, html: html.replace(/\n/g, '<br/>') };
+}
+
+/** Markdown and HTML for an atomic block: images, code (X stores it as a MARKDOWN entity), embedded tweets, dividers. */
+function renderAtomic(block: Json, entities: Map<string, Json>, images: Map<string, string>): { md: string; html: string } | null {
+  const entity = entities.get(String(block.entityRanges?.[0]?.key));
+  if (!entity) return null;
+  const data: Json = entity.data ?? {};
+  switch (entity.type) {
+    case 'MEDIA': {
+      const urls = (Array.isArray(data.mediaItems) ? data.mediaItems : [])
+        .map((item: Json) => images.get(String(item?.mediaId)))
+        .filter((u: string | undefined): u is string => typeof u === 'string');
+      if (urls.length === 0) return null;
+      const caption = typeof data.caption === 'string' ? data.caption : '';
+      return {
+        md: urls.map((u: string) => `![${caption}](${u})`).join('\n\n'),
+        html: urls.map((u: string) => `<img src="${escapeHtml(u)}" alt="${escapeHtml(caption)}"/>`).join(''),
+      };
+    }
+    case 'MARKDOWN': {
+      const markdown = typeof data.markdown === 'string' ? data.markdown.trim() : '';
+      if (!markdown) return null;
+      const fence = markdown.match(/^```(\S*)\n([\s\S]*?)\n?```$/);
+      const code = fence ? fence[2] : markdown;
+      const lang = fence?.[1] ? ` class="language-${escapeHtml(fence[1])}"` : '';
+      return { md: fence ? markdown : `\`\`\`\n${markdown}\n\`\`\``, html: `<pre><code${lang}>${escapeHtml(code)}</code></pre>` };
+    }
+    case 'TWEET': {
+      if (typeof data.tweetId !== 'string') return null;
+      const url = `https://x.com/i/web/status/${data.tweetId}`;
+      return { md: `> [Embedded post](${url})`, html: `<blockquote><a href="${url}">Embedded post</a></blockquote>` };
+    }
+    case 'DIVIDER':
+      return { md: '---', html: '<hr/>' };
+    default:
+      return null;
+  }
+}
+
+/** Markdown and HTML for Draft.js content state, consecutive list items and code lines grouped. */
+function renderContentState(state: Json, images: Map<string, string>): { md: string; html: string } {
+  const entities = entityMapOf(state);
+  const blocks: Json[] = Array.isArray(state.blocks) ? state.blocks : [];
+  const md: string[] = [];
+  const html: string[] = [];
+  let i = 0;
+  while (i < blocks.length) {
+    const block = blocks[i];
+    const type = String(block?.type ?? 'unstyled');
+    if (type === 'unordered-list-item' || type === 'ordered-list-item') {
+      const ordered = type === 'ordered-list-item';
+      const items: string[] = [];
+      const htmlItems: string[] = [];
+      const counters: number[] = [];
+      for (; i < blocks.length && blocks[i]?.type === type; i++) {
+        const depth = Math.max(0, Math.min(4, Number(blocks[i].depth) || 0));
+        counters.length = depth + 1;
+        counters[depth] = (counters[depth] ?? 0) + 1;
+        const { md: itemMd, html: itemHtml } = renderInline(blocks[i], entities);
+        items.push(`${'   '.repeat(depth)}${ordered ? `${counters[depth]}.` : '-'} ${itemMd}`);
+        htmlItems.push(`<li>${itemHtml}</li>`);
+      }
+      md.push(items.join('\n'));
+      html.push(ordered ? `<ol>${htmlItems.join('')}</ol>` : `<ul>${htmlItems.join('')}</ul>`);
+      continue;
+    }
+    if (type === 'code-block') {
+      const lines: string[] = [];
+      for (; i < blocks.length && blocks[i]?.type === 'code-block'; i++) lines.push(String(blocks[i].text ?? ''));
+      md.push(`\`\`\`\n${lines.join('\n')}\n\`\`\``);
+      html.push(`<pre><code>${escapeHtml(lines.join('\n'))}</code></pre>`);
+      continue;
+    }
+    i++;
+    if (type === 'atomic') {
+      const rendered = renderAtomic(block, entities, images);
+      if (rendered) {
+        md.push(rendered.md);
+        html.push(rendered.html);
+      }
+      continue;
+    }
+    const { md: blockMd, html: blockHtml } = renderInline(block, entities);
+    if (!blockMd.trim()) continue;
+    const level = HEADINGS[type];
+    if (level) {
+      md.push(`${'#'.repeat(level)} ${blockMd}`);
+      html.push(`<h${level}>${blockHtml}</h${level}>`);
+    } else if (type === 'blockquote') {
+      md.push(blockMd.split('\n').map((line) => `> ${line}`).join('\n'));
+      html.push(`<blockquote>${blockHtml}</blockquote>`);
+    } else {
+      md.push(blockMd);
+      html.push(`<p>${blockHtml}</p>`);
+    }
+  }
+  return { md: md.join('\n\n'), html: html.join('\n') };
+}
+
+function excerptOf(article: Json, md: string): string | null {
+  if (typeof article.preview_text === 'string' && article.preview_text) return article.preview_text;
+  const text = md.replace(/[#>*_`~]|!?\[[^\]]*\]\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, 300) : null;
+}
+
+/**
+ * The article in a GraphQL tweet's `article.article_results.result`. Null when the response
+ * only has the preview (timelines leave out content_state; the article's own page has it).
+ */
+export function parseGraphqlArticle(result: unknown, context: ArticleContext): ArticleInput | null {
+  if (!result || typeof result !== 'object') return null;
+  const article = result as Json;
+  if (!article.content_state || typeof article.content_state !== 'object') return null;
+  const images = imagesOf(article);
+  const body = renderContentState(article.content_state, images);
+  if (!body.md.trim()) return null;
+  const cover = article.cover_media?.media_info?.original_img_url;
+  const title = typeof article.title === 'string' && article.title.trim() ? article.title.trim() : 'Untitled';
+  return {
+    url: typeof article.rest_id === 'string' ? `https://x.com/i/article/${article.rest_id}` : context.url,
+    title,
+    author: context.author || null,
+    content: (typeof cover === 'string' ? `<img src="${escapeHtml(cover)}" alt=""/>\n` : '') + body.html,
+    contentMd: (typeof cover === 'string' ? `![](${cover})\n\n` : '') + body.md,
+    excerpt: excerptOf(article, body.md),
+    siteName: X_ARTICLE_SITE_NAME,
+  };
+}
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+});
+turndown.remove((node) => ['SCRIPT', 'STYLE', 'BUTTON', 'SVG'].includes(node.nodeName.toUpperCase()));
+// X renders code blocks as <pre> with highlighted spans rather than <pre><code>
+turndown.addRule('preWithoutCode', {
+  filter: (node) => node.nodeName === 'PRE' && !node.querySelector('code'),
+  replacement: (_content, node) => `\n\n\`\`\`\n${(node.textContent ?? '').replace(/\n$/, '')}\n\`\`\`\n\n`,
+});
+
+/** An X Article as rendered on its page (the HTML of the article body), for when no GraphQL response was captured. */
+export function xArticleFromHtml(html: string, title: string, context: ArticleContext): ArticleInput | null {
+  const md = turndown.turndown(html).replace(/\n{3,}/g, '\n\n').trim();
+  if (!md) return null;
+  return {
+    url: context.url,
+    title: title.trim() || 'Untitled',
+    author: context.author || null,
+    content: html,
+    contentMd: md,
+    excerpt: excerptOf({}, md),
+    siteName: X_ARTICLE_SITE_NAME,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Tweets as X's web client receives them from its GraphQL API (the Bookmarks timeline,
+ * TweetDetail, ...). The userscript forwards the `tweet_results.result` objects it sees
+ * untouched; parsing them here means full text of long tweets, expanded URLs, original
+ * media and timestamps without depending on X's markup, and fixes without a script update.
+ */
+import { EMPTY_TWEET_METADATA } from './db.js';
+import type { ArticleInput, PollOption, TweetMetadata } from './db.js';
+import { sqliteDate, type Json } from './parse.js';
+import { parseGraphqlArticle } from './xArticle.js';
+
+export interface GraphqlTweet {
+  id: string;
+  url: string;
+  author: string;
+  text: string;
+  media: string[];
+  /** Alt text by media URL. */
+  mediaAlt: Record<string, string>;
+  /** Expanded URLs of the links in the tweet, without links back to X. */
+  links: string[];
+  metadata: TweetMetadata;
+  /** The X Article the tweet publishes, when the response had its full body. */
+  article: ArticleInput | null;
+}
+
+export interface GraphqlParseOptions {
+  /** Add the tweet's own URL to the media of video tweets so they can be transcribed (default true). */
+  videoCapture?: boolean;
+}
+
+/** The Tweet inside a result, unwrapping TweetWithVisibilityResults; null for tombstones and other types. */
+export function unwrapTweetResult(result: unknown): Json | null {
+  if (!result || typeof result !== 'object') return null;
+  const r = result as Json;
+  if (r.__typename === 'TweetWithVisibilityResults' || (!r.legacy && r.tweet)) return unwrapTweetResult(r.tweet);
+  if (typeof r.rest_id !== 'string' || !r.legacy || typeof r.legacy !== 'object') return null;
+  return r;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+function isXUrl(url: string): boolean {
+  return /^https?:\/\/(www\.|mobile\.)?(x\.com|twitter\.com)\//i.test(url);
+}
+
+function userOf(tweet: Json): { name: string; screenName: string } | null {
+  const user: Json | undefined = tweet.core?.user_results?.result;
+  // Newer responses move name and screen_name from legacy to core
+  const screenName = user?.core?.screen_name ?? user?.legacy?.screen_name;
+  if (typeof screenName !== 'string' || !screenName) return null;
+  return { name: user?.core?.name ?? user?.legacy?.name ?? screenName, screenName };
+}
+
+/**
+ * Full text of a tweet: the note (long tweet) text when there is one, otherwise the visible
+ * range of full_text (without leading reply mentions), with t.co links replaced by their
+ * targets and media links removed.
+ */
+export function graphqlTweetText(tweet: Json): string {
+  const note: Json | undefined = tweet.note_tweet?.note_tweet_results?.result;
+  const legacy: Json = tweet.legacy;
+  let text: string;
+  let urls: Json[];
+  if (typeof note?.text === 'string' && note.text) {
+    text = note.text;
+    urls = note.entity_set?.urls ?? [];
+  } else {
+    const chars = Array.from(typeof legacy.full_text === 'string' ? legacy.full_text : '');
+    const [start, end] = Array.isArray(legacy.display_text_range) ? legacy.display_text_range : [0, chars.length];
+    text = chars.slice(start, end).join('');
+    urls = legacy.entities?.urls ?? [];
+  }
+  for (const u of urls) {
+    if (typeof u.url === 'string' && typeof u.expanded_url === 'string') text = text.split(u.url).join(u.expanded_url);
+  }
+  const hidden = [
+    ...(legacy.entities?.media ?? []).map((m: Json) => m.url),
+    legacy.quoted_status_permalink?.url,
+  ].filter((u): u is string => typeof u === 'string');
+  for (const url of hidden) text = text.split(url).join('');
+  return decodeEntities(text).trim();
+}
+
+function linksOf(tweet: Json): string[] {
+  const note: Json | undefined = tweet.note_tweet?.note_tweet_results?.result;
+  const urls: Json[] = note?.text ? note.entity_set?.urls ?? [] : tweet.legacy.entities?.urls ?? [];
+  const links = urls.map((u) => u.expanded_url).filter((u): u is string => typeof u === 'string' && !isXUrl(u));
+  return [...new Set(links)];
+}
+
+/** Poll cards carry choiceN_label / choiceN_count binding values. */
+function pollOf(tweet: Json): PollOption[] {
+  const card: Json | undefined = tweet.card?.legacy;
+  if (!card || typeof card.name !== 'string' || !/^poll\dchoice/.test(card.name)) return [];
+  const values = new Map<string, string>();
+  for (const binding of Array.isArray(card.binding_values) ? card.binding_values : []) {
+    if (typeof binding?.key === 'string' && typeof binding.value?.string_value === 'string') {
+      values.set(binding.key, binding.value.string_value);
+    }
+  }
+  const choices: Array<{ label: string; count: number | null }> = [];
+  for (let i = 1; values.has(`choice${i}_label`); i++) {
+    const count = Number(values.get(`choice${i}_count`));
+    choices.push({ label: values.get(`choice${i}_label`)!, count: Number.isFinite(count) ? count : null });
+  }
+  const total = choices.reduce((sum, c) => sum + (c.count ?? 0), 0);
+  const final = values.get('counts_are_final') === 'true';
+  return choices.map((c) => ({
+    label: c.label,
+    percent: final && total > 0 && c.count !== null ? Math.round((c.count / total) * 1000) / 10 : null,
+  }));
+}
+
+function count(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+/** Parse one `tweet_results.result`. Returns null when it is not a readable tweet. */
+export function parseGraphqlTweet(result: unknown, options: GraphqlParseOptions = {}): GraphqlTweet | null {
+  const tweet = unwrapTweetResult(result);
+  if (!tweet || !/^\d+$/.test(tweet.rest_id)) return null;
+  const legacy: Json = tweet.legacy;
+  const user = userOf(tweet);
+  const id: string = tweet.rest_id;
+  const url = user ? `https://x.com/${user.screenName}/status/${id}` : `https://x.com/i/web/status/${id}`;
+
+  let text = graphqlTweetText(tweet);
+  // X Articles: the tweet itself has no text, only the article card
+  const article: Json | undefined = tweet.article?.article_results?.result;
+  if (!text && typeof article?.title === 'string') {
+    text = [article.title, article.preview_text].filter((t) => typeof t === 'string' && t).join('\n\n');
+  }
+
+  const media: string[] = [];
+  const mediaAlt: Record<string, string> = {};
+  let hasVideo = false;
+  for (const m of (legacy.extended_entities ?? legacy.entities)?.media ?? []) {
+    if (typeof m.media_url_https !== 'string') continue;
+    // Photos at their original size; videos and GIFs by their poster frame
+    const mediaUrl = m.type === 'photo' ? `${m.media_url_https}?name=orig` : m.media_url_https;
+    media.push(mediaUrl);
+    if (typeof m.ext_alt_text === 'string' && m.ext_alt_text) mediaAlt[mediaUrl] = m.ext_alt_text;
+    if (m.type === 'video' || m.type === 'animated_gif') hasVideo = true;
+  }
+  if (hasVideo && options.videoCapture !== false) media.push(url);
+
+  const author = user ? `${user.name} · @${user.screenName}` : '';
+  const quotedTweet = unwrapTweetResult(tweet.quoted_status_result?.result);
+  const quotedUser = quotedTweet ? userOf(quotedTweet) : null;
+
+  return {
+    id,
+    url,
+    author,
+    text,
+    media,
+    mediaAlt,
+    links: linksOf(tweet),
+    metadata: {
+      ...EMPTY_TWEET_METADATA,
+      postedAt: sqliteDate(legacy.created_at),
+      replyCount: count(legacy.reply_count),
+      retweetCount: count(legacy.retweet_count),
+      likeCount: count(legacy.favorite_count),
+      inReplyToId: typeof legacy.in_reply_to_status_id_str === 'string' ? legacy.in_reply_to_status_id_str : null,
+      inReplyToAuthor: typeof legacy.in_reply_to_screen_name === 'string' ? `@${legacy.in_reply_to_screen_name}` : null,
+      quoted: quotedTweet
+        ? {
+            id: quotedTweet.rest_id,
+            author: quotedUser ? `${quotedUser.name} · @${quotedUser.screenName}` : '',
+            text: graphqlTweetText(quotedTweet),
+          }
+        : typeof legacy.quoted_status_id_str === 'string'
+          ? { id: legacy.quoted_status_id_str, author: '', text: '' }
+          : null,
+      poll: pollOf(tweet),
+    },
+    article: parseGraphqlArticle(article, { url, author }),
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Minimal read-only ZIP access for archive imports: lists entries from the central
+ * directory and inflates single files on demand, without loading the whole archive
+ * into memory. Supports stored and deflated entries and ZIP64 (X archives can be several GB).
+ */
+import fs from 'fs';
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+const fsRead = promisify(fs.read);
+const inflateRawAsync = promisify(zlib.inflateRaw);
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  size: number;
+  /** 0 = stored, 8 = deflate. */
+  method: number;
+  localHeaderOffset: number;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+/** End-of-central-directory record (22 bytes) plus the longest possible comment. */
+const EOCD_SEARCH_BYTES = 22 + 0xffff;
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const read = fs.readSync(fd, buffer, 0, length, position);
+  if (read < length) throw new ZipFormatError('Unexpected end of file');
+  return buffer;
+}
+
+async function readAtAsync(fd: number, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await fsRead(fd, buffer, 0, length, position);
+  if (bytesRead < length) throw new ZipFormatError('Unexpected end of file');
+  return buffer;
+}
+
+export class ZipReader {
+  readonly entries: ZipEntry[];
+  private fd: number;
+
+  private constructor(fd: number, entries: ZipEntry[]) {
+    this.fd = fd;
+    this.entries = entries;
+  }
+
+  static open(filePath: string): ZipReader {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      return new ZipReader(fd, readCentralDirectory(fd, fs.fstatSync(fd).size));
+    } catch (err) {
+      fs.closeSync(fd);
+      throw err;
+    }
+  }
+
+  /** Uncompressed contents of an entry. */
+  read(entry: ZipEntry): Buffer {
+    const header = readAt(this.fd, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Bad local header for ${entry.name}`);
+    }
+    const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = entry.compressedSize > 0 ? readAt(this.fd, dataStart, entry.compressedSize) : Buffer.alloc(0);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return zlib.inflateRawSync(data);
+    throw new ZipFormatError(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  /** Like read(), without blocking the event loop while reading and inflating. */
+  async readAsync(entry: ZipEntry): Promise<Buffer> {
+    const header = await readAtAsync(this.fd, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Bad local header for ${entry.name}`);
+    }
+    const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = entry.compressedSize > 0 ? await readAtAsync(this.fd, dataStart, entry.compressedSize) : Buffer.alloc(0);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflateRawAsync(data);
+    throw new ZipFormatError(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+}
+
+function readCentralDirectory(fd: number, fileSize: number): ZipEntry[] {
+  const tailLength = Math.min(fileSize, EOCD_SEARCH_BYTES);
+  const tailStart = fileSize - tailLength;
+  const tail = readAt(fd, tailStart, tailLength);
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ZipFormatError('Not a zip file');
+
+  let count = tail.readUInt16LE(eocd + 10);
+  let size = tail.readUInt32LE(eocd + 12);
+  let offset = tail.readUInt32LE(eocd + 16);
+  if (count === 0xffff || size === 0xffffffff || offset === 0xffffffff) {
+    const locator = eocd - 20;
+    if (locator < 0 || tail.readUInt32LE(locator) !== ZIP64_LOCATOR_SIGNATURE) {
+      throw new ZipFormatError('Missing ZIP64 end of central directory locator');
+    }
+    const zip64 = readAt(fd, Number(tail.readBigUInt64LE(locator + 8)), 56);
+    if (zip64.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new ZipFormatError('Bad ZIP64 end of central directory record');
+    }
+    count = Number(zip64.readBigUInt64LE(32));
+    size = Number(zip64.readBigUInt64LE(40));
+    offset = Number(zip64.readBigUInt64LE(48));
+  }
+
+  const directory = readAt(fd, offset, size);
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (directory.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError('Bad central directory entry');
+    }
+    const nameLength = directory.readUInt16LE(pos + 28);
+    const extraLength = directory.readUInt16LE(pos + 30);
+    const commentLength = directory.readUInt16LE(pos + 32);
+    const entry: ZipEntry = {
+      name: directory.toString('utf8', pos + 46, pos + 46 + nameLength),
+      method: directory.readUInt16LE(pos + 10),
+      compressedSize: directory.readUInt32LE(pos + 20),
+      size: directory.readUInt32LE(pos + 24),
+      localHeaderOffset: directory.readUInt32LE(pos + 42),
+    };
+    applyZip64Extra(entry, directory.subarray(pos + 46 + nameLength, pos + 46 + nameLength + extraLength));
+    entries.push(entry);
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/** ZIP64 extra field (0x0001): 8-byte values for whichever 32-bit fields were saturated, in this order. */
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  let pos = 0;
+  while (pos + 4 <= extra.length) {
+    const id = extra.readUInt16LE(pos);
+    const length = extra.readUInt16LE(pos + 2);
+    if (id === 0x0001) {
+      let field = pos + 4;
+      for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+        if (entry[key] === 0xffffffff && field + 8 <= pos + 4 + length) {
+          entry[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      return;
+    }
+    pos += 4 + length;
+  }
+}
@@ -4,16 +4,13 @@ import cors from 'cors';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
 import { getConfig } from './lib/config.js';
 import { savePdfForBookmark, extractTextFromPdf } from './lib/pdfService.js';
 import {
   initDb,
-  upsertBookmark,
   getBookmarks,
   getMediaCount,
-  getMediaUrlsForBookmark,
-  getArticlesCount,
-  getSyntheticArticleMdLength,
   insertMedia,
   deleteMediaForBookmark,
   replaceLinksAndArticles,
@@ -24,12 +21,101 @@ import {
   deleteBookmark,
   getTranscriptByBookmarkAndVideo,
   upsertTranscript,
+  getBookmark,
+  addTagsToBookmark,
+  removeTagsFromBookmark,
+  getTags,
+  renameTag,
+  mergeTags,
+  getCollections,
+  getCollection,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  addBookmarksToCollection,
+  removeBookmarksFromCollection,
+  reorderCollectionBookmarks,
+  setBookmarkNotes,
+  getHighlights,
+  getHighlight,
+  createHighlight,
+  updateHighlightComment,
+  deleteHighlight,
+  isBookmarkStatus,
+  isBookmarkSource,
+  BOOKMARK_SOURCES,
+  type BookmarkSource,
+  upsertBookmark,
+  setBookmarkStatus,
+  setReadProgress,
+  BOOKMARK_STATUSES,
+  type BookmarkStatus,
+  restoreBookmarks,
+  getTrash,
+  listBookmarks,
+  summarizeBookmarks,
+  isBookmarkSort,
+  BOOKMARK_SORTS,
+  MAX_PAGE_SIZE,
+  InvalidCursorError,
+  updatePdfArticleText,
+  startProcessingStep,
+  finishProcessingStep,
+  getProcessingStatus,
+  getProcessingInput,
+  isProcessingStep,
+  PROCESSING_STEPS,
+  type ProcessingStep,
+  recordSyncSession,
+  getRemovedUpstreamIds,
+  type SyncSessionInput,
 } from './lib/db.js';
-import { processLinks, extractArticle } from './lib/articleExtractor.js';
+import { purgeTrash, purgeExpiredTrash } from './lib/trash.js';
+import { SearchQuerySyntaxError, HAS_VALUES, type HasValue } from './lib/searchQuery.js';
+import { processLinks, extractArticle, isLikelyArticle, type ExtractedArticle } from './lib/articleExtractor.js';
 import { cleanArticleTextWithOpenAI } from './lib/articleCleaner.js';
 import { exportBookmarks } from './lib/exporter.js';
 import { downloadMediaFile } from './lib/mediaService.js';
 import { TranscriptionService } from './lib/transcriptionService.js';
+import {
+  JobQueue,
+  pruneFinishedJobs,
+  hasActiveJobs,
+  listJobs,
+  getJobCounts,
+  getJob,
+  JOB_STATUSES,
+  type Job,
+  type JobHandlers,
+  type JobPayloads,
+  type JobStatus,
+} from './lib/jobQueue.js';
+import { EventStream, type ArchiveImportFinished, type JobEvent } from './lib/eventStream.js';
+import {
+  validateBookmarkPayload,
+  ingestBookmark,
+  ingestBatch,
+  validateUrlBookmarkPayload,
+  ingestUrl,
+  validateSyncSessionPayload,
+  type BookmarkPayload,
+  type UrlBookmarkPayload,
+  type IngestOutcome,
+  type PlannedJob,
+} from './lib/ingest.js';
+import { escapeHtml } from './lib/html.js';
+import { importXArchive, checkArchive, isArchiveDataset, ARCHIVE_DATASETS, ArchiveFormatError } from './lib/xArchive.js';
+import { ZipFormatError } from './lib/zipReader.js';
+import {
+  renderUserscript,
+  readUserscriptSource,
+  compareVersions,
+  UserscriptTracker,
+  USERSCRIPT_PATH,
+  USERSCRIPT_META_PATH,
+} from './lib/userscript.js';
+import { getImporters, parseImportFile, previewImport, importLinks, ImportFormatError } from './lib/importers.js';
 
 // ─── Config & Data Directory ─────────────────────────────────
 const config = getConfig();
@@ -56,120 +142,392 @@ app.use('/media', express.static(mediaDir));
 // PDF upload: memory storage (single file field "pdf")
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 50 * 1024 * 1024 } });
 
+// Archive upload: X archives run to gigabytes, so they go to a temp file (single field "archive")
+const archiveUpload = multer({ dest: os.tmpdir(), limits: { fileSize: 20 * 1024 * 1024 * 1024 } });
+
 // Serve stored article PDFs (safe: express.static resolves under dataDir/articles)
 const articlesDir = path.join(dataDir, 'articles');
 if (!fs.existsSync(articlesDir)) fs.mkdirSync(articlesDir, { recursive: true });
 app.use('/articles', express.static(articlesDir));
 
-// ─── Transcription Service ────────────────────────────────────
-const transcriptionService = new TranscriptionService(config);
+// ─── Userscript ───────────────────────────────────────────────
+const userscriptTracker = new UserscriptTracker(path.join(dataDir, 'userscript.json'));
 
-function escapeHtml(input: string): string {
-  return input
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
+/** The userscript configured for this server: XMARKS_PUBLIC_URL, or the host it was requested from. */
+function renderUserscriptFor(req: express.Request) {
+  return renderUserscript(readUserscriptSource(), {
+    serverUrl: config.publicUrl ?? `${req.protocol}://${req.get('host')}`,
+    apiToken: config.apiToken,
+    features: config.userscriptFeatures,
+  });
 }
 
-// ─── POST /api/bookmarks ─────────────────────────────────────
-app.post('/api/bookmarks', async (req, res) => {
-  const { id, url, author, text, threadText, threadPartCount, media, links: tweetLinks, forceExtract, forceMedia } = req.body;
-
-  if (!id) {
-    return res.status(400).json({ error: 'Missing id' });
+app.get(USERSCRIPT_PATH, (req, res) => {
+  try {
+    res.type('text/javascript').set('Cache-Control', 'no-cache').send(renderUserscriptFor(req).script);
+  } catch (error) {
+    console.error('Error rendering userscript:', error);
+    res.status(500).type('text/plain').send('// Failed to build the userscript');
   }
+});
 
+app.get(USERSCRIPT_META_PATH, (req, res) => {
   try {
-    upsertBookmark(db, { id, url: url || '', author: author || '', text: text || '' });
-    const logMsg = `[XMarks] POST bookmark ${id} | text: ${(text || '').length}ch | media: ${media?.length || 0} | links: ${tweetLinks?.length || 0}\n`;
-    fs.appendFileSync(path.join(dataDir, 'server.log'), logMsg);
-    console.log(logMsg);
+    res.type('text/javascript').set('Cache-Control', 'no-cache').send(renderUserscriptFor(req).meta);
+  } catch (error) {
+    console.error('Error rendering userscript metadata:', error);
+    res.status(500).type('text/plain').send('// Failed to build the userscript');
+  }
+});
+
+/**
+ * In front of the userscript's upload routes: checks the API token when one is configured
+ * and notes which script version is calling.
+ */
+function userscriptClient(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (config.apiToken && req.get('Authorization') !== `Bearer ${config.apiToken}`) {
+    return res.status(401).json({ error: 'Missing or invalid API token' });
+  }
+  const version = req.get('X-XMarks-Userscript');
+  if (version) userscriptTracker.record(version);
+  next();
+}
 
-    const existingArticlesCount = getArticlesCount(db, id);
-    const existingMediaUrls = getMediaUrlsForBookmark(db, id);
-    const bookmarkUrl = typeof url === 'string' ? url : '';
+// ─── Transcription Service ────────────────────────────────────
+const transcriptionService = new TranscriptionService(config);
 
-    const isTweetStatusUrl = (u: string) =>
-      /^https?:\/\/(www\.)?(x\.com|twitter\.com)\/.+\/status\/\d+/.test(u);
+const isTweetStatusUrl = (u: string) =>
+  /^https?:\/\/(www\.)?(x\.com|twitter\.com)\/.+\/status\/\d+/.test(u);
 
-    const runMedia = media && Array.isArray(media) && media.length > 0;
-    if (runMedia) {
-      if (forceMedia && existingMediaUrls.length > 0) {
-        deleteMediaForBookmark(db, id);
-      }
-      const toProcess = forceMedia ? media : (media as string[]).filter((u: string) => !existingMediaUrls.includes(u));
-      if (toProcess.length > 0) {
-        (async () => {
-          for (const mediaUrl of toProcess) {
-            if (isTweetStatusUrl(mediaUrl)) {
-              insertMedia(db, id, mediaUrl);
-              continue;
-            }
-            const localPath = await downloadMediaFile(mediaDir, mediaUrl, id);
-            insertMedia(db, id, localPath || mediaUrl);
-          }
-          console.log(`[XMarks] Saved ${toProcess.length} media item(s) for tweet ${id}`);
-        })().catch(err => console.error(`[Media] Error for ${id}:`, err));
-      }
+// ─── Background Jobs ──────────────────────────────────────────
+const JOB_CONCURRENCY = 3;
+/** How long the transcribe / PDF routes wait for their job before answering 202 / without text. */
+const TRANSCRIBE_WAIT_MS = 10 * 60 * 1000;
+const PDF_TEXT_WAIT_MS = 30 * 1000;
+const FINISHED_JOB_RETENTION_DAYS = 7;
+
+/** Resolve and extract a bookmark's links, store the results and settle its extract step. */
+async function extractLinksForBookmark(id: string, urls: string[]): Promise<ExtractedArticle[]> {
+  const { links, articles } = await processLinks(urls);
+  replaceLinksAndArticles(db, id, links, articles, { keepXArticles: true });
+  if (articles.length > 0) {
+    console.log(`[XMarks] Extracted ${articles.length} article(s) for bookmark ${id}`);
+  }
+  const missed = links.filter((l) => !l.isArticle && isLikelyArticle(l.resolvedUrl)).map((l) => l.resolvedUrl);
+  finishProcessingStep(db, id, 'extract', missed.length > 0 ? `No article could be extracted from ${missed.join(', ')}` : null);
+  // Linked videos (YouTube) go on to transcription when Whisper is set up
+  const keyPath = config.openaiKeyPath;
+  if (keyPath && fs.existsSync(keyPath)) {
+    for (const { videoUrl } of articles) {
+      if (!videoUrl || getTranscriptByBookmarkAndVideo(db, id, videoUrl)) continue;
+      startProcessingStep(db, id, 'transcribe', { videoUrl });
+      jobs.enqueue('transcribe', { videoUrl }, { bookmarkId: id, maxAttempts: 3 });
     }
+  }
+  return articles;
+}
 
-    const runExtract = tweetLinks && Array.isArray(tweetLinks) && tweetLinks.length > 0 && (existingArticlesCount === 0 || forceExtract);
-    if (runExtract) {
-      processLinks(tweetLinks).then(({ links, articles }) => {
-        replaceLinksAndArticles(db, id, links, articles);
-        if (articles.length > 0) {
-          console.log(`[XMarks] Extracted ${articles.length} article(s) for tweet ${id}`);
-        }
-      }).catch(err => {
-        console.error(`[XMarks] Article extraction failed for ${id}:`, err);
+const jobHandlers: JobHandlers = {
+  media: async (job) => {
+    const id = job.bookmark_id!;
+    const { url: mediaUrl, alt } = job.payload;
+    if (!getBookmark(db, id)) return;
+    if (isTweetStatusUrl(mediaUrl)) {
+      insertMedia(db, id, mediaUrl, alt ?? null);
+      finishMediaJob(job, null);
+      return;
+    }
+    let localPath: string | null = null;
+    let error: string | null = null;
+    try {
+      localPath = await downloadMediaFile(mediaDir, mediaUrl, id, { retries: 0, throwOnFailure: true });
+      // With throwOnFailure the only null result is a 403, which retrying will not fix
+      if (!localPath) error = 'HTTP 403';
+    } catch (err) {
+      // The queue does the retrying; on the last attempt fall back to the remote URL
+      if (job.attempts < job.max_attempts) throw err;
+      error = (err as Error).message;
+    }
+    insertMedia(db, id, localPath || mediaUrl, alt ?? null);
+    finishMediaJob(job, error && `Could not download ${mediaUrl} (${error}); showing the remote file`);
+  },
+  extract: async (job) => {
+    const id = job.bookmark_id!;
+    if (!getBookmark(db, id)) return;
+    await extractLinksForBookmark(id, job.payload.links);
+  },
+  pdf_text: async (job) => {
+    const id = job.bookmark_id!;
+    const { pdfPath, urlPath, cleanWithOpenAI } = job.payload;
+    let text = await extractTextFromPdf(pdfPath);
+    if (cleanWithOpenAI && text) {
+      text = await cleanArticleTextWithOpenAI(config, text);
+    }
+    updatePdfArticleText(db, id, urlPath, {
+      content: `<p>${escapeHtml(text).replace(/\n/g, '<br/>')}</p>`,
+      contentMd: text,
+      excerpt: text.slice(0, 300) || null,
+    });
+  },
+  transcribe: async (job) => {
+    const id = job.bookmark_id!;
+    if (!getBookmark(db, id)) return;
+    console.log(`[XMarks] Transcribing video for bookmark ${id}...`);
+    const result = await transcriptionService.transcribe(job.payload.videoUrl, id);
+    upsertTranscript(db, id, result.videoUrl, result.transcript);
+    finishProcessingStep(db, id, 'transcribe');
+  },
+  x_archive: async (job) => {
+    const { archivePath, datasets, removeWhenDone } = job.payload;
+    try {
+      const { report, importedIds, jobs: planned } = await importXArchive(db, archivePath, mediaDir, {
+        datasets,
+        onProgress: (progress) => events.publish('import-progress', { jobId: job.id, ...progress }),
       });
-    } else if (existingArticlesCount === 0) {
-      const md = (
-        typeof threadText === 'string' && threadText.trim().length > 0
-          ? threadText.trim()
-          : (typeof text === 'string' ? text.trim() : '')
-      );
-      if (md) {
-        const hasNoLinks = !tweetLinks || !Array.isArray(tweetLinks) || tweetLinks.length === 0;
-        const existingSyntheticLen = getSyntheticArticleMdLength(db, id);
-        const shouldSaveSynthetic =
-          hasNoLinks && (
-            forceExtract ||
-            existingSyntheticLen === null ||
-            md.length > existingSyntheticLen
-          );
-        if (shouldSaveSynthetic) {
-          const html = `<p>${escapeHtml(md).replace(/\n/g, '<br/>')}</p>`;
-          replaceLinksAndArticles(db, id, [], [
-            {
-              url: bookmarkUrl,
-              title: `X thread by ${author || 'Unknown'}`,
-              author: author || null,
-              content: html,
-              contentMd: md,
-              excerpt: md.slice(0, 300),
-              siteName: 'X',
-            },
-          ]);
-        }
+      for (const { bookmarkId, job: followUp } of planned) {
+        jobs.enqueue(followUp.type, followUp.payload as JobPayloads[typeof followUp.type], { bookmarkId });
       }
+      for (const id of importedIds) events.publish('bookmark-created', { id });
+      console.log(
+        `[Import] X archive: ${report.imported} imported, ${report.skippedExisting} already saved, ${report.mediaCopied} media copied`
+      );
+      const finished = { ...report, queuedJobs: planned.length };
+      archiveImportReports.set(job.id, finished);
+      events.publish('import-finished', { jobId: job.id, report: finished });
+    } finally {
+      if (removeWhenDone) await fs.promises.rm(archivePath, { force: true });
+    }
+  },
+};
+
+/** Reports of finished X archive imports by job id, for GET /api/import/x-archive/:jobId. Not kept across restarts. */
+const archiveImportReports = new Map<number, ArchiveImportFinished['report']>();
+
+const jobs = new JobQueue(db, jobHandlers, { concurrency: JOB_CONCURRENCY });
+
+/** Media is one job per file; the step is ok once the last of them finishes without error. */
+function finishMediaJob(job: Job, error: string | null): void {
+  const id = job.bookmark_id!;
+  if (error || !hasActiveJobs(db, id, 'media', job.id)) finishProcessingStep(db, id, 'media', error);
+}
+
+jobs.on('job:dead', (job: Job, error: string) => {
+  if (job.bookmark_id && isProcessingStep(job.type)) finishProcessingStep(db, job.bookmark_id, job.type, error);
+});
+
+/**
+ * Re-run a step with the input it last ran with, like a re-sync with forceExtract / forceMedia.
+ * Returns the ids of the queued jobs.
+ */
+function retryProcessingStep(id: string, step: ProcessingStep): number[] {
+  switch (step) {
+    case 'extract': {
+      const input = getProcessingInput(db, id, 'extract')!;
+      startProcessingStep(db, id, 'extract', input);
+      return [jobs.enqueue('extract', { links: input.links }, { bookmarkId: id })];
+    }
+    case 'media': {
+      const input = getProcessingInput(db, id, 'media')!;
+      deleteMediaForBookmark(db, id);
+      startProcessingStep(db, id, 'media', input);
+      return input.urls.map((url) => jobs.enqueue('media', { url, alt: input.alt?.[url] }, { bookmarkId: id }));
+    }
+    case 'transcribe': {
+      const input = getProcessingInput(db, id, 'transcribe')!;
+      startProcessingStep(db, id, 'transcribe', input);
+      return [jobs.enqueue('transcribe', { videoUrl: input.videoUrl }, { bookmarkId: id, maxAttempts: 3 })];
     }
+  }
+}
+
+// ─── Live Events (SSE) ────────────────────────────────────────
+const events = new EventStream();
+const SSE_HEARTBEAT_MS = 25 * 1000;
 
-    res.json({ status: 'success', saved: true });
+function jobEvent(job: Job, status: JobStatus, error?: string): JobEvent {
+  return {
+    id: job.id,
+    type: job.type,
+    bookmarkId: job.bookmark_id,
+    status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    ...(error ? { error } : {}),
+  };
+}
+
+jobs.on('job:start', (job: Job) => events.publish('job-progress', jobEvent(job, 'running')));
+jobs.on('job:done', (job: Job) => events.publish('job-progress', jobEvent(job, 'done')));
+jobs.on('job:retry', (job: Job, error: string) => events.publish('job-progress', jobEvent(job, 'pending', error)));
+jobs.on('job:dead', (job: Job, error: string) => events.publish('job-failed', { ...jobEvent(job, 'dead'), error }));
+
+/** Largest POST /api/bookmarks/batch the server accepts. */
+const MAX_INGEST_BATCH = 500;
+
+/** Queue the follow-up work for a saved bookmark and tell the dashboard about it. */
+function afterIngest(id: string, outcome: IngestOutcome, planned: PlannedJob[]): number[] {
+  const jobIds = planned.map((job) =>
+    jobs.enqueue(job.type, job.payload as JobPayloads[typeof job.type], { bookmarkId: id })
+  );
+  if (outcome !== 'unchanged') {
+    events.publish(outcome === 'created' ? 'bookmark-created' : 'bookmark-updated', { id });
+  }
+  return jobIds;
+}
+
+// ─── POST /api/bookmarks ─────────────────────────────────────
+app.post('/api/bookmarks', userscriptClient, (req, res) => {
+  let payload: BookmarkPayload;
+  try {
+    payload = validateBookmarkPayload(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const { outcome, jobs: planned } = db.transaction(() => ingestBookmark(db, payload))();
+    const logMsg = `[XMarks] POST bookmark ${payload.id} | text: ${payload.text.length}ch | media: ${payload.media.length} | links: ${payload.links.length}\n`;
+    fs.appendFileSync(path.join(dataDir, 'server.log'), logMsg);
+    console.log(logMsg);
+    afterIngest(payload.id, outcome, planned);
+    res.json({ status: 'success', saved: true, result: outcome });
   } catch (error) {
     console.error('Error saving bookmark:', error);
     res.status(500).json({ error: 'Failed to save bookmark' });
   }
 });
 
+// ─── POST /api/bookmarks/url ─────────────────────────────────
+// Body: { url, title?, note?, tags? } — save any web page; its article is extracted before answering
+app.post('/api/bookmarks/url', async (req, res) => {
+  let payload: UrlBookmarkPayload;
+  try {
+    payload = validateUrlBookmarkPayload(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const { id, outcome, needsExtraction } = db.transaction(() => ingestUrl(db, payload))();
+    if (needsExtraction) {
+      try {
+        const [article] = await extractLinksForBookmark(id, [payload.url]);
+        if (article && !payload.title) {
+          upsertBookmark(db, { id, url: payload.url, author: article.siteName ?? '', text: article.title });
+        }
+      } catch (error) {
+        finishProcessingStep(db, id, 'extract', (error as Error).message);
+      }
+    }
+    console.log(`[XMarks] POST url ${payload.url} | ${outcome}`);
+    afterIngest(id, outcome, []);
+    const [bookmark] = summarizeBookmarks(db, [getBookmark(db, id)!]);
+    res.status(outcome === 'created' ? 201 : 200).json({ status: 'success', result: outcome, bookmark });
+  } catch (error) {
+    console.error('Error saving URL bookmark:', error);
+    res.status(500).json({ error: 'Failed to save bookmark' });
+  }
+});
+
+// ─── POST /api/bookmarks/batch ───────────────────────────────
+// Body: { bookmarks: [<same payload as POST /api/bookmarks>, ...] }
+app.post('/api/bookmarks/batch', userscriptClient, (req, res) => {
+  const items = req.body?.bookmarks;
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: 'bookmarks must be a non-empty array' });
+  }
+  if (items.length > MAX_INGEST_BATCH) {
+    return res.status(413).json({ error: `At most ${MAX_INGEST_BATCH} bookmarks per batch` });
+  }
+
+  try {
+    const results = ingestBatch(db, items);
+    const counts = { created: 0, updated: 0, unchanged: 0, rejected: 0 };
+    const response = results.map((item) => {
+      counts[item.result]++;
+      if (item.result === 'rejected') return item;
+      const { jobs: planned, ...rest } = item;
+      return { ...rest, jobIds: afterIngest(item.id, item.result, planned) };
+    });
+    const logMsg = `[XMarks] POST batch of ${items.length} | ${Object.entries(counts).map(([k, v]) => `${k}: ${v}`).join(' | ')}\n`;
+    fs.appendFileSync(path.join(dataDir, 'server.log'), logMsg);
+    console.log(logMsg);
+    res.json({ counts, results: response });
+  } catch (error) {
+    console.error('Error saving bookmark batch:', error);
+    res.status(500).json({ error: 'Failed to save bookmarks' });
+  }
+});
+
+/** Parse an optional ?collection= / body collectionId. Returns undefined when absent, null when malformed. */
+function parseCollectionId(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/** Comma-separated query parameter as a list; absent or empty gives []. */
+function parseList(value: unknown): string[] {
+  return typeof value === 'string' ? value.split(',').map((v) => v.trim()).filter(Boolean) : [];
+}
+
 // ─── GET /api/bookmarks ──────────────────────────────────────
-app.get('/api/bookmarks', (_req, res) => {
+// ?limit=&cursor=&sort=saved_at|author|articles|position&order=asc|desc
+// &status=a,b&source=x,web,import,manual&collection=<id>&has=article,media,transcript&site=<host>
+// &removed=true (only bookmarks found removed on X)
+app.get('/api/bookmarks', (req, res) => {
+  const collectionId = parseCollectionId(req.query.collection);
+  if (collectionId === null) {
+    return res.status(400).json({ error: 'Invalid collection id' });
+  }
+  const statuses = parseList(req.query.status);
+  if (!statuses.every(isBookmarkStatus)) {
+    return res.status(400).json({ error: `status must be one of ${BOOKMARK_STATUSES.join(', ')}` });
+  }
+  const sources = parseList(req.query.source);
+  if (!sources.every(isBookmarkSource)) {
+    return res.status(400).json({ error: `source must be one of ${BOOKMARK_SOURCES.join(', ')}` });
+  }
+  const has = parseList(req.query.has).map((v) => v.toLowerCase());
+  if (!has.every((v): v is HasValue => (HAS_VALUES as readonly string[]).includes(v))) {
+    return res.status(400).json({ error: `has must be one of ${HAS_VALUES.join(', ')}` });
+  }
+  const sort = req.query.sort || undefined;
+  if (sort !== undefined && !isBookmarkSort(sort)) {
+    return res.status(400).json({ error: `sort must be one of ${BOOKMARK_SORTS.join(', ')}` });
+  }
+  if (sort === 'position' && collectionId === undefined) {
+    return res.status(400).json({ error: 'sort=position requires a collection' });
+  }
+  const order = req.query.order || undefined;
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return res.status(400).json({ error: 'order must be asc or desc' });
+  }
+  const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+  }
   try {
-    const bookmarks = getBookmarks(db);
-    res.json(enrichBookmarks(db, bookmarks));
+    if (collectionId !== undefined && !getCollection(db, collectionId)) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+    const page = listBookmarks(db, {
+      statuses: statuses as BookmarkStatus[],
+      sources: sources as BookmarkSource[],
+      collectionId,
+      has,
+      site: typeof req.query.site === 'string' ? req.query.site.trim() || undefined : undefined,
+      removedUpstream: req.query.removed === 'true',
+      sort,
+      order,
+      limit,
+      cursor: typeof req.query.cursor === 'string' ? req.query.cursor : undefined,
+    });
+    res.json({ ...page, items: summarizeBookmarks(db, page.items) });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error fetching bookmarks:', error);
     res.status(500).json({ error: 'Failed to fetch bookmarks' });
   }
@@ -181,16 +539,107 @@ app.get('/api/bookmarks/search', (req, res) => {
   if (!query.trim()) {
     return res.json([]);
   }
+  const collectionId = parseCollectionId(req.query.collection);
+  if (collectionId === null) {
+    return res.status(400).json({ error: 'Invalid collection id' });
+  }
 
   try {
-    const bookmarks = searchBookmarks(db, query.trim());
-    res.json(enrichBookmarks(db, bookmarks));
+    const bookmarks = searchBookmarks(db, query.trim(), { collectionId });
+    res.json(summarizeBookmarks(db, bookmarks));
   } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) {
+      return res.status(400).json({ error: `Invalid search: ${error.message}`, position: error.position });
+    }
     console.error('Error searching bookmarks:', error);
     res.status(500).json({ error: 'Failed to search bookmarks' });
   }
 });
 
+// ─── GET /api/bookmarks/:id ──────────────────────────────────
+app.get('/api/bookmarks/:id', (req, res) => {
+  try {
+    const bookmark = getBookmark(db, req.params.id);
+    if (!bookmark) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    res.json(enrichBookmarks(db, [bookmark])[0]);
+  } catch (error) {
+    console.error('Error fetching bookmark:', error);
+    res.status(500).json({ error: 'Failed to fetch bookmark' });
+  }
+});
+
+// ─── POST /api/bookmarks/:id/retry ───────────────────────────
+// Body: { steps?: ('extract' | 'media' | 'transcribe')[] } — defaults to every failed step
+app.post('/api/bookmarks/:id/retry', (req, res) => {
+  const { id } = req.params;
+  const { steps } = req.body ?? {};
+  if (steps !== undefined && (!Array.isArray(steps) || steps.length === 0 || !steps.every(isProcessingStep))) {
+    return res.status(400).json({ error: `steps must be a non-empty list of ${PROCESSING_STEPS.join(', ')}` });
+  }
+  try {
+    const bookmark = getBookmark(db, id);
+    if (!bookmark || bookmark.deleted_at) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    const processing = getProcessingStatus(db, id);
+    const toRetry: ProcessingStep[] = steps ?? PROCESSING_STEPS.filter((step) => processing[step]?.status === 'failed');
+    if (toRetry.length === 0) {
+      return res.status(409).json({ error: 'Nothing has failed for this bookmark' });
+    }
+    for (const step of toRetry) {
+      if (!processing[step]) {
+        return res.status(409).json({ error: `${step} has never run for this bookmark` });
+      }
+      if (processing[step]!.status === 'pending') {
+        return res.status(409).json({ error: `${step} is still running` });
+      }
+    }
+    const queued = toRetry.map((step) => ({ step, jobIds: retryProcessingStep(id, step) }));
+    events.publish('bookmark-updated', { id });
+    res.json({ status: 'queued', queued });
+  } catch (error) {
+    console.error('Error retrying bookmark processing:', error);
+    res.status(500).json({ error: 'Failed to retry processing' });
+  }
+});
+
+// ─── GET /api/jobs ───────────────────────────────────────────
+// ?status=pending,running,done,dead&bookmark=<id>&limit=
+app.get('/api/jobs', (req, res) => {
+  const statuses = parseList(req.query.status);
+  if (!statuses.every((s): s is JobStatus => (JOB_STATUSES as readonly string[]).includes(s))) {
+    return res.status(400).json({ error: `status must be one of ${JOB_STATUSES.join(', ')}` });
+  }
+  const bookmarkId = typeof req.query.bookmark === 'string' && req.query.bookmark ? req.query.bookmark : undefined;
+  const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 1000' });
+  }
+  try {
+    res.json({
+      counts: getJobCounts(db, bookmarkId),
+      jobs: listJobs(db, { statuses, bookmarkId, limit }),
+    });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+// ─── GET /api/events (Server-Sent Events) ────────────────────
+app.get('/api/events', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 5000\n\n');
+  const remove = events.add(res);
+  req.on('close', remove);
+});
+
 // ─── GET /api/stats ──────────────────────────────────────────
 app.get('/api/stats', (_req, res) => {
   try {
@@ -201,6 +650,26 @@ app.get('/api/stats', (_req, res) => {
   }
 });
 
+// ─── GET /api/userscript ─────────────────────────────────────
+// Current version and install link, and the version that last uploaded bookmarks
+app.get('/api/userscript', (req, res) => {
+  try {
+    const { version } = renderUserscriptFor(req);
+    const installed = userscriptTracker.installed;
+    res.json({
+      version,
+      installUrl: USERSCRIPT_PATH,
+      tokenRequired: config.apiToken !== null,
+      features: config.userscriptFeatures,
+      installed,
+      updateAvailable: installed !== null && compareVersions(installed.version, version) < 0,
+    });
+  } catch (error) {
+    console.error('Error reading userscript:', error);
+    res.status(500).json({ error: 'Failed to read userscript' });
+  }
+});
+
 // ─── GET /api/settings ───────────────────────────────────────
 app.get('/api/settings', async (_req, res) => {
   try {
@@ -243,8 +712,8 @@ app.get('/api/settings', async (_req, res) => {
 // ─── DELETE /api/bookmarks/all ───────────────────────────────
 app.delete('/api/bookmarks/all', (_req, res) => {
   try {
-    deleteAllBookmarks(db);
-    res.json({ status: 'success' });
+    const ids = deleteAllBookmarks(db);
+    res.json({ status: 'success', trashed: ids });
   } catch (error) {
     console.error('Error deleting all bookmarks:', error);
     res.status(500).json({ error: 'Failed to delete all bookmarks' });
@@ -255,13 +724,479 @@ app.delete('/api/bookmarks/all', (_req, res) => {
 app.delete('/api/bookmarks/:id', (req, res) => {
   try {
     deleteBookmark(db, req.params.id);
-    res.json({ status: 'success' });
+    res.json({ status: 'success', trashed: [req.params.id] });
   } catch (error) {
     console.error('Error deleting bookmark:', error);
     res.status(500).json({ error: 'Failed to delete bookmark' });
   }
 });
 
+// ─── Sync sessions ───────────────────────────────────────────
+
+// ─── POST /api/sync-sessions ─────────────────────────────────
+// Body: { startedAt, finishedAt?, complete, ids: [...] } — one userscript pass over x.com/i/bookmarks
+app.post('/api/sync-sessions', userscriptClient, (req, res) => {
+  let input: SyncSessionInput;
+  try {
+    input = validateSyncSessionPayload(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const { session, removed, restored } = recordSyncSession(db, input);
+    for (const id of [...removed, ...restored]) events.publish('bookmark-updated', { id });
+    const logMsg = `[XMarks] Sync session ${session.id} | ${session.complete ? 'complete' : 'partial'} | seen: ${session.seen_count} | removed: ${removed.length} | restored: ${restored.length}\n`;
+    fs.appendFileSync(path.join(dataDir, 'server.log'), logMsg);
+    console.log(logMsg);
+    res.json({ session, removed, restored });
+  } catch (error) {
+    console.error('Error recording sync session:', error);
+    res.status(500).json({ error: 'Failed to record sync session' });
+  }
+});
+
+// ─── POST /api/bookmarks/removed-upstream ────────────────────
+// Body: { action: 'archive' | 'trash' } — for every bookmark removed on X still awaiting a decision
+app.post('/api/bookmarks/removed-upstream', (req, res) => {
+  const { action } = req.body ?? {};
+  if (action !== 'archive' && action !== 'trash') {
+    return res.status(400).json({ error: 'action must be archive or trash' });
+  }
+  try {
+    const ids = getRemovedUpstreamIds(db);
+    if (action === 'archive') {
+      setBookmarkStatus(db, ids, 'archived');
+      for (const id of ids) events.publish('bookmark-updated', { id });
+      return res.json({ status: 'success', archived: ids });
+    }
+    db.transaction(() => ids.forEach((id) => deleteBookmark(db, id)))();
+    res.json({ status: 'success', trashed: ids });
+  } catch (error) {
+    console.error('Error resolving removed bookmarks:', error);
+    res.status(500).json({ error: 'Failed to update removed bookmarks' });
+  }
+});
+
+// ─── Trash ───────────────────────────────────────────────────
+
+// ─── GET /api/trash ──────────────────────────────────────────
+app.get('/api/trash', (_req, res) => {
+  try {
+    res.json({ retentionDays: config.trashRetentionDays, items: summarizeBookmarks(db, getTrash(db)) });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ error: 'Failed to fetch trash' });
+  }
+});
+
+// ─── POST /api/trash/restore ─────────────────────────────────
+app.post('/api/trash/restore', (req, res) => {
+  const ids: unknown = req.body?.ids;
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string')) {
+    return res.status(400).json({ error: 'Provide ids (array of bookmark ids) in body' });
+  }
+  try {
+    res.json({ status: 'success', restored: restoreBookmarks(db, ids as string[]) });
+  } catch (error) {
+    console.error('Error restoring bookmarks:', error);
+    res.status(500).json({ error: 'Failed to restore bookmarks' });
+  }
+});
+
+// ─── DELETE /api/trash (empty trash) ─────────────────────────
+app.delete('/api/trash', (_req, res) => {
+  try {
+    const purged = purgeTrash(db, dataDir, getTrash(db).map((b) => b.id));
+    res.json({ status: 'success', purged: purged.length });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    res.status(500).json({ error: 'Failed to empty trash' });
+  }
+});
+
+// ─── DELETE /api/trash/:id (delete forever) ──────────────────
+app.delete('/api/trash/:id', (req, res) => {
+  try {
+    if (purgeTrash(db, dataDir, [req.params.id]).length === 0) {
+      return res.status(404).json({ error: 'Bookmark is not in the trash' });
+    }
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Error purging bookmark:', error);
+    res.status(500).json({ error: 'Failed to purge bookmark' });
+  }
+});
+
+// ─── Tags ────────────────────────────────────────────────────
+
+/** Accepts { tags: string[] } or { tag: string }. */
+function tagNamesFromBody(body: unknown): string[] {
+  if (typeof body !== 'object' || body === null) return [];
+  const { tags, tag } = body as { tags?: unknown; tag?: unknown };
+  if (Array.isArray(tags)) return tags.filter((t): t is string => typeof t === 'string');
+  if (typeof tag === 'string') return [tag];
+  return [];
+}
+
+// ─── POST /api/bookmarks/:id/tags ────────────────────────────
+app.post('/api/bookmarks/:id/tags', (req, res) => {
+  const names = tagNamesFromBody(req.body);
+  if (names.length === 0) {
+    return res.status(400).json({ error: 'Provide tags (array) or tag (string) in body' });
+  }
+  try {
+    if (!getBookmark(db, req.params.id)) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    res.json({ status: 'success', tags: addTagsToBookmark(db, req.params.id, names) });
+  } catch (error) {
+    console.error('Error adding tags:', error);
+    res.status(500).json({ error: 'Failed to add tags' });
+  }
+});
+
+// ─── DELETE /api/bookmarks/:id/tags ──────────────────────────
+app.delete('/api/bookmarks/:id/tags', (req, res) => {
+  const names = tagNamesFromBody(req.body);
+  if (names.length === 0) {
+    return res.status(400).json({ error: 'Provide tags (array) or tag (string) in body' });
+  }
+  try {
+    if (!getBookmark(db, req.params.id)) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    res.json({ status: 'success', tags: removeTagsFromBookmark(db, req.params.id, names) });
+  } catch (error) {
+    console.error('Error removing tags:', error);
+    res.status(500).json({ error: 'Failed to remove tags' });
+  }
+});
+
+// ─── GET /api/tags ───────────────────────────────────────────
+app.get('/api/tags', (_req, res) => {
+  try {
+    res.json(getTags(db));
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// ─── POST /api/tags/rename ───────────────────────────────────
+app.post('/api/tags/rename', (req, res) => {
+  const { from, to } = req.body ?? {};
+  if (typeof from !== 'string' || typeof to !== 'string') {
+    return res.status(400).json({ error: 'Provide from and to in body' });
+  }
+  try {
+    const result = renameTag(db, from, to);
+    if (result === 'invalid') return res.status(400).json({ error: 'New tag name is empty' });
+    if (result === 'not_found') return res.status(404).json({ error: `Tag "${from}" not found` });
+    if (result === 'conflict') {
+      return res.status(409).json({ error: `Tag "${to}" already exists; merge the tags instead` });
+    }
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    res.status(500).json({ error: 'Failed to rename tag' });
+  }
+});
+
+// ─── POST /api/tags/merge ────────────────────────────────────
+app.post('/api/tags/merge', (req, res) => {
+  const { from, into } = req.body ?? {};
+  const sources: string[] = Array.isArray(from) ? from.filter((t: unknown) => typeof t === 'string') : [];
+  if (sources.length === 0 || typeof into !== 'string') {
+    return res.status(400).json({ error: 'Provide from (array of tag names) and into in body' });
+  }
+  try {
+    const count = mergeTags(db, sources, into);
+    if (count === null) return res.status(400).json({ error: 'Target tag name is empty' });
+    res.json({ status: 'success', count });
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+});
+
+// ─── Collections ─────────────────────────────────────────────
+
+/** Accepts { bookmarkIds: string[] } or { bookmarkId: string }. */
+function bookmarkIdsFromBody(body: unknown): string[] {
+  if (typeof body !== 'object' || body === null) return [];
+  const { bookmarkIds, bookmarkId } = body as { bookmarkIds?: unknown; bookmarkId?: unknown };
+  if (Array.isArray(bookmarkIds)) return bookmarkIds.filter((id): id is string => typeof id === 'string');
+  if (typeof bookmarkId === 'string') return [bookmarkId];
+  return [];
+}
+
+// ─── GET /api/collections ────────────────────────────────────
+app.get('/api/collections', (_req, res) => {
+  try {
+    res.json(getCollections(db));
+  } catch (error) {
+    console.error('Error fetching collections:', error);
+    res.status(500).json({ error: 'Failed to fetch collections' });
+  }
+});
+
+// ─── POST /api/collections ───────────────────────────────────
+app.post('/api/collections', (req, res) => {
+  const { name, description } = req.body ?? {};
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'Provide a collection name in body' });
+  }
+  try {
+    const collection = createCollection(db, name, typeof description === 'string' && description.trim() ? description.trim() : null);
+    if (!collection) {
+      return res.status(409).json({ error: `Collection "${name.trim()}" already exists` });
+    }
+    res.status(201).json(collection);
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    res.status(500).json({ error: 'Failed to create collection' });
+  }
+});
+
+// ─── PUT /api/collections/order ──────────────────────────────
+app.put('/api/collections/order', (req, res) => {
+  const ids: unknown = req.body?.ids;
+  if (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id))) {
+    return res.status(400).json({ error: 'Provide ids (array of collection ids) in body' });
+  }
+  try {
+    reorderCollections(db, ids as number[]);
+    res.json(getCollections(db));
+  } catch (error) {
+    console.error('Error reordering collections:', error);
+    res.status(500).json({ error: 'Failed to reorder collections' });
+  }
+});
+
+// ─── PATCH /api/collections/:id ──────────────────────────────
+app.patch('/api/collections/:id', (req, res) => {
+  const id = parseCollectionId(req.params.id);
+  const { name, description } = req.body ?? {};
+  if (!id) return res.status(400).json({ error: 'Invalid collection id' });
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'Collection name cannot be empty' });
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return res.status(400).json({ error: 'Description must be a string or null' });
+  }
+  try {
+    const result = updateCollection(db, id, {
+      name,
+      description: typeof description === 'string' ? description.trim() || null : description,
+    });
+    if (result === 'not_found') return res.status(404).json({ error: 'Collection not found' });
+    if (result === 'conflict') return res.status(409).json({ error: `Collection "${name.trim()}" already exists` });
+    res.json(getCollection(db, id));
+  } catch (error) {
+    console.error('Error updating collection:', error);
+    res.status(500).json({ error: 'Failed to update collection' });
+  }
+});
+
+// ─── DELETE /api/collections/:id ─────────────────────────────
+app.delete('/api/collections/:id', (req, res) => {
+  const id = parseCollectionId(req.params.id);
+  if (!id) return res.status(400).json({ error: 'Invalid collection id' });
+  try {
+    if (!deleteCollection(db, id)) return res.status(404).json({ error: 'Collection not found' });
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    res.status(500).json({ error: 'Failed to delete collection' });
+  }
+});
+
+// ─── POST /api/collections/:id/bookmarks ─────────────────────
+app.post('/api/collections/:id/bookmarks', (req, res) => {
+  const id = parseCollectionId(req.params.id);
+  const bookmarkIds = bookmarkIdsFromBody(req.body);
+  if (!id) return res.status(400).json({ error: 'Invalid collection id' });
+  if (bookmarkIds.length === 0) {
+    return res.status(400).json({ error: 'Provide bookmarkIds (array) or bookmarkId (string) in body' });
+  }
+  try {
+    if (!getCollection(db, id)) return res.status(404).json({ error: 'Collection not found' });
+    res.json({ status: 'success', added: addBookmarksToCollection(db, id, bookmarkIds) });
+  } catch (error) {
+    console.error('Error adding bookmarks to collection:', error);
+    res.status(500).json({ error: 'Failed to add bookmarks to collection' });
+  }
+});
+
+// ─── DELETE /api/collections/:id/bookmarks ───────────────────
+app.delete('/api/collections/:id/bookmarks', (req, res) => {
+  const id = parseCollectionId(req.params.id);
+  const bookmarkIds = bookmarkIdsFromBody(req.body);
+  if (!id) return res.status(400).json({ error: 'Invalid collection id' });
+  if (bookmarkIds.length === 0) {
+    return res.status(400).json({ error: 'Provide bookmarkIds (array) or bookmarkId (string) in body' });
+  }
+  try {
+    if (!getCollection(db, id)) return res.status(404).json({ error: 'Collection not found' });
+    res.json({ status: 'success', removed: removeBookmarksFromCollection(db, id, bookmarkIds) });
+  } catch (error) {
+    console.error('Error removing bookmarks from collection:', error);
+    res.status(500).json({ error: 'Failed to remove bookmarks from collection' });
+  }
+});
+
+// ─── PUT /api/collections/:id/order ──────────────────────────
+app.put('/api/collections/:id/order', (req, res) => {
+  const id = parseCollectionId(req.params.id);
+  const bookmarkIds = bookmarkIdsFromBody(req.body);
+  if (!id) return res.status(400).json({ error: 'Invalid collection id' });
+  if (bookmarkIds.length === 0) {
+    return res.status(400).json({ error: 'Provide bookmarkIds (array, in the new order) in body' });
+  }
+  try {
+    if (!getCollection(db, id)) return res.status(404).json({ error: 'Collection not found' });
+    reorderCollectionBookmarks(db, id, bookmarkIds);
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Error reordering collection:', error);
+    res.status(500).json({ error: 'Failed to reorder collection' });
+  }
+});
+
+// ─── POST /api/bookmarks/status (bulk) ───────────────────────
+app.post('/api/bookmarks/status', (req, res) => {
+  const { ids, status } = req.body ?? {};
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id: unknown) => typeof id === 'string')) {
+    return res.status(400).json({ error: 'Provide ids (array of bookmark ids) in body' });
+  }
+  if (!isBookmarkStatus(status)) {
+    return res.status(400).json({ error: `status must be one of ${BOOKMARK_STATUSES.join(', ')}` });
+  }
+  try {
+    res.json({ status: 'success', updated: setBookmarkStatus(db, ids, status) });
+  } catch (error) {
+    console.error('Error updating status:', error);
+    res.status(500).json({ error: 'Failed to update status' });
+  }
+});
+
+// ─── PUT /api/bookmarks/:id/progress ─────────────────────────
+app.put('/api/bookmarks/:id/progress', (req, res) => {
+  const { progress } = req.body ?? {};
+  if (typeof progress !== 'number' || !Number.isFinite(progress)) {
+    return res.status(400).json({ error: 'Provide progress (number between 0 and 1) in body' });
+  }
+  try {
+    const bookmark = setReadProgress(db, req.params.id, progress);
+    if (!bookmark) return res.status(404).json({ error: 'Bookmark not found' });
+    res.json({
+      status: 'success',
+      bookmark: { status: bookmark.status, read_progress: bookmark.read_progress, read_at: bookmark.read_at },
+    });
+  } catch (error) {
+    console.error('Error saving read progress:', error);
+    res.status(500).json({ error: 'Failed to save read progress' });
+  }
+});
+
+// ─── Notes & highlights ──────────────────────────────────────
+
+// ─── PUT /api/bookmarks/:id/notes ────────────────────────────
+app.put('/api/bookmarks/:id/notes', (req, res) => {
+  const { notes } = req.body ?? {};
+  if (notes !== null && typeof notes !== 'string') {
+    return res.status(400).json({ error: 'Provide notes (string or null) in body' });
+  }
+  try {
+    if (!setBookmarkNotes(db, req.params.id, notes)) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    res.json({ status: 'success', notes: getBookmark(db, req.params.id)?.notes ?? null });
+  } catch (error) {
+    console.error('Error saving notes:', error);
+    res.status(500).json({ error: 'Failed to save notes' });
+  }
+});
+
+// ─── GET /api/bookmarks/:id/highlights ───────────────────────
+app.get('/api/bookmarks/:id/highlights', (req, res) => {
+  try {
+    if (!getBookmark(db, req.params.id)) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    res.json(getHighlights(db, req.params.id));
+  } catch (error) {
+    console.error('Error fetching highlights:', error);
+    res.status(500).json({ error: 'Failed to fetch highlights' });
+  }
+});
+
+// ─── POST /api/bookmarks/:id/highlights ──────────────────────
+app.post('/api/bookmarks/:id/highlights', (req, res) => {
+  const { targetType, targetKey, start, end, comment } = req.body ?? {};
+  if ((targetType !== 'article' && targetType !== 'transcript') || typeof targetKey !== 'string') {
+    return res.status(400).json({ error: 'Provide targetType (article|transcript) and targetKey in body' });
+  }
+  if (typeof start !== 'number' || typeof end !== 'number') {
+    return res.status(400).json({ error: 'Provide start and end character offsets in body' });
+  }
+  try {
+    if (!getBookmark(db, req.params.id)) {
+      return res.status(404).json({ error: 'Bookmark not found' });
+    }
+    const result = createHighlight(db, req.params.id, {
+      targetType,
+      targetKey,
+      start,
+      end,
+      comment: typeof comment === 'string' ? comment : null,
+    });
+    if (result === 'target_not_found') {
+      return res.status(404).json({ error: `No ${targetType} ${targetKey} on this bookmark` });
+    }
+    if (result === 'invalid_range') {
+      return res.status(400).json({ error: 'Selection is empty or outside the text' });
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error creating highlight:', error);
+    res.status(500).json({ error: 'Failed to create highlight' });
+  }
+});
+
+// ─── PATCH /api/highlights/:id ───────────────────────────────
+app.patch('/api/highlights/:id', (req, res) => {
+  const id = Number(req.params.id);
+  const { comment } = req.body ?? {};
+  if (comment !== null && typeof comment !== 'string') {
+    return res.status(400).json({ error: 'Provide comment (string or null) in body' });
+  }
+  try {
+    if (!Number.isInteger(id) || !updateHighlightComment(db, id, comment)) {
+      return res.status(404).json({ error: 'Highlight not found' });
+    }
+    const highlight = getHighlight(db, id)!;
+    res.json(getHighlights(db, highlight.bookmark_id).find((h) => h.id === id));
+  } catch (error) {
+    console.error('Error updating highlight:', error);
+    res.status(500).json({ error: 'Failed to update highlight' });
+  }
+});
+
+// ─── DELETE /api/highlights/:id ──────────────────────────────
+app.delete('/api/highlights/:id', (req, res) => {
+  try {
+    if (!deleteHighlight(db, Number(req.params.id))) {
+      return res.status(404).json({ error: 'Highlight not found' });
+    }
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Error deleting highlight:', error);
+    res.status(500).json({ error: 'Failed to delete highlight' });
+  }
+});
+
 // ─── POST /api/bookmarks/:id/article (attach full article by URL or paste) ─
 app.post('/api/bookmarks/:id/article', async (req, res) => {
   const id = req.params.id;
@@ -314,7 +1249,8 @@ app.post('/api/bookmarks/:id/article', async (req, res) => {
 
 // ─── POST /api/bookmarks/:id/article/pdf (attach article as PDF; primary path) ─
 app.post('/api/bookmarks/:id/article/pdf', upload.single('pdf'), async (req, res) => {
-  const id = req.params.id;
+  // With the multer middleware in front, params are typed loosely
+  const id = String(req.params.id);
   const file = req.file;
 
   if (!file || !file.buffer) {
@@ -329,31 +1265,23 @@ app.post('/api/bookmarks/:id/article/pdf', upload.single('pdf'), async (req, res
     }
 
     const { fullPath, urlPath } = await savePdfForBookmark(dataDir, id, file.buffer);
-    let text = '';
-    try {
-      text = await extractTextFromPdf(fullPath);
-    } catch (err) {
-      console.error('[PDF] Extract text failed:', err);
-    }
     const cleanWithOpenAI = req.query?.cleanWithOpenAI === 'true' || req.body?.cleanWithOpenAI === 'true' || req.body?.cleanWithOpenAI === true;
-    if (cleanWithOpenAI && text) {
-      text = await cleanArticleTextWithOpenAI(config, text);
-    }
-    const excerpt = text.slice(0, 300);
-    const html = `<p>${escapeHtml(text).replace(/\n/g, '<br/>')}</p>`;
+    // The article exists (and links the PDF) right away; its text is filled in by a pdf_text job
     replaceLinksAndArticles(db, id, [], [
       {
         url: '',
         title: 'Imported article (PDF)',
         author: null,
-        content: html,
-        contentMd: text,
-        excerpt: excerpt || null,
+        content: '',
+        contentMd: '',
+        excerpt: null,
         siteName: 'PDF',
         pdf_path: urlPath,
       },
     ]);
-    return res.json({ status: 'success', source: 'pdf', pdf_path: urlPath });
+    const jobId = jobs.enqueue('pdf_text', { pdfPath: fullPath, urlPath, cleanWithOpenAI }, { bookmarkId: id, maxAttempts: 3 });
+    const job = await jobs.waitFor(jobId, PDF_TEXT_WAIT_MS);
+    return res.json({ status: 'success', source: 'pdf', pdf_path: urlPath, jobId, textStatus: job?.status ?? 'pending' });
   } catch (error) {
     console.error('Error attaching PDF article:', error);
     res.status(500).json({ error: 'Failed to attach PDF article' });
@@ -361,9 +1289,16 @@ app.post('/api/bookmarks/:id/article/pdf', upload.single('pdf'), async (req, res
 });
 
 // ─── POST /api/export ────────────────────────────────────────
-app.post('/api/export', async (_req, res) => {
+app.post('/api/export', async (req, res) => {
+  const collectionId = parseCollectionId(req.body?.collectionId);
+  if (collectionId === null) {
+    return res.status(400).json({ error: 'Invalid collection id' });
+  }
   try {
-    const zipPath = await exportBookmarks(db, dataDir);
+    if (collectionId !== undefined && !getCollection(db, collectionId)) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+    const zipPath = await exportBookmarks(db, dataDir, { collectionId });
     const filename = path.basename(zipPath);
     res.json({ status: 'success', filename });
   } catch (error) {
@@ -404,13 +1339,20 @@ app.post('/api/bookmarks/:id/transcribe', async (req, res) => {
         details: `File at ${keyPath} must contain your OpenAI API key.`,
       });
     }
-    console.log(`[XMarks] Triggering transcription for bookmark ${id}...`);
-    const result = await transcriptionService.transcribe(videoUrl, id);
-    upsertTranscript(db, id, result.videoUrl, result.transcript);
+    startProcessingStep(db, id, 'transcribe', { videoUrl });
+    const jobId = jobs.enqueue('transcribe', { videoUrl }, { bookmarkId: id, maxAttempts: 3 });
+    const job = await jobs.waitFor(jobId, TRANSCRIBE_WAIT_MS);
+    if (!job) {
+      return res.status(202).json({ status: 'queued', jobId });
+    }
+    if (job.status === 'dead') {
+      return res.status(500).json({ error: 'Transcription failed', details: job.last_error, jobId });
+    }
+    const transcript = getTranscriptByBookmarkAndVideo(db, id, videoUrl);
     res.json({
       status: 'success',
-      transcript: result.transcript,
-      strategy: result.strategy,
+      transcript: transcript?.transcript ?? '',
+      jobId,
     });
   } catch (error) {
     console.error(`[XMarks] Transcription failed for ${id}:`, error);
@@ -430,7 +1372,115 @@ app.get('/api/export/download/:filename', (req, res) => {
   res.download(filePath, filename);
 });
 
+// ─── GET /api/importers ──────────────────────────────────────
+app.get('/api/importers', (_req, res) => {
+  res.json(getImporters().map(({ id, label, description, extensions }) => ({ id, label, description, extensions })));
+});
+
+// ─── POST /api/import ────────────────────────────────────────
+// multipart "file" (a bookmark or read-later export); optional importer id (detected otherwise)
+// and dryRun=true to get counts and a sample without saving anything
+app.post('/api/import', upload.single('file'), (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'Upload an export "file"' });
+    }
+    const importerId = typeof req.body?.importer === 'string' && req.body.importer ? req.body.importer : undefined;
+    const { importer, items } = parseImportFile(req.file.buffer.toString('utf8'), importerId);
+    if (req.body?.dryRun === 'true') {
+      return res.json({ importer: importer.id, ...previewImport(db, items) });
+    }
+    const { report, importedIds, jobs: planned } = importLinks(db, items);
+    for (const { bookmarkId, job } of planned) {
+      jobs.enqueue(job.type, job.payload as JobPayloads[typeof job.type], { bookmarkId });
+    }
+    for (const id of importedIds) events.publish('bookmark-created', { id });
+    console.log(`[Import] ${importer.label}: ${report.imported} imported, ${report.skippedExisting} already saved`);
+    res.json({ importer: importer.id, ...report, queuedJobs: planned.length });
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing bookmarks:', error);
+    res.status(500).json({ error: 'Import failed', details: (error as Error).message });
+  }
+});
+
+// ─── POST /api/import/x-archive ──────────────────────────────
+// multipart "archive" (the zip), or JSON { path } to a zip or unpacked archive on this machine;
+// optional datasets: tweets,bookmarks,likes (default bookmarks). Runs as an x_archive job:
+// answers 202 { jobId } and reports over SSE (import-progress, import-finished, job-failed).
+app.post('/api/import/x-archive', archiveUpload.single('archive'), (req, res) => {
+  const uploaded = req.file?.path;
+  const archivePath = uploaded ?? (typeof req.body?.path === 'string' ? req.body.path.trim() : '');
+  const datasets = Array.isArray(req.body?.datasets) ? req.body.datasets : parseList(req.body?.datasets);
+  let queued = false;
+  try {
+    if (!archivePath) {
+      return res.status(400).json({ error: 'Upload an "archive" file or give a path' });
+    }
+    if (!datasets.every(isArchiveDataset)) {
+      return res.status(400).json({ error: `datasets must be a list of ${ARCHIVE_DATASETS.join(', ')}` });
+    }
+    if (!fs.existsSync(archivePath)) {
+      return res.status(404).json({ error: `Not found: ${archivePath}` });
+    }
+    checkArchive(archivePath);
+    // One attempt: a rerun only skips what was already imported, and the upload is gone by then
+    const jobId = jobs.enqueue(
+      'x_archive',
+      { archivePath, datasets: datasets.length > 0 ? datasets : ['bookmarks'], removeWhenDone: !!uploaded },
+      { maxAttempts: 1 }
+    );
+    queued = true;
+    res.status(202).json({ status: 'queued', jobId });
+  } catch (error) {
+    if (error instanceof ArchiveFormatError || error instanceof ZipFormatError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing X archive:', error);
+    res.status(500).json({ error: 'Import failed', details: (error as Error).message });
+  } finally {
+    if (uploaded && !queued) fs.rm(uploaded, { force: true }, () => {});
+  }
+});
+
+// ─── GET /api/import/x-archive/:jobId ────────────────────────
+// Job status, plus the report once the import has finished
+app.get('/api/import/x-archive/:jobId', (req, res) => {
+  const job = getJob(db, Number(req.params.jobId));
+  if (!job || job.type !== 'x_archive') {
+    return res.status(404).json({ error: 'Import not found' });
+  }
+  res.json({
+    jobId: job.id,
+    status: job.status,
+    error: job.last_error,
+    report: archiveImportReports.get(job.id) ?? null,
+  });
+});
+
+// ─── Maintenance: trash purge & finished job cleanup ─────────
+const MAINTENANCE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const runMaintenance = () => {
+  try {
+    purgeExpiredTrash(db, dataDir, config.trashRetentionDays);
+  } catch (error) {
+    console.error('[Trash] Purge failed:', error);
+  }
+  try {
+    pruneFinishedJobs(db, FINISHED_JOB_RETENTION_DAYS);
+  } catch (error) {
+    console.error('[Jobs] Cleanup failed:', error);
+  }
+};
+runMaintenance();
+setInterval(runMaintenance, MAINTENANCE_INTERVAL_MS).unref();
+
 // ─── Start ───────────────────────────────────────────────────
+jobs.start();
+setInterval(() => events.heartbeat(), SSE_HEARTBEAT_MS).unref();
+
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`[XMarks API] Running on http://localhost:${PORT}`);
 });
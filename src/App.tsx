@@ -1,40 +1,90 @@
-import { useState, useEffect } from 'react';
-import { Bookmark, Search, Settings, BarChart3, FileText, Download, Trash2 } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Bookmark, Search, Settings, BarChart3, FileText, Download, Trash2, BookOpen, Upload } from 'lucide-react';
 import BookmarksList from './components/BookmarksList';
 import TampermonkeyScript from './components/TampermonkeyScript';
 import SettingsTab from './components/SettingsTab';
+import CollectionsSidebar, { Collection } from './components/CollectionsSidebar';
+import ReadingQueue from './components/ReadingQueue';
+import TrashView from './components/TrashView';
+import ImportWizard from './components/ImportWizard';
+import UndoToast from './components/UndoToast';
+import { useServerEvents, LiveUpdate } from './useServerEvents';
 
-type Tab = 'bookmarks' | 'setup' | 'settings';
+type Tab = 'bookmarks' | 'queue' | 'trash' | 'import' | 'setup' | 'settings';
 
 interface Stats {
     totalBookmarks: number;
     totalArticles: number;
     lastSynced: string | null;
+    trashCount: number;
+    statusCounts: { inbox: number; reading: number; done: number; archived: number };
+    /** Bookmarks a full sync no longer found on X, not yet archived or trashed. */
+    removedUpstreamCount: number;
 }
 
+const EMPTY_STATUS_COUNTS: Stats['statusCounts'] = { inbox: 0, reading: 0, done: 0, archived: 0 };
+
 export default function App() {
     const [activeTab, setActiveTab] = useState<Tab>('bookmarks');
     const [searchQuery, setSearchQuery] = useState('');
-    const [stats, setStats] = useState<Stats>({ totalBookmarks: 0, totalArticles: 0, lastSynced: null });
+    const [stats, setStats] = useState<Stats>({
+        totalBookmarks: 0,
+        totalArticles: 0,
+        lastSynced: null,
+        trashCount: 0,
+        statusCounts: EMPTY_STATUS_COUNTS,
+        removedUpstreamCount: 0,
+    });
+    const [undo, setUndo] = useState<{ message: string; ids: string[] } | null>(null);
     const [exporting, setExporting] = useState(false);
     const [refreshKey, setRefreshKey] = useState(0);
+    const [collections, setCollections] = useState<Collection[]>([]);
+    const [activeCollectionId, setActiveCollectionId] = useState<number | null>(null);
+    const [liveUpdate, setLiveUpdate] = useState<LiveUpdate | null>(null);
+    const activeCollection = collections.find(c => c.id === activeCollectionId) ?? null;
+
+    const fetchCollections = useCallback(async () => {
+        try {
+            const res = await fetch('/api/collections');
+            if (res.ok) setCollections(await res.json());
+        } catch { /* sidebar is secondary */ }
+    }, []);
 
     useEffect(() => {
-        const fetchStats = async () => {
-            try {
-                const res = await fetch('/api/stats');
-                if (res.ok) setStats(await res.json());
-            } catch { /* stats are secondary */ }
-        };
-        fetchStats();
-        const interval = setInterval(fetchStats, 5000);
-        return () => clearInterval(interval);
+        fetchCollections();
+    }, [fetchCollections, refreshKey]);
+
+    const fetchStats = useCallback(async () => {
+        try {
+            const res = await fetch('/api/stats');
+            if (res.ok) setStats(await res.json());
+        } catch { /* stats are secondary */ }
     }, []);
 
+    useEffect(() => {
+        fetchStats();
+    }, [fetchStats]);
+
+    // Saved bookmarks and finished background jobs are pushed by the server
+    useServerEvents(useCallback((update: LiveUpdate) => {
+        setLiveUpdate(update);
+        fetchStats();
+        if (update.bookmarkIds.length === 0) fetchCollections();
+        for (const job of update.failedJobs) {
+            console.warn(`[XMarks] ${job.type} job for ${job.bookmarkId ?? 'unknown bookmark'} failed: ${job.error}`);
+        }
+    }, [fetchStats, fetchCollections]));
+
+    const queueCount = stats.statusCounts.inbox + stats.statusCounts.reading;
+
     const handleExport = async () => {
         setExporting(true);
         try {
-            const res = await fetch('/api/export', { method: 'POST' });
+            const res = await fetch('/api/export', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(activeCollection ? { collectionId: activeCollection.id } : {}),
+            });
             if (!res.ok) throw new Error('Export failed');
             const data = await res.json();
             // Trigger download
@@ -49,21 +99,58 @@ export default function App() {
 
     const handleDeleteAll = async () => {
         const confirmed = window.confirm(
-            `Delete ALL ${stats.totalBookmarks} bookmarks and their articles? This cannot be undone.`
+            `Move ALL ${stats.totalBookmarks} bookmarks to the trash? You can restore them from the Trash tab.`
         );
         if (!confirmed) return;
 
         try {
             const res = await fetch('/api/bookmarks/all', { method: 'DELETE' });
             if (!res.ok) throw new Error('Delete failed');
-            setStats(prev => ({ ...prev, totalBookmarks: 0, totalArticles: 0 }));
-            setRefreshKey(k => k + 1);
+            const data = await res.json();
+            handleTrashed(data.trashed);
         } catch (err) {
             console.error('Delete all error:', err);
             alert('Failed to delete bookmarks.');
         }
     };
 
+    const handleTrashed = useCallback((ids: string[]) => {
+        if (ids.length === 0) return;
+        setUndo({ message: `Moved ${ids.length === 1 ? '1 bookmark' : `${ids.length} bookmarks`} to trash`, ids });
+        setRefreshKey(k => k + 1);
+        fetchStats();
+    }, [fetchStats]);
+
+    const handleUndo = async () => {
+        if (!undo) return;
+        try {
+            const res = await fetch('/api/trash/restore', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ids: undo.ids }),
+            });
+            if (!res.ok) throw new Error('Restore failed');
+            setUndo(null);
+            setRefreshKey(k => k + 1);
+            fetchStats();
+        } catch (err) {
+            console.error('Undo error:', err);
+            alert('Failed to restore bookmarks.');
+        }
+    };
+
+    const dismissUndo = useCallback(() => setUndo(null), []);
+
+    const handleTrashChanged = useCallback(() => {
+        setRefreshKey(k => k + 1);
+        fetchStats();
+    }, [fetchStats]);
+
+    const handleImported = useCallback(() => {
+        setRefreshKey(k => k + 1);
+        fetchStats();
+    }, [fetchStats]);
+
     return (
         <div className="app">
             {/* Header */}
@@ -91,7 +178,7 @@ export default function App() {
                             className="delete-all-btn"
                             onClick={handleDeleteAll}
                             disabled={stats.totalBookmarks === 0}
-                            title="Delete all bookmarks"
+                            title="Move all bookmarks to the trash"
                         >
                             <Trash2 size={14} />
                             Delete All
@@ -99,11 +186,13 @@ export default function App() {
                         <button
                             className="export-btn"
                             onClick={handleExport}
-                            disabled={exporting || stats.totalBookmarks === 0}
-                            title="Export all bookmarks as Markdown + ZIP"
+                            disabled={exporting || stats.totalBookmarks === 0 || activeCollection?.count === 0}
+                            title={activeCollection
+                                ? `Export "${activeCollection.name}" as Markdown + ZIP`
+                                : 'Export all bookmarks as Markdown + ZIP'}
                         >
                             <Download size={14} />
-                            {exporting ? 'Exporting…' : 'Export'}
+                            {exporting ? 'Exporting…' : activeCollection ? 'Export Collection' : 'Export'}
                         </button>
                     </div>
                 </div>
@@ -119,6 +208,29 @@ export default function App() {
                         <Bookmark size={16} />
                         Bookmarks
                     </button>
+                    <button
+                        className={`tab-btn ${activeTab === 'queue' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('queue')}
+                    >
+                        <BookOpen size={16} />
+                        Reading queue
+                        {queueCount > 0 && <span className="tab-count">{queueCount}</span>}
+                    </button>
+                    <button
+                        className={`tab-btn ${activeTab === 'trash' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('trash')}
+                    >
+                        <Trash2 size={16} />
+                        Trash
+                        {stats.trashCount > 0 && <span className="tab-count">{stats.trashCount}</span>}
+                    </button>
+                    <button
+                        className={`tab-btn ${activeTab === 'import' ? 'active' : ''}`}
+                        onClick={() => setActiveTab('import')}
+                    >
+                        <Upload size={16} />
+                        Import
+                    </button>
                     <button
                         className={`tab-btn ${activeTab === 'setup' ? 'active' : ''}`}
                         onClick={() => setActiveTab('setup')}
@@ -139,25 +251,48 @@ export default function App() {
             {/* Main */}
             <main className="main-content">
                 {activeTab === 'bookmarks' && (
-                    <>
+                    <div className="bookmarks-layout">
+                        <CollectionsSidebar
+                            collections={collections}
+                            activeCollectionId={activeCollectionId}
+                            onSelect={setActiveCollectionId}
+                            onChanged={fetchCollections}
+                        />
+                        <div className="bookmarks-main">
                         <div className="search-container">
                             <div className="search-bar">
                                 <Search size={18} />
                                 <input
                                     type="text"
                                     className="search-input"
-                                    placeholder="Search bookmarks, articles, authors…"
+                                    placeholder='Search… e.g. "scaling laws" author:@karpathy site:arxiv.org has:pdf -tag:read after:2025-01-01'
+                                    title="Filters: author:, site:, has:(video|image|media|pdf|article|transcript|link|thread), tag:, before:/after:YYYY-MM-DD. Prefix with - to exclude; quote phrases."
                                     value={searchQuery}
                                     onChange={(e) => setSearchQuery(e.target.value)}
                                 />
                             </div>
                         </div>
-                        <BookmarksList searchQuery={searchQuery} refreshKey={refreshKey} />
-                    </>
+                        <BookmarksList
+                            searchQuery={searchQuery}
+                            refreshKey={refreshKey}
+                            collections={collections}
+                            activeCollection={activeCollection}
+                            onCollectionsChanged={fetchCollections}
+                            onTrashed={handleTrashed}
+                            liveUpdate={liveUpdate}
+                            removedUpstreamCount={stats.removedUpstreamCount}
+                        />
+                        </div>
+                    </div>
                 )}
+                {activeTab === 'queue' && <ReadingQueue refreshKey={refreshKey} liveUpdate={liveUpdate} onStatusChanged={fetchStats} />}
+                {activeTab === 'trash' && <TrashView refreshKey={refreshKey} onChanged={handleTrashChanged} />}
+                {activeTab === 'import' && <ImportWizard onImported={handleImported} />}
                 {activeTab === 'setup' && <TampermonkeyScript />}
                 {activeTab === 'settings' && <SettingsTab />}
             </main>
+
+            {undo && <UndoToast message={undo.message} onUndo={handleUndo} onDismiss={dismissUndo} />}
         </div>
     );
 }
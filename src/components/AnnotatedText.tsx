@@ -0,0 +1,185 @@
+import { useRef, useState } from 'react';
+import { Highlighter, MessageSquare, Trash2, AlertCircle } from 'lucide-react';
+
+export interface Highlight {
+  id: number;
+  target_type: 'article' | 'transcript';
+  target_key: string;
+  quote: string;
+  comment: string | null;
+  start: number | null;
+  end: number | null;
+  orphaned: boolean;
+}
+
+interface Props {
+  text: string;
+  className: string;
+  highlights: Highlight[];
+  onCreate: (start: number, end: number, comment: string) => Promise<void>;
+  onUpdate: (id: number, comment: string) => Promise<void>;
+  onDelete: (id: number) => Promise<void>;
+}
+
+/** Character offset of (node, offset) within root's text content. */
+function textOffset(root: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/** Split text into plain and highlighted segments; overlapping highlights are clipped to the earlier one. */
+function segments(text: string, highlights: Highlight[]) {
+  const placed = highlights
+    .filter((h) => h.start !== null && h.end !== null)
+    .sort((a, b) => a.start! - b.start!);
+  const parts: Array<{ text: string; highlight?: Highlight }> = [];
+  let cursor = 0;
+  for (const h of placed) {
+    const start = Math.max(h.start!, cursor);
+    if (start >= h.end!) continue;
+    if (start > cursor) parts.push({ text: text.slice(cursor, start) });
+    parts.push({ text: text.slice(start, h.end!), highlight: h });
+    cursor = h.end!;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor) });
+  return parts;
+}
+
+/**
+ * Plain text (article content_md or a transcript) with highlights marked inline.
+ * Selecting text offers to highlight it; highlights are listed below with editable comments.
+ */
+export default function AnnotatedText({ text, className, highlights, onCreate, onUpdate, onDelete }: Props) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [comment, setComment] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editComment, setEditComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleMouseUp = () => {
+    const root = rootRef.current;
+    const sel = window.getSelection();
+    if (!root || !sel || sel.isCollapsed || sel.rangeCount === 0) return;
+    const range = sel.getRangeAt(0);
+    if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return;
+    const start = textOffset(root, range.startContainer, range.startOffset);
+    const end = textOffset(root, range.endContainer, range.endOffset);
+    if (end > start && text.slice(start, end).trim()) setSelection({ start, end });
+  };
+
+  const handleCreate = async () => {
+    if (!selection) return;
+    setSaving(true);
+    try {
+      await onCreate(selection.start, selection.end, comment);
+      setSelection(null);
+      setComment('');
+      window.getSelection()?.removeAllRanges();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (id: number) => {
+    setSaving(true);
+    try {
+      await onUpdate(id, editComment);
+      setEditingId(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="annotated-text">
+      <div ref={rootRef} className={className} onMouseUp={handleMouseUp}>
+        {segments(text, highlights).map((part, i) =>
+          part.highlight ? (
+            <mark key={i} className="highlight-mark" title={part.highlight.comment || undefined}>
+              {part.text}
+            </mark>
+          ) : (
+            <span key={i}>{part.text}</span>
+          )
+        )}
+      </div>
+
+      {selection && (
+        <div className="highlight-form">
+          <p className="highlight-quote">“{text.slice(selection.start, selection.end)}”</p>
+          <input
+            type="text"
+            placeholder="Comment (optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <div className="highlight-form-actions">
+            <button className="btn-secondary btn-sm" onClick={handleCreate} disabled={saving}>
+              <Highlighter size={12} /> Highlight
+            </button>
+            <button className="btn-secondary btn-sm" onClick={() => setSelection(null)} disabled={saving}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {highlights.length > 0 && (
+        <ul className="highlight-list">
+          {highlights.map((h) => (
+            <li key={h.id} className={`highlight-item ${h.orphaned ? 'orphaned' : ''}`}>
+              <p className="highlight-quote">
+                {h.orphaned && (
+                  <span className="highlight-orphaned" title="This passage is no longer in the text">
+                    <AlertCircle size={11} />
+                  </span>
+                )}
+                “{h.quote}”
+              </p>
+              {editingId === h.id ? (
+                <div className="highlight-form">
+                  <input
+                    type="text"
+                    value={editComment}
+                    onChange={(e) => setEditComment(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleUpdate(h.id)}
+                    autoFocus
+                  />
+                  <div className="highlight-form-actions">
+                    <button className="btn-secondary btn-sm" onClick={() => handleUpdate(h.id)} disabled={saving}>
+                      Save
+                    </button>
+                    <button className="btn-secondary btn-sm" onClick={() => setEditingId(null)} disabled={saving}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                h.comment && <p className="highlight-comment">{h.comment}</p>
+              )}
+              <div className="highlight-item-actions">
+                <button
+                  className="delete-btn"
+                  onClick={() => {
+                    setEditingId(h.id);
+                    setEditComment(h.comment ?? '');
+                  }}
+                  title="Edit comment"
+                >
+                  <MessageSquare size={12} />
+                </button>
+                <button className="delete-btn" onClick={() => onDelete(h.id)} title="Delete highlight">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
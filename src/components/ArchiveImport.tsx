@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Upload, FolderOpen, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+/** Report of a finished import (import-finished event, GET /api/import/x-archive/:jobId). */
+interface ImportReport {
+  files: string[];
+  found: number;
+  imported: number;
+  skippedExisting: number;
+  mediaCopied: number;
+  mediaLinked: number;
+  errors: Array<{ file?: string; id?: string; error: string }>;
+  queuedJobs: number;
+}
+
+interface ImportProgress {
+  found: number;
+  processed: number;
+  imported: number;
+  skippedExisting: number;
+}
+
+const DATASETS: Array<{ value: string; label: string }> = [
+  { value: 'bookmarks', label: 'Bookmarks' },
+  { value: 'tweets', label: 'My tweets (tagged x-my-tweets)' },
+  { value: 'likes', label: 'Likes (tagged x-likes)' },
+];
+
+export default function ArchiveImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [localPath, setLocalPath] = useState('');
+  const [datasets, setDatasets] = useState<Set<string>>(new Set(['bookmarks']));
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDataset = (value: string) => {
+    setDatasets((prev) => {
+      const next = new Set(prev);
+      if (next.has(value)) next.delete(value);
+      else next.add(value);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!file && !localPath.trim()) return;
+    setImporting(true);
+    setError(null);
+    setReport(null);
+    setProgress(null);
+    // The import runs as a background job; subscribe before starting it so no event is missed
+    const source = new EventSource('/api/events');
+    let jobId: number | null = null;
+    const done = new Promise<ImportReport>((resolve, reject) => {
+      source.addEventListener('import-progress', (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        if (data.jobId === jobId) setProgress(data);
+      });
+      source.addEventListener('import-finished', (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        if (data.jobId === jobId) resolve(data.report);
+      });
+      source.addEventListener('job-failed', (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        if (data.id === jobId) reject(new Error(data.error));
+      });
+    });
+    try {
+      let response: Response;
+      if (file) {
+        const form = new FormData();
+        form.append('archive', file);
+        form.append('datasets', [...datasets].join(','));
+        response = await fetch('/api/import/x-archive', { method: 'POST', body: form });
+      } else {
+        response = await fetch('/api/import/x-archive', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ path: localPath.trim(), datasets: [...datasets] }),
+        });
+      }
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error || 'Import failed');
+      jobId = data.jobId;
+
+      // A small archive can finish before the job id came back
+      const status = await (await fetch(`/api/import/x-archive/${jobId}`)).json();
+      if (status.status === 'dead') throw new Error(status.error || 'Import failed');
+      setReport(status.report ?? (await done));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      source.close();
+      setImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="setup-instructions archive-import">
+      <h4>Import X Archive</h4>
+      <p className="archive-import-hint">
+        Backfill from the archive X lets you download (Settings → Your account → Download an archive of your data)
+        instead of scrolling with the userscript. Tweets already saved are skipped.
+      </p>
+
+      <div className="archive-import-source">
+        <label className="btn-secondary btn-sm archive-import-file">
+          <Upload size={12} /> {file ? file.name : 'Choose zip…'}
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setLocalPath('');
+            }}
+          />
+        </label>
+        <span className="archive-import-or">or</span>
+        <div className="archive-import-path">
+          <FolderOpen size={14} />
+          <input
+            type="text"
+            placeholder="Path to the zip or unpacked folder on this machine"
+            value={localPath}
+            onChange={(e) => {
+              setLocalPath(e.target.value);
+              setFile(null);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="archive-import-datasets">
+        {DATASETS.map((d) => (
+          <label key={d.value}>
+            <input type="checkbox" checked={datasets.has(d.value)} onChange={() => toggleDataset(d.value)} />
+            {d.label}
+          </label>
+        ))}
+      </div>
+
+      <button
+        className="btn-secondary btn-sm archive-import-submit"
+        onClick={handleImport}
+        disabled={importing || datasets.size === 0 || (!file && !localPath.trim())}
+      >
+        {importing
+          ? progress
+            ? `Importing… ${progress.processed} of ${progress.found}`
+            : 'Importing…'
+          : 'Import'}
+      </button>
+
+      {error && (
+        <div className="archive-import-result archive-import-error">
+          <AlertCircle size={14} /> {error}
+        </div>
+      )}
+      {report && (
+        <div className="archive-import-result">
+          <CheckCircle2 size={14} color="var(--success)" />
+          <span>
+            {report.imported} imported of {report.found} found · {report.skippedExisting} already saved ·{' '}
+            {report.mediaCopied} media copied, {report.mediaLinked} linked · {report.queuedJobs} article extractions queued
+          </span>
+          {report.errors.length > 0 && (
+            <ul className="archive-import-errors">
+              {report.errors.map((e, i) => (
+                <li key={i}>{e.file ?? e.id}: {e.error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,211 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import {
   ExternalLink, Trash2, Image as ImageIcon, Clock,
-  ChevronDown, ChevronUp, AlertCircle, FileText, Globe, Video
+  ChevronDown, ChevronUp, AlertCircle, FileText, Globe, Video, Tag, X, FolderMinus, StickyNote, SlidersHorizontal,
+  RotateCcw, Loader, Plus, MessageCircle, Repeat2, Heart, CornerUpLeft, Quote, BarChart3, BookmarkX, Archive, ListOrdered
 } from 'lucide-react';
+import type { Collection } from './CollectionsSidebar';
+import AnnotatedText, { Highlight } from './AnnotatedText';
+import type { LiveUpdate } from '../useServerEvents';
 
-interface Article {
+interface ArticleSummary {
   id: number;
   url: string;
   title: string;
   author: string | null;
   excerpt: string | null;
   site_name: string | null;
-  content_md: string;
   extracted_at: string;
   pdf_path: string | null;
+  content_length: number;
 }
 
+interface SearchSnippet {
+  field: 'text' | 'article_title' | 'article_content' | 'transcript' | 'notes' | 'highlights' | 'thread';
+  text: string;
+  matches: Array<{ start: number; end: number }>;
+}
+
+interface ThreadPost {
+  tweet_id: string | null;
+  text: string;
+  media: string[];
+  links: string[];
+}
+
+type ProcessingStep = 'extract' | 'media' | 'transcribe';
+
+/** Last outcome of a background step (article extraction, media download, transcription). */
+interface ProcessingState {
+  status: 'pending' | 'ok' | 'failed';
+  error: string | null;
+  updated_at: string;
+}
+
+/** x: a tweet; web: a page saved by URL; import: from another tool's export; manual: typed in. */
+type BookmarkSource = 'x' | 'web' | 'import' | 'manual';
+
 interface Bookmark {
   id: string;
   url: string;
+  /** Tweet author, or the site for other sources. */
   author: string;
+  /** Tweet text, or the page title. */
   text: string;
+  source: BookmarkSource;
+  notes: string | null;
+  status: 'inbox' | 'reading' | 'done' | 'archived';
+  read_progress: number;
+  read_at: string | null;
   saved_at: string;
+  /** When the tweet was posted (UTC); null for web pages and tweets synced before it was captured. */
+  posted_at: string | null;
+  reply_count: number | null;
+  retweet_count: number | null;
+  like_count: number | null;
+  in_reply_to_id: string | null;
+  in_reply_to_author: string | null;
+  quoted_id: string | null;
+  quoted_author: string | null;
+  quoted_text: string | null;
+  /** Set when a full sync no longer found the tweet among the X bookmarks. */
+  removed_upstream_at: string | null;
+  tags: string[];
+  collections: number[];
   media: string[];
-  articles: Article[];
+  /** Alt text by media URL. */
+  media_alt: Record<string, string>;
+  poll: Array<{ label: string; percent: number | null }>;
+  /** Same-author thread in order, the tweet itself included; empty when there is none. */
+  thread: ThreadPost[];
+  processing: Partial<Record<ProcessingStep, ProcessingState>>;
+  articles: ArticleSummary[];
+  transcripts: Array<{ id: number; video_url: string; transcribed_at: string }>;
+  highlight_count: number;
+  /** Present on search results only. */
+  snippets?: SearchSnippet[];
+}
+
+/** GET /api/bookmarks/:id — loaded when an article or transcript is opened. */
+interface BookmarkDetail {
+  articles: Array<{ id: number; url: string; content_md: string }>;
   transcripts: Array<{ video_url: string; transcript: string }>;
+  highlights: Highlight[];
+}
+
+const PAGE_SIZE = 50;
+/** Server-side cap on ?limit=, used when a refresh re-reads everything already shown. */
+const MAX_PAGE_SIZE = 200;
+
+const SORT_OPTIONS: Array<{ value: string; label: string; collectionOnly?: boolean }> = [
+  { value: 'position:asc', label: 'Collection order', collectionOnly: true },
+  { value: 'saved_at:desc', label: 'Newest first' },
+  { value: 'saved_at:asc', label: 'Oldest first' },
+  { value: 'posted_at:desc', label: 'Newest posts first' },
+  { value: 'posted_at:asc', label: 'Oldest posts first' },
+  { value: 'author:asc', label: 'Author A–Z' },
+  { value: 'articles:desc', label: 'Most articles' },
+];
+
+const HAS_FILTERS: Array<{ value: string; label: string }> = [
+  { value: 'article', label: 'Article' },
+  { value: 'media', label: 'Media' },
+  { value: 'transcript', label: 'Transcript' },
+  { value: 'thread', label: 'Thread' },
+];
+
+const SOURCE_LABELS: Record<BookmarkSource, string> = {
+  x: 'X',
+  web: 'Web page',
+  import: 'Imported',
+  manual: 'Manual',
+};
+
+const STATUS_LABELS: Record<Bookmark['status'], string> = {
+  inbox: 'Inbox',
+  reading: 'Reading',
+  done: 'Done',
+  archived: 'Archived',
+};
+
+const PROCESSING_LABELS: Record<ProcessingStep, { pending: string; failed: string }> = {
+  extract: { pending: 'Extracting articles…', failed: 'Article extraction failed' },
+  media: { pending: 'Downloading media…', failed: 'Media download failed' },
+  transcribe: { pending: 'Transcribing…', failed: 'Transcription failed' },
+};
+
+const SNIPPET_LABELS: Record<SearchSnippet['field'], string> = {
+  text: 'Tweet',
+  article_title: 'Article title',
+  article_content: 'Article',
+  transcript: 'Transcript',
+  notes: 'Notes',
+  highlights: 'Highlight',
+  thread: 'Thread',
+};
+
+/** Stored datetimes are UTC without a zone ("2024-05-01 08:30:00"). */
+function parseUtc(datetime: string): Date {
+  return new Date(`${datetime.replace(' ', 'T')}Z`);
+}
+
+/** 1234 → "1.2K", as X shows them. */
+function formatCount(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0).replace(/\.0$/, '')}K`;
+  return `${(count / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+}
+
+/** Split snippet text at the server-reported match offsets and wrap matches in <mark>. */
+function renderSnippet(snippet: SearchSnippet) {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  snippet.matches.forEach((m, i) => {
+    if (m.start > cursor) parts.push(<span key={`t${i}`}>{snippet.text.slice(cursor, m.start)}</span>);
+    parts.push(<mark key={`m${i}`}>{snippet.text.slice(m.start, m.end)}</mark>);
+    cursor = m.end;
+  });
+  if (cursor < snippet.text.length) parts.push(<span key="rest">{snippet.text.slice(cursor)}</span>);
+  return parts;
+}
+
+interface TagCount {
+  id: number;
+  name: string;
+  count: number;
 }
 
 interface Props {
   searchQuery: string;
   refreshKey: number;
+  collections: Collection[];
+  /** When set, the list shows this collection in its manual order. */
+  activeCollection: Collection | null;
+  onCollectionsChanged: () => void;
+  /** Called with the ids moved to the trash, so the app can offer undo. */
+  onTrashed: (ids: string[]) => void;
+  /** Latest batch of server-pushed changes; replaces polling. */
+  liveUpdate: LiveUpdate | null;
+  /** Bookmarks removed on X that still need archiving or deleting here. */
+  removedUpstreamCount: number;
 }
 
-export default function BookmarksList({ searchQuery, refreshKey }: Props) {
+export default function BookmarksList({
+  searchQuery,
+  refreshKey,
+  collections,
+  activeCollection,
+  onCollectionsChanged,
+  onTrashed,
+  liveUpdate,
+  removedUpstreamCount,
+}: Props) {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
   const [expandedArticles, setExpandedArticles] = useState<Set<string>>(new Set());
+  const [openThreads, setOpenThreads] = useState<Set<string>>(new Set());
   const [transcribingIds, setTranscribingIds] = useState<Set<string>>(new Set());
   const [attachArticleId, setAttachArticleId] = useState<string | null>(null);
   const [attachUrl, setAttachUrl] = useState('');
@@ -45,18 +213,91 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
   const [attachPdfFile, setAttachPdfFile] = useState<File | null>(null);
   const [attachSubmitting, setAttachSubmitting] = useState(false);
   const [attachError, setAttachError] = useState<string | null>(null);
+  const [allTags, setAllTags] = useState<TagCount[]>([]);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [editingNotesId, setEditingNotesId] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [notesSaving, setNotesSaving] = useState(false);
+  const [details, setDetails] = useState<Record<string, BookmarkDetail>>({});
+  const [loadingDetailIds, setLoadingDetailIds] = useState<Set<string>>(new Set());
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [sortChoice, setSortChoice] = useState<string | null>(null);
+  const [hasFilters, setHasFilters] = useState<Set<string>>(new Set());
+  const [siteFilter, setSiteFilter] = useState('');
+  const [siteDraft, setSiteDraft] = useState('');
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [removedFilter, setRemovedFilter] = useState(false);
+  const [resolvingRemoved, setResolvingRemoved] = useState(false);
+  const [linkDraft, setLinkDraft] = useState('');
+  const [savingLink, setSavingLink] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  // Refreshes re-read as many bookmarks as are on screen, so polling does not drop loaded pages
+  const loadedCount = useRef(0);
 
-  const fetchBookmarks = useCallback(async () => {
+  // The tag filter rides on the search query language
+  const effectiveQuery = [activeTag ? `tag:"${activeTag}"` : '', searchQuery.trim()].filter(Boolean).join(' ');
+
+  const fetchTags = useCallback(async () => {
     try {
-      const endpoint = searchQuery.trim()
-        ? `/api/bookmarks/search?q=${encodeURIComponent(searchQuery)}`
-        : '/api/bookmarks';
+      const response = await fetch('/api/tags');
+      if (response.ok) setAllTags(await response.json());
+    } catch { /* tag bar is secondary */ }
+  }, []);
+
+  const collectionId = activeCollection?.id ?? null;
+  const sortValue = sortChoice ?? (collectionId !== null ? 'position:asc' : 'saved_at:desc');
+  const [sort, order] = sortValue.split(':');
+  const hasKey = [...hasFilters].sort().join(',');
+
+  useEffect(() => {
+    // Collection order only exists inside a collection
+    setSortChoice((prev) => (prev === 'position:asc' && collectionId === null ? null : prev));
+  }, [collectionId]);
 
-      const response = await fetch(endpoint);
+  /** Query string for the list endpoint, without paging parameters. */
+  const listParams = useCallback(() => {
+    const params = new URLSearchParams({ sort, order });
+    if (collectionId !== null) params.set('collection', String(collectionId));
+    if (hasKey) params.set('has', hasKey);
+    if (siteFilter) params.set('site', siteFilter);
+    if (sourceFilter) params.set('source', sourceFilter);
+    if (removedFilter) {
+      // The ones still to decide on, as counted in the banner
+      params.set('removed', 'true');
+      params.set('status', 'inbox,reading,done');
+    }
+    return params;
+  }, [sort, order, collectionId, hasKey, siteFilter, sourceFilter, removedFilter]);
+
+  const fetchBookmarks = useCallback(async () => {
+    try {
+      let response: Response;
+      if (effectiveQuery) {
+        const scope = collectionId !== null ? `&collection=${collectionId}` : '';
+        response = await fetch(`/api/bookmarks/search?q=${encodeURIComponent(effectiveQuery)}${scope}`);
+      } else {
+        const params = listParams();
+        params.set('limit', String(Math.min(Math.max(loadedCount.current, PAGE_SIZE), MAX_PAGE_SIZE)));
+        response = await fetch(`/api/bookmarks?${params}`);
+      }
+      if (response.status === 400) {
+        // Query syntax error: show the server's explanation instead of stale results
+        const data = await response.json();
+        setBookmarks([]);
+        setError(data.error || 'Invalid search');
+        return;
+      }
       if (!response.ok) throw new Error('Failed to fetch bookmarks');
 
       const data = await response.json();
-      setBookmarks(data);
+      const items: Bookmark[] = effectiveQuery ? data : data.items;
+      setBookmarks(items);
+      setNextCursor(effectiveQuery ? null : data.nextCursor);
+      setTotal(effectiveQuery ? null : data.total);
+      loadedCount.current = items.length;
       setError(null);
     } catch (err) {
       setError('Error loading bookmarks. Make sure the server is running.');
@@ -64,35 +305,293 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
     } finally {
       setLoading(false);
     }
-  }, [searchQuery, refreshKey]);
+  }, [effectiveQuery, collectionId, listParams, refreshKey]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const params = listParams();
+      params.set('limit', String(PAGE_SIZE));
+      params.set('cursor', nextCursor);
+      const response = await fetch(`/api/bookmarks?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch more bookmarks');
+      const data = await response.json();
+      setBookmarks((prev) => {
+        const seen = new Set(prev.map((b) => b.id));
+        const merged = [...prev, ...(data.items as Bookmark[]).filter((b) => !seen.has(b.id))];
+        loadedCount.current = merged.length;
+        return merged;
+      });
+      setNextCursor(data.nextCursor);
+      setTotal(data.total);
+    } catch (err) {
+      console.error('Failed to load more bookmarks:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  /** Fetch full article text, transcripts and highlights for one bookmark. */
+  const loadDetail = async (id: string, force = false) => {
+    if ((!force && details[id]) || loadingDetailIds.has(id)) return;
+    setLoadingDetailIds((prev) => new Set(prev).add(id));
+    try {
+      const response = await fetch(`/api/bookmarks/${id}`);
+      if (!response.ok) throw new Error('Failed to fetch bookmark');
+      const data: BookmarkDetail = await response.json();
+      setDetails((prev) => ({ ...prev, [id]: data }));
+    } catch (err) {
+      console.error('Failed to load bookmark detail:', err);
+    } finally {
+      setLoadingDetailIds((prev) => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  /** Save any web page by URL; the server extracts its article before answering. */
+  const handleSaveLink = async () => {
+    const url = linkDraft.trim();
+    if (!url || savingLink) return;
+    setSavingLink(true);
+    setLinkError(null);
+    try {
+      const response = await fetch('/api/bookmarks/url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save link');
+      setLinkDraft('');
+      fetchBookmarks();
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Failed to save link');
+    } finally {
+      setSavingLink(false);
+    }
+  };
+
+  const toggleHasFilter = (value: string) => {
+    setHasFilters((prev) => {
+      const next = new Set(prev);
+      next.has(value) ? next.delete(value) : next.add(value);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    // A new query, scope, sort or filter starts again from the first page
+    loadedCount.current = 0;
+  }, [effectiveQuery, collectionId, listParams]);
 
   useEffect(() => {
     setLoading(true);
     fetchBookmarks();
+  }, [fetchBookmarks, effectiveQuery, refreshKey]);
 
-    if (!searchQuery.trim()) {
-      const interval = setInterval(fetchBookmarks, 5000);
-      return () => clearInterval(interval);
+  useEffect(() => {
+    if (!liveUpdate) return;
+    // Search results are left alone while typing; everything else follows the server
+    if (!effectiveQuery) fetchBookmarks();
+    const changed = liveUpdate.bookmarkIds.length > 0 ? liveUpdate.bookmarkIds : Object.keys(details);
+    for (const id of changed) {
+      if (details[id]) loadDetail(id, true);
     }
-  }, [fetchBookmarks, searchQuery, refreshKey]);
+  }, [liveUpdate]);
 
   useEffect(() => {
-    if (!searchQuery.trim()) return;
+    if (!effectiveQuery) return;
     const timeout = setTimeout(fetchBookmarks, 300);
     return () => clearTimeout(timeout);
-  }, [searchQuery, fetchBookmarks]);
+  }, [effectiveQuery, fetchBookmarks]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags, refreshKey]);
 
   const handleDelete = async (id: string) => {
     try {
       const response = await fetch(`/api/bookmarks/${id}`, { method: 'DELETE' });
       if (response.ok) {
         setBookmarks((prev) => prev.filter((b) => b.id !== id));
+        onTrashed([id]);
       }
     } catch (err) {
       console.error('Failed to delete bookmark:', err);
     }
   };
 
+  /** Archive or trash every bookmark that is gone from the X bookmarks. */
+  const handleResolveRemoved = async (action: 'archive' | 'trash') => {
+    if (action === 'trash' && !window.confirm(`Move ${removedUpstreamCount} bookmarks removed on X to the trash?`)) return;
+    setResolvingRemoved(true);
+    try {
+      const response = await fetch('/api/bookmarks/removed-upstream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) throw new Error('Failed to update removed bookmarks');
+      const data = await response.json();
+      setRemovedFilter(false);
+      if (action === 'trash') onTrashed(data.trashed);
+    } catch (err) {
+      console.error('Failed to update removed bookmarks:', err);
+    } finally {
+      setResolvingRemoved(false);
+    }
+  };
+
+  const handleStatusChange = async (id: string, status: Bookmark['status']) => {
+    try {
+      const response = await fetch('/api/bookmarks/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [id], status }),
+      });
+      if (!response.ok) throw new Error('Failed to update status');
+      setBookmarks((prev) => prev.map((b) => (b.id === id ? { ...b, status } : b)));
+    } catch (err) {
+      console.error('Failed to update status:', err);
+    }
+  };
+
+  const handleTagChange = async (id: string, method: 'POST' | 'DELETE', tag: string) => {
+    if (!tag.trim()) return;
+    try {
+      const response = await fetch(`/api/bookmarks/${id}/tags`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: [tag] }),
+      });
+      if (!response.ok) throw new Error('Failed to update tags');
+      const data = await response.json();
+      setBookmarks((prev) => prev.map((b) => (b.id === id ? { ...b, tags: data.tags } : b)));
+      if (method === 'POST') setTagDrafts((prev) => ({ ...prev, [id]: '' }));
+      fetchTags();
+    } catch (err) {
+      console.error('Failed to update tags:', err);
+    }
+  };
+
+  const handleCollectionMembership = async (bookmarkId: string, targetId: number, method: 'POST' | 'DELETE') => {
+    try {
+      const response = await fetch(`/api/collections/${targetId}/bookmarks`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookmarkId }),
+      });
+      if (!response.ok) throw new Error('Failed to update collection');
+      if (method === 'DELETE' && targetId === collectionId) {
+        setBookmarks((prev) => prev.filter((b) => b.id !== bookmarkId));
+      } else {
+        setBookmarks((prev) =>
+          prev.map((b) =>
+            b.id === bookmarkId
+              ? {
+                  ...b,
+                  collections: method === 'POST'
+                    ? [...new Set([...b.collections, targetId])]
+                    : b.collections.filter((c) => c !== targetId),
+                }
+              : b
+          )
+        );
+      }
+      onCollectionsChanged();
+    } catch (err) {
+      console.error('Failed to update collection:', err);
+    }
+  };
+
+  /** Move a bookmark one slot within the active collection's manual order. */
+  const handleMoveInCollection = async (index: number, delta: number) => {
+    const target = index + delta;
+    if (collectionId === null || target < 0 || target >= bookmarks.length) return;
+    const reordered = [...bookmarks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setBookmarks(reordered);
+    try {
+      await fetch(`/api/collections/${collectionId}/order`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookmarkIds: reordered.map((b) => b.id) }),
+      });
+    } catch (err) {
+      console.error('Failed to reorder collection:', err);
+    }
+  };
+
+  const handleSaveNotes = async (id: string) => {
+    setNotesSaving(true);
+    try {
+      const response = await fetch(`/api/bookmarks/${id}/notes`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes: notesDraft }),
+      });
+      if (!response.ok) throw new Error('Failed to save notes');
+      const data = await response.json();
+      setBookmarks((prev) => prev.map((b) => (b.id === id ? { ...b, notes: data.notes } : b)));
+      setEditingNotesId(null);
+    } catch (err) {
+      console.error('Failed to save notes:', err);
+    } finally {
+      setNotesSaving(false);
+    }
+  };
+
+  const refreshHighlights = async (bookmarkId: string) => {
+    const response = await fetch(`/api/bookmarks/${bookmarkId}/highlights`);
+    if (!response.ok) throw new Error('Failed to fetch highlights');
+    const highlights: Highlight[] = await response.json();
+    setDetails((prev) => (prev[bookmarkId] ? { ...prev, [bookmarkId]: { ...prev[bookmarkId], highlights } } : prev));
+    setBookmarks((prev) => prev.map((b) => (b.id === bookmarkId ? { ...b, highlight_count: highlights.length } : b)));
+  };
+
+  /** Create/update/delete handlers for the highlights on one article or transcript. */
+  const highlightHandlers = (bookmarkId: string, targetType: Highlight['target_type'], targetKey: string) => ({
+    onCreate: async (start: number, end: number, comment: string) => {
+      try {
+        const response = await fetch(`/api/bookmarks/${bookmarkId}/highlights`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ targetType, targetKey, start, end, comment }),
+        });
+        if (!response.ok) throw new Error('Failed to create highlight');
+        await refreshHighlights(bookmarkId);
+      } catch (err) {
+        console.error('Failed to create highlight:', err);
+      }
+    },
+    onUpdate: async (id: number, comment: string) => {
+      try {
+        const response = await fetch(`/api/highlights/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ comment }),
+        });
+        if (!response.ok) throw new Error('Failed to update highlight');
+        await refreshHighlights(bookmarkId);
+      } catch (err) {
+        console.error('Failed to update highlight:', err);
+      }
+    },
+    onDelete: async (id: number) => {
+      try {
+        const response = await fetch(`/api/highlights/${id}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error('Failed to delete highlight');
+        await refreshHighlights(bookmarkId);
+      } catch (err) {
+        console.error('Failed to delete highlight:', err);
+      }
+    },
+  });
+
   const toggleExpand = (id: string) => {
     setExpandedIds((prev) => {
       const next = new Set(prev);
@@ -101,7 +600,17 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
     });
   };
 
-  const toggleArticle = (key: string) => {
+  const toggleThread = (id: string) => {
+    setOpenThreads((prev) => {
+      const next = new Set(prev);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+  };
+
+  /** Open or close an article or transcript panel, loading the bookmark's full detail the first time. */
+  const toggleArticle = (key: string, bookmarkId: string) => {
+    if (!expandedArticles.has(key)) loadDetail(bookmarkId);
     setExpandedArticles((prev) => {
       const next = new Set(prev);
       next.has(key) ? next.delete(key) : next.add(key);
@@ -128,6 +637,7 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
       }
       setAttachArticleId(null);
       await fetchBookmarks();
+      if (details[id]) await loadDetail(id, true);
     } catch (err) {
       setAttachError(err instanceof Error ? err.message : 'Failed to attach article');
     } finally {
@@ -152,6 +662,7 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
       setAttachArticleId(null);
       setAttachPdfFile(null);
       await fetchBookmarks();
+      if (details[id]) await loadDetail(id, true);
     } catch (err) {
       setAttachError(err instanceof Error ? err.message : 'Failed to upload PDF');
     } finally {
@@ -159,6 +670,28 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
     }
   };
 
+  const handleRetry = async (id: string, step: ProcessingStep) => {
+    try {
+      const response = await fetch(`/api/bookmarks/${id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ steps: [step] }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Retry failed');
+      }
+      // The outcome arrives as a live update
+      const pending: ProcessingState = { status: 'pending', error: null, updated_at: new Date().toISOString() };
+      setBookmarks((prev) =>
+        prev.map((b) => (b.id === id ? { ...b, processing: { ...b.processing, [step]: pending } } : b))
+      );
+    } catch (err) {
+      console.error('Failed to retry:', err);
+      alert(err instanceof Error ? err.message : 'Retry failed');
+    }
+  };
+
   const handleTranscribe = async (id: string, videoUrl: string) => {
     if (transcribingIds.has(id)) return;
 
@@ -176,6 +709,8 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
       }
 
       await fetchBookmarks(); // Refresh to get the transcript
+      await loadDetail(id, true);
+      setExpandedArticles((prev) => new Set(prev).add(`${id}-transcript`));
     } catch (err) {
       console.error('Failed to transcribe:', err);
       alert(err instanceof Error ? err.message : 'Transcription failed');
@@ -198,56 +733,198 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
     return <div className="state-error"><AlertCircle /><span>{error}</span></div>;
   }
 
+  // ─── Tag Filter Bar ────────────────────────────────
+  const usedTags = allTags.filter((t) => t.count > 0);
+  const tagBar = usedTags.length > 0 && (
+    <div className="tag-filter-bar">
+      <Tag size={14} />
+      {usedTags.map((t) => (
+        <button
+          key={t.id}
+          className={`tag-chip tag-chip-filter ${activeTag === t.name ? 'active' : ''}`}
+          onClick={() => setActiveTag((prev) => (prev === t.name ? null : t.name))}
+        >
+          {t.name} <span className="tag-chip-count">{t.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  // ─── Sort & Filter Bar ─────────────────────────────
+  const isFiltered = hasFilters.size > 0 || siteFilter !== '' || sourceFilter !== '' || removedFilter;
+  const listToolbar = !effectiveQuery && (
+    <div className="list-toolbar">
+      <SlidersHorizontal size={14} />
+      <select className="list-sort-select" value={sortValue} onChange={(e) => setSortChoice(e.target.value)} title="Sort">
+        {SORT_OPTIONS.filter((o) => !o.collectionOnly || activeCollection).map((o) => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+      {HAS_FILTERS.map((f) => (
+        <button
+          key={f.value}
+          className={`tag-chip tag-chip-filter ${hasFilters.has(f.value) ? 'active' : ''}`}
+          onClick={() => toggleHasFilter(f.value)}
+          title={`Only bookmarks with ${f.label.toLowerCase()}`}
+        >
+          {f.label}
+        </button>
+      ))}
+      <input
+        type="text"
+        className="tag-input list-site-input"
+        placeholder="site, e.g. arxiv.org"
+        value={siteDraft}
+        onChange={(e) => setSiteDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && setSiteFilter(siteDraft.trim())}
+        onBlur={() => setSiteFilter(siteDraft.trim())}
+      />
+      <select className="list-sort-select" value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value)} title="Source">
+        <option value="">All sources</option>
+        {(Object.keys(SOURCE_LABELS) as BookmarkSource[]).map((source) => (
+          <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+        ))}
+      </select>
+      {isFiltered && (
+        <button
+          className="tag-chip-remove"
+          onClick={() => {
+            setHasFilters(new Set());
+            setSiteFilter('');
+            setSiteDraft('');
+            setSourceFilter('');
+            setRemovedFilter(false);
+          }}
+          title="Clear filters"
+        >
+          <X size={12} />
+        </button>
+      )}
+      <div className={`list-add-link ${linkError ? 'has-error' : ''}`} title={linkError ?? 'Save any web page by URL'}>
+        <Plus size={12} />
+        <input
+          type="url"
+          className="tag-input"
+          placeholder={savingLink ? 'Saving…' : 'Save a link'}
+          value={linkDraft}
+          disabled={savingLink}
+          onChange={(e) => {
+            setLinkDraft(e.target.value);
+            setLinkError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleSaveLink()}
+        />
+      </div>
+    </div>
+  );
+
+  // ─── Removed on X ──────────────────────────────────
+  const removedBanner = !effectiveQuery && !activeCollection && removedUpstreamCount > 0 && (
+    <div className="removed-upstream-banner">
+      <BookmarkX size={16} />
+      <span>
+        {removedUpstreamCount === 1 ? '1 bookmark is' : `${removedUpstreamCount} bookmarks are`} no longer bookmarked on X.
+      </span>
+      <button className="btn-secondary btn-sm" onClick={() => setRemovedFilter((prev) => !prev)}>
+        {removedFilter ? 'Show all' : 'Review'}
+      </button>
+      <button className="btn-secondary btn-sm" disabled={resolvingRemoved} onClick={() => handleResolveRemoved('archive')}>
+        <Archive size={12} /> Archive all
+      </button>
+      <button className="btn-secondary btn-sm" disabled={resolvingRemoved} onClick={() => handleResolveRemoved('trash')}>
+        <Trash2 size={12} /> Move all to trash
+      </button>
+    </div>
+  );
+
   // ─── Empty State ───────────────────────────────────
   if (bookmarks.length === 0) {
     return (
+      <>
+      {tagBar}
+      {listToolbar}
+      {removedBanner}
       <div className="state-empty">
         <ImageIcon />
-        <h3>{searchQuery ? 'No results found' : 'No bookmarks saved'}</h3>
+        <h3>{effectiveQuery || isFiltered ? 'No results found' : activeCollection ? 'Collection is empty' : 'No bookmarks saved'}</h3>
         <p>
-          {searchQuery
-            ? `No bookmarks match "${searchQuery}".`
+          {effectiveQuery
+            ? `No bookmarks match "${effectiveQuery}".`
+            : isFiltered
+            ? 'No bookmarks match these filters.'
+            : activeCollection
+            ? `Use "Add to collection…" on any bookmark to add it to "${activeCollection.name}".`
             : 'Go to the Setup tab, install the Tampermonkey script, then scroll through your X bookmarks to sync them here.'}
         </p>
       </div>
+      </>
     );
   }
 
   // ─── Bookmark Grid ─────────────────────────────────
   return (
     <div>
+      {tagBar}
+      {listToolbar}
+      {removedBanner}
       <div className="bookmarks-header">
         <h2>
-          {searchQuery ? 'Search Results' : 'Saved Bookmarks'}
-          <span className="bookmarks-count">({bookmarks.length})</span>
+          {effectiveQuery ? 'Search Results' : activeCollection ? activeCollection.name : 'Saved Bookmarks'}
+          <span className="bookmarks-count">({total ?? bookmarks.length})</span>
         </h2>
+        {activeCollection?.description && <p className="collection-description">{activeCollection.description}</p>}
       </div>
 
       <div className="bookmarks-grid">
-        {bookmarks.map((bookmark) => {
+        {bookmarks.map((bookmark, index) => {
           const isExpanded = expandedIds.has(bookmark.id);
           const isLongText = (bookmark.text?.length || 0) > 200;
+          const detail = details[bookmark.id];
+          const detailLoading = loadingDetailIds.has(bookmark.id);
 
           return (
-            <div key={bookmark.id} className="bookmark-card">
+            <div key={bookmark.id} className={`bookmark-card status-${bookmark.status}`}>
+              {/* Why it matched (search results only) */}
+              {bookmark.snippets && bookmark.snippets.length > 0 && (
+                <div className="search-snippets">
+                  {bookmark.snippets.map((snippet) => (
+                    <div key={snippet.field} className="search-snippet">
+                      <span className="search-snippet-field">
+                        {snippet.field === 'text' && bookmark.source !== 'x' ? 'Title' : SNIPPET_LABELS[snippet.field]}
+                      </span>
+                      <p className="search-snippet-text">{renderSnippet(snippet)}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="bookmark-card-body">
                 {/* Author + Link */}
                 <div className="bookmark-card-top">
                   <span className="bookmark-author" title={bookmark.author}>
                     {bookmark.author}
                   </span>
+                  {bookmark.source !== 'x' && <span className="source-badge">{SOURCE_LABELS[bookmark.source]}</span>}
+                  {bookmark.removed_upstream_at && (
+                    <span
+                      className="source-badge removed-badge"
+                      title={`Not found among your X bookmarks in the full sync of ${parseUtc(bookmark.removed_upstream_at).toLocaleString()}`}
+                    >
+                      Removed on X
+                    </span>
+                  )}
                   <a
                     href={bookmark.url}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="bookmark-link"
-                    title="View original tweet"
+                    title={bookmark.source === 'x' ? 'View original tweet' : 'Open page'}
                   >
                     <ExternalLink size={14} />
                   </a>
                 </div>
 
-                {/* Tweet URL (prominent) */}
+                {/* Original URL (prominent) */}
                 <a
                   href={bookmark.url}
                   target="_blank"
@@ -258,6 +935,80 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
                   {bookmark.url.replace('https://', '')}
                 </a>
 
+                {/* Background processing: in progress or failed steps */}
+                {(Object.keys(PROCESSING_LABELS) as ProcessingStep[]).some(
+                  (step) => bookmark.processing[step] && bookmark.processing[step]!.status !== 'ok'
+                ) && (
+                  <div className="processing-status">
+                    {(Object.keys(PROCESSING_LABELS) as ProcessingStep[]).map((step) => {
+                      const state = bookmark.processing[step];
+                      if (!state || state.status === 'ok') return null;
+                      return (
+                        <span
+                          key={step}
+                          className={`processing-badge processing-${state.status}`}
+                          title={state.error ?? undefined}
+                        >
+                          {state.status === 'pending' ? <Loader size={11} /> : <AlertCircle size={11} />}
+                          {PROCESSING_LABELS[step][state.status]}
+                          {state.status === 'failed' && (
+                            <button
+                              className="processing-retry"
+                              onClick={() => handleRetry(bookmark.id, step)}
+                              title="Retry this step"
+                            >
+                              <RotateCcw size={11} /> Retry
+                            </button>
+                          )}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {/* Tags */}
+                <div className="bookmark-tags">
+                  {bookmark.tags.map((tag) => (
+                    <span key={tag} className="tag-chip">
+                      <button className="tag-chip-label" onClick={() => setActiveTag(tag)} title={`Show bookmarks tagged "${tag}"`}>
+                        {tag}
+                      </button>
+                      <button
+                        className="tag-chip-remove"
+                        onClick={() => handleTagChange(bookmark.id, 'DELETE', tag)}
+                        title="Remove tag"
+                      >
+                        <X size={10} />
+                      </button>
+                    </span>
+                  ))}
+                  <input
+                    type="text"
+                    className="tag-input"
+                    placeholder="+ tag"
+                    value={tagDrafts[bookmark.id] ?? ''}
+                    onChange={(e) => setTagDrafts((prev) => ({ ...prev, [bookmark.id]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleTagChange(bookmark.id, 'POST', tagDrafts[bookmark.id] ?? '');
+                    }}
+                  />
+                </div>
+
+                {/* Reply context */}
+                {(bookmark.in_reply_to_id || bookmark.in_reply_to_author) && (
+                  <div className="tweet-reply-to">
+                    <CornerUpLeft size={11} />
+                    Replying to{' '}
+                    {bookmark.in_reply_to_id ? (
+                      <a href={`https://x.com/i/web/status/${bookmark.in_reply_to_id}`} target="_blank" rel="noopener noreferrer">
+                        {bookmark.in_reply_to_author ?? 'a post'}
+                      </a>
+                    ) : (
+                      bookmark.in_reply_to_author
+                    )}
+                  </div>
+                )}
+
                 {/* Text */}
                 {bookmark.text ? (
                   <>
@@ -274,6 +1025,94 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
                   <p className="bookmark-text bookmark-text-empty">No text content</p>
                 )}
 
+                {/* Thread */}
+                {bookmark.thread.length > 0 && (
+                  <div className="tweet-thread">
+                    <button className="tweet-thread-toggle" onClick={() => toggleThread(bookmark.id)}>
+                      <ListOrdered size={12} /> Thread · {bookmark.thread.length} posts
+                      {openThreads.has(bookmark.id) ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                    </button>
+                    {openThreads.has(bookmark.id) && (
+                      <ol className="tweet-thread-posts">
+                        {bookmark.thread.map((post, i) => (
+                          <li key={i} className={post.tweet_id === bookmark.id ? 'tweet-thread-current' : undefined}>
+                            <span className="tweet-thread-number">
+                              {post.tweet_id ? (
+                                <a href={`https://x.com/i/web/status/${post.tweet_id}`} target="_blank" rel="noopener noreferrer">
+                                  {i + 1}/{bookmark.thread.length}
+                                </a>
+                              ) : (
+                                `${i + 1}/${bookmark.thread.length}`
+                              )}
+                            </span>
+                            {post.text && <p className="tweet-thread-text">{post.text}</p>}
+                            {post.media.length > 0 && (
+                              <div className="tweet-thread-media">
+                                {post.media.map((url) => (
+                                  <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                    <img src={url} alt="" loading="lazy" referrerPolicy="no-referrer" />
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                            {post.links.map((url) => (
+                              <a key={url} className="tweet-thread-link" href={url} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink size={10} /> {url}
+                              </a>
+                            ))}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                )}
+
+                {/* Poll */}
+                {bookmark.poll.length > 0 && (
+                  <ul className="tweet-poll">
+                    {bookmark.poll.map((option, i) => (
+                      <li key={i}>
+                        {option.percent !== null && <span className="tweet-poll-bar" style={{ width: `${option.percent}%` }} />}
+                        <span className="tweet-poll-label">{option.label}</span>
+                        {option.percent !== null && <span className="tweet-poll-percent">{option.percent}%</span>}
+                      </li>
+                    ))}
+                    <li className="tweet-poll-caption"><BarChart3 size={11} /> Poll</li>
+                  </ul>
+                )}
+
+                {/* Quoted tweet */}
+                {(bookmark.quoted_text || bookmark.quoted_author) && (
+                  <div className="tweet-quoted">
+                    <div className="tweet-quoted-author">
+                      <Quote size={11} />
+                      {bookmark.quoted_id ? (
+                        <a href={`https://x.com/i/web/status/${bookmark.quoted_id}`} target="_blank" rel="noopener noreferrer">
+                          {bookmark.quoted_author || 'Quoted tweet'}
+                        </a>
+                      ) : (
+                        bookmark.quoted_author || 'Quoted tweet'
+                      )}
+                    </div>
+                    {bookmark.quoted_text && <p className="tweet-quoted-text">{bookmark.quoted_text}</p>}
+                  </div>
+                )}
+
+                {/* Engagement */}
+                {(bookmark.reply_count !== null || bookmark.retweet_count !== null || bookmark.like_count !== null) && (
+                  <div className="tweet-stats">
+                    {bookmark.reply_count !== null && (
+                      <span title={`${bookmark.reply_count} replies`}><MessageCircle size={12} /> {formatCount(bookmark.reply_count)}</span>
+                    )}
+                    {bookmark.retweet_count !== null && (
+                      <span title={`${bookmark.retweet_count} reposts`}><Repeat2 size={12} /> {formatCount(bookmark.retweet_count)}</span>
+                    )}
+                    {bookmark.like_count !== null && (
+                      <span title={`${bookmark.like_count} likes`}><Heart size={12} /> {formatCount(bookmark.like_count)}</span>
+                    )}
+                  </div>
+                )}
+
                 {/* Media */}
                 {bookmark.media && bookmark.media.length > 0 && (
                   <div className="bookmark-media">
@@ -284,7 +1123,14 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
                     <div className={`media-grid ${bookmark.media.length > 1 ? 'cols-2' : 'cols-1'}`}>
                       {bookmark.media.slice(0, 2).map((url, i) => (
                         <div key={i} className="media-item">
-                          <img src={url} alt="Tweet media" loading="lazy" referrerPolicy="no-referrer" />
+                          <img
+                            src={url}
+                            alt={bookmark.media_alt[url] ?? (bookmark.source === 'x' ? 'Tweet media' : 'Media')}
+                            title={bookmark.media_alt[url]}
+                            loading="lazy"
+                            referrerPolicy="no-referrer"
+                          />
+                          {bookmark.media_alt[url] && <span className="media-alt-badge" title={bookmark.media_alt[url]}>ALT</span>}
                           {i === 1 && bookmark.media.length > 2 && (
                             <div className="media-overlay"><span>+{bookmark.media.length - 2} more</span></div>
                           )}
@@ -294,20 +1140,39 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
                   </div>
                 )}
 
-                {/* Transcription: show when tweet has video (script adds status URL to media for video tweets, or explicit video/.mp4 URL) */}
-                {bookmark.media && bookmark.media.some(url => url === bookmark.url || url.includes('video') || url.includes('.mp4')) && (() => {
+                {/* Transcription: show when tweet has video (script adds status URL to media for video tweets, or explicit video/.mp4 URL) or links a YouTube video */}
+                {(() => {
                   const videoUrl =
                     bookmark.media.find(url => url === bookmark.url || url.includes('video') || url.includes('.mp4'))
-                    || bookmark.media[0];
+                    ?? bookmark.articles.find((a) => a.site_name === 'YouTube')?.url
+                    ?? bookmark.transcripts[0]?.video_url;
+                  if (!videoUrl) return null;
+                  const transcriptKey = `${bookmark.id}-transcript`;
+                  const transcriptUrl = bookmark.transcripts[0]?.video_url;
+                  const transcript = detail?.transcripts.find((t) => t.video_url === transcriptUrl);
                   return (
                     <div className="transcription-trigger">
-                      {bookmark.transcripts && bookmark.transcripts.length > 0 ? (
+                      {transcriptUrl ? (
                         <div className="transcript-panel">
-                          <div className="transcript-header">
+                          <div className="transcript-header transcript-toggle" onClick={() => toggleArticle(transcriptKey, bookmark.id)}>
                             <Video size={12} />
                             <span>Transcript</span>
+                            {expandedArticles.has(transcriptKey) ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
                           </div>
-                          <p className="transcript-text">{bookmark.transcripts[0].transcript}</p>
+                          {expandedArticles.has(transcriptKey) && (
+                            transcript ? (
+                              <AnnotatedText
+                                text={transcript.transcript}
+                                className="transcript-text"
+                                highlights={detail.highlights.filter(
+                                  (h) => h.target_type === 'transcript' && h.target_key === transcriptUrl
+                                )}
+                                {...highlightHandlers(bookmark.id, 'transcript', transcriptUrl)}
+                              />
+                            ) : (
+                              detailLoading && <div className="spinner spinner-xs" />
+                            )
+                          )}
                         </div>
                       ) : (
                         <button
@@ -326,6 +1191,45 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
                   );
                 })()}
 
+                {/* Notes */}
+                <div className="notes-section">
+                  {editingNotesId === bookmark.id ? (
+                    <div className="notes-editor">
+                      <textarea
+                        placeholder="Why did you save this? Markdown is fine."
+                        value={notesDraft}
+                        onChange={(e) => setNotesDraft(e.target.value)}
+                        rows={5}
+                        disabled={notesSaving}
+                        autoFocus
+                      />
+                      <div className="highlight-form-actions">
+                        <button className="btn-secondary btn-sm" onClick={() => handleSaveNotes(bookmark.id)} disabled={notesSaving}>
+                          {notesSaving ? 'Saving...' : 'Save notes'}
+                        </button>
+                        <button className="btn-secondary btn-sm" onClick={() => setEditingNotesId(null)} disabled={notesSaving}>
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      {bookmark.notes && <p className="notes-text">{bookmark.notes}</p>}
+                      <button
+                        type="button"
+                        className="attach-article-toggle"
+                        onClick={() => {
+                          setEditingNotesId(bookmark.id);
+                          setNotesDraft(bookmark.notes ?? '');
+                        }}
+                      >
+                        <StickyNote size={12} />
+                        {bookmark.notes ? 'Edit notes' : 'Add notes'}
+                      </button>
+                    </>
+                  )}
+                </div>
+
                 {/* Attach full article */}
                 <div className="attach-article-section">
                   <button
@@ -404,10 +1308,11 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
                     {bookmark.articles.map((article) => {
                       const articleKey = `${bookmark.id}-${article.id}`;
                       const isArticleExpanded = expandedArticles.has(articleKey);
+                      const content = detail?.articles.find((a) => a.id === article.id)?.content_md;
 
                       return (
                         <div key={article.id} className="article-card">
-                          <div className="article-card-header" onClick={() => toggleArticle(articleKey)}>
+                          <div className="article-card-header" onClick={() => toggleArticle(articleKey, bookmark.id)}>
                             <div className="article-card-title">
                               <FileText size={14} />
                               <div>
@@ -434,12 +1339,18 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
                                   <Globe size={11} /> {article.url}
                                 </a>
                               )}
-                              <div className="article-md" dangerouslySetInnerHTML={{
-                                __html: article.content_md
-                                  .replace(/</g, '&lt;')
-                                  .replace(/>/g, '&gt;')
-                                  .replace(/\n/g, '<br/>')
-                              }} />
+                              {content !== undefined ? (
+                                <AnnotatedText
+                                  text={content}
+                                  className="article-md"
+                                  highlights={detail.highlights.filter(
+                                    (h) => h.target_type === 'article' && h.target_key === article.url
+                                  )}
+                                  {...highlightHandlers(bookmark.id, 'article', article.url)}
+                                />
+                              ) : (
+                                detailLoading && <div className="spinner spinner-xs" />
+                              )}
                             </div>
                           )}
                         </div>
@@ -453,24 +1364,92 @@ export default function BookmarksList({ searchQuery, refreshKey }: Props) {
               <div className="bookmark-card-footer">
                 <div className="bookmark-time">
                   <Clock size={12} />
-                  {new Date(bookmark.saved_at).toLocaleDateString()}{' '}
-                  {new Date(bookmark.saved_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {bookmark.posted_at ? (
+                    <span title={`Saved ${new Date(bookmark.saved_at).toLocaleString()}`}>
+                      Posted {parseUtc(bookmark.posted_at).toLocaleDateString()}{' '}
+                      {parseUtc(bookmark.posted_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  ) : (
+                    <>
+                      {new Date(bookmark.saved_at).toLocaleDateString()}{' '}
+                      {new Date(bookmark.saved_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </>
+                  )}
                   {bookmark.articles.length > 0 && (
                     <span className="article-badge">{bookmark.articles.length} article{bookmark.articles.length > 1 ? 's' : ''}</span>
                   )}
                 </div>
-                <button
-                  className="delete-btn"
-                  onClick={() => handleDelete(bookmark.id)}
-                  title="Delete bookmark"
-                >
-                  <Trash2 size={14} />
-                </button>
+                <div className="bookmark-card-actions">
+                  <select
+                    className={`status-select status-${bookmark.status}`}
+                    value={bookmark.status}
+                    onChange={(e) => handleStatusChange(bookmark.id, e.target.value as Bookmark['status'])}
+                    title={bookmark.read_at ? `Read ${new Date(bookmark.read_at).toLocaleDateString()}` : 'Reading status'}
+                  >
+                    {(Object.keys(STATUS_LABELS) as Bookmark['status'][]).map((status) => (
+                      <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                  {activeCollection && !effectiveQuery && sort === 'position' && !isFiltered && (
+                    <>
+                      <button className="delete-btn" onClick={() => handleMoveInCollection(index, -1)} disabled={index === 0} title="Move up">
+                        <ChevronUp size={14} />
+                      </button>
+                      <button
+                        className="delete-btn"
+                        onClick={() => handleMoveInCollection(index, 1)}
+                        disabled={index === bookmarks.length - 1}
+                        title="Move down"
+                      >
+                        <ChevronDown size={14} />
+                      </button>
+                    </>
+                  )}
+                  {activeCollection && (
+                    <button
+                      className="delete-btn"
+                      onClick={() => handleCollectionMembership(bookmark.id, activeCollection.id, 'DELETE')}
+                      title={`Remove from "${activeCollection.name}"`}
+                    >
+                      <FolderMinus size={14} />
+                    </button>
+                  )}
+                  {collections.some((c) => !bookmark.collections.includes(c.id)) && (
+                    <select
+                      className="collection-select"
+                      value=""
+                      onChange={(e) => handleCollectionMembership(bookmark.id, Number(e.target.value), 'POST')}
+                      title="Add to collection"
+                    >
+                      <option value="" disabled>Add to collection…</option>
+                      {collections
+                        .filter((c) => !bookmark.collections.includes(c.id))
+                        .map((c) => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                    </select>
+                  )}
+                  <button
+                    className="delete-btn"
+                    onClick={() => handleDelete(bookmark.id)}
+                    title="Move to trash"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
               </div>
             </div>
           );
         })}
       </div>
+
+      {nextCursor && !effectiveQuery && (
+        <div className="load-more">
+          <button className="btn-secondary btn-sm" onClick={handleLoadMore} disabled={loadingMore}>
+            {loadingMore ? <><div className="spinner spinner-xs" /> Loading...</> : `Load more (${bookmarks.length} of ${total})`}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { FolderOpen, Folder, Plus, Trash2, ChevronUp, ChevronDown, Layers } from 'lucide-react';
+
+export interface Collection {
+  id: number;
+  name: string;
+  description: string | null;
+  position: number;
+  count: number;
+}
+
+interface Props {
+  collections: Collection[];
+  activeCollectionId: number | null;
+  onSelect: (id: number | null) => void;
+  onChanged: () => void;
+}
+
+export default function CollectionsSidebar({ collections, activeCollectionId, onSelect, onChanged }: Props) {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), description: description.trim() || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to create collection');
+        return;
+      }
+      setName('');
+      setDescription('');
+      setCreating(false);
+      onChanged();
+      onSelect(data.id);
+    } catch (err) {
+      setError('Failed to create collection');
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (collection: Collection) => {
+    if (!window.confirm(`Delete collection "${collection.name}"? Its bookmarks are kept.`)) return;
+    try {
+      const response = await fetch(`/api/collections/${collection.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Delete failed');
+      if (activeCollectionId === collection.id) onSelect(null);
+      onChanged();
+    } catch (err) {
+      console.error('Failed to delete collection:', err);
+    }
+  };
+
+  const handleMove = async (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= collections.length) return;
+    const ids = collections.map((c) => c.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    try {
+      await fetch('/api/collections/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      });
+      onChanged();
+    } catch (err) {
+      console.error('Failed to reorder collections:', err);
+    }
+  };
+
+  return (
+    <aside className="collections-sidebar">
+      <div className="collections-header">
+        <h3>Collections</h3>
+        <button className="collection-icon-btn" onClick={() => setCreating((c) => !c)} title="New collection">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {creating && (
+        <div className="collection-form">
+          <input
+            type="text"
+            placeholder="Name, e.g. LLM evals"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            autoFocus
+          />
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          {error && <p className="collection-form-error">{error}</p>}
+          <button className="btn-secondary btn-sm" onClick={handleCreate} disabled={!name.trim()}>
+            Create
+          </button>
+        </div>
+      )}
+
+      <ul className="collections-list">
+        <li>
+          <button
+            className={`collection-item ${activeCollectionId === null ? 'active' : ''}`}
+            onClick={() => onSelect(null)}
+          >
+            <Layers size={14} />
+            <span className="collection-name">All bookmarks</span>
+          </button>
+        </li>
+        {collections.map((collection, index) => (
+          <li key={collection.id} className="collection-row">
+            <button
+              className={`collection-item ${activeCollectionId === collection.id ? 'active' : ''}`}
+              onClick={() => onSelect(collection.id)}
+              title={collection.description || collection.name}
+            >
+              {activeCollectionId === collection.id ? <FolderOpen size={14} /> : <Folder size={14} />}
+              <span className="collection-name">{collection.name}</span>
+              <span className="collection-count">{collection.count}</span>
+            </button>
+            <div className="collection-row-actions">
+              <button className="collection-icon-btn" onClick={() => handleMove(index, -1)} disabled={index === 0} title="Move up">
+                <ChevronUp size={12} />
+              </button>
+              <button
+                className="collection-icon-btn"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === collections.length - 1}
+                title="Move down"
+              >
+                <ChevronDown size={12} />
+              </button>
+              <button className="collection-icon-btn danger" onClick={() => handleDelete(collection)} title="Delete collection">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react';
+import { Upload, ArrowLeft, AlertCircle, CheckCircle2, FileText, Archive } from 'lucide-react';
+import ArchiveImport from './ArchiveImport';
+
+/** GET /api/importers entry. */
+interface ImporterInfo {
+  id: string;
+  label: string;
+  description: string;
+  extensions: string[];
+}
+
+/** POST /api/import with dryRun=true. */
+interface ImportPreview {
+  importer: string;
+  found: number;
+  new: number;
+  existing: number;
+  errors: Array<{ url: string; error: string }>;
+  sample: Array<{ url: string; title: string; tags: string[]; addedAt: string | null; archived: boolean }>;
+}
+
+/** POST /api/import response. */
+interface ImportReport {
+  importer: string;
+  found: number;
+  imported: number;
+  skippedExisting: number;
+  errors: Array<{ url: string; error: string }>;
+  queuedJobs: number;
+}
+
+/** The X archive has its own importer (tweets and media rather than links). */
+const X_ARCHIVE_ID = 'x-archive';
+
+type Step = 'source' | 'upload' | 'preview' | 'done';
+
+interface Props {
+  onImported: () => void;
+}
+
+export default function ImportWizard({ onImported }: Props) {
+  const [importers, setImporters] = useState<ImporterInfo[]>([]);
+  const [step, setStep] = useState<Step>('source');
+  const [importerId, setImporterId] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/importers')
+      .then((r) => r.json())
+      .then(setImporters)
+      .catch(() => setError('Could not load the list of importers. Make sure the server is running.'));
+  }, []);
+
+  const importer = importers.find((i) => i.id === importerId);
+
+  const reset = () => {
+    setStep('source');
+    setImporterId(null);
+    setFile(null);
+    setPreview(null);
+    setReport(null);
+    setError(null);
+  };
+
+  const send = async (dryRun: boolean) => {
+    if (!file || !importerId) return null;
+    const form = new FormData();
+    form.append('file', file);
+    form.append('importer', importerId);
+    if (dryRun) form.append('dryRun', 'true');
+    const response = await fetch('/api/import', { method: 'POST', body: form });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.details || data.error || 'Import failed');
+    return data;
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview(await send(true));
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setReport(await send(false));
+      setStep('done');
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="import-wizard">
+      <div className="bookmarks-header">
+        <h2>Import</h2>
+        {step !== 'source' && (
+          <button className="btn-secondary btn-sm" onClick={reset} disabled={busy}>
+            <ArrowLeft size={12} /> Start over
+          </button>
+        )}
+      </div>
+
+      {step === 'source' && (
+        <>
+          <p className="trash-note">Bring in bookmarks saved elsewhere. Links are saved as bookmarks and their articles extracted in the background.</p>
+          <div className="import-sources">
+            {importers.map((i) => (
+              <button
+                key={i.id}
+                className="import-source"
+                onClick={() => {
+                  setImporterId(i.id);
+                  setStep('upload');
+                }}
+              >
+                <FileText size={18} />
+                <span className="import-source-label">{i.label}</span>
+                <span className="import-source-description">{i.description}</span>
+              </button>
+            ))}
+            <button
+              className="import-source"
+              onClick={() => {
+                setImporterId(X_ARCHIVE_ID);
+                setStep('upload');
+              }}
+            >
+              <Archive size={18} />
+              <span className="import-source-label">X archive</span>
+              <span className="import-source-description">Your bookmarks (and optionally your tweets and likes) from X's data download, with bundled media.</span>
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'upload' && importerId === X_ARCHIVE_ID && <ArchiveImport />}
+
+      {step === 'upload' && importer && (
+        <div className="setup-instructions import-step">
+          <h4>{importer.label}</h4>
+          <p className="archive-import-hint">{importer.description}</p>
+          <div className="archive-import-source">
+            <label className="btn-secondary btn-sm archive-import-file">
+              <Upload size={12} /> {file ? file.name : 'Choose file…'}
+              <input
+                type="file"
+                accept={importer.extensions.join(',')}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </label>
+          </div>
+          <button className="btn-secondary btn-sm archive-import-submit" onClick={handlePreview} disabled={busy || !file}>
+            {busy ? 'Reading…' : 'Preview'}
+          </button>
+        </div>
+      )}
+
+      {step === 'preview' && preview && (
+        <div className="setup-instructions import-step">
+          <h4>Preview</h4>
+          <p className="archive-import-hint">
+            {preview.found} links found · {preview.new} new · {preview.existing} already saved
+            {preview.errors.length > 0 && ` · ${preview.errors.length} skipped`}
+          </p>
+          {preview.sample.length > 0 && (
+            <ul className="import-sample">
+              {preview.sample.map((item) => (
+                <li key={item.url}>
+                  <span className="import-sample-title">{item.title || item.url}</span>
+                  <span className="import-sample-meta">
+                    {item.url}
+                    {item.tags.length > 0 && ` · ${item.tags.join(', ')}`}
+                    {item.archived && ' · archived'}
+                  </span>
+                </li>
+              ))}
+              {preview.new > preview.sample.length && (
+                <li className="import-sample-more">…and {preview.new - preview.sample.length} more</li>
+              )}
+            </ul>
+          )}
+          <button className="btn-secondary btn-sm archive-import-submit" onClick={handleImport} disabled={busy || preview.new === 0}>
+            {busy ? 'Importing…' : `Import ${preview.new} links`}
+          </button>
+        </div>
+      )}
+
+      {step === 'done' && report && (
+        <div className="setup-instructions import-step">
+          <div className="archive-import-result">
+            <CheckCircle2 size={14} color="var(--success)" />
+            <span>
+              {report.imported} imported of {report.found} found · {report.skippedExisting} already saved ·{' '}
+              {report.queuedJobs} article extractions queued
+            </span>
+          </div>
+          {report.errors.length > 0 && (
+            <ul className="archive-import-errors">
+              {report.errors.map((e, i) => (
+                <li key={i}>{e.url}: {e.error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="archive-import-result archive-import-error">
+          <AlertCircle size={14} /> {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { BookOpen, CheckCircle2, Archive, Inbox, ExternalLink, AlertCircle } from 'lucide-react';
+import type { LiveUpdate } from '../useServerEvents';
+
+type BookmarkStatus = 'inbox' | 'reading' | 'done' | 'archived';
+
+interface QueueItem {
+  id: string;
+  url: string;
+  author: string;
+  source: 'x' | 'web' | 'import' | 'manual';
+  text: string;
+  status: BookmarkStatus;
+  read_progress: number;
+  saved_at: string;
+  articles: Array<{ id: number; title: string; content_length: number; url: string }>;
+}
+
+interface Props {
+  refreshKey: number;
+  liveUpdate: LiveUpdate | null;
+  onStatusChanged: () => void;
+}
+
+const PROGRESS_SAVE_DELAY = 800;
+const PAGE_SIZE = 100;
+
+export default function ReadingQueue({ refreshKey, liveUpdate, onStatusChanged }: Props) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [openContent, setOpenContent] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const progressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchQueue = useCallback(async (cursor?: string) => {
+    try {
+      const params = new URLSearchParams({ status: 'reading,inbox', limit: String(PAGE_SIZE) });
+      if (cursor) params.set('cursor', cursor);
+      const response = await fetch(`/api/bookmarks?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch reading queue');
+      const data = await response.json();
+      setItems((prev) => (cursor ? [...prev, ...data.items] : data.items));
+      setNextCursor(data.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError('Error loading the reading queue. Make sure the server is running.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue, refreshKey, liveUpdate]);
+
+  useEffect(() => () => {
+    if (progressTimer.current) clearTimeout(progressTimer.current);
+  }, []);
+
+  const updateStatus = async (ids: string[], status: BookmarkStatus) => {
+    if (ids.length === 0) return;
+    try {
+      const response = await fetch('/api/bookmarks/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids, status }),
+      });
+      if (!response.ok) throw new Error('Failed to update status');
+      setSelected(new Set());
+      if (openId && ids.includes(openId)) setOpenId(null);
+      await fetchQueue();
+      onStatusChanged();
+    } catch (err) {
+      console.error('Failed to update status:', err);
+    }
+  };
+
+  /** Save scroll position through the article as read progress, debounced. */
+  const handleReaderScroll = (id: string, el: HTMLDivElement) => {
+    const scrollable = el.scrollHeight - el.clientHeight;
+    // Scrolling back up to re-read a passage should not lose progress
+    const previous = items.find((item) => item.id === id)?.read_progress ?? 0;
+    const progress = Math.max(previous, scrollable > 0 ? el.scrollTop / scrollable : 1);
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, read_progress: progress } : item)));
+    if (progressTimer.current) clearTimeout(progressTimer.current);
+    progressTimer.current = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/bookmarks/${id}/progress`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ progress }),
+        });
+        if (!response.ok) throw new Error('Failed to save progress');
+        const data = await response.json();
+        setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...data.bookmark } : item)));
+        if (data.bookmark.status === 'done') onStatusChanged();
+      } catch (err) {
+        console.error('Failed to save progress:', err);
+      }
+    }, PROGRESS_SAVE_DELAY);
+  };
+
+  /** Open the reader for one item, fetching its article text. */
+  const openReader = async (id: string, articleId: number) => {
+    if (openId === id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(id);
+    setOpenContent(null);
+    try {
+      const response = await fetch(`/api/bookmarks/${id}`);
+      if (!response.ok) throw new Error('Failed to fetch article');
+      const data = await response.json();
+      const article = data.articles.find((a: { id: number }) => a.id === articleId);
+      setOpenContent(article?.content_md ?? '');
+    } catch (err) {
+      console.error('Failed to open article:', err);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+  };
+
+  if (loading) {
+    return <div className="state-loading"><div className="spinner" /></div>;
+  }
+
+  if (error && items.length === 0) {
+    return <div className="state-error"><AlertCircle /><span>{error}</span></div>;
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="state-empty">
+        <Inbox />
+        <h3>Queue is empty</h3>
+        <p>New bookmarks land here until you mark them done or archive them.</p>
+      </div>
+    );
+  }
+
+  const sections: Array<{ title: string; items: QueueItem[] }> = [
+    { title: 'Continue reading', items: items.filter((i) => i.status === 'reading') },
+    { title: 'Up next', items: items.filter((i) => i.status === 'inbox') },
+  ];
+
+  return (
+    <div className="reading-queue">
+      <div className="bookmarks-header">
+        <h2>
+          Reading Queue
+          <span className="bookmarks-count">({items.length})</span>
+        </h2>
+        {selected.size > 0 && (
+          <div className="queue-bulk-actions">
+            <span>{selected.size} selected</span>
+            <button className="btn-secondary btn-sm" onClick={() => updateStatus([...selected], 'done')}>
+              <CheckCircle2 size={12} /> Mark done
+            </button>
+            <button className="btn-secondary btn-sm" onClick={() => updateStatus([...selected], 'archived')}>
+              <Archive size={12} /> Archive
+            </button>
+          </div>
+        )}
+      </div>
+
+      {sections.filter((s) => s.items.length > 0).map((section) => (
+        <section key={section.title} className="queue-section">
+          <h3 className="queue-section-title">{section.title}</h3>
+          <ul className="queue-list">
+            {section.items.map((item) => {
+              const article = [...item.articles].sort((a, b) => b.content_length - a.content_length)[0];
+              const isOpen = openId === item.id;
+              return (
+                <li key={item.id} className={`queue-item ${selected.has(item.id) ? 'selected' : ''}`}>
+                  <div className="queue-item-row">
+                    <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggleSelected(item.id)} />
+                    <div className="queue-item-main">
+                      <div className="queue-item-title">
+                        {article ? article.title : item.author.split('\n')[0]}
+                        <a href={item.url} target="_blank" rel="noopener noreferrer" className="bookmark-link" title={item.source === 'x' ? 'View original tweet' : 'Open page'}>
+                          <ExternalLink size={12} />
+                        </a>
+                      </div>
+                      <p className="queue-item-text">{item.text}</p>
+                      <div className="read-progress" title={`${Math.round(item.read_progress * 100)}% read`}>
+                        <div className="read-progress-bar" style={{ width: `${Math.round(item.read_progress * 100)}%` }} />
+                      </div>
+                    </div>
+                    <div className="queue-item-actions">
+                      {article && (
+                        <button className="btn-secondary btn-sm" onClick={() => openReader(item.id, article.id)}>
+                          <BookOpen size={12} /> {isOpen ? 'Close' : 'Read'}
+                        </button>
+                      )}
+                      <button className="delete-btn" onClick={() => updateStatus([item.id], 'done')} title="Mark done">
+                        <CheckCircle2 size={14} />
+                      </button>
+                      <button className="delete-btn" onClick={() => updateStatus([item.id], 'archived')} title="Archive">
+                        <Archive size={14} />
+                      </button>
+                    </div>
+                  </div>
+                  {isOpen && article && (
+                    openContent === null ? (
+                      <div className="state-loading"><div className="spinner" /></div>
+                    ) : (
+                      <div
+                        className="queue-reader article-md"
+                        onScroll={(e) => handleReaderScroll(item.id, e.currentTarget)}
+                      >
+                        {openContent}
+                      </div>
+                    )
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+
+      {nextCursor && (
+        <div className="load-more">
+          <button className="btn-secondary btn-sm" onClick={() => fetchQueue(nextCursor)}>Load more</button>
+        </div>
+      )}
+    </div>
+  );
+}
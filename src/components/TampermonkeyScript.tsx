@@ -1,304 +1,65 @@
-import { useState } from 'react';
-import { Copy, Check } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Copy, Check, Download, Code, AlertCircle } from 'lucide-react';
+
+/** GET /api/userscript response. */
+interface UserscriptInfo {
+  version: string;
+  installUrl: string;
+  tokenRequired: boolean;
+  features: Record<string, boolean>;
+  /** The version that last uploaded bookmarks, if any has. */
+  installed: { version: string; seenAt: string } | null;
+  updateAvailable: boolean;
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+  batchUpload: 'Batched uploads',
+  threadCapture: 'Thread capture',
+  videoCapture: 'Video capture',
+  graphqlCapture: 'API capture',
+  articleCapture: 'X Articles',
+};
 
 export default function TampermonkeyScript() {
+  const [info, setInfo] = useState<UserscriptInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [source, setSource] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
   const [copied, setCopied] = useState(false);
 
-  // Use an array joined by newlines to avoid nested template literal escaping issues
-  const scriptContent = [
-    '// ==UserScript==',
-    '// @name         XMarks — Bookmark Sync v3.1',
-    '// @namespace    http://tampermonkey.net/',
-    '// @version      3.1',
-    '// @description  Syncs X bookmarks to local XMarks server — robust auto-scroll, text + link extraction',
-    '// @match        *://x.com/*',
-    '// @match        *://twitter.com/*',
-    '// @grant        GM_xmlhttpRequest',
-    '// @connect      localhost',
-    '// ==/UserScript==',
-    '',
-    '(function() {',
-    '    "use strict";',
-    '',
-    '    let syncing = false;',
-    '    let autoScrolling = false;',
-    '    const processedTweets = new Set();',
-    '    let scrollInterval = null;',
-    '    let stuckCount = 0;',
-    '    let lastScrollY = 0;',
-    '    var statusMatch = window.location.pathname.match(/\\/status\\/(\\d+)/);',
-    '    var targetStatusId = statusMatch ? statusMatch[1] : null;',
-    '',
-    '    // ── Floating Buttons Container ───────────────────────────',
-    '    const container = document.createElement("div");',
-    '    container.style.cssText = "position:fixed;bottom:20px;right:20px;z-index:99999;display:flex;flex-direction:column;gap:10px;font-family:-apple-system,BlinkMacSystemFont,sans-serif;";',
-    '    document.body.appendChild(container);',
-    '',
-    '    // ── Sync Button ──────────────────────────────────────────',
-    '    const syncBtn = document.createElement("button");',
-    '    syncBtn.innerText = "🔴 Start Sync";',
-    '    syncBtn.style.cssText = "padding:12px 20px;background:#6366f1;color:white;border:none;border-radius:50px;cursor:pointer;font-weight:700;font-size:13px;box-shadow:0 4px 16px rgba(99,102,241,0.4);transition:all 0.2s ease;min-width:180px;";',
-    '    container.appendChild(syncBtn);',
-    '',
-    '    // ── Auto-Scroll Button ───────────────────────────────────',
-    '    const scrollBtn = document.createElement("button");',
-    '    scrollBtn.innerText = "⏬ Auto-Scroll";',
-    '    scrollBtn.style.cssText = "padding:12px 20px;background:#374151;color:white;border:none;border-radius:50px;cursor:pointer;font-weight:700;font-size:13px;box-shadow:0 4px 16px rgba(0,0,0,0.3);transition:all 0.2s ease;min-width:180px;";',
-    '    container.appendChild(scrollBtn);',
-    '',
-    '    // ── Status Counter ───────────────────────────────────────',
-    '    const counter = document.createElement("div");',
-    '    counter.style.cssText = "padding:8px 16px;background:rgba(0,0,0,0.8);color:#a5b4fc;border-radius:50px;font-size:12px;font-weight:600;text-align:center;backdrop-filter:blur(4px);";',
-    '    counter.innerText = "0 synced";',
-    '    container.appendChild(counter);',
-    '',
-    '    // ── Sync Toggle ──────────────────────────────────────────',
-    '    syncBtn.onclick = function() {',
-    '        syncing = !syncing;',
-    '        if (syncing) {',
-    '            syncBtn.innerText = "🟢 Syncing...";',
-    '            syncBtn.style.background = "#22c55e";',
-    '            syncBtn.style.boxShadow = "0 4px 16px rgba(34,197,94,0.4)";',
-    '            startObserver();',
-    '        } else {',
-    '            syncBtn.innerText = "🔴 Start Sync";',
-    '            syncBtn.style.background = "#6366f1";',
-    '            syncBtn.style.boxShadow = "0 4px 16px rgba(99,102,241,0.4)";',
-    '        }',
-    '    };',
-    '',
-    '    // ── Auto-Scroll Toggle ───────────────────────────────────',
-    '    scrollBtn.onclick = function() {',
-    '        autoScrolling = !autoScrolling;',
-    '        if (autoScrolling) {',
-    '            scrollBtn.innerText = "⏸️ Stop Scroll";',
-    '            scrollBtn.style.background = "#f59e0b";',
-    '            scrollBtn.style.boxShadow = "0 4px 16px rgba(245,158,11,0.4)";',
-    '            stuckCount = 0;',
-    '            lastScrollY = window.scrollY;',
-    '            startAutoScroll();',
-    '        } else {',
-    '            scrollBtn.innerText = "⏬ Auto-Scroll";',
-    '            scrollBtn.style.background = "#374151";',
-    '            scrollBtn.style.boxShadow = "0 4px 16px rgba(0,0,0,0.3)";',
-    '            stopAutoScroll();',
-    '        }',
-    '    };',
-    '',
-    '    // ── Auto-Scroll Engine (robust) ──────────────────────────',
-    '    function startAutoScroll() {',
-    '        scrollInterval = setInterval(function() {',
-    '            if (!autoScrolling) return;',
-    '',
-    '            // Pause any playing videos to prevent scroll blocking',
-    '            var videos = document.querySelectorAll("video");',
-    '            videos.forEach(function(v) { try { v.pause(); } catch(e) {} });',
-    '',
-    '            // Scroll down',
-    '            window.scrollBy({ top: 600, behavior: "smooth" });',
-    '',
-    '            // Check if we actually moved',
-    '            setTimeout(function() {',
-    '                var currentY = window.scrollY;',
-    '                if (Math.abs(currentY - lastScrollY) < 50) {',
-    '                    stuckCount++;',
-    '                    counter.innerText = processedTweets.size + " synced (loading...)";',
-    '',
-    '                    // If stuck for 15+ cycles (~22.5s), we have likely reached the end',
-    '                    if (stuckCount >= 15) {',
-    '                        autoScrolling = false;',
-    '                        scrollBtn.innerText = "✅ Done!";',
-    '                        scrollBtn.style.background = "#22c55e";',
-    '                        counter.innerText = processedTweets.size + " synced (complete)";',
-    '                        stopAutoScroll();',
-    '                        return;',
-    '                    }',
-    '',
-    '                    // Try a bigger scroll to get past sticky elements',
-    '                    window.scrollBy({ top: 1200, behavior: "instant" });',
-    '                } else {',
-    '                    stuckCount = 0;',
-    '                    counter.innerText = processedTweets.size + " synced";',
-    '                }',
-    '                lastScrollY = currentY;',
-    '            }, 800);',
-    '        }, 1500);',
-    '    }',
-    '',
-    '    function stopAutoScroll() {',
-    '        if (scrollInterval) {',
-    '            clearInterval(scrollInterval);',
-    '            scrollInterval = null;',
-    '        }',
-    '    }',
-    '',
-    '    // ── Scraping Engine ──────────────────────────────────────',
-    '    function startObserver() {',
-    '        setInterval(function() {',
-    '            if (!syncing) return;',
-    '            // Works on any X page — timeline, bookmarks, search, individual tweets',
-    '',
-    '            var tweets = document.querySelectorAll(\'[data-testid="tweet"]\');',
-    '',
-    '            tweets.forEach(function(tweet) {',
-    '                // ── Get tweet ID ──────────────────────────────',
-    '                var allLinks = tweet.querySelectorAll(\'a[href*="/status/"]\');',
-    '                var tweetUrl = null;',
-    '                var tweetId = null;',
-    '',
-    '                for (var i = 0; i < allLinks.length; i++) {',
-    '                    var href = allLinks[i].href;',
-    '                    var match = href.match(/\\/status\\/(\\d+)/);',
-    '                    if (match) {',
-    '                        tweetUrl = href;',
-    '                        tweetId = match[1];',
-    '                        break;',
-    '                    }',
-    '                }',
-    '',
-    '                if (!tweetId) return;',
-    '                if (targetStatusId && tweetId !== targetStatusId) return;',
-    '                if (processedTweets.has(tweetId)) return;',
-    '                processedTweets.add(tweetId);',
-    '',
-    '                // ── Author ────────────────────────────────────',
-    '                var authorEl = tweet.querySelector(\'[data-testid="User-Name"]\');',
-    '                var author = authorEl ? authorEl.innerText.replace(/\\n/g, " · ") : "Unknown";',
-    '',
-    '                // ── Text (multiple fallback strategies) ───────',
-    '                var text = "";',
-    '',
-    '                // Strategy 1: data-testid="tweetText"',
-    '                var textEl = tweet.querySelector(\'[data-testid="tweetText"]\');',
-    '                if (textEl) {',
-    '                    text = textEl.innerText || "";',
-    '                }',
-    '',
-    '                // Strategy 2: If no text, look for [lang] element',
-    '                if (!text) {',
-    '                    var altText = tweet.querySelector("[lang]");',
-    '                    if (altText && altText.closest(\'[data-testid="tweet"]\') === tweet) {',
-    '                        text = altText.innerText || "";',
-    '                    }',
-    '                }',
-    '',
-    '                // Strategy 3: On a status page, aggregate visible same-author thread text as one article body',
-    '                var threadText = "";',
-    '                var threadPartCount = 0;',
-    '                if (targetStatusId) {',
-    '                    var handleMatch = author.match(/@[A-Za-z0-9_]+/);',
-    '                    var targetHandle = handleMatch ? handleMatch[0].toLowerCase() : null;',
-    '                    var parts = [];',
-    '                    var seen = new Set();',
-    '                    document.querySelectorAll(\'[data-testid="tweet"]\').forEach(function(tw) {',
-    '                        var twAuthorEl = tw.querySelector(\'[data-testid="User-Name"]\');',
-    '                        var twAuthor = twAuthorEl ? twAuthorEl.innerText.replace(/\\n/g, " · ") : "";',
-    '                        if (!targetHandle || twAuthor.toLowerCase().indexOf(targetHandle) === -1) return;',
-    '                        var twTextEl = tw.querySelector(\'[data-testid="tweetText"]\') || tw.querySelector("[lang]");',
-    '                        var twText = twTextEl ? (twTextEl.innerText || "").trim() : "";',
-    '                        if (twText && !seen.has(twText)) {',
-    '                            seen.add(twText);',
-    '                            parts.push(twText);',
-    '                        }',
-    '                    });',
-    '                    threadPartCount = parts.length;',
-    '                    if (parts.length > 0) {',
-    '                        threadText = parts.join("\\n\\n---\\n\\n");',
-    '                    }',
-    '                }',
-    '',
-    '                // ── Media ─────────────────────────────────────',
-    '                var mediaEls = tweet.querySelectorAll(\'[data-testid="tweetPhoto"] img\');',
-    '                var media = Array.from(mediaEls).map(function(img) {',
-    '                    return img.src.replace(/&name=small|&name=medium/, "&name=large");',
-    '                });',
-    '',
-    '                // Also capture video thumbnails and mark tweet as having video for transcription',
-    '                var videoEls = tweet.querySelectorAll("video");',
-    '                videoEls.forEach(function(v) {',
-    '                    if (v.poster) media.push(v.poster);',
-    '                });',
-    '                if (videoEls.length > 0 && tweetUrl && media.indexOf(tweetUrl) === -1) {',
-    '                    media.push(tweetUrl);',
-    '                }',
-    '',
-    '                // ── Links (comprehensive extraction) ──────────',
-    '                var tweetLinks = [];',
-    '',
-    '                // Links inside tweet text',
-    '                if (textEl) {',
-    '                    textEl.querySelectorAll("a[href]").forEach(function(a) {',
-    '                        var h = a.href;',
-    '                        var lower = h ? h.toLowerCase() : "";',
-    '                        var clean = h ? h.split("?")[0] : "";',
-    '                        var isInternalX = lower.indexOf("https://x.com/") === 0 || lower.indexOf("https://twitter.com/") === 0;',
-    '                        if (h && h.indexOf("/hashtag/") === -1 && !isInternalX) {',
-    '                            tweetLinks.push(clean);',
-    '                        }',
-    '                    });',
-    '                }',
-    '',
-    '                // Card links (article preview cards)',
-    '                var cardLinks = tweet.querySelectorAll(\'[data-testid="card.wrapper"] a[href]\');',
-    '                cardLinks.forEach(function(a) {',
-    '                    var h = a.href;',
-    '                    var lower = h ? h.toLowerCase() : "";',
-    '                    var clean = h ? h.split("?")[0] : "";',
-    '                    var isInternalX = lower.indexOf("https://x.com/") === 0 || lower.indexOf("https://twitter.com/") === 0;',
-    '                    if (h && !isInternalX) tweetLinks.push(clean);',
-    '                });',
-    '',
-    '                // Links in quoted tweets',
-    '                var quotedTweet = tweet.querySelector(\'[data-testid="quoteTweet"]\');',
-    '                if (quotedTweet) {',
-    '                    quotedTweet.querySelectorAll("a[href]").forEach(function(a) {',
-    '                        var h = a.href;',
-    '                        var lower = h ? h.toLowerCase() : "";',
-    '                        var clean = h ? h.split("?")[0] : "";',
-    '                        var isInternalX = lower.indexOf("https://x.com/") === 0 || lower.indexOf("https://twitter.com/") === 0;',
-    '                        if (h && h.indexOf("http") === 0 && h.indexOf("/hashtag/") === -1 && !isInternalX) {',
-    '                            tweetLinks.push(clean);',
-    '                        }',
-    '                    });',
-    '                }',
-    '',
-    '                // All t.co links in the tweet',
-    '                tweet.querySelectorAll(\'a[href^="https://t.co"]\').forEach(function(a) {',
-    '                    tweetLinks.push(a.href.split("?")[0]);',
-    '                });',
-    '',
-    '                // Deduplicate',
-    '                var uniqueLinks = Array.from(new Set(tweetLinks));',
-                '                // ── Update counter ────────────────────────────',
-    '                counter.innerText = processedTweets.size + " synced";',
-    '',
-    '                // ── Send to server ────────────────────────────',
-    '                GM_xmlhttpRequest({',
-    '                    method: "POST",',
-    '                    url: "http://localhost:3001/api/bookmarks",',
-    '                    data: JSON.stringify({',
-    '                        id: tweetId,',
-    '                        url: tweetUrl,',
-    '                        author: author,',
-    '                        text: text,',
-    '                        threadText: threadText,',
-    '                        threadPartCount: threadPartCount,',
-    '                        media: media,',
-    '                        links: uniqueLinks',
-    '                    }),',
-    '                    headers: { "Content-Type": "application/json" },',
-    '                    onload: function(res) { console.log("[XMarks] Saved:", tweetId, "| Text:", text.length + "ch", "| Links:", uniqueLinks.length); },',
-    '                    onerror: function(err) { console.error("[XMarks] Error:", err); }',
-    '                });',
-    '            });',
-    '        }, 1000);',
-    '    }',
-    '})();',
-  ].join('\n');
+  useEffect(() => {
+    fetch('/api/userscript')
+      .then((r) => {
+        if (!r.ok) throw new Error();
+        return r.json();
+      })
+      .then(setInfo)
+      .catch(() => setError('Could not load the userscript. Make sure the server is running.'));
+  }, []);
+
+  const loadSource = async (): Promise<string | null> => {
+    if (source !== null) return source;
+    if (!info) return null;
+    try {
+      const text = await fetch(info.installUrl).then((r) => r.text());
+      setSource(text);
+      return text;
+    } catch (err) {
+      console.error('Failed to load the userscript:', err);
+      return null;
+    }
+  };
+
+  const handleToggleSource = async () => {
+    if (!showSource) await loadSource();
+    setShowSource(!showSource);
+  };
 
   const handleCopy = async () => {
+    const text = await loadSource();
+    if (text === null) return;
     try {
-      await navigator.clipboard.writeText(scriptContent);
+      await navigator.clipboard.writeText(text);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -306,29 +67,66 @@ export default function TampermonkeyScript() {
     }
   };
 
+  if (error) {
+    return (
+      <div className="setup-container">
+        <div className="archive-import-result archive-import-error">
+          <AlertCircle size={14} /> {error}
+        </div>
+      </div>
+    );
+  }
+  if (!info) return null;
+
+  const installed = info.installed;
+
   return (
     <div className="setup-container">
       <div className="setup-card">
         {/* Header */}
         <div className="setup-header">
           <div className="setup-header-text">
-            <h3>Tampermonkey Userscript v3.1</h3>
-            <p>Robust auto-scroll, <strong>full text + article extraction</strong>, video-aware scrolling.</p>
+            <h3>Tampermonkey Userscript v{info.version}</h3>
+            <p>Robust auto-scroll, <strong>full text + article extraction</strong>, video-aware scrolling, batched uploads that are kept and retried while the server is down.</p>
           </div>
-          <button className="copy-btn" onClick={handleCopy}>
-            {copied ? (
-              <><Check size={14} /> Copied!</>
-            ) : (
-              <><Copy size={14} /> Copy Script</>
-            )}
-          </button>
+          <a className="copy-btn" href={info.installUrl}>
+            <Download size={14} /> {info.updateAvailable ? 'Update' : 'Install'}
+          </a>
         </div>
 
-        {/* Code Block */}
-        <div className="setup-code">
-          <pre><code>{scriptContent}</code></pre>
+        {/* Installed version */}
+        <div className="userscript-status">
+          {installed ? (
+            <>
+              <span>
+                Installed: <strong>v{installed.version}</strong> · last synced {new Date(installed.seenAt).toLocaleString()}
+              </span>
+              {info.updateAvailable ? (
+                <span className="userscript-badge userscript-badge-update">v{info.version} available</span>
+              ) : (
+                <span className="userscript-badge">Up to date</span>
+              )}
+            </>
+          ) : (
+            <span>No userscript has synced with this server yet.</span>
+          )}
         </div>
 
+        {/* Source */}
+        <div className="userscript-source-actions">
+          <button className="btn-secondary btn-sm" onClick={handleToggleSource}>
+            <Code size={12} /> {showSource ? 'Hide source' : 'View source'}
+          </button>
+          <button className="btn-secondary btn-sm" onClick={handleCopy}>
+            {copied ? <><Check size={12} /> Copied!</> : <><Copy size={12} /> Copy script</>}
+          </button>
+        </div>
+        {showSource && source !== null && (
+          <div className="setup-code">
+            <pre><code>{source}</code></pre>
+          </div>
+        )}
+
         {/* Instructions */}
         <div className="setup-instructions">
           <h4>How to Install</h4>
@@ -340,13 +138,7 @@ export default function TampermonkeyScript() {
               </a>
             </li>
             <li>
-              Click Tampermonkey icon → <strong>Create a new script</strong>
-            </li>
-            <li>
-              Delete the template and <strong>paste the script above</strong>
-            </li>
-            <li>
-              Save with <strong>Ctrl+S</strong>
+              Click <strong>Install</strong> above and confirm in the Tampermonkey tab that opens
             </li>
             <li>
               Go to{' '}
@@ -362,12 +154,22 @@ export default function TampermonkeyScript() {
             </li>
           </ol>
 
-          <h4 style={{ marginTop: '1.5rem' }}>What's Fixed in v3</h4>
+          <h4 style={{ marginTop: '1.5rem' }}>Configuration</h4>
           <ul className="setup-steps">
-            <li><strong>Auto-scroll won't stop on videos</strong> — pauses video players, uses scroll-position tracking</li>
-            <li><strong>Better text extraction</strong> — fallback strategies for unusual tweet DOM</li>
-            <li><strong>Deeper link capture</strong> — quoted tweets, card wrappers, all t.co links</li>
-            <li><strong>Stuck detection</strong> — stops only after 22.5s of no scroll movement</li>
+            <li>
+              The script is generated for this server — its address
+              {info.tokenRequired ? ' and API token are' : ' is'} built in, so there is nothing to edit
+            </li>
+            <li>
+              Tampermonkey checks this server for new versions and updates the script by itself
+            </li>
+            <li>
+              Features:{' '}
+              {Object.entries(info.features)
+                .map(([name, on]) => `${FEATURE_LABELS[name] ?? name} ${on ? 'on' : 'off'}`)
+                .join(' · ')}{' '}
+              (set <code>XMARKS_USERSCRIPT_FEATURES</code>, e.g. <code>-videoCapture</code>)
+            </li>
           </ul>
         </div>
       </div>
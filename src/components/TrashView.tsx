@@ -0,0 +1,162 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Trash2, RotateCcw, AlertCircle, ExternalLink } from 'lucide-react';
+
+interface TrashedBookmark {
+  id: string;
+  url: string;
+  author: string;
+  source: 'x' | 'web' | 'import' | 'manual';
+  text: string;
+  deleted_at: string;
+  articles: Array<{ id: number; title: string }>;
+  media: string[];
+}
+
+interface Props {
+  refreshKey: number;
+  onChanged: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** SQLite CURRENT_TIMESTAMP is UTC without a zone marker. */
+function parseSqliteDate(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+export default function TrashView({ refreshKey, onChanged }: Props) {
+  const [items, setItems] = useState<TrashedBookmark[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch('/api/trash');
+      if (!response.ok) throw new Error('Failed to fetch trash');
+      const data = await response.json();
+      setItems(data.items);
+      setRetentionDays(data.retentionDays);
+      setError(null);
+    } catch (err) {
+      setError('Error loading the trash. Make sure the server is running.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash, refreshKey]);
+
+  const handleRestore = async (ids: string[]) => {
+    try {
+      const response = await fetch('/api/trash/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      });
+      if (!response.ok) throw new Error('Restore failed');
+      setItems((prev) => prev.filter((b) => !ids.includes(b.id)));
+      onChanged();
+    } catch (err) {
+      console.error('Failed to restore:', err);
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    if (!window.confirm('Delete this bookmark forever? Its media and PDFs are removed from disk.')) return;
+    try {
+      const response = await fetch(`/api/trash/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Purge failed');
+      setItems((prev) => prev.filter((b) => b.id !== id));
+      onChanged();
+    } catch (err) {
+      console.error('Failed to purge:', err);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!window.confirm(`Permanently delete all ${items.length} bookmarks in the trash? This cannot be undone.`)) return;
+    try {
+      const response = await fetch('/api/trash', { method: 'DELETE' });
+      if (!response.ok) throw new Error('Empty trash failed');
+      setItems([]);
+      onChanged();
+    } catch (err) {
+      console.error('Failed to empty trash:', err);
+    }
+  };
+
+  if (loading) {
+    return <div className="state-loading"><div className="spinner" /></div>;
+  }
+
+  if (error && items.length === 0) {
+    return <div className="state-error"><AlertCircle /><span>{error}</span></div>;
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="state-empty">
+        <Trash2 />
+        <h3>Trash is empty</h3>
+        <p>Deleted bookmarks stay here for {retentionDays} days before they are removed for good.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="trash-view">
+      <div className="bookmarks-header">
+        <h2>
+          Trash
+          <span className="bookmarks-count">({items.length})</span>
+        </h2>
+        <div className="queue-bulk-actions">
+          <button className="btn-secondary btn-sm" onClick={() => handleRestore(items.map((b) => b.id))}>
+            <RotateCcw size={12} /> Restore all
+          </button>
+          <button className="delete-all-btn" onClick={handleEmpty}>
+            <Trash2 size={14} /> Empty trash
+          </button>
+        </div>
+      </div>
+      <p className="trash-note">Items are deleted permanently {retentionDays} days after they were moved here.</p>
+
+      <ul className="queue-list">
+        {items.map((item) => {
+          const deletedAt = parseSqliteDate(item.deleted_at);
+          const daysLeft = Math.max(0, Math.ceil((deletedAt.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+          return (
+            <li key={item.id} className="queue-item">
+              <div className="queue-item-row">
+                <div className="queue-item-main">
+                  <div className="queue-item-title">
+                    {item.articles[0]?.title || item.author.split('\n')[0]}
+                    <a href={item.url} target="_blank" rel="noopener noreferrer" className="bookmark-link" title={item.source === 'x' ? 'View original tweet' : 'Open page'}>
+                      <ExternalLink size={12} />
+                    </a>
+                  </div>
+                  <p className="queue-item-text">{item.text}</p>
+                  <span className="trash-meta">
+                    Deleted {deletedAt.toLocaleDateString()} · {daysLeft === 0 ? 'purged soon' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                  </span>
+                </div>
+                <div className="queue-item-actions">
+                  <button className="btn-secondary btn-sm" onClick={() => handleRestore([item.id])}>
+                    <RotateCcw size={12} /> Restore
+                  </button>
+                  <button className="delete-btn" onClick={() => handlePurge(item.id)} title="Delete forever">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface Props {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** Auto-dismiss after this many milliseconds. */
+  duration?: number;
+}
+
+export default function UndoToast({ message, onUndo, onDismiss, duration = 8000 }: Props) {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div className="undo-toast" role="status">
+      <span>{message}</span>
+      <button className="undo-toast-action" onClick={onUndo}>
+        <Undo2 size={14} /> Undo
+      </button>
+      <button className="undo-toast-close" onClick={onDismiss} title="Dismiss">
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useRef } from 'react';
+
+/** Payloads of the job events pushed on /api/events. */
+export interface JobEvent {
+  id: number;
+  type: 'media' | 'extract' | 'pdf_text' | 'transcribe' | 'x_archive';
+  bookmarkId: string | null;
+  status: 'pending' | 'running' | 'done' | 'dead';
+  attempts: number;
+  maxAttempts: number;
+  error?: string;
+}
+
+/** A batch of server events. `bookmarkIds` is empty after a reconnect, meaning "anything may have changed". */
+export interface LiveUpdate {
+  seq: number;
+  bookmarkIds: string[];
+  failedJobs: JobEvent[];
+}
+
+/** Events arriving within this window are delivered together (a sync produces bursts). */
+const BATCH_DELAY_MS = 500;
+
+/**
+ * Subscribe to the server's SSE stream and call `onUpdate` with batched changes.
+ * EventSource reconnects on its own; a reconnect is reported as a full refresh.
+ */
+export function useServerEvents(onUpdate: (update: LiveUpdate) => void) {
+  const callback = useRef(onUpdate);
+  callback.current = onUpdate;
+
+  useEffect(() => {
+    const source = new EventSource('/api/events');
+    let seq = 0;
+    let pending: { ids: Set<string>; failed: JobEvent[]; full: boolean } | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let hadError = false;
+
+    const queue = (change: (batch: NonNullable<typeof pending>) => void) => {
+      pending ??= { ids: new Set(), failed: [], full: false };
+      change(pending);
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        const batch = pending!;
+        pending = null;
+        callback.current({ seq: ++seq, bookmarkIds: batch.full ? [] : [...batch.ids], failedJobs: batch.failed });
+      }, BATCH_DELAY_MS);
+    };
+
+    const onBookmark = (e: MessageEvent) => {
+      const { id } = JSON.parse(e.data) as { id: string };
+      queue((batch) => batch.ids.add(id));
+    };
+    const onJobProgress = (e: MessageEvent) => {
+      const job = JSON.parse(e.data) as JobEvent;
+      // Only finished work changes what the dashboard shows
+      if (job.status === 'done' && job.bookmarkId) {
+        const bookmarkId = job.bookmarkId;
+        queue((batch) => batch.ids.add(bookmarkId));
+      }
+    };
+    const onJobFailed = (e: MessageEvent) => {
+      const job = JSON.parse(e.data) as JobEvent;
+      queue((batch) => {
+        batch.failed.push(job);
+        if (job.bookmarkId) batch.ids.add(job.bookmarkId);
+      });
+    };
+
+    source.addEventListener('bookmark-created', onBookmark);
+    source.addEventListener('bookmark-updated', onBookmark);
+    source.addEventListener('job-progress', onJobProgress);
+    source.addEventListener('job-failed', onJobFailed);
+    source.onerror = () => {
+      hadError = true;
+    };
+    source.onopen = () => {
+      // Events sent while we were disconnected are lost, so refresh everything
+      if (hadError) queue((batch) => (batch.full = true));
+      hadError = false;
+    };
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      source.close();
+    };
+  }, []);
+}
@@ -0,0 +1,56 @@
+-- Database as created by builds before schema versioning (user_version 0):
+-- no pdf_path on articles, no transcript index, no full-text search table.
+CREATE TABLE bookmarks (
+  id TEXT PRIMARY KEY,
+  url TEXT,
+  author TEXT,
+  text TEXT,
+  tags TEXT DEFAULT NULL,
+  saved_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE TABLE media (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  bookmark_id TEXT,
+  url TEXT,
+  FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+);
+CREATE TABLE links (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  bookmark_id TEXT,
+  original_url TEXT,
+  resolved_url TEXT,
+  is_article INTEGER DEFAULT 0,
+  FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+);
+CREATE TABLE articles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  bookmark_id TEXT,
+  url TEXT,
+  title TEXT,
+  author TEXT,
+  content TEXT,
+  content_md TEXT,
+  excerpt TEXT,
+  site_name TEXT,
+  extracted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+);
+CREATE TABLE transcripts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  bookmark_id TEXT,
+  video_url TEXT,
+  transcript TEXT,
+  transcribed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY(bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE
+);
+
+INSERT INTO bookmarks (id, url, author, text, tags, saved_at) VALUES
+  ('1001', 'https://x.com/alice/status/1001', 'Alice · @alice', 'Read this on vector databases', 'ml, to-read', '2024-06-01 10:00:00'),
+  ('1002', 'https://x.com/bob/status/1002', 'Bob · @bob', 'Talk recording', NULL, '2024-06-02 11:00:00');
+INSERT INTO media (bookmark_id, url) VALUES ('1002', 'https://x.com/bob/status/1002');
+INSERT INTO links (bookmark_id, original_url, resolved_url, is_article) VALUES
+  ('1001', 'https://t.co/abc', 'https://example.com/vectors', 1);
+INSERT INTO articles (bookmark_id, url, title, author, content, content_md, excerpt, site_name) VALUES
+  ('1001', 'https://example.com/vectors', 'Vector search 101', NULL, '<p>HNSW graphs</p>', 'HNSW graphs explained', 'HNSW', 'Example');
+INSERT INTO transcripts (bookmark_id, video_url, transcript) VALUES
+  ('1002', 'https://x.com/bob/status/1002', 'welcome to the keynote about compilers');
@@ -52,9 +52,28 @@ async function apiMultipart(path: string, fieldName: string, buffer: Buffer, fil
     return { status: res.status, data: await res.json() };
 }
 
+async function getBookmark(id: string) {
+    const { status, data } = await api('GET', `/api/bookmarks/${id}`);
+    return status === 200 ? data : null;
+}
+
+/** Walk every page of GET /api/bookmarks. */
+async function getAllBookmarks() {
+    const all: any[] = [];
+    let cursor: string | null = null;
+    do {
+        const query: string = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+        const { data } = await api('GET', `/api/bookmarks?limit=200${query}`);
+        all.push(...data.items);
+        cursor = data.nextCursor;
+    } while (cursor);
+    return all;
+}
+
 async function cleanup(ids: string[]) {
     for (const id of ids) {
         await api('DELETE', `/api/bookmarks/${id}`);
+        await api('DELETE', `/api/trash/${id}`);
     }
 }
 
@@ -99,8 +118,7 @@ async function testBookmarkSave() {
     await new Promise(r => setTimeout(r, 3000));
 
     // Verify it exists
-    const { data: bookmarks } = await api('GET', '/api/bookmarks');
-    const found = bookmarks.find((b: any) => b.id === testId);
+    const found = await getBookmark(testId);
 
     if (found) {
         if (found.text === 'This is a test tweet with some text content.') {
@@ -115,7 +133,7 @@ async function testBookmarkSave() {
             fail('Media preserved', `Expected >= 1, got ${found.media.length}`);
         }
     } else {
-        fail('Bookmark retrievable', 'Not found in GET /api/bookmarks');
+        fail('Bookmark retrievable', 'Not found in GET /api/bookmarks/:id');
     }
 
     // UPSERT test: re-posting with new text should update it
@@ -130,8 +148,7 @@ async function testBookmarkSave() {
 
     if (data2.saved) {
         // Verify text was updated
-        const { data: updated } = await api('GET', '/api/bookmarks');
-        const updatedBookmark = updated.find((b: any) => b.id === testId);
+        const updatedBookmark = await getBookmark(testId);
         if (updatedBookmark && updatedBookmark.text === 'Updated text should overwrite') {
             pass('UPSERT updates text on re-sync');
         } else {
@@ -144,6 +161,113 @@ async function testBookmarkSave() {
     await cleanup([testId]);
 }
 
+async function testTweetMetadata() {
+    console.log('\n═══ TWEET METADATA ═══');
+    const testId = 'test_meta_001';
+    await api('POST', '/api/bookmarks', {
+        id: testId,
+        url: 'https://x.com/testuser/status/456',
+        author: 'Test User · @testuser',
+        text: 'A reply with a poll',
+        postedAt: '2024-05-01T08:30:00.000Z',
+        replyCount: 2,
+        retweetCount: 5,
+        likeCount: 40,
+        inReplyTo: { id: '455', author: '@parent' },
+        quoted: { id: '400', author: 'Quoted · @quoted', text: 'Quoted words' },
+        poll: [{ label: 'Yes', percent: 70 }, { label: 'No', percent: 30 }],
+    });
+
+    const found = await getBookmark(testId);
+    if (found?.posted_at === '2024-05-01 08:30:00' && found.like_count === 40 && found.in_reply_to_id === '455') {
+        pass('Posted time, counts and reply target stored');
+    } else {
+        fail('Tweet metadata stored', JSON.stringify(found));
+    }
+    if (found?.quoted_text === 'Quoted words' && found.poll?.length === 2) {
+        pass('Quoted tweet and poll stored');
+    } else {
+        fail('Quoted tweet and poll stored', JSON.stringify(found));
+    }
+
+    const { status } = await api('POST', '/api/bookmarks', { id: testId, likeCount: 'many' });
+    if (status === 400) {
+        pass('Invalid count rejected');
+    } else {
+        fail('Invalid count rejected', `status ${status}`);
+    }
+
+    await cleanup([testId]);
+}
+
+async function testGraphqlPayload() {
+    console.log('\n═══ GRAPHQL PAYLOAD ═══');
+    const testId = '9000000000000000001';
+    const { status } = await api('POST', '/api/bookmarks', {
+        id: testId,
+        graphql: {
+            __typename: 'Tweet',
+            rest_id: testId,
+            core: { user_results: { result: { legacy: { name: 'Test User', screen_name: 'testuser' } } } },
+            legacy: {
+                full_text: 'Captured from the API https://t.co/x',
+                created_at: 'Wed May 01 08:30:00 +0000 2024',
+                favorite_count: 7,
+                entities: { urls: [{ url: 'https://t.co/x', expanded_url: 'https://example.com/' }] },
+            },
+        },
+    });
+
+    const found = await getBookmark(testId);
+    if (status === 200 && found?.text === 'Captured from the API https://example.com/' && found.like_count === 7) {
+        pass('GraphQL tweet parsed and stored');
+    } else {
+        fail('GraphQL tweet parsed and stored', `status ${status}: ${JSON.stringify(found)}`);
+    }
+
+    const { status: rejected } = await api('POST', '/api/bookmarks', { graphql: { __typename: 'TweetTombstone' } });
+    if (rejected === 400) {
+        pass('Unreadable GraphQL tweet rejected');
+    } else {
+        fail('Unreadable GraphQL tweet rejected', `status ${rejected}`);
+    }
+
+    await cleanup([testId]);
+}
+
+async function testSyncSession() {
+    console.log('\n═══ SYNC SESSIONS ═══');
+    const keptId = 'test_session_kept';
+    const goneId = 'test_session_gone';
+    for (const id of [keptId, goneId]) {
+        await api('POST', '/api/bookmarks', { id, url: `https://x.com/testuser/status/${id}`, author: 'Test User · @testuser', text: id });
+    }
+    // Saved bookmarks must predate the session to be flagged
+    const startedAt = new Date(Date.now() + 2000).toISOString();
+    const finishedAt = new Date(Date.now() + 3000).toISOString();
+
+    const { status: rejected } = await api('POST', '/api/sync-sessions', { startedAt, finishedAt, complete: true, ids: [] });
+    if (rejected === 400) {
+        pass('Complete session without ids rejected');
+    } else {
+        fail('Complete session without ids rejected', `status ${rejected}`);
+    }
+
+    // Every other x bookmark on this server is flagged too; only the test ones are checked
+    const { data } = await api('POST', '/api/sync-sessions', { startedAt, finishedAt, complete: true, ids: [keptId] });
+    const gone = await getBookmark(goneId);
+    const kept = await getBookmark(keptId);
+    if (data.removed?.includes(goneId) && gone?.removed_upstream_at && !kept?.removed_upstream_at && kept?.last_seen_at) {
+        pass('Complete session flags bookmarks it did not see');
+    } else {
+        fail('Complete session flags bookmarks it did not see', JSON.stringify(data));
+    }
+
+    // Put back what this test flagged, as a later sync would
+    await api('POST', '/api/sync-sessions', { startedAt, finishedAt, complete: false, ids: data.removed ?? [] });
+    await cleanup([keptId, goneId]);
+}
+
 async function testEmptyTextBookmark() {
     console.log('\n═══ EMPTY TEXT (video-only tweets) ═══');
     const testId = 'test_empty_text_001';
@@ -158,8 +282,7 @@ async function testEmptyTextBookmark() {
         links: [],
     });
 
-    const { data: bookmarks } = await api('GET', '/api/bookmarks');
-    const found = bookmarks.find((b: any) => b.id === testId);
+    const found = await getBookmark(testId);
 
     if (found) {
         pass('Empty-text bookmark saved', 'Text-less tweets are valid (video/image only)');
@@ -190,8 +313,7 @@ async function testArticleExtraction() {
     log('Waiting 10s for async article extraction...');
     await new Promise(r => setTimeout(r, 10000));
 
-    const { data: bookmarks } = await api('GET', '/api/bookmarks');
-    const found = bookmarks.find((b: any) => b.id === testId);
+    const found = await getBookmark(testId);
 
     if (!found) {
         fail('Bookmark with article retrievable');
@@ -258,8 +380,7 @@ async function testPdfAttach() {
     }
     pass('PDF attach returns 200 and success');
 
-    const { data: bookmarks } = await api('GET', '/api/bookmarks');
-    const found = bookmarks.find((b: any) => b.id === testId);
+    const found = await getBookmark(testId);
     if (!found || !found.articles || found.articles.length === 0) {
         fail('Bookmark has article after PDF attach');
         await cleanup([testId]);
@@ -280,8 +401,8 @@ async function testPdfAttach() {
     await cleanup([testId]);
 }
 
-async function testSyntheticArticle() {
-    console.log('\n═══ SYNTHETIC ARTICLE (tweet thread) ═══');
+async function testThread() {
+    console.log('\n═══ THREAD (ordered posts) ═══');
     const testId = 'test_thread_001';
 
     await api('POST', '/api/bookmarks', {
@@ -289,27 +410,56 @@ async function testSyntheticArticle() {
         url: 'https://x.com/user/status/222',
         author: 'Thread Author · @threader',
         text: 'First tweet text',
-        threadText: 'First tweet text\n\n---\n\nSecond tweet in thread.',
+        thread: [
+            { id: '222', text: 'First tweet text' },
+            { id: '223', text: 'Second tweet in thread.' },
+        ],
         media: [],
         links: [],
     });
 
-    const { data: bookmarks } = await api('GET', '/api/bookmarks');
-    const found = bookmarks.find((b: any) => b.id === testId);
+    const found = await getBookmark(testId);
     if (!found) {
-        fail('Bookmark saved with threadText');
+        fail('Bookmark saved with thread');
         await cleanup([testId]);
         return;
     }
-    if (found.articles && found.articles.length > 0) {
-        const art = found.articles[0];
-        if (art.site_name === 'X' && art.content_md && art.content_md.includes('Second tweet')) {
-            pass('Synthetic thread article saved', 'site_name=X, content has thread');
-        } else {
-            pass('Synthetic article present', art.title || '');
-        }
+    const posts = found.thread || [];
+    if (posts.length === 2 && posts[1].tweet_id === '223' && posts[1].text === 'Second tweet in thread.') {
+        pass('Thread saved as posts', `${posts.length} posts in order`);
     } else {
-        fail('Synthetic article from threadText', 'No articles');
+        fail('Thread saved as posts', JSON.stringify(posts));
+    }
+    if (!found.articles || found.articles.length === 0) {
+        pass('No synthetic article for a thread');
+    } else {
+        fail('No synthetic article for a thread', found.articles[0].title || '');
+    }
+
+    await cleanup([testId]);
+}
+
+async function testXArticle() {
+    console.log('\n═══ X ARTICLE (rendered page) ═══');
+    const testId = 'test_xarticle_001';
+
+    await api('POST', '/api/bookmarks', {
+        id: testId,
+        url: 'https://x.com/user/status/333',
+        author: 'Article Author · @writer',
+        text: 'An X Article',
+        article: {
+            title: 'Long-form post',
+            html: '<h2>Intro</h2><p>Plain <strong>files</strong> win.</p><ul><li>One</li></ul><pre><code>ls</code></pre>',
+        },
+    });
+
+    const found = await getBookmark(testId);
+    const article = found?.articles?.find((a: any) => a.site_name === 'X Article');
+    if (article && article.title === 'Long-form post') {
+        pass('X Article saved', article.title);
+    } else {
+        fail('X Article saved', found ? JSON.stringify(found.articles) : 'Bookmark not found');
     }
 
     await cleanup([testId]);
@@ -333,8 +483,7 @@ async function testLinkResolution() {
 
     await new Promise(r => setTimeout(r, 3000));
 
-    const { data: bookmarks } = await api('GET', '/api/bookmarks');
-    const found = bookmarks.find((b: any) => b.id === testId);
+    const found = await getBookmark(testId);
 
     if (found) {
         pass('Bookmark saved despite unresolvable link');
@@ -408,6 +557,102 @@ async function testDeleteAll() {
     } else {
         fail('Individual deletes', `Expected ${beforeCount - 3}, got ${after.totalBookmarks}`);
     }
+
+    // Deletes go to the trash: restore one, then purge all three
+    const { data: restored } = await api('POST', '/api/trash/restore', { ids: ['test_bulk_0'] });
+    const { data: afterRestore } = await api('GET', '/api/stats');
+    if (restored.restored === 1 && afterRestore.totalBookmarks === beforeCount - 2) {
+        pass('Restore from trash');
+    } else {
+        fail('Restore from trash', JSON.stringify(restored));
+    }
+    await cleanup([0, 1, 2].map((i) => `test_bulk_${i}`));
+    const { data: trash } = await api('GET', '/api/trash');
+    if (!trash.items.some((b: { id: string }) => b.id.startsWith('test_bulk_'))) {
+        pass('Purge from trash');
+    } else {
+        fail('Purge from trash', 'test bookmarks still in trash');
+    }
+}
+
+async function testBatchSave() {
+    console.log('\n═══ BATCH SAVE ═══');
+    const ids = ['test_batch_0', 'test_batch_1'];
+    const { status, data } = await api('POST', '/api/bookmarks/batch', {
+        bookmarks: [
+            { id: ids[0], url: 'https://x.com/test/status/batch0', author: 'Batch Test', text: 'Batch tweet 0', media: [], links: [] },
+            { id: ids[1], url: 'https://x.com/test/status/batch1', author: 'Batch Test', text: 'Batch tweet 1', media: [], links: [] },
+            { text: 'missing id' },
+        ],
+    });
+
+    if (status === 200 && data.counts?.created === 2 && data.counts?.rejected === 1) {
+        pass('Batch saves valid items and rejects invalid ones');
+    } else {
+        fail('Batch save', JSON.stringify(data));
+    }
+
+    const { data: again } = await api('POST', '/api/bookmarks/batch', {
+        bookmarks: [{ id: ids[0], url: 'https://x.com/test/status/batch0', author: 'Batch Test', text: 'Batch tweet 0' }],
+    });
+    if (again.results?.[0]?.result === 'unchanged') {
+        pass('Re-sending an identical bookmark is unchanged');
+    } else {
+        fail('Batch unchanged', JSON.stringify(again));
+    }
+
+    await cleanup(ids);
+}
+
+async function testUrlSave() {
+    console.log('\n═══ SAVE BY URL ═══');
+    const { status: badStatus } = await api('POST', '/api/bookmarks/url', { url: 'ftp://example.com/file' });
+    if (badStatus === 400) {
+        pass('Non-http URL rejected');
+    } else {
+        fail('Non-http URL rejected', `status ${badStatus}`);
+    }
+
+    const { status, data } = await api('POST', '/api/bookmarks/url', { url: 'https://en.wikipedia.org/wiki/Bookmark_(digital)#top' });
+    const bookmark = data.bookmark;
+    if ((status === 201 || status === 200) && bookmark?.source === 'web' && bookmark.id?.startsWith('url-')) {
+        pass('Web page saved with a URL id', bookmark.id);
+    } else {
+        fail('Web page saved', JSON.stringify(data));
+        return;
+    }
+    if (bookmark.articles?.length > 0 && bookmark.text !== bookmark.url) {
+        pass('Article extracted before answering', `Title: "${bookmark.text}"`);
+    } else {
+        fail('Article extracted before answering', JSON.stringify(bookmark.processing));
+    }
+
+    const { data: again } = await api('POST', '/api/bookmarks/url', { url: 'https://en.wikipedia.org/wiki/Bookmark_(digital)' });
+    if (again.bookmark?.id === bookmark.id && again.result === 'updated') {
+        pass('Saving the same URL again updates the same bookmark');
+    } else {
+        fail('Same URL, same bookmark', JSON.stringify(again));
+    }
+
+    await cleanup([bookmark.id]);
+}
+
+async function testUserscript() {
+    console.log('\n═══ USERSCRIPT ═══');
+    const { status, data } = await api('GET', '/api/userscript');
+    if (status !== 200 || !data.version) {
+        fail('Userscript info', JSON.stringify(data));
+        return;
+    }
+    pass('Userscript info', `v${data.version}`);
+
+    const res = await fetch(`${API}${data.installUrl}`);
+    const script = await res.text();
+    if (res.ok && script.includes('// @updateURL') && script.includes(`// @version      ${data.version}`) && /var XMARKS_CONFIG = \{"serverUrl":/.test(script)) {
+        pass('Userscript served with update URL and config');
+    } else {
+        fail('Userscript served', script.slice(0, 200));
+    }
 }
 
 async function testExport() {
@@ -426,7 +671,7 @@ async function testExport() {
 
 async function testExistingData() {
     console.log('\n═══ DATA QUALITY AUDIT ═══');
-    const { data: bookmarks } = await api('GET', '/api/bookmarks');
+    const bookmarks = await getAllBookmarks();
 
     const emptyText = bookmarks.filter((b: any) => !b.text || b.text.trim() === '');
     const withArticles = bookmarks.filter((b: any) => b.articles && b.articles.length > 0);
@@ -457,13 +702,20 @@ async function main() {
 
     await testServerHealth();
     await testBookmarkSave();
+    await testTweetMetadata();
+    await testGraphqlPayload();
+    await testSyncSession();
     await testEmptyTextBookmark();
     await testPdfAttach();
-    await testSyntheticArticle();
+    await testThread();
+    await testXArticle();
     await testArticleExtraction();
     await testLinkResolution();
     await testSearch();
     await testDeleteAll();
+    await testBatchSave();
+    await testUrlSave();
+    await testUserscript();
     await testExport();
     await testExistingData();
 
@@ -43,7 +43,9 @@ describe('articleExtractor', () => {
 
   it('isLikelyArticle skips social and media', () => {
     expect(isLikelyArticle('https://twitter.com/x')).toBe(false);
-    expect(isLikelyArticle('https://youtube.com/watch?v=1')).toBe(false);
+    expect(isLikelyArticle('https://youtube.com/@channel')).toBe(false);
+    // Videos have a site extractor
+    expect(isLikelyArticle('https://youtube.com/watch?v=1')).toBe(true);
     expect(isLikelyArticle('https://pbs.twimg.com/media/x.jpg')).toBe(false);
     expect(isLikelyArticle('https://example.com/post')).toBe(true);
     expect(isLikelyArticle('https://blog.example.com/2024/article')).toBe(true);
@@ -1,4 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import {
   initDb,
   upsertBookmark,
@@ -12,10 +16,55 @@ import {
   upsertTranscript,
   enrichBookmarks,
   searchBookmarks,
+  parseSnippet,
   getStats,
   deleteAllBookmarks,
   deleteBookmark,
+  addTagsToBookmark,
+  removeTagsFromBookmark,
+  getTags,
+  renameTag,
+  mergeTags,
+  getCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  getCollectionBookmarks,
+  addBookmarksToCollection,
+  removeBookmarksFromCollection,
+  reorderCollectionBookmarks,
+  setBookmarkNotes,
+  createHighlight,
+  getHighlights,
+  updateHighlightComment,
+  deleteHighlight,
+  setBookmarkStatus,
+  setReadProgress,
+  restoreBookmarks,
+  getTrash,
+  getExpiredTrashIds,
+  purgeBookmarks,
+  listBookmarks,
+  summarizeBookmarks,
+  InvalidCursorError,
+  startProcessingStep,
+  finishProcessingStep,
+  getProcessingStatus,
+  getProcessingInput,
+  recordSyncSession,
+  markSeenUpstream,
+  getRemovedUpstreamIds,
+  getThreadPosts,
+  replaceThreadPosts,
+  updateTweetMetadata,
+  getPollOptions,
+  EMPTY_TWEET_METADATA,
 } from '../../lib/db.js';
+import { SearchQuerySyntaxError } from '../../lib/searchQuery.js';
+import { runMigrations, getSchemaVersion, SCHEMA_VERSION, MIGRATIONS, type Migration } from '../../lib/migrations.js';
+
+const LEGACY_FIXTURE = path.join(__dirname, '..', 'fixtures', 'legacy-schema-v0.sql');
 
 describe('db', () => {
   let db: ReturnType<typeof initDb>;
@@ -127,6 +176,79 @@ describe('db', () => {
     expect(enriched[0].transcripts[0].transcript).toBe('Transcript text');
   });
 
+  it('summarizeBookmarks leaves out article and transcript bodies', () => {
+    upsertBookmark(db, { id: 'b1', url: 'u1', author: 'A', text: 'T1' });
+    upsertBookmark(db, { id: 'b2', url: 'u2', author: 'B', text: 'T2' });
+    replaceLinksAndArticles(db, 'b1', [], [
+      { url: 'https://a.com', title: 'Title', author: null, content: '', contentMd: '# Hi there', excerpt: null, siteName: null },
+    ]);
+    upsertTranscript(db, 'b1', 'https://v.com', 'Transcript text');
+    createHighlight(db, 'b1', { targetType: 'article', targetKey: 'https://a.com', start: 2, end: 4 });
+    const [summary] = summarizeBookmarks(db, getBookmarks(db).filter((b) => b.id === 'b1'));
+    expect(summary.articles[0]).toMatchObject({ title: 'Title', content_length: 10 });
+    expect(summary.articles[0]).not.toHaveProperty('content_md');
+    expect(summary.transcripts[0]).not.toHaveProperty('transcript');
+    expect(summary.highlight_count).toBe(1);
+    expect(summarizeBookmarks(db, [])).toEqual([]);
+  });
+
+  it('listBookmarks pages with a cursor and stays stable as bookmarks arrive', () => {
+    for (let i = 1; i <= 5; i++) {
+      upsertBookmark(db, { id: `b${i}`, url: '', author: '', text: '' });
+      db.prepare('UPDATE bookmarks SET saved_at = ? WHERE id = ?').run(`2025-01-0${i} 00:00:00`, `b${i}`);
+    }
+    const first = listBookmarks(db, { limit: 2 });
+    expect(first.items.map((b) => b.id)).toEqual(['b5', 'b4']);
+    expect(first.total).toBe(5);
+    upsertBookmark(db, { id: 'b6', url: '', author: '', text: '' });
+    const second = listBookmarks(db, { limit: 2, cursor: first.nextCursor! });
+    expect(second.items.map((b) => b.id)).toEqual(['b3', 'b2']);
+    const last = listBookmarks(db, { limit: 2, cursor: second.nextCursor! });
+    expect(last.items.map((b) => b.id)).toEqual(['b1']);
+    expect(last.nextCursor).toBeNull();
+
+    expect(() => listBookmarks(db, { sort: 'author', cursor: first.nextCursor! })).toThrow(InvalidCursorError);
+    expect(() => listBookmarks(db, { cursor: 'garbage' })).toThrow(InvalidCursorError);
+  });
+
+  it('listBookmarks sorts by author and article count', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: 'carol', text: '' });
+    upsertBookmark(db, { id: 'b2', url: '', author: 'Alice', text: '' });
+    upsertBookmark(db, { id: 'b3', url: '', author: 'bob', text: '' });
+    const article = (url: string) => ({ url, title: 't', author: null, content: '', contentMd: 'x', excerpt: null, siteName: null });
+    replaceLinksAndArticles(db, 'b3', [], [article('https://a.com/1'), article('https://a.com/2')]);
+    replaceLinksAndArticles(db, 'b1', [], [article('https://a.com/3')]);
+
+    expect(listBookmarks(db, { sort: 'author' }).items.map((b) => b.author)).toEqual(['Alice', 'bob', 'carol']);
+    expect(listBookmarks(db, { sort: 'author', order: 'desc' }).items.map((b) => b.id)).toEqual(['b1', 'b3', 'b2']);
+    const byArticles = listBookmarks(db, { sort: 'articles', limit: 1 });
+    expect(byArticles.items.map((b) => b.id)).toEqual(['b3']);
+    const rest = listBookmarks(db, { sort: 'articles', cursor: byArticles.nextCursor! });
+    expect(rest.items.map((b) => b.id)).toEqual(['b1', 'b2']);
+  });
+
+  it('listBookmarks filters by has, site, status and collection', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
+    upsertBookmark(db, { id: 'b2', url: '', author: '', text: '' });
+    upsertBookmark(db, { id: 'b3', url: '', author: '', text: '' });
+    insertMedia(db, 'b1', '/media/b1/x.jpg');
+    replaceLinksAndArticles(db, 'b2', [{ originalUrl: 'u', resolvedUrl: 'https://www.arxiv.org/abs/1', isArticle: false }], []);
+    upsertTranscript(db, 'b3', 'https://v', 't');
+    setBookmarkStatus(db, ['b3'], 'done');
+    const c = createCollection(db, 'C')!;
+    addBookmarksToCollection(db, c.id, ['b3', 'b1']);
+
+    const ids = (options: Parameters<typeof listBookmarks>[1]) =>
+      listBookmarks(db, options).items.map((b) => b.id).sort();
+    expect(ids({ has: ['media'] })).toEqual(['b1']);
+    expect(ids({ has: ['transcript', 'media'] })).toEqual([]);
+    expect(ids({ site: 'arxiv.org' })).toEqual(['b2']);
+    expect(ids({ statuses: ['done'] })).toEqual(['b3']);
+    expect(listBookmarks(db, { collectionId: c.id }).items.map((b) => b.id)).toEqual(['b3', 'b1']);
+    expect(listBookmarks(db, { collectionId: c.id, statuses: ['inbox'] }).total).toBe(1);
+    expect(() => listBookmarks(db, { sort: 'position' })).toThrow();
+  });
+
   it('searchBookmarks finds by text and author', () => {
     upsertBookmark(db, { id: 'b1', url: '', author: 'Alice', text: 'xylophone' });
     upsertBookmark(db, { id: 'b2', url: '', author: 'Bob', text: 'other' });
@@ -135,6 +257,274 @@ describe('db', () => {
     expect(searchBookmarks(db, 'none')).toHaveLength(0);
   });
 
+  it('searchBookmarks matches article bodies and transcripts', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: 'Alice', text: 'short tweet' });
+    upsertBookmark(db, { id: 'b2', url: '', author: 'Bob', text: 'another' });
+    replaceLinksAndArticles(db, 'b1', [], [
+      { url: 'https://a.com', title: 'Compilers', author: null, content: '', contentMd: 'Deep dive into register allocation', excerpt: null, siteName: null },
+    ]);
+    upsertTranscript(db, 'b2', 'https://v.com', 'we talk about sourdough baking');
+    expect(searchBookmarks(db, 'allocation').map((b) => b.id)).toEqual(['b1']);
+    expect(searchBookmarks(db, 'sourdough').map((b) => b.id)).toEqual(['b2']);
+    replaceLinksAndArticles(db, 'b1', [], []);
+    expect(searchBookmarks(db, 'allocation')).toHaveLength(0);
+  });
+
+  it('searchBookmarks stems, prefix-matches and ranks by bm25', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: 'A', text: 'notes' });
+    upsertBookmark(db, { id: 'b2', url: '', author: 'B', text: 'benchmarking the new benchmarks' });
+    replaceLinksAndArticles(db, 'b1', [], [
+      { url: '', title: 'Misc', author: null, content: '', contentMd: 'one benchmark buried in a long body of unrelated words', excerpt: null, siteName: null },
+    ]);
+    expect(searchBookmarks(db, 'benchmarked').map((b) => b.id)).toEqual(['b2', 'b1']);
+    expect(searchBookmarks(db, 'bench').map((b) => b.id)).toEqual(['b2', 'b1']);
+  });
+
+  it('searchBookmarks tolerates FTS syntax in user input', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: 'A', text: 'C++ "templates" AND more' });
+    expect(searchBookmarks(db, 'templates AND (')).toHaveLength(1);
+    expect(searchBookmarks(db, '( ++')).toHaveLength(0);
+    expect(() => searchBookmarks(db, '"')).toThrow(SearchQuerySyntaxError);
+  });
+
+  it('searchBookmarks applies field filters and negation', () => {
+    upsertBookmark(db, { id: 'b1', url: 'https://x.com/k/status/1', author: 'Andrej · @karpathy', text: 'new paper on scaling' });
+    upsertBookmark(db, { id: 'b2', url: 'https://x.com/o/status/2', author: 'Other · @other', text: 'scaling my startup' });
+    replaceLinksAndArticles(
+      db,
+      'b1',
+      [{ originalUrl: 'https://t.co/a', resolvedUrl: 'https://www.arxiv.org/abs/1234', isArticle: true }],
+      [{ url: 'https://arxiv.org/abs/1234', title: 'Paper', author: null, content: '', contentMd: 'abstract', excerpt: null, siteName: null, pdf_path: 'b1/a.pdf' }]
+    );
+    insertMedia(db, 'b2', 'https://x.com/o/status/2');
+
+    const ids = (q: string) => searchBookmarks(db, q).map((b) => b.id).sort();
+    expect(ids('author:@karpathy')).toEqual(['b1']);
+    expect(ids('scaling site:arxiv.org')).toEqual(['b1']);
+    expect(ids('scaling -site:arxiv.org')).toEqual(['b2']);
+    expect(ids('has:pdf')).toEqual(['b1']);
+    expect(ids('has:video')).toEqual(['b2']);
+    expect(ids('scaling -startup')).toEqual(['b1']);
+    expect(ids('after:2000-01-01')).toEqual(['b1', 'b2']);
+    expect(ids('before:2000-01-01')).toEqual([]);
+    // LIKE wildcards in values match literally
+    expect(ids('site:_')).toEqual([]);
+    expect(ids('site:%')).toEqual([]);
+    expect(ids('author:%')).toEqual([]);
+    expect(ids('author:_karpathy')).toEqual([]);
+  });
+
+  it('searchBookmarks returns per-field snippets with match offsets', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: 'A', text: 'Intro tweet' });
+    replaceLinksAndArticles(db, 'b1', [], [
+      {
+        url: '',
+        title: 'Long read',
+        author: null,
+        content: '',
+        contentMd: 'Lots of preamble text here before the interesting part about quantization tricks appears.',
+        excerpt: null,
+        siteName: null,
+      },
+    ]);
+    const [hit] = searchBookmarks(db, 'quantization');
+    expect(hit.id).toBe('b1');
+    expect(hit).not.toHaveProperty('snippet_text');
+    expect(hit.snippets.map((s) => s.field)).toEqual(['article_content']);
+    const snippet = hit.snippets[0];
+    expect(snippet.matches).toHaveLength(1);
+    const { start, end } = snippet.matches[0];
+    expect(snippet.text.slice(start, end)).toBe('quantization');
+  });
+
+  it('parseSnippet strips markers and records offsets', () => {
+    const s = parseSnippet('text', '…a \u0002foo\u0003 and \u0002bar\u0003');
+    expect(s.text).toBe('…a foo and bar');
+    expect(s.matches).toEqual([{ start: 3, end: 6 }, { start: 11, end: 14 }]);
+  });
+
+  it('addTagsToBookmark and removeTagsFromBookmark normalize and dedupe names', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
+    expect(addTagsToBookmark(db, 'b1', ['#ML', ' to   read ', 'ml', ''])).toEqual(['ML', 'to read']);
+    expect(removeTagsFromBookmark(db, 'b1', ['Ml'])).toEqual(['to read']);
+    expect(enrichBookmarks(db, getBookmarks(db))[0].tags).toEqual(['to read']);
+  });
+
+  it('renameTag refuses to collide and mergeTags combines', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
+    upsertBookmark(db, { id: 'b2', url: '', author: '', text: '' });
+    addTagsToBookmark(db, 'b1', ['llm', 'ai']);
+    addTagsToBookmark(db, 'b2', ['LLMs']);
+
+    expect(renameTag(db, 'llm', 'LLM')).toBe('renamed');
+    expect(renameTag(db, 'LLM', 'llms')).toBe('conflict');
+    expect(renameTag(db, 'nope', 'x')).toBe('not_found');
+
+    expect(mergeTags(db, ['LLMs', 'ai'], 'LLM')).toBe(2);
+    expect(getTags(db).map((t) => [t.name, t.count])).toEqual([['LLM', 2]]);
+
+    // Bookmarks in the trash keep the tag but are not counted
+    addTagsToBookmark(db, 'b2', ['papers']);
+    deleteBookmark(db, 'b2');
+    expect(mergeTags(db, ['papers'], 'LLM')).toBe(1);
+    expect(getTags(db).map((t) => [t.name, t.count])).toEqual([['LLM', 1]]);
+  });
+
+  it('tags are searchable as text and with tag:', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: 'one' });
+    upsertBookmark(db, { id: 'b2', url: '', author: '', text: 'two' });
+    addTagsToBookmark(db, 'b1', ['Reading List']);
+    expect(searchBookmarks(db, 'tag:"reading list"').map((b) => b.id)).toEqual(['b1']);
+    expect(searchBookmarks(db, '-tag:"reading list"').map((b) => b.id)).toEqual(['b2']);
+    expect(searchBookmarks(db, 'reading').map((b) => b.id)).toEqual(['b1']);
+    renameTag(db, 'Reading List', 'queue');
+    expect(searchBookmarks(db, 'reading')).toHaveLength(0);
+    expect(searchBookmarks(db, 'queue').map((b) => b.id)).toEqual(['b1']);
+  });
+
+  it('collections keep manual order and allow shared membership', () => {
+    for (const id of ['b1', 'b2', 'b3']) upsertBookmark(db, { id, url: '', author: '', text: id });
+    const evals = createCollection(db, 'LLM evals', 'benchmarks')!;
+    const infra = createCollection(db, 'Infra postmortems')!;
+    expect(createCollection(db, 'llm EVALS')).toBeNull();
+
+    expect(addBookmarksToCollection(db, evals.id, ['b1', 'b2', 'b3', 'missing', 'b1'])).toBe(3);
+    addBookmarksToCollection(db, infra.id, ['b1']);
+    reorderCollectionBookmarks(db, evals.id, ['b3', 'b1']);
+    expect(getCollectionBookmarks(db, evals.id).map((b) => b.id)).toEqual(['b3', 'b1', 'b2']);
+    expect(enrichBookmarks(db, getBookmarks(db)).find((b) => b.id === 'b1')!.collections.sort()).toEqual(
+      [evals.id, infra.id].sort()
+    );
+
+    expect(removeBookmarksFromCollection(db, evals.id, ['b1'])).toBe(1);
+    expect(getCollections(db).map((c) => [c.name, c.count])).toEqual([['LLM evals', 2], ['Infra postmortems', 1]]);
+    reorderCollections(db, [infra.id]);
+    expect(getCollections(db).map((c) => c.name)).toEqual(['Infra postmortems', 'LLM evals']);
+  });
+
+  it('updateCollection, deleteCollection and collection-scoped search', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: 'scaling laws' });
+    upsertBookmark(db, { id: 'b2', url: '', author: '', text: 'scaling infra' });
+    const a = createCollection(db, 'A')!;
+    const b = createCollection(db, 'B')!;
+    addBookmarksToCollection(db, a.id, ['b2']);
+
+    expect(updateCollection(db, a.id, { name: 'b' })).toBe('conflict');
+    expect(updateCollection(db, a.id, { name: 'Renamed', description: 'notes' })).toBe('updated');
+    expect(updateCollection(db, 999, { name: 'x' })).toBe('not_found');
+
+    expect(searchBookmarks(db, 'scaling').map((r) => r.id).sort()).toEqual(['b1', 'b2']);
+    expect(searchBookmarks(db, 'scaling', { collectionId: a.id }).map((r) => r.id)).toEqual(['b2']);
+
+    expect(deleteCollection(db, b.id)).toBe(true);
+    expect(deleteCollection(db, b.id)).toBe(false);
+    deleteBookmark(db, 'b2');
+    expect(getCollections(db)).toEqual([expect.objectContaining({ name: 'Renamed', description: 'notes', count: 0 })]);
+  });
+
+  it('notes are stored, cleared and searchable', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: 'tweet' });
+    expect(setBookmarkNotes(db, 'b1', 'Useful for the **eval harness** rewrite')).toBe(true);
+    expect(setBookmarkNotes(db, 'missing', 'x')).toBe(false);
+    const [hit] = searchBookmarks(db, 'harness');
+    expect(hit.id).toBe('b1');
+    expect(hit.snippets.map((s) => s.field)).toEqual(['notes']);
+    setBookmarkNotes(db, 'b1', '   ');
+    expect(getBookmarks(db)[0].notes).toBeNull();
+    expect(searchBookmarks(db, 'harness')).toHaveLength(0);
+  });
+
+  it('highlights anchor to articles and transcripts and survive re-extraction', () => {
+    upsertBookmark(db, { id: 'b1', url: 'https://x.com/a/status/1', author: '', text: '' });
+    const content = 'Intro. The key result is that data beats parameters. Outro.';
+    const article = { url: 'https://blog.example/post', title: 'Post', author: null, content, contentMd: content, excerpt: null, siteName: null };
+    replaceLinksAndArticles(db, 'b1', [], [article]);
+    upsertTranscript(db, 'b1', 'https://v', 'and so we shipped it');
+
+    const start = content.indexOf('data beats');
+    const created = createHighlight(db, 'b1', {
+      targetType: 'article',
+      targetKey: article.url,
+      start,
+      end: start + 'data beats parameters'.length,
+      comment: 'core claim',
+    });
+    expect(created).toMatchObject({ quote: 'data beats parameters', comment: 'core claim', start, orphaned: false });
+    expect(createHighlight(db, 'b1', { targetType: 'transcript', targetKey: 'https://v', start: 7, end: 14 })).toMatchObject({
+      quote: 'we ship',
+    });
+    expect(createHighlight(db, 'b1', { targetType: 'article', targetKey: 'https://nope', start: 0, end: 3 })).toBe('target_not_found');
+    expect(createHighlight(db, 'b1', { targetType: 'article', targetKey: article.url, start: 3, end: 3 })).toBe('invalid_range');
+
+    expect(searchBookmarks(db, '"core claim"')[0].snippets.map((s) => s.field)).toEqual(['highlights']);
+
+    // Re-extraction replaces the article row and shifts the text
+    const updated = 'New header.\n\n' + content;
+    replaceLinksAndArticles(db, 'b1', [], [{ ...article, content: updated, contentMd: updated }]);
+    const [onArticle] = getHighlights(db, 'b1').filter((h) => h.target_type === 'article');
+    expect(updated.slice(onArticle.start!, onArticle.end!)).toBe('data beats parameters');
+    expect(enrichBookmarks(db, getBookmarks(db))[0].highlights).toHaveLength(2);
+
+    replaceLinksAndArticles(db, 'b1', [], [{ ...article, content: 'rewritten', contentMd: 'rewritten' }]);
+    expect(getHighlights(db, 'b1').find((h) => h.id === onArticle.id)).toMatchObject({ orphaned: true, start: null });
+
+    expect(updateHighlightComment(db, onArticle.id, '  ')).toBe(true);
+    expect(getHighlights(db, 'b1').find((h) => h.id === onArticle.id)!.comment).toBeNull();
+    expect(deleteHighlight(db, onArticle.id)).toBe(true);
+    deleteBookmark(db, 'b1');
+    purgeBookmarks(db, ['b1']);
+    expect(getHighlights(db, 'b1')).toHaveLength(0);
+  });
+
+  it('setBookmarkStatus updates in bulk and tracks read_at', () => {
+    for (const id of ['b1', 'b2', 'b3']) upsertBookmark(db, { id, url: '', author: '', text: '' });
+    expect(getBookmarks(db).every((b) => b.status === 'inbox' && b.read_at === null)).toBe(true);
+
+    expect(setBookmarkStatus(db, ['b1', 'b2', 'missing'], 'done')).toBe(2);
+    const done = getBookmarks(db, { statuses: ['done'] });
+    expect(done.map((b) => b.id).sort()).toEqual(['b1', 'b2']);
+    expect(done.every((b) => b.read_at && b.read_progress === 1)).toBe(true);
+
+    setBookmarkStatus(db, ['b1'], 'archived');
+    expect(getBookmarks(db, { statuses: ['archived'] })[0].read_at).toBeTruthy();
+    setBookmarkStatus(db, ['b2'], 'inbox');
+    expect(getBookmarks(db, { statuses: ['inbox'] }).find((b) => b.id === 'b2')).toMatchObject({ read_at: null, read_progress: 0 });
+    expect(getStats(db).statusCounts).toEqual({ inbox: 2, reading: 0, done: 0, archived: 1 });
+  });
+
+  it('setReadProgress clamps and moves items through the queue', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
+    expect(setReadProgress(db, 'b1', 0.4)).toMatchObject({ status: 'reading', read_progress: 0.4, read_at: null });
+    expect(setReadProgress(db, 'b1', 7)).toMatchObject({ status: 'done', read_progress: 1 });
+    expect(getBookmarks(db)[0].read_at).toBeTruthy();
+    setBookmarkStatus(db, ['b1'], 'archived');
+    expect(setReadProgress(db, 'b1', -1)).toMatchObject({ status: 'archived', read_progress: 0 });
+    expect(setReadProgress(db, 'missing', 0.5)).toBeUndefined();
+  });
+
+  it('processing status records outcomes, keeps failures and shows in summaries', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
+    startProcessingStep(db, 'b1', 'media', { urls: ['https://a', 'https://b'] });
+    startProcessingStep(db, 'b1', 'extract', { links: ['https://t.co/x'] });
+    expect(getProcessingStatus(db, 'b1')).toMatchObject({ media: { status: 'pending' }, extract: { status: 'pending' } });
+
+    finishProcessingStep(db, 'b1', 'media', 'HTTP 403');
+    finishProcessingStep(db, 'b1', 'media');
+    finishProcessingStep(db, 'b1', 'extract');
+    const [summary] = summarizeBookmarks(db, getBookmarks(db));
+    expect(summary.processing).toMatchObject({
+      media: { status: 'failed', error: 'HTTP 403' },
+      extract: { status: 'ok', error: null },
+    });
+    expect(summary.processing.transcribe).toBeUndefined();
+
+    // Starting again clears the error but keeps the step retryable with its input
+    startProcessingStep(db, 'b1', 'media', { urls: ['https://a', 'https://b'] });
+    expect(getProcessingStatus(db, 'b1').media).toMatchObject({ status: 'pending', error: null });
+    expect(getProcessingInput(db, 'b1', 'media')).toEqual({ urls: ['https://a', 'https://b'] });
+    expect(getProcessingInput(db, 'b1', 'transcribe')).toBeUndefined();
+  });
+
   it('getStats returns counts and lastSynced', () => {
     const empty = getStats(db);
     expect(empty.totalBookmarks).toBe(0);
@@ -144,24 +534,247 @@ describe('db', () => {
     const one = getStats(db);
     expect(one.totalBookmarks).toBe(1);
     expect(one.lastSynced).toBeTruthy();
+    addTagsToBookmark(db, 'b1', ['x']);
+    expect(getStats(db).tags).toEqual([{ name: 'x', count: 1 }]);
+  });
+
+  it('recordSyncSession flags bookmarks a complete session did not see and clears them when seen again', () => {
+    for (const id of ['seen', 'gone', 'archived', 'trashed']) {
+      upsertBookmark(db, { id, url: '', author: '', text: '', saved_at: '2026-01-01 00:00:00' });
+    }
+    upsertBookmark(db, { id: 'page', url: '', author: '', text: '', source: 'web', saved_at: '2026-01-01 00:00:00' });
+    upsertBookmark(db, { id: 'during', url: '', author: '', text: '', saved_at: '2026-02-01 00:05:00' });
+    setBookmarkStatus(db, ['archived'], 'archived');
+    deleteBookmark(db, 'trashed');
+    markSeenUpstream(db, ['seen', 'gone', 'archived', 'trashed', 'page'], '2026-01-15 00:00:00');
+    const session = { startedAt: '2026-02-01 00:00:00', finishedAt: '2026-02-01 00:10:00' };
+
+    // A partial pass only records what it saw
+    expect(recordSyncSession(db, { ...session, complete: false, ids: ['seen'] }).removed).toEqual([]);
+    expect(getBookmarks(db).find((b) => b.id === 'seen')?.last_seen_at).toBe('2026-02-01 00:10:00');
+    expect(getBookmarks(db).find((b) => b.id === 'gone')?.last_seen_at).toBe('2026-01-15 00:00:00');
+
+    const complete = recordSyncSession(db, { ...session, complete: true, ids: ['seen', 'seen', 'unknown'] });
+    expect(complete.removed.sort()).toEqual(['archived', 'gone']);
+    expect(complete.session).toMatchObject({ complete: 1, seen_count: 2, removed_count: 2, restored_count: 0 });
+    // Archived ones need no decision; web pages, bookmarks saved meanwhile and the trash are left alone
+    expect(getRemovedUpstreamIds(db)).toEqual(['gone']);
+    expect(listBookmarks(db, { removedUpstream: true }).items.map((b) => b.id).sort()).toEqual(['archived', 'gone']);
+    expect(getStats(db)).toMatchObject({ removedUpstreamCount: 1, lastSyncSession: { id: complete.session.id } });
+
+    const again = recordSyncSession(db, { ...session, complete: false, ids: ['gone'] });
+    expect(again.restored).toEqual(['gone']);
+    expect(getRemovedUpstreamIds(db)).toEqual([]);
+  });
+
+  it('recordSyncSession leaves bookmarks never seen on the X bookmarks page alone', () => {
+    // Saved from the timeline with the userscript's button, never bookmarked on X
+    upsertBookmark(db, { id: 'timeline', url: '', author: '', text: '', saved_at: '2026-01-01 00:00:00' });
+    upsertBookmark(db, { id: 'gone', url: '', author: '', text: '', saved_at: '2026-01-01 00:00:00' });
+    markSeenUpstream(db, ['gone']);
+    expect(getBookmarks(db).find((b) => b.id === 'timeline')?.last_seen_at).toBeNull();
+
+    const { removed } = recordSyncSession(db, {
+      startedAt: '2099-01-01 00:00:00',
+      finishedAt: '2099-01-01 00:10:00',
+      complete: true,
+      ids: [],
+    });
+    expect(removed).toEqual(['gone']);
+    expect(getRemovedUpstreamIds(db)).toEqual(['gone']);
+  });
+
+  it('thread posts keep their order, show in summaries and are searchable', () => {
+    upsertBookmark(db, { id: 't1', url: '', author: 'A', text: 'first' });
+    replaceThreadPosts(db, 't1', [
+      { tweet_id: 't1', text: 'first', media: [], links: [] },
+      { tweet_id: 't2', text: 'second about zeppelins', media: ['https://pbs.twimg.com/media/z.jpg'], links: ['https://example.com/z'] },
+    ]);
+    expect(getThreadPosts(db, 't1').map((p) => p.tweet_id)).toEqual(['t1', 't2']);
+    expect(summarizeBookmarks(db, getBookmarks(db))[0].thread[1]).toEqual({
+      tweet_id: 't2',
+      text: 'second about zeppelins',
+      media: ['https://pbs.twimg.com/media/z.jpg'],
+      links: ['https://example.com/z'],
+    });
+    expect(searchBookmarks(db, 'zeppelins').map((b) => b.id)).toEqual(['t1']);
+    expect(searchBookmarks(db, 'has:thread').map((b) => b.id)).toEqual(['t1']);
+
+    replaceThreadPosts(db, 't1', [{ tweet_id: null, text: 'only', media: [], links: [] }]);
+    expect(searchBookmarks(db, 'zeppelins')).toEqual([]);
+  });
+
+  it('deleteBookmark moves to trash and hides the bookmark everywhere', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: 'findme' });
+    insertMedia(db, 'b1', '/x.jpg');
+    addTagsToBookmark(db, 'b1', ['t']);
+    expect(deleteBookmark(db, 'b1')).toBe(true);
+    expect(deleteBookmark(db, 'b1')).toBe(false);
+    expect(getBookmarks(db)).toHaveLength(0);
+    expect(searchBookmarks(db, 'findme')).toHaveLength(0);
+    expect(getTags(db)[0].count).toBe(0);
+    expect(getStats(db)).toMatchObject({ totalBookmarks: 0, trashCount: 1 });
+    // Rows are kept until purge, so restore is lossless
+    expect(getMediaCount(db, 'b1')).toBe(1);
+    expect(getTrash(db).map((b) => b.id)).toEqual(['b1']);
+
+    expect(restoreBookmarks(db, ['b1', 'missing'])).toBe(1);
+    expect(searchBookmarks(db, 'findme').map((b) => b.id)).toEqual(['b1']);
+    expect(enrichBookmarks(db, getBookmarks(db))[0].tags).toEqual(['t']);
+  });
+
+  it('upsertBookmark restores a trashed bookmark', () => {
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
+    deleteBookmark(db, 'b1');
+    upsertBookmark(db, { id: 'b1', url: '', author: '', text: 'again' });
+    expect(getBookmarks(db).map((b) => b.id)).toEqual(['b1']);
   });
 
-  it('deleteBookmark removes bookmark and related rows', () => {
+  it('purgeBookmarks removes trashed bookmarks and related rows only', () => {
     upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
+    upsertBookmark(db, { id: 'b2', url: '', author: '', text: '' });
     insertMedia(db, 'b1', '/x.jpg');
     replaceLinksAndArticles(db, 'b1', [{ originalUrl: 'u', resolvedUrl: 'u', isArticle: false }], []);
     upsertTranscript(db, 'b1', 'https://v', 't');
+    startProcessingStep(db, 'b1', 'transcribe', { videoUrl: 'https://v' });
+    replaceThreadPosts(db, 'b1', [{ tweet_id: 'b1', text: 'post', media: [], links: [] }]);
+    updateTweetMetadata(db, 'b1', { ...EMPTY_TWEET_METADATA, poll: [{ label: 'Yes', percent: 60 }] });
     deleteBookmark(db, 'b1');
-    expect(getBookmarks(db)).toHaveLength(0);
+    expect(purgeBookmarks(db, ['b1', 'b2'])).toEqual(['b1']);
+    expect(getBookmarks(db).map((b) => b.id)).toEqual(['b2']);
+    expect(getTrash(db)).toHaveLength(0);
     expect(getMediaCount(db, 'b1')).toBe(0);
     expect(getTranscriptByBookmarkAndVideo(db, 'b1', 'https://v')).toBeUndefined();
+    expect(getProcessingStatus(db, 'b1')).toEqual({});
+    expect(getThreadPosts(db, 'b1')).toEqual([]);
+    expect(getPollOptions(db, 'b1')).toEqual([]);
+  });
+
+  it('getExpiredTrashIds honours the retention period', () => {
+    upsertBookmark(db, { id: 'old', url: '', author: '', text: '' });
+    upsertBookmark(db, { id: 'new', url: '', author: '', text: '' });
+    deleteAllBookmarks(db);
+    db.prepare("UPDATE bookmarks SET deleted_at = datetime('now', '-40 days') WHERE id = 'old'").run();
+    expect(getExpiredTrashIds(db, 30)).toEqual(['old']);
+    expect(getExpiredTrashIds(db, 60)).toEqual([]);
   });
 
-  it('deleteAllBookmarks clears everything', () => {
+  it('deleteAllBookmarks trashes everything', () => {
     upsertBookmark(db, { id: 'b1', url: '', author: '', text: '' });
     insertMedia(db, 'b1', '/x.jpg');
-    deleteAllBookmarks(db);
+    expect(deleteAllBookmarks(db)).toEqual(['b1']);
     expect(getBookmarks(db)).toHaveLength(0);
     expect(getStats(db).totalBookmarks).toBe(0);
+    expect(getTrash(db)).toHaveLength(1);
+  });
+});
+
+describe('db migrations', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xmarks-db-test-'));
+    dbPath = path.join(dir, 'bookmarks.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createLegacyDb(): void {
+    const legacy = new Database(dbPath);
+    legacy.exec(fs.readFileSync(LEGACY_FIXTURE, 'utf-8'));
+    legacy.close();
+  }
+
+  function backups(): string[] {
+    return fs.readdirSync(dir).filter((f) => f.endsWith('.bak'));
+  }
+
+  it('new databases start at the latest version without a backup', () => {
+    const db = initDb(dbPath);
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    db.close();
+    expect(backups()).toHaveLength(0);
+  });
+
+  it('upgrades a legacy database and keeps its data', () => {
+    createLegacyDb();
+    const db = initDb(dbPath);
+    expect(getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+
+    const articleCols = (db.prepare('PRAGMA table_info(articles)').all() as Array<{ name: string }>).map((c) => c.name);
+    expect(articleCols).toContain('pdf_path');
+
+    expect(getBookmarks(db).map((b) => b.id)).toEqual(['1002', '1001']);
+    expect(searchBookmarks(db, 'HNSW').map((b) => b.id)).toEqual(['1001']);
+    expect(searchBookmarks(db, 'keynote').map((b) => b.id)).toEqual(['1002']);
+
+    // Comma-separated bookmarks.tags values become real tags
+    const bookmarkCols = (db.prepare('PRAGMA table_info(bookmarks)').all() as Array<{ name: string }>).map((c) => c.name);
+    expect(bookmarkCols).not.toContain('tags');
+    expect(getTags(db).map((t) => t.name).sort()).toEqual(['ml', 'to-read']);
+    expect(searchBookmarks(db, 'tag:to-read').map((b) => b.id)).toEqual(['1001']);
+    db.close();
+  });
+
+  it('backs up the old file once before migrating', () => {
+    createLegacyDb();
+    initDb(dbPath).close();
+    const [backup] = backups();
+    expect(backup).toMatch(/^bookmarks\.db\.v0-.*\.bak$/);
+
+    const snapshot = new Database(path.join(dir, backup), { readonly: true });
+    expect(getSchemaVersion(snapshot)).toBe(0);
+    expect((snapshot.prepare('SELECT COUNT(*) as count FROM bookmarks').get() as { count: number }).count).toBe(2);
+    snapshot.close();
+
+    initDb(dbPath).close();
+    expect(backups()).toHaveLength(1);
+  });
+
+  it('splits thread articles saved as one joined text into thread posts', () => {
+    const db = new Database(dbPath);
+    runMigrations(db, { migrations: MIGRATIONS.filter((m) => m.version < 13) });
+    db.exec(`
+      INSERT INTO bookmarks (id, url, author, text) VALUES ('1', 'https://x.com/a/status/1', 'A', 'one'), ('2', '', 'B', 'solo');
+      INSERT INTO articles (bookmark_id, url, title, content, content_md, site_name)
+      VALUES ('1', 'https://x.com/a/status/1', 'X thread by A', '', 'one' || char(10, 10) || '---' || char(10, 10) || 'two', 'X'),
+             ('2', '', 'X thread by B', '', 'solo', 'X');
+    `);
+    runMigrations(db);
+    expect(getThreadPosts(db, '1')).toEqual([
+      { tweet_id: null, text: 'one', media: [], links: [] },
+      { tweet_id: null, text: 'two', media: [], links: [] },
+    ]);
+    expect(getThreadPosts(db, '2')).toEqual([]);
+    expect((db.prepare('SELECT bookmark_id FROM articles').all() as Array<{ bookmark_id: string }>).map((a) => a.bookmark_id)).toEqual(['2']);
+    expect(searchBookmarks(db, 'two').map((b) => b.id)).toEqual(['1']);
+    db.close();
+  });
+
+  it('rolls back a failing migration and stops', () => {
+    const db = new Database(':memory:');
+    const migrations: Migration[] = [
+      { version: 1, name: 'one', up: (d) => d.exec('CREATE TABLE one (x INTEGER)') },
+      {
+        version: 2,
+        name: 'broken',
+        up: (d) => {
+          d.exec('CREATE TABLE two (x INTEGER)');
+          throw new Error('boom');
+        },
+      },
+    ];
+    expect(() => runMigrations(db, { migrations })).toThrow('boom');
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'two'").get()).toBeUndefined();
+  });
+
+  it('refuses a database newer than this build', () => {
+    const db = new Database(':memory:');
+    db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+    expect(() => runMigrations(db)).toThrow(/newer than this build/);
   });
 });
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { EventStream, formatSseEvent } from '../../lib/eventStream.js';
+
+describe('eventStream', () => {
+  it('formats events as SSE frames', () => {
+    expect(formatSseEvent('bookmark-created', { id: 'a\nb' }, 3)).toBe(
+      'event: bookmark-created\nid: 3\ndata: {"id":"a\\nb"}\n\n'
+    );
+  });
+
+  it('publishes to connected clients until they are removed', () => {
+    const stream = new EventStream();
+    const received: string[] = [];
+    const remove = stream.add({ write: (chunk) => received.push(chunk) > 0 });
+    stream.publish('bookmark-created', { id: '1' });
+    stream.heartbeat();
+    remove();
+    stream.publish('bookmark-updated', { id: '1' });
+
+    expect(stream.clientCount).toBe(0);
+    expect(received).toEqual(['event: bookmark-created\nid: 1\ndata: {"id":"1"}\n\n', ': ping\n\n']);
+  });
+
+  it('keeps delivering when one client throws', () => {
+    const stream = new EventStream();
+    const received: string[] = [];
+    stream.add({
+      write: () => {
+        throw new Error('socket closed');
+      },
+    });
+    stream.add({ write: (chunk) => received.push(chunk) > 0 });
+    stream.publish('job-failed', {
+      id: 1,
+      type: 'media',
+      bookmarkId: 'b1',
+      status: 'dead',
+      attempts: 5,
+      maxAttempts: 5,
+      error: 'HTTP 404',
+    });
+    expect(received).toHaveLength(1);
+    expect(received[0]).toContain('event: job-failed');
+  });
+});
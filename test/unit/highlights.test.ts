@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { createAnchor, resolveAnchor } from '../../lib/highlights.js';
+
+describe('highlights', () => {
+  const text = 'The model improves. Scaling laws hold. Later, scaling laws break down at the edges.';
+
+  it('createAnchor captures quote, context and offsets', () => {
+    const start = text.indexOf('Scaling laws');
+    const anchor = createAnchor(text, start, start + 'Scaling laws'.length)!;
+    expect(anchor.quote).toBe('Scaling laws');
+    expect(anchor.prefix.endsWith('improves. ')).toBe(true);
+    expect(anchor.suffix.startsWith(' hold.')).toBe(true);
+    expect(createAnchor(text, 5, 5)).toBeNull();
+    expect(createAnchor(text, 0, text.length + 1)).toBeNull();
+    expect(createAnchor(text, 19, 20)).toBeNull(); // whitespace only
+  });
+
+  it('resolveAnchor keeps exact offsets when the text is unchanged', () => {
+    const start = text.lastIndexOf('scaling laws');
+    const anchor = createAnchor(text, start, start + 12)!;
+    expect(resolveAnchor(text, anchor)).toEqual({ start, end: start + 12 });
+  });
+
+  it('resolveAnchor follows the quote after the text shifts, using context to pick the occurrence', () => {
+    const start = text.lastIndexOf('scaling laws');
+    const anchor = createAnchor(text, start, start + 12)!;
+    const edited = 'Intro paragraph added on re-extraction. ' + text.replace('Scaling laws', 'scaling laws');
+    const resolved = resolveAnchor(edited, anchor)!;
+    expect(resolved.start).toBe(edited.lastIndexOf('scaling laws'));
+    expect(edited.slice(resolved.start, resolved.end)).toBe('scaling laws');
+  });
+
+  it('resolveAnchor tolerates reflowed whitespace and case, and reports missing quotes', () => {
+    const anchor = createAnchor(text, 0, 'The model improves.'.length)!;
+    const reflowed = 'the  model\nimproves. Scaling laws hold.';
+    expect(resolveAnchor(reflowed, anchor)).toEqual({ start: 0, end: 'the  model\nimproves.'.length });
+    expect(resolveAnchor('Completely different article.', anchor)).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initDb, getBookmark, getTagsForBookmark, getProcessingStatus, upsertBookmark } from '../../lib/db.js';
+import { detectImporter, parseImportFile, previewImport, importLinks, ImportFormatError } from '../../lib/importers.js';
+import { urlBookmarkId } from '../../lib/ingest.js';
+
+const NETSCAPE = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://example.com/top" ADD_DATE="1700000000">Top level</A>
+        <DT><H3>Recipes</H3>
+        <DL><p>
+            <DT><A HREF="https://food.example.com/soup#method" ADD_DATE="1700000100" TAGS="dinner,soup">Soup</A>
+        </DL><p>
+    </DL><p>
+</DL><p>`;
+
+const POCKET = `<!DOCTYPE html>
+<html><head><title>Pocket Export</title></head><body>
+<h1>Unread</h1>
+<ul><li><a href="https://news.example.com/a?utm_source=pocket" time_added="1700000000" tags="news">Story A</a></li></ul>
+<h1>Read Archive</h1>
+<ul><li><a href="https://news.example.com/b" time_added="1600000000" tags="">Story B</a></li></ul>
+</body></html>`;
+
+const RAINDROP = `id,title,note,excerpt,url,folder,tags,created,cover,highlights,favorite
+1,"Deep dive, part 1",my note,"An excerpt",https://blog.example.com/deep,Reading,"rust, perf",2024-03-01T10:00:00.000Z,,,false
+2,Unsorted link,,,https://blog.example.com/other,Unsorted,,2024-03-02T10:00:00.000Z,,,false`;
+
+const INSTAPAPER = `URL,Title,Selection,Folder,Timestamp
+https://mag.example.com/long,"A ""long"" read","Quoted
+selection",Archive,1700000000
+https://mag.example.com/essay,Essay,,Philosophy,1700000500`;
+
+describe('importers', () => {
+  let db: ReturnType<typeof initDb>;
+
+  beforeEach(() => {
+    db = initDb(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('detects each format and parses folders, tags, dates and archived state', () => {
+    expect([NETSCAPE, POCKET, RAINDROP, INSTAPAPER].map((f) => detectImporter(f)?.id)).toEqual([
+      'netscape',
+      'pocket',
+      'raindrop',
+      'instapaper',
+    ]);
+
+    expect(parseImportFile(NETSCAPE).items).toEqual([
+      { url: 'https://example.com/top', title: 'Top level', note: '', tags: [], addedAt: '2023-11-14 22:13:20', archived: false },
+      {
+        url: 'https://food.example.com/soup#method',
+        title: 'Soup',
+        note: '',
+        tags: ['dinner', 'soup', 'Recipes'],
+        addedAt: '2023-11-14 22:15:00',
+        archived: false,
+      },
+    ]);
+    expect(parseImportFile(POCKET).items.map((i) => [i.title, i.tags, i.archived])).toEqual([
+      ['Story A', ['news'], false],
+      ['Story B', [], true],
+    ]);
+    expect(parseImportFile(RAINDROP).items[0]).toMatchObject({
+      title: 'Deep dive, part 1',
+      note: 'my note\n\nAn excerpt',
+      tags: ['rust', 'perf', 'Reading'],
+      addedAt: '2024-03-01 10:00:00',
+    });
+    expect(parseImportFile(INSTAPAPER).items).toMatchObject([
+      { title: 'A "long" read', note: 'Quoted\nselection', tags: [], archived: true },
+      { title: 'Essay', tags: ['Philosophy'], archived: false },
+    ]);
+
+    expect(() => parseImportFile('just some text')).toThrow(ImportFormatError);
+    expect(() => parseImportFile(NETSCAPE, 'nope')).toThrow('Unknown importer "nope"');
+  });
+
+  it('imports links as bookmarks, skipping duplicates and links already saved', () => {
+    upsertBookmark(db, { id: urlBookmarkId('https://news.example.com/b'), url: 'https://news.example.com/b', author: '', text: '' });
+    const withExtras = POCKET.replace(
+      '</body>',
+      '<ul><li><a href="https://news.example.com/a#top">Dup</a></li><li><a href="mailto:x@y">Mail</a></li></ul></body>'
+    );
+    const { items } = parseImportFile(withExtras);
+
+    expect(previewImport(db, items)).toMatchObject({ found: 2, new: 1, existing: 1, sample: [{ title: 'Story A' }] });
+
+    const { report, importedIds, jobs } = importLinks(db, items);
+    expect(report).toMatchObject({ found: 2, imported: 1, skippedExisting: 1 });
+    expect(report.errors).toHaveLength(1);
+    const id = urlBookmarkId('https://news.example.com/a');
+    expect(importedIds).toEqual([id]);
+    expect(jobs).toEqual([{ bookmarkId: id, job: { type: 'extract', payload: { links: ['https://news.example.com/a'] } } }]);
+    expect(getBookmark(db, id)).toMatchObject({
+      url: 'https://news.example.com/a',
+      author: 'news.example.com',
+      text: 'Story A',
+      source: 'import',
+      saved_at: '2023-11-14 22:13:20',
+    });
+    expect(getTagsForBookmark(db, id)).toEqual(['news']);
+    expect(getBookmark(db, id)!.notes).toBeNull();
+    expect(getProcessingStatus(db, id)).toMatchObject({ extract: { status: 'pending' } });
+
+    // Archived items land in the archive; a second run finds nothing new
+    const archived = importLinks(db, parseImportFile(INSTAPAPER).items);
+    // Selections are kept as notes, apart from the text
+    expect(getBookmark(db, archived.importedIds[0])).toMatchObject({
+      status: 'archived',
+      text: 'A "long" read',
+      notes: 'Quoted\nselection',
+    });
+    expect(importLinks(db, parseImportFile(INSTAPAPER).items).report).toMatchObject({ imported: 0, skippedExisting: 2 });
+  });
+
+  it('saves Raindrop notes and excerpts as the bookmark notes', () => {
+    const { importedIds } = importLinks(db, parseImportFile(RAINDROP).items);
+    const bookmark = getBookmark(db, urlBookmarkId('https://blog.example.com/deep'))!;
+    expect(importedIds).toContain(bookmark.id);
+    expect(bookmark).toMatchObject({ text: 'Deep dive, part 1', notes: 'my note\n\nAn excerpt' });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  initDb,
+  getBookmark,
+  getBookmarks,
+  enrichBookmarks,
+  insertMedia,
+  deleteBookmark,
+  getProcessingStatus,
+  getTagsForBookmark,
+  listBookmarks,
+  replaceLinksAndArticles,
+  summarizeBookmarks,
+} from '../../lib/db.js';
+import {
+  validateBookmarkPayload,
+  ingestBookmark,
+  ingestBatch,
+  BookmarkPayloadError,
+  urlBookmarkId,
+  validateUrlBookmarkPayload,
+  ingestUrl,
+  validateSyncSessionPayload,
+} from '../../lib/ingest.js';
+
+const tweet = (id: string, extra: Record<string, unknown> = {}) =>
+  validateBookmarkPayload({ id, url: `https://x.com/u/status/${id}`, author: 'U · @u', text: 'hello', ...extra });
+
+describe('ingest', () => {
+  let db: ReturnType<typeof initDb>;
+
+  beforeEach(() => {
+    db = initDb(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('validateBookmarkPayload fills defaults and rejects bad fields', () => {
+    expect(validateBookmarkPayload({ id: 123 })).toMatchObject({ id: '123', text: '', media: [], links: [], forceMedia: false });
+    expect(() => validateBookmarkPayload({ text: 'x' })).toThrow('Missing id');
+    expect(() => validateBookmarkPayload({ id: '1', media: 'a.jpg' })).toThrow(BookmarkPayloadError);
+    expect(() => validateBookmarkPayload({ id: '1', links: [1] })).toThrow('links must be an array of strings');
+    expect(() => validateBookmarkPayload([])).toThrow('Bookmark must be an object');
+  });
+
+  it('ingestBookmark reports created, updated and unchanged and plans follow-up jobs', () => {
+    const first = ingestBookmark(db, tweet('1', { media: ['https://img/a.jpg'], links: ['https://t.co/x'] }));
+    expect(first.outcome).toBe('created');
+    expect(first.jobs).toEqual([
+      { type: 'media', payload: { url: 'https://img/a.jpg' } },
+      { type: 'extract', payload: { links: ['https://t.co/x'] } },
+    ]);
+    expect(getProcessingStatus(db, '1')).toMatchObject({ media: { status: 'pending' }, extract: { status: 'pending' } });
+
+    // Media already stored and articles still missing: only extraction runs again
+    insertMedia(db, '1', 'https://img/a.jpg');
+    expect(ingestBookmark(db, tweet('1', { media: ['https://img/a.jpg'] })).outcome).toBe('updated');
+    expect(ingestBookmark(db, tweet('1', { media: ['https://img/a.jpg'] })).jobs).toEqual([]);
+    expect(ingestBookmark(db, tweet('1', { text: 'hello', media: ['https://img/a.jpg'] })).outcome).toBe('unchanged');
+    expect(ingestBookmark(db, tweet('1', { text: 'edited' })).outcome).toBe('updated');
+    expect(ingestBookmark(db, tweet('1', { media: ['https://img/a.jpg'], forceMedia: true })).jobs).toHaveLength(1);
+
+    deleteBookmark(db, '1');
+    expect(ingestBookmark(db, tweet('1')).outcome).toBe('created');
+  });
+
+  it('ingestBookmark saves a tweet without links as an article', () => {
+    ingestBookmark(db, tweet('2', { text: 'just text' }));
+    const [bookmark] = enrichBookmarks(db, getBookmarks(db));
+    expect(bookmark.articles).toMatchObject([{ title: 'X post by U · @u', content_md: 'just text', site_name: 'X' }]);
+  });
+
+  it('ingestBookmark stores threads as posts and extracts their links', () => {
+    const posts = [
+      { id: '3', text: 'part one' },
+      { id: '4', text: 'part two', media: ['https://pbs.twimg.com/media/p.jpg'], links: ['https://example.com/a'] },
+    ];
+    ingestBookmark(db, tweet('2'));
+    const { outcome, jobs } = ingestBookmark(db, tweet('2', { thread: posts }));
+    expect(outcome).toBe('updated');
+    expect(jobs).toEqual([{ type: 'extract', payload: { links: ['https://example.com/a'] } }]);
+    const [bookmark] = enrichBookmarks(db, getBookmarks(db));
+    // The tweet's own text article gives way to the thread
+    expect(bookmark.articles).toEqual([]);
+    expect(bookmark.thread).toEqual([
+      { tweet_id: '3', text: 'part one', media: [], links: [] },
+      { tweet_id: '4', text: 'part two', media: ['https://pbs.twimg.com/media/p.jpg'], links: ['https://example.com/a'] },
+    ]);
+
+    // Once extracted, a shorter capture does not replace the thread and the same one changes nothing
+    replaceLinksAndArticles(db, '2', [], [
+      { url: 'https://example.com/a', title: 'A', author: null, content: '<p>a</p>', contentMd: 'a', excerpt: null, siteName: null },
+    ]);
+    expect(ingestBookmark(db, tweet('2', { thread: posts.slice(0, 1) })).jobs).toEqual([]);
+    expect(ingestBookmark(db, tweet('2', { thread: posts })).outcome).toBe('unchanged');
+    expect(enrichBookmarks(db, getBookmarks(db))[0].thread).toHaveLength(2);
+
+    // Older userscripts send the parts joined into threadText
+    expect(tweet('5', { threadText: 'a\n\n---\n\nb', threadPartCount: 2 }).thread.map((p) => p.text)).toEqual(['a', 'b']);
+    expect(() => tweet('5', { thread: [{ text: 1 }] })).toThrow(BookmarkPayloadError);
+  });
+
+  it('ingestBatch rejects bad items without undoing the rest', () => {
+    const results = ingestBatch(db, [{ id: 'a', text: 'first' }, { text: 'no id' }, { id: 'b', media: 5 }, { id: 'a', text: 'again' }]);
+    expect(results.map((r) => r.result)).toEqual(['created', 'rejected', 'rejected', 'updated']);
+    expect(results[2]).toMatchObject({ id: 'b', error: 'media must be an array of strings' });
+    expect(getBookmark(db, 'a')!.text).toBe('again');
+    expect(getBookmark(db, 'b')).toBeUndefined();
+  });
+
+  it('ingestBookmark stores tweet metadata and keeps what a later sync did not capture', () => {
+    const first = ingestBookmark(
+      db,
+      tweet('5', {
+        postedAt: '2024-05-01T08:30:00.000Z',
+        replyCount: 3,
+        retweetCount: 10,
+        likeCount: 120,
+        inReplyTo: { id: '4', author: '@parent' },
+        quoted: { id: '3', author: 'Q · @q', text: 'quoted words' },
+        poll: [{ label: 'Yes', percent: 60 }, { label: 'No', percent: 40 }],
+        media: ['https://img/p.jpg'],
+        mediaAlt: { 'https://img/p.jpg': 'A chart' },
+      })
+    );
+    expect(first.jobs[0]).toEqual({ type: 'media', payload: { url: 'https://img/p.jpg', alt: 'A chart' } });
+    expect(getBookmark(db, '5')).toMatchObject({
+      posted_at: '2024-05-01 08:30:00',
+      reply_count: 3,
+      retweet_count: 10,
+      like_count: 120,
+      in_reply_to_id: '4',
+      in_reply_to_author: '@parent',
+      quoted_id: '3',
+      quoted_author: 'Q · @q',
+      quoted_text: 'quoted words',
+    });
+
+    insertMedia(db, '5', '/media/5/p.jpg', 'A chart');
+    expect(ingestBookmark(db, tweet('5', { likeCount: 121 })).outcome).toBe('updated');
+    expect(ingestBookmark(db, tweet('5')).outcome).toBe('unchanged');
+    const [summary] = summarizeBookmarks(db, [getBookmark(db, '5')!]);
+    expect(summary).toMatchObject({ like_count: 121, posted_at: '2024-05-01 08:30:00', quoted_text: 'quoted words' });
+    expect(summary.poll).toEqual([{ label: 'Yes', percent: 60 }, { label: 'No', percent: 40 }]);
+    expect(summary.media_alt).toEqual({ '/media/5/p.jpg': 'A chart' });
+
+    // Sorting by posted time falls back to the saved time for bookmarks without one
+    ingestBookmark(db, tweet('6'));
+    expect(listBookmarks(db, { sort: 'posted_at', order: 'asc' }).items.map((b) => b.id)).toEqual(['5', '6']);
+
+    expect(() => validateBookmarkPayload({ id: '7', likeCount: -1 })).toThrow('likeCount must be a non-negative integer');
+    expect(() => validateBookmarkPayload({ id: '7', postedAt: 'yesterday' })).toThrow('postedAt must be a date');
+    expect(() => validateBookmarkPayload({ id: '7', poll: [{ percent: 5 }] })).toThrow('poll options must have a label');
+  });
+
+  it('validateSyncSessionPayload converts times and refuses complete sessions without ids', () => {
+    expect(
+      validateSyncSessionPayload({
+        startedAt: '2026-02-01T00:00:00.000Z',
+        finishedAt: '2026-02-01T00:10:00.000Z',
+        complete: true,
+        ids: ['1', '2'],
+      })
+    ).toEqual({ startedAt: '2026-02-01 00:00:00', finishedAt: '2026-02-01 00:10:00', complete: true, ids: ['1', '2'] });
+    expect(validateSyncSessionPayload({ startedAt: '2026-02-01T00:00:00Z', complete: false }).ids).toEqual([]);
+    expect(() => validateSyncSessionPayload({ startedAt: '2026-02-01T00:00:00Z', complete: true, ids: [] })).toThrow(
+      'A complete session must report the ids it saw'
+    );
+    expect(() => validateSyncSessionPayload({ complete: false })).toThrow('Missing startedAt');
+    expect(() =>
+      validateSyncSessionPayload({ startedAt: '2026-02-01T00:00:00Z', finishedAt: '2026-01-01T00:00:00Z', complete: false })
+    ).toThrow(BookmarkPayloadError);
+  });
+
+  it('urlBookmarkId ignores fragments, tracking parameters and trailing slashes', () => {
+    const id = urlBookmarkId('https://Example.com/post/?utm_source=x&page=2#intro');
+    expect(id).toBe(urlBookmarkId('https://example.com/post?page=2'));
+    expect(id).not.toBe(urlBookmarkId('https://example.com/post?page=3'));
+    expect(id).toMatch(/^url-[0-9a-f]{24}$/);
+    expect(() => urlBookmarkId('javascript:alert(1)')).toThrow(BookmarkPayloadError);
+  });
+
+  it('ingestUrl saves a web page under its URL id and only asks for extraction until it has an article', () => {
+    expect(() => validateUrlBookmarkPayload({ title: 'x' })).toThrow('Missing url');
+    const payload = validateUrlBookmarkPayload({ url: 'https://www.example.com/post/#top', note: 'read later', tags: ['web'] });
+    expect(payload.url).toBe('https://www.example.com/post');
+
+    const first = ingestUrl(db, payload);
+    expect(first).toEqual({ id: urlBookmarkId(payload.url), outcome: 'created', needsExtraction: true });
+    expect(getBookmark(db, first.id)).toMatchObject({
+      url: 'https://www.example.com/post',
+      author: 'example.com',
+      text: 'https://www.example.com/post',
+      notes: 'read later',
+      source: 'web',
+    });
+    expect(getTagsForBookmark(db, first.id)).toEqual(['web']);
+    expect(getProcessingStatus(db, first.id)).toMatchObject({ extract: { status: 'pending' } });
+
+    replaceLinksAndArticles(db, first.id, [], [
+      { url: payload.url, title: 'Post', author: null, content: '<p>x</p>', contentMd: 'x', excerpt: null, siteName: null },
+    ]);
+    const again = ingestUrl(db, validateUrlBookmarkPayload({ url: 'https://www.example.com/post', title: 'Post' }));
+    expect(again).toEqual({ id: first.id, outcome: 'updated', needsExtraction: false });
+    expect(getBookmark(db, first.id)!.text).toBe('Post');
+
+    ingestBookmark(db, tweet('9'));
+    expect(listBookmarks(db, { sources: ['web'] }).items.map((b) => b.id)).toEqual([first.id]);
+    expect(listBookmarks(db, { sources: ['x'] }).items.map((b) => b.id)).toEqual(['9']);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initDb } from '../../lib/db.js';
+import {
+  JobQueue,
+  enqueueJob,
+  claimNextJob,
+  failJob,
+  getJob,
+  backoffDelay,
+  recoverRunningJobs,
+  pruneFinishedJobs,
+  completeJob,
+  listJobs,
+  getJobCounts,
+  hasActiveJobs,
+} from '../../lib/jobQueue.js';
+
+describe('jobQueue', () => {
+  let db: ReturnType<typeof initDb>;
+  let queue: JobQueue | null = null;
+
+  beforeEach(() => {
+    db = initDb(':memory:');
+  });
+
+  afterEach(async () => {
+    await queue?.stop();
+    queue = null;
+    db.close();
+  });
+
+  it('claims due jobs in order and counts attempts', () => {
+    const later = enqueueJob(db, 'extract', { links: [] }, { delayMs: 60_000 });
+    const first = enqueueJob(db, 'media', { url: 'https://a' }, { bookmarkId: 'b1' });
+    const claimed = claimNextJob(db)!;
+    expect(claimed).toMatchObject({ id: first, status: 'running', attempts: 1, bookmark_id: 'b1' });
+    expect(JSON.parse(claimed.payload)).toEqual({ url: 'https://a' });
+    expect(claimNextJob(db)).toBeUndefined();
+    expect(claimNextJob(db, Date.now() + 120_000)!.id).toBe(later);
+  });
+
+  it('backs off exponentially and dead-letters after max attempts', () => {
+    expect([1, 2, 3, 4].map((n) => backoffDelay(n, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+
+    const id = enqueueJob(db, 'transcribe', { videoUrl: 'v' }, { maxAttempts: 2 });
+    const now = Date.now();
+    expect(failJob(db, claimNextJob(db, now)!, 'boom', 1000, now)).toBe('pending');
+    expect(getJob(db, id)).toMatchObject({ status: 'pending', last_error: 'boom', run_at: now + 1000 });
+    expect(claimNextJob(db, now)).toBeUndefined();
+    expect(failJob(db, claimNextJob(db, now + 1000)!, 'boom again', 1000)).toBe('dead');
+    expect(getJob(db, id)).toMatchObject({ status: 'dead', attempts: 2, last_error: 'boom again' });
+    expect(getJob(db, id)!.finished_at).toBeTruthy();
+  });
+
+  it('recovers jobs left running by a restart and prunes old finished jobs', () => {
+    const id = enqueueJob(db, 'media', { url: 'u' });
+    claimNextJob(db);
+    expect(recoverRunningJobs(db)).toBe(1);
+    expect(getJob(db, id)!.status).toBe('pending');
+
+    completeJob(db, claimNextJob(db)!.id);
+    expect(pruneFinishedJobs(db, 7)).toBe(0);
+    db.prepare("UPDATE jobs SET finished_at = datetime('now', '-8 days')").run();
+    expect(pruneFinishedJobs(db, 7)).toBe(1);
+  });
+
+  it('lists jobs by status and bookmark with counts', () => {
+    const a = enqueueJob(db, 'media', { url: 'u' }, { bookmarkId: 'b1' });
+    enqueueJob(db, 'extract', { links: ['l'] }, { bookmarkId: 'b2' });
+    completeJob(db, claimNextJob(db)!.id);
+
+    expect(listJobs(db).map((j) => j.type)).toEqual(['extract', 'media']);
+    expect(listJobs(db, { statuses: ['done'] })).toMatchObject([{ id: a, payload: { url: 'u' } }]);
+    expect(listJobs(db, { bookmarkId: 'b2' })).toHaveLength(1);
+    expect(getJobCounts(db)).toEqual({ pending: 1, running: 0, done: 1, dead: 0 });
+    expect(getJobCounts(db, 'b1')).toEqual({ pending: 0, running: 0, done: 1, dead: 0 });
+    expect(hasActiveJobs(db, 'b1', 'media')).toBe(false);
+    expect(hasActiveJobs(db, 'b2', 'extract')).toBe(true);
+    expect(hasActiveJobs(db, 'b2', 'extract', listJobs(db, { bookmarkId: 'b2' })[0].id)).toBe(false);
+  });
+
+  it('runs handlers with bounded concurrency and retries failures', async () => {
+    let active = 0;
+    let peak = 0;
+    let flaky = 0;
+    queue = new JobQueue(
+      db,
+      {
+        media: async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((r) => setTimeout(r, 10));
+          active--;
+        },
+        extract: async () => {
+          if (++flaky < 2) throw new Error('transient');
+        },
+      },
+      { concurrency: 2, pollIntervalMs: 5, backoffBaseMs: 5 }
+    );
+    queue.start();
+    const mediaIds = [1, 2, 3, 4, 5].map((n) => queue!.enqueue('media', { url: `https://m/${n}` }));
+    const extractId = queue.enqueue('extract', { links: [] });
+
+    const started: number[] = [];
+    queue.on('job:start', (job) => started.push(job.id));
+    const results = await Promise.all([...mediaIds, extractId].map((id) => queue!.waitFor(id, 2000)));
+    expect(results.every((job) => job?.status === 'done')).toBe(true);
+    expect(peak).toBe(2);
+    expect(getJob(db, extractId)!.attempts).toBe(2);
+    expect(started.filter((id) => id === extractId)).toHaveLength(2);
+  });
+
+  it('dead-letters jobs without a handler', async () => {
+    queue = new JobQueue(db, {}, { pollIntervalMs: 5, backoffBaseMs: 1 });
+    queue.start();
+    const id = queue.enqueue('pdf_text', { pdfPath: 'x', urlPath: 'y', cleanWithOpenAI: false }, { maxAttempts: 1 });
+    const job = await queue.waitFor(id, 2000);
+    expect(job).toMatchObject({ status: 'dead', last_error: 'No handler for job type "pdf_text"' });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery, compileSearchQuery, SearchQuerySyntaxError } from '../../lib/searchQuery.js';
+
+describe('searchQuery', () => {
+  describe('parseSearchQuery', () => {
+    it('parses words, phrases, filters and negation', () => {
+      const q = parseSearchQuery('author:@karpathy site:arxiv.org has:video -tag:read after:2025-01-01 "scaling laws" -hype rl');
+      expect(q.terms).toEqual([
+        { text: 'scaling laws', phrase: true, negated: false },
+        { text: 'hype', phrase: false, negated: true },
+        { text: 'rl', phrase: false, negated: false },
+      ]);
+      expect(q.filters).toEqual([
+        { field: 'author', value: '@karpathy', negated: false },
+        { field: 'site', value: 'arxiv.org', negated: false },
+        { field: 'has', value: 'video', negated: false },
+        { field: 'tag', value: 'read', negated: true },
+        { field: 'after', value: '2025-01-01', negated: false },
+      ]);
+    });
+
+    it('accepts quoted filter values and treats unknown prefixes as text', () => {
+      const q = parseSearchQuery('tag:"to read" https://example.com/a');
+      expect(q.filters).toEqual([{ field: 'tag', value: 'to read', negated: false }]);
+      expect(q.terms).toEqual([{ text: 'https://example.com/a', phrase: false, negated: false }]);
+    });
+
+    it('rejects malformed queries with a position', () => {
+      const cases: Array<[string, RegExp, number]> = [
+        ['foo "bar', /Unterminated quote/, 4],
+        ['author:', /Missing value for author/, 0],
+        ['x has:gif', /Unknown has: value "gif"/, 2],
+        ['before:2025-13-45', /Invalid date for before/, 0],
+        ['after:yesterday', /Invalid date for after/, 0],
+        ['foo -', /Dangling "-"/, 4],
+        ['ab"c', /Unexpected quote/, 2],
+      ];
+      for (const [input, message, position] of cases) {
+        try {
+          parseSearchQuery(input);
+          expect.unreachable(`expected "${input}" to throw`);
+        } catch (err) {
+          expect(err).toBeInstanceOf(SearchQuerySyntaxError);
+          expect((err as Error).message).toMatch(message);
+          expect((err as SearchQuerySyntaxError).position).toBe(position);
+        }
+      }
+    });
+  });
+
+  describe('compileSearchQuery', () => {
+    it('builds a prefix MATCH for words and exact match for phrases', () => {
+      const c = compileSearchQuery(parseSearchQuery('"scaling laws" transformer'));
+      expect(c.match).toBe('"scaling laws" "transformer"*');
+      expect(c.where).toEqual([]);
+    });
+
+    it('moves negated terms and filters into WHERE with params in order', () => {
+      const c = compileSearchQuery(parseSearchQuery('-spam author:bob -has:media'));
+      expect(c.match).toBeNull();
+      expect(c.where).toHaveLength(3);
+      expect(c.where[0]).toContain('NOT IN');
+      expect(c.where[2]).toMatch(/^NOT \(/);
+      expect(c.params).toEqual(['"spam"*', '%bob%']);
+    });
+
+    it('drops terms with nothing indexable', () => {
+      expect(compileSearchQuery(parseSearchQuery('( -- ++')).match).toBeNull();
+    });
+  });
+});
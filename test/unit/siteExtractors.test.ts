@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../lib/pdfService.js', () => ({
+  extractTextFromPdfBuffer: vi.fn(() => Promise.resolve('1 Introduction\n\nWe study attention.')),
+}));
+
+import { findSiteExtractor, registerSiteExtractor } from '../../lib/siteExtractors.js';
+import { extractArticle } from '../../lib/articleExtractor.js';
+
+/** Responses by URL prefix; anything else fails like an unreachable host. `stream` replaces the body's stream. */
+function stubFetch(routes: Record<string, { body: string; type?: string; stream?: ReadableStream<Uint8Array> }>) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn((url: string) => {
+      const key = Object.keys(routes).find((prefix) => url.startsWith(prefix));
+      if (!key) return Promise.reject(new Error(`Unexpected fetch ${url}`));
+      const { body, type = 'application/json', stream } = routes[key];
+      return Promise.resolve({
+        ok: true,
+        url,
+        headers: new Headers({ 'content-type': type }),
+        body: stream ?? new Response(body).body,
+        text: () => Promise.resolve(body),
+        json: () => Promise.resolve(JSON.parse(body)),
+        arrayBuffer: () => Promise.resolve(new TextEncoder().encode(body).buffer),
+      } as Response);
+    })
+  );
+}
+
+describe('siteExtractors', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('matches by host, subdomain and path', () => {
+    expect(findSiteExtractor('https://github.com/acme/tool')?.name).toBe('GitHub');
+    expect(findSiteExtractor('https://github.com/acme/tool/blob/main/src/a.ts')?.name).toBe('GitHub');
+    expect(findSiteExtractor('https://github.com/acme/tool/issues/3')).toBeNull();
+    expect(findSiteExtractor('https://arxiv.org/pdf/2401.01234v2')?.name).toBe('arXiv');
+    expect(findSiteExtractor('https://www.youtube.com/watch?v=dQw4w9WgXcQ')?.name).toBe('YouTube');
+    expect(findSiteExtractor('https://youtu.be/dQw4w9WgXcQ')?.name).toBe('YouTube');
+    expect(findSiteExtractor('https://www.youtube.com/@channel')).toBeNull();
+    expect(findSiteExtractor('https://news.ycombinator.com/item?id=1')?.name).toBe('Hacker News');
+    expect(findSiteExtractor('https://writer.substack.com/p/post')?.name).toBe('Substack');
+    expect(findSiteExtractor('https://example.com/github.com')).toBeNull();
+
+    registerSiteExtractor({ name: 'Docs', hosts: ['github.com'], pattern: /^\/acme\//, extract: async () => null });
+    expect(findSiteExtractor('https://github.com/acme/tool')?.name).toBe('Docs');
+  });
+
+  it('reads a GitHub repo README with its metadata', async () => {
+    stubFetch({
+      'https://api.github.com/repos/octo/tool/readme': { body: '<h1>Tool</h1><p>Does <code>things</code>.</p>', type: 'text/html' },
+      'https://api.github.com/repos/octo/tool': {
+        body: JSON.stringify({
+          full_name: 'octo/tool',
+          description: 'A tool',
+          stargazers_count: 1200,
+          language: 'Rust',
+          license: { spdx_id: 'MIT' },
+          topics: ['cli'],
+          owner: { login: 'octo' },
+        }),
+      },
+    });
+    const article = await extractArticle('https://github.com/octo/tool');
+    expect(article).toMatchObject({ title: 'octo/tool', author: 'octo', siteName: 'GitHub', excerpt: 'A tool' });
+    expect(article!.contentMd).toBe('> A tool\n>\n> ★ 1,200 · Rust · MIT\n>\n> Topics: cli\n\n# Tool\n\nDoes `things`.');
+  });
+
+  it('reads an arXiv abstract and the PDF text', async () => {
+    stubFetch({
+      'https://export.arxiv.org/api/query': {
+        type: 'application/atom+xml',
+        body: `<?xml version="1.0"?><feed xmlns="http://www.w3.org/2005/Atom"><entry>
+          <title>Attention Is
+            Enough</title><summary>We show attention suffices.</summary><published>2024-01-02T00:00:00Z</published>
+          <author><name>A. Author</name></author><author><name>B. Author</name></author>
+        </entry></feed>`,
+      },
+      'https://arxiv.org/pdf/2401.01234': { body: '%PDF', type: 'application/pdf' },
+    });
+    const article = await extractArticle('https://arxiv.org/pdf/2401.01234.pdf');
+    expect(article).toMatchObject({
+      url: 'https://arxiv.org/abs/2401.01234',
+      title: 'Attention Is Enough',
+      author: 'A. Author, B. Author',
+      siteName: 'arXiv',
+    });
+    expect(article!.contentMd).toBe(
+      '**A. Author, B. Author · 2024-01-02**\n\n## Abstract\n\nWe show attention suffices.\n\n## Full text\n\n1 Introduction\n\nWe study attention.'
+    );
+  });
+
+  it('saves only the arXiv abstract when the PDF runs past the size limit without a content-length', async () => {
+    // Up to 100 chunks of the same 1 MB buffer, so the test itself stays small
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ < 100) controller.enqueue(chunk);
+        else controller.close();
+      },
+    });
+    stubFetch({
+      'https://export.arxiv.org/api/query': {
+        type: 'application/atom+xml',
+        body: `<?xml version="1.0"?><feed xmlns="http://www.w3.org/2005/Atom"><entry>
+          <title>Huge</title><summary>Too big to read.</summary></entry></feed>`,
+      },
+      'https://arxiv.org/pdf/2401.09999': { body: '', type: 'application/pdf', stream },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const article = await extractArticle('https://arxiv.org/abs/2401.09999');
+    expect(article!.contentMd).toBe('## Abstract\n\nToo big to read.');
+    // Reading stopped just past 50 MB
+    expect(sent).toBeLessThan(60);
+  });
+
+  it('reads a YouTube description and hands the video on for transcription', async () => {
+    stubFetch({
+      'https://www.youtube.com/oembed': { body: JSON.stringify({ title: 'Talk', author_name: 'Conf' }) },
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ': {
+        type: 'text/html',
+        body: '<script>var p = {"videoDetails":{"shortDescription":"Slides: https://x.y\\nThanks \\"all\\""}};</script>',
+      },
+    });
+    const article = await extractArticle('https://youtu.be/dQw4w9WgXcQ?t=30');
+    expect(article).toMatchObject({
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      title: 'Talk',
+      author: 'Conf',
+      contentMd: 'Slides: https://x.y\nThanks "all"',
+      videoUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    });
+  });
+
+  it('reads a Hacker News story with its top comments', async () => {
+    stubFetch({
+      'https://hacker-news.firebaseio.com/v0/item/100.json': {
+        body: JSON.stringify({ id: 100, title: 'Show HN: Tool', by: 'pg', score: 42, descendants: 3, url: 'https://tool.dev', kids: [101, 102, 103] }),
+      },
+      'https://hacker-news.firebaseio.com/v0/item/101.json': { body: JSON.stringify({ id: 101, by: 'dang', text: 'Nice <i>work</i>' }) },
+      'https://hacker-news.firebaseio.com/v0/item/102.json': { body: JSON.stringify({ id: 102, deleted: true }) },
+      'https://hacker-news.firebaseio.com/v0/item/103.json': { body: JSON.stringify({ id: 103, by: 'tptacek', text: '<p>Why?' }) },
+    });
+    const article = await extractArticle('https://news.ycombinator.com/item?id=100');
+    expect(article).toMatchObject({ title: 'Show HN: Tool', author: 'pg', siteName: 'Hacker News' });
+    expect(article!.contentMd).toBe(
+      '**42 points · by pg · 3 comments**\n\nLink: <https://tool.dev>\n\n## Top comments\n\n**dang**\n\nNice _work_\n\n**tptacek**\n\nWhy?'
+    );
+  });
+
+  it('marks paywalled Substack posts and falls back to Readability when an extractor fails', async () => {
+    stubFetch({
+      'https://writer.substack.com/api/v1/posts/deep-dive': {
+        body: JSON.stringify({
+          title: 'Deep dive',
+          subtitle: 'Part one',
+          audience: 'only_paid',
+          body_html: '<p>The free opening.</p>',
+          publishedBylines: [{ name: 'Writer' }],
+        }),
+      },
+    });
+    const article = await extractArticle('https://writer.substack.com/p/deep-dive');
+    expect(article).toMatchObject({ title: 'Deep dive', author: 'Writer', siteName: 'Substack' });
+    expect(article!.contentMd).toBe(
+      '> Paywalled: only the free preview of this post could be saved.\n\n_Part one_\n\nThe free opening.'
+    );
+
+    // No API response: the page itself goes through Readability
+    stubFetch({
+      'https://other.substack.com/p/post': {
+        type: 'text/html',
+        body: `<html><head><title>Fallback</title></head><body><article><h1>Fallback</h1><p>${'Readable text. '.repeat(20)}</p></article></body></html>`,
+      },
+    });
+    expect((await extractArticle('https://other.substack.com/p/post'))!.title).toBe('Fallback');
+  });
+
+  it('recognises Substack and Medium publications on their own domains by the page', async () => {
+    const readable = `<article><h1>Own domain</h1><p>${'The free opening, then the paywall. '.repeat(10)}</p></article>`;
+    stubFetch({
+      'https://www.lennysnewsletter.com/p/growth': {
+        type: 'text/html',
+        body: `<html><head><title>Growth</title><link rel="preconnect" href="https://substackcdn.com"></head><body>${readable}</body></html>`,
+      },
+      'https://www.lennysnewsletter.com/api/v1/posts/growth': {
+        body: JSON.stringify({ title: 'Growth', audience: 'only_paid', truncated_body_text: 'The free opening.' }),
+      },
+      'https://blog.example.dev/locked-story': {
+        type: 'text/html',
+        body: `<html><head><title>Locked story</title>
+          <meta property="al:android:app_name" content="Medium">
+          <meta property="article:content_tier" content="locked">
+        </head><body>${readable}</body></html>`,
+      },
+    });
+    expect(findSiteExtractor('https://www.lennysnewsletter.com/p/growth')).toBeNull();
+
+    const substack = await extractArticle('https://www.lennysnewsletter.com/p/growth');
+    expect(substack).toMatchObject({ title: 'Growth', siteName: 'Substack' });
+    expect(substack!.contentMd).toBe('> Paywalled: only the free preview of this post could be saved.\n\nThe free opening.');
+
+    const medium = await extractArticle('https://blog.example.dev/locked-story');
+    expect(medium).toMatchObject({ title: 'Locked story', siteName: 'Medium' });
+    expect(medium!.contentMd.startsWith('> Paywalled: only the free preview of this post could be saved.\n\n')).toBe(true);
+    expect(medium!.contentMd).toContain('The free opening, then the paywall.');
+  });
+});
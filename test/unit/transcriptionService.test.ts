@@ -36,6 +36,10 @@ describe('transcriptionService', () => {
         ytDlpPath: null,
         ffmpegPath: null,
         ffprobePath: null,
+        trashRetentionDays: 30,
+        publicUrl: null,
+        apiToken: null,
+        userscriptFeatures: { batchUpload: true, threadCapture: true, videoCapture: true },
       });
       expect(svc).toBeDefined();
     });
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initDb, upsertBookmark, deleteBookmark, getBookmark, getTrash } from '../../lib/db.js';
+import { purgeTrash, purgeExpiredTrash, removeBookmarkFiles } from '../../lib/trash.js';
+
+describe('trash', () => {
+  let dataDir: string;
+  let db: ReturnType<typeof initDb>;
+
+  const writeFile = (...parts: string[]) => {
+    const file = path.join(dataDir, ...parts);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, 'x');
+    return file;
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xmarks-trash-'));
+    db = initDb(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('purgeTrash deletes rows and the media and PDF directories', () => {
+    upsertBookmark(db, { id: '123', url: '', author: '', text: '' });
+    upsertBookmark(db, { id: '456', url: '', author: '', text: '' });
+    const media = writeFile('media', '123', 'a.jpg');
+    const pdf = writeFile('articles', '123', 'article_1.pdf');
+    const keep = writeFile('media', '456', 'b.jpg');
+
+    deleteBookmark(db, '123');
+    expect(purgeTrash(db, dataDir, ['123', '456'])).toEqual(['123']);
+    expect(getBookmark(db, '123')).toBeUndefined();
+    expect(fs.existsSync(path.dirname(media))).toBe(false);
+    expect(fs.existsSync(path.dirname(pdf))).toBe(false);
+    expect(fs.existsSync(keep)).toBe(true);
+  });
+
+  it('purgeExpiredTrash only purges past the retention period', () => {
+    upsertBookmark(db, { id: 'old', url: '', author: '', text: '' });
+    upsertBookmark(db, { id: 'recent', url: '', author: '', text: '' });
+    deleteBookmark(db, 'old');
+    deleteBookmark(db, 'recent');
+    db.prepare("UPDATE bookmarks SET deleted_at = datetime('now', '-31 days') WHERE id = 'old'").run();
+    expect(purgeExpiredTrash(db, dataDir, 30)).toEqual(['old']);
+    expect(getTrash(db).map((b) => b.id)).toEqual(['recent']);
+  });
+
+  it('removeBookmarkFiles never leaves the data directories', () => {
+    const outside = writeFile('bookmarks.db');
+    removeBookmarkFiles(dataDir, '..');
+    removeBookmarkFiles(dataDir, '');
+    expect(fs.existsSync(outside)).toBe(true);
+  });
+});
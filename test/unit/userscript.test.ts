@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import vm from 'vm';
+import {
+  renderUserscript,
+  readUserscriptSource,
+  parseUserscriptFeatures,
+  compareVersions,
+  UserscriptTracker,
+  UserscriptSourceError,
+} from '../../lib/userscript.js';
+
+const SOURCE = `// ==UserScript==
+// @name         Test
+// @version      1.2
+// @grant        GM_xmlhttpRequest
+// ==/UserScript==
+
+var XMARKS_CONFIG = { serverUrl: "http://localhost:3001", apiToken: null, features: {} };
+
+(function(config) {})(XMARKS_CONFIG);
+`;
+
+const ALL_ON = { batchUpload: true, threadCapture: true, videoCapture: true, graphqlCapture: true, articleCapture: true };
+
+describe('renderUserscript', () => {
+  it('adds update URLs to the header and bakes in the config', () => {
+    const { version, script, meta } = renderUserscript(SOURCE, {
+      serverUrl: 'https://marks.example.com/',
+      apiToken: 'secret',
+      features: { ...ALL_ON, videoCapture: false },
+    });
+    expect(version).toBe('1.2');
+    expect(meta).toContain('// @connect      marks.example.com');
+    expect(meta).toContain('// @updateURL    https://marks.example.com/userscript/xmarks.meta.js');
+    expect(meta).toContain('// @downloadURL  https://marks.example.com/userscript/xmarks.user.js');
+    expect(meta.trimEnd().endsWith('// ==/UserScript==')).toBe(true);
+    expect(meta).not.toContain('XMARKS_CONFIG');
+    expect(script.startsWith(meta.trimEnd())).toBe(true);
+
+    const configLine = script.split('\n').find((line) => line.startsWith('var XMARKS_CONFIG'))!;
+    expect(JSON.parse(configLine.replace(/^var XMARKS_CONFIG = /, '').replace(/;$/, ''))).toEqual({
+      serverUrl: 'https://marks.example.com',
+      apiToken: 'secret',
+      features: { ...ALL_ON, videoCapture: false },
+    });
+  });
+
+  it('renders the bundled source', () => {
+    const source = readUserscriptSource();
+    const { version, script } = renderUserscript(source, { serverUrl: 'http://localhost:3001', apiToken: null, features: ALL_ON });
+    expect(version).toMatch(/^\d+(\.\d+)*$/);
+    expect(script).toContain('var XMARKS_CONFIG = {"serverUrl":"http://localhost:3001","apiToken":null');
+  });
+
+  it('rejects sources without a header or config line', () => {
+    const options = { serverUrl: 'http://localhost:3001', apiToken: null, features: ALL_ON };
+    expect(() => renderUserscript('(function() {})();', options)).toThrow(UserscriptSourceError);
+    expect(() => renderUserscript(SOURCE.replace(/^var XMARKS_CONFIG.*$/m, ''), options)).toThrow(UserscriptSourceError);
+  });
+});
+
+describe('parseUserscriptFeatures', () => {
+  it('enables everything unless disabled with a leading "-"', () => {
+    expect(parseUserscriptFeatures(undefined)).toEqual(ALL_ON);
+    expect(parseUserscriptFeatures('-threadCapture, videoCapture')).toEqual({ ...ALL_ON, threadCapture: false });
+    expect(() => parseUserscriptFeatures('-teleport')).toThrow(/Unknown userscript feature "teleport"/);
+  });
+});
+
+describe('compareVersions', () => {
+  it('compares dotted versions numerically', () => {
+    expect(compareVersions('3.2', '3.10')).toBeLessThan(0);
+    expect(compareVersions('3.3', '3.3.0')).toBe(0);
+    expect(compareVersions('4', '3.9')).toBeGreaterThan(0);
+  });
+});
+
+describe('UserscriptTracker', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xmarks-userscript-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('remembers the last version seen across restarts', () => {
+    const file = path.join(dir, 'userscript.json');
+    expect(new UserscriptTracker(file).installed).toBeNull();
+
+    const tracker = new UserscriptTracker(file);
+    tracker.record('3.2', Date.parse('2026-01-01T00:00:00Z'));
+    // Same version shortly after: kept in memory, not rewritten
+    tracker.record('3.2', Date.parse('2026-01-01T00:01:00Z'));
+    expect(tracker.installed).toEqual({ version: '3.2', seenAt: '2026-01-01T00:01:00.000Z' });
+    expect(new UserscriptTracker(file).installed).toEqual({ version: '3.2', seenAt: '2026-01-01T00:00:00.000Z' });
+
+    tracker.record('3.3', Date.parse('2026-01-01T00:02:00Z'));
+    expect(new UserscriptTracker(file).installed).toEqual({ version: '3.3', seenAt: '2026-01-01T00:02:00.000Z' });
+  });
+});
+
+/** XMARKS_QUEUE from the bundled userscript: the block runs on its own, without the page. */
+function loadQueue() {
+  const block = readUserscriptSource().match(/^var XMARKS_QUEUE = \(function\(\) \{[\s\S]*?^\}\)\(\);$/m);
+  expect(block).not.toBeNull();
+  return vm.runInNewContext(`${block![0]}\nXMARKS_QUEUE`);
+}
+
+describe('userscript upload queue', () => {
+  const queue = loadQueue();
+
+  it('retries when there is no usable response, auth or rate limit trouble, or a server error', () => {
+    for (const status of [null, 0, 401, 403, 408, 429, 500, 503]) expect(queue.isRetryable(status)).toBe(true);
+    for (const status of [200, 400, 404, 413]) expect(queue.isRetryable(status)).toBe(false);
+    expect(queue.retryNote(0, 5000)).toBe('unreadable response, retrying in 5s');
+    expect(queue.retryNote(null, 10000)).toBe('server unreachable, retrying in 10s');
+    expect(queue.retryNote(502, 5000)).toBe('server error 502, retrying in 5s');
+  });
+
+  it('backs off from 5 s, doubling up to 5 minutes', () => {
+    const delays: number[] = [];
+    let delay = 0;
+    for (let i = 0; i < 9; i++) delays.push((delay = queue.nextRetryDelay(delay)));
+    expect(delays).toEqual([5000, 10000, 20000, 40000, 80000, 160000, 300000, 300000, 300000]);
+  });
+
+  it('takes batches from the outbox and removes acknowledged ids', () => {
+    const outbox = queue.parseOutbox(JSON.stringify({ 1: { id: '1' }, 2: { id: '2' }, 3: { id: '3' } }));
+    expect(queue.nextBatch(outbox, 2)).toEqual(['1', '2']);
+    expect(Object.keys(queue.removeFromOutbox(outbox, ['1', '2']))).toEqual(['3']);
+    expect(queue.nextBatch({}, 25)).toEqual([]);
+  });
+
+  it('treats unreadable storage and responses as empty', () => {
+    for (const text of ['', 'not json', 'null', '[]', '42']) expect(queue.parseOutbox(text)).toEqual({});
+    // A proxy error page instead of the server's JSON; the caller retries
+    expect(queue.parseJson('<html>Bad gateway</html>')).toBeNull();
+    expect(queue.parseJson('{"results":[]}')).toEqual({ results: [] });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import archiver from 'archiver';
+import { initDb, upsertBookmark, getBookmark, getBookmarks, enrichBookmarks, getTagsForBookmark } from '../../lib/db.js';
+import { importXArchive, checkArchive, parseYtdFile, ArchiveFormatError, type ArchiveImportProgress } from '../../lib/xArchive.js';
+import { ZipReader } from '../../lib/zipReader.js';
+
+const ytd = (dataset: string, records: unknown[]) => `window.YTD.${dataset}.part0 = ${JSON.stringify(records, null, 2)}`;
+
+describe('xArchive', () => {
+  let tmpDir: string;
+  let archiveDir: string;
+  let mediaDir: string;
+  let db: ReturnType<typeof initDb>;
+
+  const writeArchiveFile = (name: string, content: string | Buffer) => {
+    const file = path.join(archiveDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xmarks-archive-'));
+    archiveDir = path.join(tmpDir, 'twitter-2026-01-01');
+    mediaDir = path.join(tmpDir, 'media');
+    db = initDb(':memory:');
+
+    writeArchiveFile('data/account.js', ytd('account', [{ account: { username: 'me', accountDisplayName: 'Me' } }]));
+    writeArchiveFile(
+      'data/tweets.js',
+      ytd('tweets', [
+        {
+          tweet: {
+            id_str: '100',
+            full_text: 'Read this https://t.co/abc',
+            entities: { urls: [{ url: 'https://t.co/abc', expanded_url: 'https://blog.example.com/post' }] },
+            extended_entities: {
+              media: [
+                { media_url_https: 'https://pbs.twimg.com/media/Bundled.jpg' },
+                { media_url_https: 'https://pbs.twimg.com/media/Remote.jpg' },
+              ],
+            },
+          },
+        },
+        { tweet: { id_str: '200', full_text: 'Just text' } },
+      ])
+    );
+    writeArchiveFile(
+      'data/bookmark.js',
+      ytd('bookmark', [
+        { bookmark: { tweetId: '200' } },
+        { bookmark: { tweetId: '300', fullText: 'Saved tweet', expandedUrl: 'https://twitter.com/i/web/status/300' } },
+      ])
+    );
+    writeArchiveFile('data/like.js', ytd('like', [{ like: { tweetId: '400', fullText: 'Liked' } }]));
+    writeArchiveFile('data/tweets_media/100-Bundled.jpg', Buffer.from('jpeg'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('parseYtdFile reads the dataset name and records', () => {
+    expect(parseYtdFile('window.YTD.like.part2 = [ { "like": { "tweetId": "1" } } ];')).toEqual({
+      dataset: 'like',
+      records: [{ like: { tweetId: '1' } }],
+    });
+    expect(() => parseYtdFile('var x = []')).toThrow(ArchiveFormatError);
+  });
+
+  it('imports only bookmarks unless other datasets are asked for', async () => {
+    const { report, importedIds } = await importXArchive(db, archiveDir, mediaDir);
+    expect(report).toMatchObject({ found: 2, imported: 2 });
+    expect(importedIds.sort()).toEqual(['200', '300']);
+    expect(getTagsForBookmark(db, '300')).toEqual([]);
+  });
+
+  it('imports tweets and bookmarks from an unpacked archive, copying bundled media', async () => {
+    upsertBookmark(db, { id: '300', url: '', author: 'Kept', text: 'already here' });
+    const progress: ArchiveImportProgress[] = [];
+    const { report, importedIds, jobs } = await importXArchive(db, archiveDir, mediaDir, {
+      datasets: ['tweets', 'bookmarks'],
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(report).toMatchObject({ found: 3, imported: 2, skippedExisting: 1, mediaCopied: 1, mediaLinked: 1, errors: [] });
+    expect(importedIds.sort()).toEqual(['100', '200']);
+    expect(jobs).toEqual([{ bookmarkId: '100', job: { type: 'extract', payload: { links: ['https://blog.example.com/post'] } } }]);
+    expect(getBookmark(db, '300')!.author).toBe('Kept');
+    expect(getBookmark(db, '400')).toBeUndefined();
+    expect(progress).toEqual([{ found: 3, processed: 3, imported: 2, skippedExisting: 1 }]);
+
+    const tweet = enrichBookmarks(db, getBookmarks(db)).find((b) => b.id === '100')!;
+    expect(tweet).toMatchObject({ url: 'https://x.com/me/status/100', author: 'Me · @me' });
+    expect(tweet.media).toEqual(['/media/100/Bundled.jpg', 'https://pbs.twimg.com/media/Remote.jpg']);
+    expect(fs.readFileSync(path.join(mediaDir, '100', 'Bundled.jpg'), 'utf8')).toBe('jpeg');
+    // Own tweets are tagged unless they are bookmarks too
+    expect(getTagsForBookmark(db, '100')).toEqual(['x-my-tweets']);
+    expect(getTagsForBookmark(db, '200')).toEqual([]);
+    // Only bookmarks are checked for removal on X by later sync sessions
+    expect(getBookmark(db, '200')!.last_seen_at).not.toBeNull();
+    expect(getBookmark(db, '100')!.last_seen_at).toBeNull();
+
+    // Running it again only finds duplicates
+    expect((await importXArchive(db, archiveDir, mediaDir, { datasets: ['tweets', 'bookmarks', 'likes'] })).report).toMatchObject({
+      found: 4,
+      imported: 1,
+      skippedExisting: 3,
+    });
+    expect(getTagsForBookmark(db, '400')).toEqual(['x-likes']);
+  });
+
+  it('reads the same archive from a zip', async () => {
+    const zipPath = path.join(tmpDir, 'archive.zip');
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(zipPath);
+      const zip = archiver('zip');
+      output.on('close', () => resolve());
+      zip.on('error', reject);
+      zip.pipe(output);
+      zip.directory(archiveDir, 'twitter-2026-01-01');
+      zip.append('stored', { name: 'stored.txt', store: true });
+      zip.finalize();
+    });
+
+    const reader = ZipReader.open(zipPath);
+    const stored = reader.entries.find((e) => e.name === 'stored.txt')!;
+    expect(stored.method).toBe(0);
+    expect(reader.read(stored).toString()).toBe('stored');
+    const deflated = reader.entries.find((e) => e.name.endsWith('data/like.js'))!;
+    expect(deflated.method).toBe(8);
+    expect((await reader.readAsync(deflated)).equals(reader.read(deflated))).toBe(true);
+    reader.close();
+
+    expect(() => checkArchive(zipPath)).not.toThrow();
+    expect((await importXArchive(db, zipPath, mediaDir, { datasets: ['tweets', 'bookmarks'] })).report).toMatchObject({
+      imported: 3,
+      mediaCopied: 1,
+    });
+    expect(() => checkArchive(path.join(archiveDir, 'data', 'like.js'))).toThrow('Not a zip file');
+    expect(() => checkArchive(mediaDir)).toThrow(ArchiveFormatError);
+  });
+});
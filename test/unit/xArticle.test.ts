@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initDb, getBookmarks, enrichBookmarks, replaceLinksAndArticles } from '../../lib/db.js';
+import { validateBookmarkPayload, ingestBookmark } from '../../lib/ingest.js';
+import { parseGraphqlArticle, xArticleFromHtml } from '../../lib/xArticle.js';
+
+/** Trimmed-down `article.article_results.result` as TweetDetail returns it on the article's page. */
+const ARTICLE = {
+  rest_id: '777',
+  title: 'The File System Is the New Database',
+  preview_text: 'How I built a personal OS for AI agents.',
+  cover_media: { media_info: { original_img_url: 'https://pbs.twimg.com/media/cover.jpg' } },
+  media_entities: [{ media_id: '55', media_info: { original_img_url: 'https://pbs.twimg.com/media/diagram.jpg' } }],
+  content_state: {
+    blocks: [
+      { type: 'header-two', text: 'Why files', entityRanges: [], inlineStyleRanges: [] },
+      {
+        type: 'unstyled',
+        text: 'Agents read plain files. See the docs.',
+        entityRanges: [{ key: 0, offset: 33, length: 4 }],
+        inlineStyleRanges: [{ offset: 7, length: 5, style: 'Bold' }],
+      },
+      { type: 'unordered-list-item', text: 'Notes', entityRanges: [], inlineStyleRanges: [] },
+      { type: 'unordered-list-item', text: 'Tasks', entityRanges: [], inlineStyleRanges: [] },
+      { type: 'ordered-list-item', text: 'Read', entityRanges: [], inlineStyleRanges: [] },
+      { type: 'ordered-list-item', text: 'Write', entityRanges: [], inlineStyleRanges: [] },
+      { type: 'atomic', text: ' ', entityRanges: [{ key: 1, offset: 0, length: 1 }], inlineStyleRanges: [] },
+      { type: 'atomic', text: ' ', entityRanges: [{ key: 2, offset: 0, length: 1 }], inlineStyleRanges: [] },
+      { type: 'blockquote', text: 'Files outlive apps.', entityRanges: [], inlineStyleRanges: [] },
+    ],
+    entityMap: [
+      { key: '0', value: { type: 'LINK', data: { url: 'https://example.com/docs' } } },
+      { key: '1', value: { type: 'MEDIA', data: { mediaItems: [{ mediaId: '55' }] } } },
+      { key: '2', value: { type: 'MARKDOWN', data: { markdown: '```sh\nls ~/agents\n```' } } },
+    ],
+  },
+};
+
+const TWEET = {
+  __typename: 'Tweet',
+  rest_id: '900',
+  core: { user_results: { result: { legacy: { name: 'Ko', screen_name: 'ko' } } } },
+  legacy: { full_text: 'https://t.co/art', entities: { urls: [] } },
+  article: { article_results: { result: ARTICLE } },
+};
+
+describe('X Articles', () => {
+  it('converts Draft.js content to Markdown with headings, lists, images and code', () => {
+    const article = parseGraphqlArticle(ARTICLE, { url: 'https://x.com/ko/status/900', author: 'Ko · @ko' })!;
+    expect(article).toMatchObject({
+      url: 'https://x.com/i/article/777',
+      title: 'The File System Is the New Database',
+      excerpt: 'How I built a personal OS for AI agents.',
+      siteName: 'X Article',
+    });
+    expect(article.contentMd).toBe(
+      [
+        '![](https://pbs.twimg.com/media/cover.jpg)',
+        '## Why files',
+        'Agents **read** plain files. See the [docs](https://example.com/docs).',
+        '- Notes\n- Tasks',
+        '1. Read\n2. Write',
+        '![](https://pbs.twimg.com/media/diagram.jpg)',
+        '```sh\nls ~/agents\n```',
+        '> Files outlive apps.',
+      ].join('\n\n')
+    );
+    expect(article.content).toContain('<h2>Why files</h2>');
+    expect(article.content).toContain('<pre><code class="language-sh">ls ~/agents</code></pre>');
+    // Timelines only carry the preview
+    expect(parseGraphqlArticle({ ...ARTICLE, content_state: undefined }, { url: '', author: '' })).toBeNull();
+  });
+
+  it('converts the rendered article HTML when there was no GraphQL response', () => {
+    const article = xArticleFromHtml(
+      '<h2>Setup</h2><p>Install <strong>it</strong>.</p><ul><li>One</li></ul><pre><span>npm i</span></pre><img src="https://pbs.twimg.com/media/a.jpg" alt="">',
+      'Title',
+      { url: 'https://x.com/ko/article/900', author: 'Ko' }
+    )!;
+    expect(article.contentMd).toBe('## Setup\n\nInstall **it**.\n\n-   One\n\n```\nnpm i\n```\n\n![](https://pbs.twimg.com/media/a.jpg)');
+  });
+
+  describe('ingest', () => {
+    let db: ReturnType<typeof initDb>;
+
+    beforeEach(() => {
+      db = initDb(':memory:');
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('stores the article and keeps it through link extraction', () => {
+      const { outcome } = ingestBookmark(db, validateBookmarkPayload({ graphql: TWEET }));
+      expect(outcome).toBe('created');
+      const articles = () => enrichBookmarks(db, getBookmarks(db))[0].articles;
+      expect(articles()).toMatchObject([{ title: 'The File System Is the New Database', site_name: 'X Article' }]);
+
+      // The same capture again, or one from a timeline without the body, changes nothing
+      expect(ingestBookmark(db, validateBookmarkPayload({ graphql: TWEET })).outcome).toBe('unchanged');
+      const preview = { ...TWEET, article: { article_results: { result: { ...ARTICLE, content_state: undefined } } } };
+      expect(ingestBookmark(db, validateBookmarkPayload({ graphql: preview })).outcome).toBe('unchanged');
+
+      replaceLinksAndArticles(db, '900', [], [], { keepXArticles: true });
+      expect(articles()).toHaveLength(1);
+
+      // Scraped payloads carry the rendered HTML instead
+      ingestBookmark(db, validateBookmarkPayload({ id: '901', text: 'x', article: { title: 'T', html: '<p>Body</p>' } }));
+      expect(enrichBookmarks(db, getBookmarks(db)).find((b) => b.id === '901')!.articles).toMatchObject([
+        { title: 'T', content_md: 'Body', site_name: 'X Article' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initDb, getBookmark, getMediaUrlsForBookmark } from '../../lib/db.js';
+import { validateBookmarkPayload, ingestBookmark, BookmarkPayloadError } from '../../lib/ingest.js';
+import { parseGraphqlTweet, unwrapTweetResult } from '../../lib/xGraphql.js';
+
+const user = (name: string, screenName: string) => ({
+  result: { __typename: 'User', rest_id: '99', legacy: { name, screen_name: screenName } },
+});
+
+/** Trimmed-down `tweet_results.result` objects in the shape X's web client receives. */
+const QUOTED = {
+  __typename: 'Tweet',
+  rest_id: '100',
+  core: { user_results: user('Quoted', 'quoted') },
+  legacy: { full_text: 'The original &amp; best', created_at: 'Mon Jan 01 00:00:00 +0000 2024', entities: {} },
+};
+
+const TWEET = {
+  __typename: 'TweetWithVisibilityResults',
+  tweet: {
+    __typename: 'Tweet',
+    rest_id: '200',
+    core: { user_results: { result: { core: { name: 'Ada', screen_name: 'ada' }, legacy: {} } } },
+    legacy: {
+      full_text: '@bob Read this https://t.co/abc and see https://t.co/pic https://t.co/qt',
+      display_text_range: [5, 72],
+      created_at: 'Wed Oct 10 20:19:24 +0000 2018',
+      reply_count: 2,
+      retweet_count: 3,
+      favorite_count: 40,
+      in_reply_to_status_id_str: '150',
+      in_reply_to_screen_name: 'bob',
+      quoted_status_permalink: { url: 'https://t.co/qt' },
+      entities: {
+        urls: [
+          { url: 'https://t.co/abc', expanded_url: 'https://example.com/post' },
+          { url: 'https://t.co/self', expanded_url: 'https://x.com/ada/status/1' },
+        ],
+        media: [{ url: 'https://t.co/pic' }],
+      },
+      extended_entities: {
+        media: [
+          { type: 'photo', media_url_https: 'https://pbs.twimg.com/media/A.jpg', ext_alt_text: 'A cat' },
+          { type: 'video', media_url_https: 'https://pbs.twimg.com/thumb/B.jpg' },
+        ],
+      },
+    },
+    quoted_status_result: { result: QUOTED },
+    card: {
+      legacy: {
+        name: 'poll2choice_text_only',
+        binding_values: [
+          { key: 'choice1_label', value: { string_value: 'Yes' } },
+          { key: 'choice1_count', value: { string_value: '3' } },
+          { key: 'choice2_label', value: { string_value: 'No' } },
+          { key: 'choice2_count', value: { string_value: '1' } },
+          { key: 'counts_are_final', value: { boolean_value: true, string_value: 'true' } },
+        ],
+      },
+    },
+  },
+};
+
+const LONG_TWEET = {
+  __typename: 'Tweet',
+  rest_id: '300',
+  core: { user_results: user('Ada', 'ada') },
+  legacy: { full_text: 'Truncated start… https://t.co/more', entities: { urls: [] } },
+  note_tweet: {
+    note_tweet_results: {
+      result: {
+        text: 'The whole long post, with a link https://t.co/long',
+        entity_set: { urls: [{ url: 'https://t.co/long', expanded_url: 'https://example.com/long' }] },
+      },
+    },
+  },
+};
+
+describe('parseGraphqlTweet', () => {
+  it('reads text, links, media and metadata from a GraphQL tweet', () => {
+    const tweet = parseGraphqlTweet(TWEET)!;
+    expect(tweet).toMatchObject({
+      id: '200',
+      url: 'https://x.com/ada/status/200',
+      author: 'Ada · @ada',
+      text: 'Read this https://example.com/post and see',
+      links: ['https://example.com/post'],
+      media: ['https://pbs.twimg.com/media/A.jpg?name=orig', 'https://pbs.twimg.com/thumb/B.jpg', 'https://x.com/ada/status/200'],
+      mediaAlt: { 'https://pbs.twimg.com/media/A.jpg?name=orig': 'A cat' },
+    });
+    expect(tweet.metadata).toEqual({
+      postedAt: '2018-10-10 20:19:24',
+      replyCount: 2,
+      retweetCount: 3,
+      likeCount: 40,
+      inReplyToId: '150',
+      inReplyToAuthor: '@bob',
+      quoted: { id: '100', author: 'Quoted · @quoted', text: 'The original & best' },
+      poll: [{ label: 'Yes', percent: 75 }, { label: 'No', percent: 25 }],
+    });
+    expect(parseGraphqlTweet(TWEET, { videoCapture: false })!.media).not.toContain('https://x.com/ada/status/200');
+  });
+
+  it('uses the full note text of long tweets and skips tombstones', () => {
+    expect(parseGraphqlTweet(LONG_TWEET)).toMatchObject({
+      text: 'The whole long post, with a link https://example.com/long',
+      links: ['https://example.com/long'],
+    });
+    expect(unwrapTweetResult({ __typename: 'TweetTombstone', tombstone: {} })).toBeNull();
+    expect(parseGraphqlTweet({ __typename: 'TweetUnavailable' })).toBeNull();
+  });
+});
+
+describe('GraphQL payloads', () => {
+  let db: ReturnType<typeof initDb>;
+
+  beforeEach(() => {
+    db = initDb(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('are accepted alongside scraped payloads and build the thread from its tweets', () => {
+    const payload = validateBookmarkPayload({ id: '300', graphql: LONG_TWEET, thread: [LONG_TWEET, QUOTED, LONG_TWEET] });
+    expect(payload).toMatchObject({ id: '300', forceExtract: false });
+    expect(payload.thread).toEqual([
+      { tweet_id: '300', text: 'The whole long post, with a link https://example.com/long', media: [], links: ['https://example.com/long'] },
+      { tweet_id: '100', text: 'The original & best', media: [], links: [] },
+    ]);
+
+    const { outcome, jobs } = ingestBookmark(db, validateBookmarkPayload({ graphql: TWEET }));
+    expect(outcome).toBe('created');
+    expect(jobs.map((j) => j.type)).toEqual(['media', 'media', 'media', 'extract']);
+    expect(getBookmark(db, '200')).toMatchObject({ text: 'Read this https://example.com/post and see', like_count: 40, quoted_id: '100' });
+    expect(getMediaUrlsForBookmark(db, '200')).toEqual([]);
+
+    expect(() => validateBookmarkPayload({ graphql: { __typename: 'TweetTombstone' } })).toThrow(BookmarkPayloadError);
+  });
+});
@@ -0,0 +1,841 @@
+// ==UserScript==
+// @name         XMarks — Bookmark Sync
+// @namespace    http://tampermonkey.net/
+// @version      3.10
+// @description  Syncs X bookmarks to local XMarks server — robust auto-scroll, text + link extraction
+// @match        *://x.com/*
+// @match        *://twitter.com/*
+// @run-at       document-start
+// @sandbox      JavaScript
+// @grant        GM_xmlhttpRequest
+// @grant        GM_getValue
+// @grant        GM_setValue
+// @grant        unsafeWindow
+// ==/UserScript==
+
+// Source of the userscript served at /userscript/xmarks.user.js (see lib/userscript.ts).
+// The server adds @connect, @updateURL and @downloadURL to the header and replaces the
+// XMARKS_CONFIG line below with its own URL, API token and feature flags.
+/* global GM_xmlhttpRequest, GM_getValue, GM_setValue, GM_info, unsafeWindow */
+/* exported XMARKS_QUEUE */
+
+var XMARKS_CONFIG = { serverUrl: "http://localhost:3001", apiToken: null, features: { batchUpload: true, threadCapture: true, videoCapture: true, graphqlCapture: true, articleCapture: true } };
+
+// ── Upload Queue Logic ───────────────────────────────────
+// The outbox and retry rules without storage, timers or the page, so that
+// test/unit/userscript.test.ts can run them. Statuses are HTTP codes; null means no
+// response at all and 0 a response that could not be used (e.g. a body that is not JSON).
+var XMARKS_QUEUE = (function() {
+    "use strict";
+
+    var RETRY_BASE_MS = 5000;
+    var RETRY_MAX_MS = 5 * 60 * 1000;
+
+    // Worth trying again later: no usable response, auth not set up yet, rate limits, server errors
+    function isRetryable(status) {
+        return status === null || status === 0 || status === 401 || status === 403 || status === 408 ||
+            status === 429 || status >= 500;
+    }
+
+    // 5 s doubling, capped at 5 minutes; 0 (after a success) starts over
+    function nextRetryDelay(previous) {
+        return previous ? Math.min(previous * 2, RETRY_MAX_MS) : RETRY_BASE_MS;
+    }
+
+    function retryNote(status, delay) {
+        var reason = status === null ? "server unreachable" : status === 0 ? "unreadable response" : "server error " + status;
+        return reason + ", retrying in " + Math.round(delay / 1000) + "s";
+    }
+
+    // null when the text is not JSON
+    function parseJson(text) {
+        try {
+            return JSON.parse(text);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    // Stored outbox: tweet id → bookmark payload. Anything unreadable counts as empty.
+    function parseOutbox(text) {
+        var outbox = parseJson(text);
+        return outbox && typeof outbox === "object" && !Array.isArray(outbox) ? outbox : {};
+    }
+
+    function nextBatch(outbox, size) {
+        return Object.keys(outbox).slice(0, size);
+    }
+
+    function removeFromOutbox(outbox, ids) {
+        ids.forEach(function(id) { delete outbox[id]; });
+        return outbox;
+    }
+
+    return {
+        isRetryable: isRetryable,
+        nextRetryDelay: nextRetryDelay,
+        retryNote: retryNote,
+        parseJson: parseJson,
+        parseOutbox: parseOutbox,
+        nextBatch: nextBatch,
+        removeFromOutbox: removeFromOutbox
+    };
+})();
+
+(function(config, queue) {
+    "use strict";
+
+    let syncing = false;
+    let autoScrolling = false;
+    const processedTweets = new Set();
+    let syncedCount = 0;
+    let counterNote = "";
+    let scrollInterval = null;
+    let stuckCount = 0;
+    let lastScrollY = 0;
+    // X Articles open at /<user>/article/<tweet id>
+    var statusMatch = window.location.pathname.match(/\/(?:status|article)\/(\d+)/);
+    var targetStatusId = statusMatch ? statusMatch[1] : null;
+
+    // ── GraphQL Capture ──────────────────────────────────────
+    // X's web client loads tweets from its GraphQL API (Bookmarks, TweetDetail, timelines).
+    // With graphqlCapture the script keeps the tweets from those responses and sends them
+    // unchanged; the server parses them (lib/xGraphql.ts), which gives the full text of long
+    // tweets, expanded links and original media without depending on X's markup. Tweets
+    // whose response was missed are scraped from the page as before. The script runs at
+    // document-start so the hooks are in place before the first timeline request.
+    var GRAPHQL_RE = /\/i\/api\/graphql\/[^/?]+\/[A-Za-z]+/;
+    var GRAPHQL_MAX_TWEETS = 1000;
+    var graphqlTweets = new Map();
+
+    function rememberTweet(result) {
+        var tweet = result.tweet && !result.legacy ? result.tweet : result;
+        if (typeof tweet.rest_id !== "string" || !tweet.legacy) return;
+        graphqlTweets.delete(tweet.rest_id);
+        graphqlTweets.set(tweet.rest_id, result);
+        // Oldest first; a long sync should not keep every response in memory
+        if (graphqlTweets.size > GRAPHQL_MAX_TWEETS) graphqlTweets.delete(graphqlTweets.keys().next().value);
+    }
+
+    function collectTweets(node) {
+        if (!node || typeof node !== "object") return;
+        if (Array.isArray(node)) {
+            node.forEach(collectTweets);
+            return;
+        }
+        if (node.tweet_results && node.tweet_results.result) rememberTweet(node.tweet_results.result);
+        for (var key in node) {
+            if (key !== "tweet_results") collectTweets(node[key]);
+        }
+    }
+
+    function captureGraphql(text) {
+        try {
+            collectTweets(JSON.parse(text));
+        } catch (e) {
+            // Not JSON (e.g. an error page); nothing to keep
+        }
+    }
+
+    function installGraphqlCapture() {
+        var page = typeof unsafeWindow !== "undefined" ? unsafeWindow : window;
+
+        var originalFetch = page.fetch;
+        page.fetch = function(input) {
+            var url = input && typeof input === "object" && input.url ? input.url : String(input);
+            var response = originalFetch.apply(this, arguments);
+            if (GRAPHQL_RE.test(url)) {
+                response
+                    .then(function(res) { return res.clone().text(); })
+                    .then(captureGraphql)
+                    .catch(function() {});
+            }
+            return response;
+        };
+
+        var originalOpen = page.XMLHttpRequest.prototype.open;
+        page.XMLHttpRequest.prototype.open = function(method, url) {
+            if (GRAPHQL_RE.test(String(url))) {
+                this.addEventListener("load", function() {
+                    if (this.responseType === "json") collectTweets(this.response);
+                    else if (this.responseType === "" || this.responseType === "text") captureGraphql(this.responseText);
+                });
+            }
+            return originalOpen.apply(this, arguments);
+        };
+    }
+
+    // The tweets of the same author in the same conversation, oldest first
+    function capturedThread(result) {
+        var tweet = result.tweet && !result.legacy ? result.tweet : result;
+        if (!tweet.legacy.conversation_id_str) return [result];
+        var thread = [];
+        graphqlTweets.forEach(function(other) {
+            var t = other.tweet && !other.legacy ? other.tweet : other;
+            if (t.legacy.conversation_id_str === tweet.legacy.conversation_id_str &&
+                t.legacy.user_id_str === tweet.legacy.user_id_str) {
+                thread.push({ id: t.rest_id, result: other });
+            }
+        });
+        thread.sort(function(a, b) {
+            return a.id.length - b.id.length || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+        });
+        return thread.map(function(entry) { return entry.result; });
+    }
+
+    if (config.features.graphqlCapture) installGraphqlCapture();
+
+    // ── X Articles ───────────────────────────────────────────
+    // The body of a long-form X Article, as rendered on its page. Sent alongside the tweet so
+    // the server can keep it (headings, lists, code, images) when no GraphQL response with
+    // the article's content was captured. Null when the page shows no article.
+    function readArticle() {
+        var body = document.querySelector('[data-testid="twitterArticleRichTextView"]');
+        if (!body) return null;
+        var titleEl = document.querySelector('[data-testid="twitter-article-title"]');
+        return {
+            title: titleEl ? (titleEl.innerText || "").trim() : "",
+            html: body.innerHTML,
+            url: /\/article\/\d+/.test(window.location.pathname) ? window.location.origin + window.location.pathname : null
+        };
+    }
+
+    // ── Floating Buttons Container ───────────────────────────
+    const container = document.createElement("div");
+    container.style.cssText = "position:fixed;bottom:20px;right:20px;z-index:99999;display:flex;flex-direction:column;gap:10px;font-family:-apple-system,BlinkMacSystemFont,sans-serif;";
+    // At document-start there is no body yet
+    if (document.body) document.body.appendChild(container);
+    else document.addEventListener("DOMContentLoaded", function() { document.body.appendChild(container); });
+
+    // ── Sync Button ──────────────────────────────────────────
+    const syncBtn = document.createElement("button");
+    syncBtn.innerText = "🔴 Start Sync";
+    syncBtn.style.cssText = "padding:12px 20px;background:#6366f1;color:white;border:none;border-radius:50px;cursor:pointer;font-weight:700;font-size:13px;box-shadow:0 4px 16px rgba(99,102,241,0.4);transition:all 0.2s ease;min-width:180px;";
+    container.appendChild(syncBtn);
+
+    // ── Auto-Scroll Button ───────────────────────────────────
+    const scrollBtn = document.createElement("button");
+    scrollBtn.innerText = "⏬ Auto-Scroll";
+    scrollBtn.style.cssText = "padding:12px 20px;background:#374151;color:white;border:none;border-radius:50px;cursor:pointer;font-weight:700;font-size:13px;box-shadow:0 4px 16px rgba(0,0,0,0.3);transition:all 0.2s ease;min-width:180px;";
+    container.appendChild(scrollBtn);
+
+    // ── Status Counter ───────────────────────────────────────
+    const counter = document.createElement("div");
+    counter.style.cssText = "padding:8px 16px;background:rgba(0,0,0,0.8);color:#a5b4fc;border-radius:50px;font-size:12px;font-weight:600;text-align:center;backdrop-filter:blur(4px);";
+    container.appendChild(counter);
+
+    function renderCounter() {
+        var pending = outboxSize();
+        counter.innerText = syncedCount + " synced" +
+            (pending > 0 ? " · pending " + pending : "") +
+            (counterNote ? " (" + counterNote + ")" : "");
+    }
+
+    // ── Server Requests ──────────────────────────────────────
+    var scriptVersion = typeof GM_info !== "undefined" ? GM_info.script.version : "";
+
+    // onerror is called with null status for network failures and timeouts
+    function postJson(path, body, onload, onerror) {
+        var headers = { "Content-Type": "application/json", "X-XMarks-Userscript": scriptVersion };
+        if (config.apiToken) headers.Authorization = "Bearer " + config.apiToken;
+        GM_xmlhttpRequest({
+            method: "POST",
+            url: config.serverUrl + path,
+            data: JSON.stringify(body),
+            headers: headers,
+            timeout: 30000,
+            onload: onload,
+            onerror: function(err) {
+                console.error("[XMarks] Request to " + path + " failed:", err);
+                onerror(null);
+            },
+            ontimeout: function() {
+                console.error("[XMarks] Request to " + path + " timed out");
+                onerror(null);
+            }
+        });
+    }
+
+    // ── Outbox ───────────────────────────────────────────────
+    // Every scraped tweet is stored (GM_setValue, shared by all x.com tabs) until the server
+    // has acknowledged it, so nothing is lost while the server is down or the tab closes.
+    // Reads and writes go through storage each time so tabs do not overwrite each other.
+    var OUTBOX_KEY = "xmarksOutbox";
+
+    function readOutbox() {
+        return queue.parseOutbox(GM_getValue(OUTBOX_KEY, "{}"));
+    }
+
+    function updateOutbox(change) {
+        var outbox = readOutbox();
+        change(outbox);
+        GM_setValue(OUTBOX_KEY, JSON.stringify(outbox));
+    }
+
+    function outboxSize() {
+        return Object.keys(readOutbox()).length;
+    }
+
+    // ── Upload with Retry ────────────────────────────────────
+    // Tweets are sent 25 at a time (or one per request without batchUpload). When the
+    // server cannot be reached, sending pauses and is retried with backoff (queue.nextRetryDelay),
+    // reset by the next successful request.
+    var BATCH_SIZE = 25;
+    var FLUSH_DELAY_MS = 2000;
+    var flushTimer = null;
+    var retryTimer = null;
+    var retryDelay = 0;
+    var sending = false;
+
+    function queueBookmark(bookmark) {
+        updateOutbox(function(outbox) { outbox[bookmark.id] = bookmark; });
+        renderCounter();
+        if (outboxSize() >= BATCH_SIZE) {
+            flushOutbox();
+        } else if (!flushTimer) {
+            flushTimer = setTimeout(flushOutbox, FLUSH_DELAY_MS);
+        }
+    }
+
+    function acknowledge(ids, saved) {
+        updateOutbox(function(outbox) { queue.removeFromOutbox(outbox, ids); });
+        syncedCount += saved;
+        retryDelay = 0;
+        counterNote = "";
+        renderCounter();
+    }
+
+    function scheduleRetry(status) {
+        retryDelay = queue.nextRetryDelay(retryDelay);
+        counterNote = queue.retryNote(status, retryDelay);
+        renderCounter();
+        retryTimer = setTimeout(function() {
+            retryTimer = null;
+            flushOutbox();
+        }, retryDelay);
+    }
+
+    function flushOutbox() {
+        if (flushTimer) {
+            clearTimeout(flushTimer);
+            flushTimer = null;
+        }
+        if (sending || retryTimer) return;
+        var outbox = readOutbox();
+        var ids = queue.nextBatch(outbox, config.features.batchUpload ? BATCH_SIZE : 1);
+        if (ids.length === 0) {
+            sendSyncSession();
+            return;
+        }
+        sending = true;
+
+        function finished(status, saved) {
+            sending = false;
+            if (queue.isRetryable(status)) {
+                scheduleRetry(status);
+                return;
+            }
+            if (status < 200 || status >= 300) {
+                // The server refused these for good (invalid payload): drop them
+                console.error("[XMarks] Dropping " + ids.length + " bookmark(s) the server rejected:", status);
+            }
+            acknowledge(ids, saved);
+            flushOutbox();
+        }
+
+        if (!config.features.batchUpload) {
+            postJson("/api/bookmarks", outbox[ids[0]], function(res) {
+                if (res.status >= 300) console.error("[XMarks] Save failed:", res.status, res.responseText);
+                finished(res.status, res.status < 300 ? 1 : 0);
+            }, finished);
+            return;
+        }
+        postJson("/api/bookmarks/batch", { bookmarks: ids.map(function(id) { return outbox[id]; }) }, function(res) {
+            if (res.status !== 200) {
+                console.error("[XMarks] Batch failed:", res.status, res.responseText);
+                finished(res.status, 0);
+                return;
+            }
+            var data = queue.parseJson(res.responseText);
+            if (!data || !Array.isArray(data.results)) {
+                // Keep the batch and try again, as if the server had not answered
+                console.error("[XMarks] Unreadable batch response:", res.responseText);
+                finished(0, 0);
+                return;
+            }
+            console.log("[XMarks] Saved batch of " + ids.length + ":", data.counts);
+            var saved = 0;
+            data.results.forEach(function(r) {
+                if (r.result === "rejected") console.warn("[XMarks] Rejected:", r.id, r.error);
+                else saved++;
+            });
+            finished(200, saved);
+        }, finished);
+    }
+
+    // ── Sync Sessions ────────────────────────────────────────
+    // A sync on x.com/i/bookmarks is reported with every tweet id it saw (POST /api/sync-sessions).
+    // When it started at the top of the page and auto-scroll reached the end it is complete, and
+    // the server flags saved bookmarks it did not see as removed on X. The report waits in
+    // storage until the outbox is empty, so the server has every bookmark of the pass first.
+    var SESSION_KEY = "xmarksSyncSession";
+    var sessionStartedAt = null;
+    var sessionFromTop = false;
+    var sessionIds = new Set();
+
+    function onBookmarksPage() {
+        return /^\/i\/bookmarks\/?$/.test(window.location.pathname);
+    }
+
+    function readSyncSession() {
+        try {
+            return JSON.parse(GM_getValue(SESSION_KEY, "null"));
+        } catch (e) {
+            return null;
+        }
+    }
+
+    function startSyncSession() {
+        sessionIds.clear();
+        sessionStartedAt = onBookmarksPage() ? new Date().toISOString() : null;
+        sessionFromTop = window.scrollY < 100;
+    }
+
+    function endSyncSession(reachedEnd) {
+        if (!sessionStartedAt) return;
+        var report = {
+            startedAt: sessionStartedAt,
+            finishedAt: new Date().toISOString(),
+            // Leaving the bookmarks page (X navigates without reloading) makes the pass partial
+            complete: reachedEnd && sessionFromTop && onBookmarksPage(),
+            ids: Array.from(sessionIds)
+        };
+        sessionStartedAt = null;
+        sessionIds.clear();
+        if (report.ids.length === 0) return;
+        GM_setValue(SESSION_KEY, JSON.stringify(report));
+        flushOutbox();
+    }
+
+    function sendSyncSession() {
+        var report = readSyncSession();
+        if (!report) return;
+        sending = true;
+
+        function finished(status, removed) {
+            sending = false;
+            if (queue.isRetryable(status)) {
+                scheduleRetry(status);
+                return;
+            }
+            if (status !== 200) console.error("[XMarks] Dropping the sync session the server rejected:", status);
+            // Another tab may have stored a newer session meanwhile
+            var current = readSyncSession();
+            if (current && current.finishedAt === report.finishedAt) GM_setValue(SESSION_KEY, "null");
+            retryDelay = 0;
+            counterNote = removed > 0 ? removed + " removed on X" : "";
+            renderCounter();
+        }
+
+        postJson("/api/sync-sessions", report, function(res) {
+            if (res.status !== 200) {
+                console.error("[XMarks] Sync session failed:", res.status, res.responseText);
+                finished(res.status, 0);
+                return;
+            }
+            var data = queue.parseJson(res.responseText);
+            if (!data || !Array.isArray(data.removed)) {
+                console.error("[XMarks] Unreadable sync session response:", res.responseText);
+                finished(0, 0);
+                return;
+            }
+            console.log("[XMarks] Sync session recorded:", data.session);
+            finished(200, data.removed.length);
+        }, finished);
+    }
+
+    // Send what is still buffered before the tab goes away
+    window.addEventListener("pagehide", function() {
+        endSyncSession(false);
+        flushOutbox();
+    });
+
+    // Anything left over from an earlier visit goes out as soon as the page loads
+    renderCounter();
+    if (outboxSize() > 0 || readSyncSession()) setTimeout(flushOutbox, FLUSH_DELAY_MS);
+
+    // ── Sync Toggle ──────────────────────────────────────────
+    syncBtn.onclick = function() {
+        syncing = !syncing;
+        if (syncing) {
+            syncBtn.innerText = "🟢 Syncing...";
+            syncBtn.style.background = "#22c55e";
+            syncBtn.style.boxShadow = "0 4px 16px rgba(34,197,94,0.4)";
+            startSyncSession();
+            startObserver();
+        } else {
+            syncBtn.innerText = "🔴 Start Sync";
+            syncBtn.style.background = "#6366f1";
+            syncBtn.style.boxShadow = "0 4px 16px rgba(99,102,241,0.4)";
+            endSyncSession(false);
+            flushOutbox();
+        }
+    };
+
+    // ── Auto-Scroll Toggle ───────────────────────────────────
+    scrollBtn.onclick = function() {
+        autoScrolling = !autoScrolling;
+        if (autoScrolling) {
+            scrollBtn.innerText = "⏸️ Stop Scroll";
+            scrollBtn.style.background = "#f59e0b";
+            scrollBtn.style.boxShadow = "0 4px 16px rgba(245,158,11,0.4)";
+            stuckCount = 0;
+            lastScrollY = window.scrollY;
+            startAutoScroll();
+        } else {
+            scrollBtn.innerText = "⏬ Auto-Scroll";
+            scrollBtn.style.background = "#374151";
+            scrollBtn.style.boxShadow = "0 4px 16px rgba(0,0,0,0.3)";
+            stopAutoScroll();
+        }
+    };
+
+    // ── Auto-Scroll Engine (robust) ──────────────────────────
+    function startAutoScroll() {
+        scrollInterval = setInterval(function() {
+            if (!autoScrolling) return;
+
+            // Pause any playing videos to prevent scroll blocking
+            var videos = document.querySelectorAll("video");
+            videos.forEach(function(v) { try { v.pause(); } catch(e) {} });
+
+            // Scroll down
+            window.scrollBy({ top: 600, behavior: "smooth" });
+
+            // Check if we actually moved
+            setTimeout(function() {
+                var currentY = window.scrollY;
+                if (Math.abs(currentY - lastScrollY) < 50) {
+                    stuckCount++;
+                    if (!retryTimer) {
+                        counterNote = "loading...";
+                        renderCounter();
+                    }
+
+                    // If stuck for 15+ cycles (~22.5s), we have likely reached the end
+                    if (stuckCount >= 15) {
+                        autoScrolling = false;
+                        scrollBtn.innerText = "✅ Done!";
+                        scrollBtn.style.background = "#22c55e";
+                        counterNote = "complete";
+                        renderCounter();
+                        stopAutoScroll();
+                        if (syncing) endSyncSession(true);
+                        return;
+                    }
+
+                    // Try a bigger scroll to get past sticky elements
+                    window.scrollBy({ top: 1200, behavior: "instant" });
+                } else {
+                    stuckCount = 0;
+                    if (!retryTimer) {
+                        counterNote = "";
+                        renderCounter();
+                    }
+                }
+                lastScrollY = currentY;
+            }, 800);
+        }, 1500);
+    }
+
+    function stopAutoScroll() {
+        if (scrollInterval) {
+            clearInterval(scrollInterval);
+            scrollInterval = null;
+        }
+    }
+
+    // ── Tweet Metadata ───────────────────────────────────────
+    // X only shows a count when it is above zero, so a button without a number means 0;
+    // a missing button (e.g. on a promoted card) means the count is unknown.
+    function readCount(tweet, testIds) {
+        for (var i = 0; i < testIds.length; i++) {
+            var button = tweet.querySelector('[data-testid="' + testIds[i] + '"]');
+            if (!button) continue;
+            var match = (button.getAttribute("aria-label") || "").replace(/,/g, "").match(/\d+/);
+            return match ? parseInt(match[0], 10) : 0;
+        }
+        return null;
+    }
+
+    function handleOf(author) {
+        var match = author.match(/@[A-Za-z0-9_]+/);
+        return match ? match[0] : null;
+    }
+
+    function readQuoted(quotedTweet) {
+        if (!quotedTweet) return null;
+        var link = quotedTweet.querySelector('a[href*="/status/"]');
+        var idMatch = link ? link.href.match(/\/status\/(\d+)/) : null;
+        var authorEl = quotedTweet.querySelector('[data-testid="User-Name"]');
+        var textEl = quotedTweet.querySelector('[data-testid="tweetText"]');
+        return {
+            id: idMatch ? idMatch[1] : null,
+            author: authorEl ? authorEl.innerText.replace(/\n/g, " · ") : "",
+            text: textEl ? textEl.innerText : ""
+        };
+    }
+
+    // Poll options are list items or radio buttons; once voting ends each carries a "NN%"
+    function readPoll(tweet) {
+        var card = tweet.querySelector('[data-testid="cardPoll"]');
+        if (!card) return [];
+        var items = card.querySelectorAll('[role="radio"], li');
+        return Array.from(items).map(function(item) {
+            var lines = (item.innerText || "").split("\n").map(function(l) { return l.trim(); }).filter(Boolean);
+            var percent = null;
+            lines = lines.filter(function(line) {
+                var m = line.match(/^(\d+(?:\.\d+)?)%$/);
+                if (m) percent = parseFloat(m[1]);
+                return !m;
+            });
+            return { label: lines.join(" "), percent: percent };
+        }).filter(function(option) { return option.label; });
+    }
+
+    // One post of a thread on a status page: its id (from the timestamp link), text, photos and outbound links
+    function readThreadPost(tw) {
+        var timeEl = tw.querySelector("time");
+        var anchor = timeEl ? timeEl.closest("a") : null;
+        var match = anchor ? anchor.href.match(/\/status\/(\d+)/) : null;
+        var textEl = tw.querySelector('[data-testid="tweetText"]') || tw.querySelector("[lang]");
+        var media = Array.from(tw.querySelectorAll('[data-testid="tweetPhoto"] img')).map(function(img) {
+            return img.src.replace(/&name=small|&name=medium/, "&name=large");
+        });
+        var links = [];
+        if (textEl) {
+            textEl.querySelectorAll("a[href]").forEach(function(a) {
+                var lower = a.href.toLowerCase();
+                var isInternalX = lower.indexOf("https://x.com/") === 0 || lower.indexOf("https://twitter.com/") === 0;
+                if (a.href.indexOf("/hashtag/") === -1 && !isInternalX && links.indexOf(a.href.split("?")[0]) === -1) {
+                    links.push(a.href.split("?")[0]);
+                }
+            });
+        }
+        return {
+            id: match ? match[1] : null,
+            text: textEl ? (textEl.innerText || "").trim() : "",
+            media: media,
+            links: links
+        };
+    }
+
+    // "Replying to @someone" under the author line. On a status page the tweet just above
+    // the target is its parent, which also gives the id.
+    function readReplyTo(tweet, tweetId) {
+        var author = null;
+        var divs = tweet.querySelectorAll("div");
+        for (var i = 0; i < divs.length; i++) {
+            if (divs[i].childElementCount <= 3 && /^Replying to\s/.test(divs[i].innerText || "")) {
+                author = handleOf(divs[i].innerText);
+                break;
+            }
+        }
+        var id = null;
+        if (tweetId === targetStatusId) {
+            var all = Array.from(document.querySelectorAll('[data-testid="tweet"]'));
+            var parent = all[all.indexOf(tweet) - 1];
+            if (parent) {
+                var timeEl = parent.querySelector("time");
+                var anchor = timeEl ? timeEl.closest("a") : null;
+                var match = anchor ? anchor.href.match(/\/status\/(\d+)/) : null;
+                if (match) id = match[1];
+                var parentAuthorEl = parent.querySelector('[data-testid="User-Name"]');
+                if (!author && parentAuthorEl) author = handleOf(parentAuthorEl.innerText);
+            }
+        }
+        return author || id ? { id: id, author: author } : null;
+    }
+
+    // ── Scraping Engine ──────────────────────────────────────
+    function startObserver() {
+        setInterval(function() {
+            if (!syncing) return;
+            // Works on any X page — timeline, bookmarks, search, individual tweets
+
+            var tweets = document.querySelectorAll('[data-testid="tweet"]');
+
+            tweets.forEach(function(tweet) {
+                // ── Get tweet ID ──────────────────────────────
+                var allLinks = tweet.querySelectorAll('a[href*="/status/"]');
+                var tweetUrl = null;
+                var tweetId = null;
+
+                for (var i = 0; i < allLinks.length; i++) {
+                    var href = allLinks[i].href;
+                    var match = href.match(/\/status\/(\d+)/);
+                    if (match) {
+                        tweetUrl = href;
+                        tweetId = match[1];
+                        break;
+                    }
+                }
+
+                if (!tweetId) return;
+                if (targetStatusId && tweetId !== targetStatusId) return;
+                if (sessionStartedAt && onBookmarksPage()) sessionIds.add(tweetId);
+                if (processedTweets.has(tweetId)) return;
+                processedTweets.add(tweetId);
+
+                // ── Captured from X's API: send the tweet as it is ─
+                var captured = graphqlTweets.get(tweetId);
+                if (captured) {
+                    var bookmark = { id: tweetId, graphql: captured, videoCapture: config.features.videoCapture };
+                    if (targetStatusId && config.features.threadCapture) bookmark.thread = capturedThread(captured);
+                    if (tweetId === targetStatusId && config.features.articleCapture) bookmark.article = readArticle();
+                    queueBookmark(bookmark);
+                    return;
+                }
+
+                // ── Author ────────────────────────────────────
+                var authorEl = tweet.querySelector('[data-testid="User-Name"]');
+                var author = authorEl ? authorEl.innerText.replace(/\n/g, " · ") : "Unknown";
+
+                // ── Text (multiple fallback strategies) ───────
+                var text = "";
+
+                // Strategy 1: data-testid="tweetText"
+                var textEl = tweet.querySelector('[data-testid="tweetText"]');
+                if (textEl) {
+                    text = textEl.innerText || "";
+                }
+
+                // Strategy 2: If no text, look for [lang] element
+                if (!text) {
+                    var altText = tweet.querySelector("[lang]");
+                    if (altText && altText.closest('[data-testid="tweet"]') === tweet) {
+                        text = altText.innerText || "";
+                    }
+                }
+
+                // ── Thread: on a status page, the visible same-author posts in order ─
+                var thread = [];
+                if (targetStatusId && config.features.threadCapture) {
+                    var handleMatch = author.match(/@[A-Za-z0-9_]+/);
+                    var targetHandle = handleMatch ? handleMatch[0].toLowerCase() : null;
+                    var seen = new Set();
+                    document.querySelectorAll('[data-testid="tweet"]').forEach(function(tw) {
+                        var twAuthorEl = tw.querySelector('[data-testid="User-Name"]');
+                        var twAuthor = twAuthorEl ? twAuthorEl.innerText.replace(/\n/g, " · ") : "";
+                        if (!targetHandle || twAuthor.toLowerCase().indexOf(targetHandle) === -1) return;
+                        var post = readThreadPost(tw);
+                        var key = post.id || post.text;
+                        if ((post.text || post.media.length > 0) && !seen.has(key)) {
+                            seen.add(key);
+                            thread.push(post);
+                        }
+                    });
+                }
+
+                // ── Media ─────────────────────────────────────
+                var mediaEls = tweet.querySelectorAll('[data-testid="tweetPhoto"] img');
+                var mediaAlt = {};
+                var media = Array.from(mediaEls).map(function(img) {
+                    var src = img.src.replace(/&name=small|&name=medium/, "&name=large");
+                    // X uses "Image" when the author wrote no description
+                    if (img.alt && img.alt !== "Image") mediaAlt[src] = img.alt;
+                    return src;
+                });
+
+                // Also capture video thumbnails and mark tweet as having video for transcription
+                var videoEls = tweet.querySelectorAll("video");
+                videoEls.forEach(function(v) {
+                    if (v.poster) media.push(v.poster);
+                });
+                if (config.features.videoCapture && videoEls.length > 0 && tweetUrl && media.indexOf(tweetUrl) === -1) {
+                    media.push(tweetUrl);
+                }
+
+                // ── Links (comprehensive extraction) ──────────
+                var tweetLinks = [];
+
+                // Links inside tweet text
+                if (textEl) {
+                    textEl.querySelectorAll("a[href]").forEach(function(a) {
+                        var h = a.href;
+                        var lower = h ? h.toLowerCase() : "";
+                        var clean = h ? h.split("?")[0] : "";
+                        var isInternalX = lower.indexOf("https://x.com/") === 0 || lower.indexOf("https://twitter.com/") === 0;
+                        if (h && h.indexOf("/hashtag/") === -1 && !isInternalX) {
+                            tweetLinks.push(clean);
+                        }
+                    });
+                }
+
+                // Card links (article preview cards)
+                var cardLinks = tweet.querySelectorAll('[data-testid="card.wrapper"] a[href]');
+                cardLinks.forEach(function(a) {
+                    var h = a.href;
+                    var lower = h ? h.toLowerCase() : "";
+                    var clean = h ? h.split("?")[0] : "";
+                    var isInternalX = lower.indexOf("https://x.com/") === 0 || lower.indexOf("https://twitter.com/") === 0;
+                    if (h && !isInternalX) tweetLinks.push(clean);
+                });
+
+                // Links in quoted tweets
+                var quotedTweet = tweet.querySelector('[data-testid="quoteTweet"]');
+                var quoted = readQuoted(quotedTweet);
+                if (quotedTweet) {
+                    quotedTweet.querySelectorAll("a[href]").forEach(function(a) {
+                        var h = a.href;
+                        var lower = h ? h.toLowerCase() : "";
+                        var clean = h ? h.split("?")[0] : "";
+                        var isInternalX = lower.indexOf("https://x.com/") === 0 || lower.indexOf("https://twitter.com/") === 0;
+                        if (h && h.indexOf("http") === 0 && h.indexOf("/hashtag/") === -1 && !isInternalX) {
+                            tweetLinks.push(clean);
+                        }
+                    });
+                }
+
+                // All t.co links in the tweet
+                tweet.querySelectorAll('a[href^="https://t.co"]').forEach(function(a) {
+                    tweetLinks.push(a.href.split("?")[0]);
+                });
+
+                // Deduplicate
+                var uniqueLinks = Array.from(new Set(tweetLinks));
+
+                // ── Metadata ──────────────────────────────────
+                // The first <time> outside the quoted tweet is when this tweet was posted
+                var postedAt = null;
+                var times = tweet.querySelectorAll("time[datetime]");
+                for (var t = 0; t < times.length; t++) {
+                    if (!quotedTweet || !quotedTweet.contains(times[t])) {
+                        postedAt = times[t].getAttribute("datetime");
+                        break;
+                    }
+                }
+
+                // ── Send to server (via the outbox) ───────────
+                queueBookmark({
+                    id: tweetId,
+                    url: tweetUrl,
+                    author: author,
+                    text: text,
+                    thread: thread,
+                    media: media,
+                    mediaAlt: mediaAlt,
+                    links: uniqueLinks,
+                    postedAt: postedAt,
+                    replyCount: readCount(tweet, ["reply"]),
+                    retweetCount: readCount(tweet, ["retweet", "unretweet"]),
+                    likeCount: readCount(tweet, ["like", "unlike"]),
+                    inReplyTo: readReplyTo(tweet, tweetId),
+                    quoted: quoted,
+                    poll: readPoll(tweet),
+                    article: tweetId === targetStatusId && config.features.articleCapture ? readArticle() : null
+                });
+            });
+        }, 1000);
+    }
+})(XMARKS_CONFIG, XMARKS_QUEUE);
@@ -18,6 +18,10 @@ export default defineConfig({
                 target: 'http://localhost:3001',
                 changeOrigin: true,
             },
+            '/userscript': {
+                target: 'http://localhost:3001',
+                changeOrigin: true,
+            },
         },
     },
 });